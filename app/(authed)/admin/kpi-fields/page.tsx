@@ -3,8 +3,11 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { MEETING_METRICS, validateFormulas } from "@/lib/kpiFormula";
+import { KPI_INPUT_TYPES, RANGED_TYPES } from "@/lib/kpiValidation";
+import { fetchKpiRoles, type KpiFieldRole, type KpiInputType as InputType } from "@/lib/kpi";
 
-type InputType = "number" | "text";
+type Format = "number" | "percent";
 
 type FieldRow = {
   id: string;
@@ -13,8 +16,45 @@ type FieldRow = {
   active: boolean;
   sort_order: number | null;
   input_type: InputType | null;
+  formula: string | null;
+  format: Format | null;
+  required: boolean | null;
+  min_value: number | null;
+  max_value: number | null;
+  help_text: string | null;
+  options: string[] | null;
+  roles: KpiFieldRole[] | null;
 };
 
+function parseOptions(s: string) {
+  return [...new Set(s.split(",").map((o) => o.trim()).filter(Boolean))];
+}
+
+function numOrNull(s: string) {
+  return s.trim() === "" || !Number.isFinite(Number(s)) ? null : Number(s);
+}
+
+/** Rule problems the DB would reject anyway, worded for the admin */
+function rulesError(f: Pick<FieldRow, "key" | "input_type" | "min_value" | "max_value" | "options">) {
+  if (f.input_type === "select" && (f.options ?? []).length === 0) return `${f.key}: add at least one option.`;
+  if (f.min_value != null && f.max_value != null && f.min_value > f.max_value) {
+    return `${f.key}: min can't be more than max.`;
+  }
+  return null;
+}
+
+function TypeOptions() {
+  return (
+    <>
+      {KPI_INPUT_TYPES.map((t) => (
+        <option key={t.value} value={t.value}>
+          {t.label}
+        </option>
+      ))}
+    </>
+  );
+}
+
 export default function AdminKpiFieldsPage() {
   const router = useRouter();
 
@@ -23,10 +63,14 @@ export default function AdminKpiFieldsPage() {
   const [pageMsg, setPageMsg] = useState<string | null>(null);
 
   const [fields, setFields] = useState<FieldRow[]>([]);
+  const [profileRoles, setProfileRoles] = useState<string[]>([]);
   const [newKey, setNewKey] = useState("");
   const [newLabel, setNewLabel] = useState("");
   const [newSort, setNewSort] = useState<number>(100);
   const [newInputType, setNewInputType] = useState<InputType>("number");
+  const [newFormula, setNewFormula] = useState("");
+  const [newFormat, setNewFormat] = useState<Format>("number");
+  const [newOptions, setNewOptions] = useState("");
 
   async function requireAdmin() {
     const { data: sessionData } = await supabase.auth.getSession();
@@ -60,7 +104,9 @@ export default function AdminKpiFieldsPage() {
     setPageMsg(null);
     const { data, error } = await supabase
       .from("kpi_fields")
-      .select("id, key, label, active, sort_order, input_type")
+      .select(
+        "id, key, label, active, sort_order, input_type, formula, format, required, min_value, max_value, help_text, options, roles:kpi_field_roles(role, sort_order)"
+      )
       .order("sort_order", { ascending: true })
       .order("key", { ascending: true });
 
@@ -76,19 +122,49 @@ export default function AdminKpiFieldsPage() {
       const ok = await requireAdmin();
       if (!ok) return;
       await loadFields();
+      try {
+        setProfileRoles(await fetchKpiRoles());
+      } catch (e: unknown) {
+        setPageMsg(e instanceof Error ? e.message : "Failed to load roles.");
+      }
       setLoading(false);
     }
     init();
   }, [router]);
 
+  // Roles people have, plus any still assigned to a field
+  const roleChoices = [
+    ...new Set([...profileRoles, ...fields.flatMap((f) => (f.roles ?? []).map((r) => r.role))]),
+  ].sort();
+
   function updateField(id: string, patch: Partial<FieldRow>) {
     setFields((prev) => prev.map((f) => (f.id === id ? { ...f, ...patch } : f)));
   }
 
+  function toggleRole(f: FieldRow, role: string) {
+    const roles = f.roles ?? [];
+    updateField(f.id, {
+      roles: roles.some((r) => r.role === role)
+        ? roles.filter((r) => r.role !== role)
+        : [...roles, { role, sort_order: f.sort_order ?? 100 }],
+    });
+  }
+
+  function setRoleOrder(f: FieldRow, role: string, sort_order: number) {
+    updateField(f.id, { roles: (f.roles ?? []).map((r) => (r.role === role ? { ...r, sort_order } : r)) });
+  }
+
   async function saveAll() {
-    setSaving(true);
     setPageMsg(null);
 
+    const formulaErr = validateFormulas(fields) ?? fields.map(rulesError).find(Boolean);
+    if (formulaErr) {
+      setPageMsg(formulaErr);
+      return;
+    }
+
+    setSaving(true);
+
     try {
       const payload = fields.map((f) => ({
         id: f.id,
@@ -96,6 +172,13 @@ export default function AdminKpiFieldsPage() {
         active: f.active,
         sort_order: f.sort_order ?? 100,
         input_type: (f.input_type ?? "number") as InputType,
+        formula: f.input_type === "formula" ? (f.formula ?? "").trim() : null,
+        format: (f.format ?? "number") as Format,
+        required: f.input_type === "formula" ? false : !!f.required,
+        min_value: RANGED_TYPES.has(f.input_type ?? "number") ? f.min_value : null,
+        max_value: RANGED_TYPES.has(f.input_type ?? "number") ? f.max_value : null,
+        help_text: f.help_text?.trim() || null,
+        options: f.input_type === "select" ? f.options ?? [] : [],
       }));
 
       const { error } = await supabase.from("kpi_fields").upsert(payload, {
@@ -104,6 +187,20 @@ export default function AdminKpiFieldsPage() {
 
       if (error) throw new Error(error.message);
 
+      // Role assignments are replaced wholesale, in one transaction; no rows = every role
+      const roleRows = fields.flatMap((f) =>
+        (f.roles ?? []).map((r) => ({
+          field_id: f.id,
+          role: r.role,
+          sort_order: Number.isFinite(r.sort_order) ? r.sort_order : 100,
+        }))
+      );
+      const { error: roleErr } = await supabase.rpc("set_kpi_field_roles", {
+        p_field_ids: fields.map((f) => f.id),
+        p_rows: roleRows,
+      });
+      if (roleErr) throw new Error(roleErr.message);
+
       setPageMsg("Saved ✅");
       setTimeout(() => setPageMsg(null), 1500);
       await loadFields();
@@ -123,6 +220,21 @@ export default function AdminKpiFieldsPage() {
       return;
     }
 
+    if (fields.some((f) => f.key === key)) {
+      setPageMsg(`A field with key "${key}" already exists.`);
+      return;
+    }
+
+    const formula = newInputType === "formula" ? newFormula.trim() : null;
+    const options = newInputType === "select" ? parseOptions(newOptions) : [];
+    const formulaErr =
+      validateFormulas([...fields, { key, input_type: newInputType, formula }]) ??
+      rulesError({ key, input_type: newInputType, min_value: null, max_value: null, options });
+    if (formulaErr) {
+      setPageMsg(formulaErr);
+      return;
+    }
+
     setSaving(true);
     try {
       const { error } = await supabase.from("kpi_fields").insert({
@@ -131,6 +243,9 @@ export default function AdminKpiFieldsPage() {
         active: true,
         sort_order: Number.isFinite(newSort) ? newSort : 100,
         input_type: newInputType,
+        formula,
+        format: newFormat,
+        options,
       });
 
       if (error) throw new Error(error.message);
@@ -139,6 +254,9 @@ export default function AdminKpiFieldsPage() {
       setNewLabel("");
       setNewSort(100);
       setNewInputType("number");
+      setNewFormula("");
+      setNewFormat("number");
+      setNewOptions("");
 
       await loadFields();
       setPageMsg("Field added ✅");
@@ -201,8 +319,7 @@ export default function AdminKpiFieldsPage() {
               value={newInputType}
               onChange={(e) => setNewInputType(e.target.value as InputType)}
             >
-              <option value="number">number</option>
-              <option value="text">text</option>
+              <TypeOptions />
             </select>
             <button
               onClick={addField}
@@ -212,8 +329,44 @@ export default function AdminKpiFieldsPage() {
               Add
             </button>
           </div>
+          {newInputType === "formula" ? (
+            <div className="grid gap-3 md:grid-cols-5 mt-3">
+              <input
+                className="md:col-span-4 rounded-xl border px-3 py-2 text-sm font-mono"
+                placeholder="formula (e.g. appointments_booked * show_rate / 100)"
+                value={newFormula}
+                onChange={(e) => setNewFormula(e.target.value)}
+              />
+              <select
+                className="rounded-xl border px-3 py-2 text-sm bg-white"
+                value={newFormat}
+                onChange={(e) => setNewFormat(e.target.value as Format)}
+              >
+                <option value="number">shown as number</option>
+                <option value="percent">shown as %</option>
+              </select>
+            </div>
+          ) : null}
+          {newInputType === "select" ? (
+            <input
+              className="mt-3 w-full rounded-xl border px-3 py-2 text-sm"
+              placeholder="options, comma separated (e.g. Inbound, Outbound, Referral)"
+              value={newOptions}
+              onChange={(e) => setNewOptions(e.target.value)}
+            />
+          ) : null}
           <div className="text-xs text-gray-500 mt-2">
-            Keys are auto-normalised to snake_case.
+            Roles, required, min / max and help text are set on the field below once it&apos;s added; a field
+            with no roles ticked is on everyone&apos;s form. Keys are
+            auto-normalised to snake_case. Formulas use + − × ÷ (<code>+ - * /</code>), brackets, other
+            field keys and these meeting metrics:{" "}
+            {MEETING_METRICS.map((m, i) => (
+              <span key={m.key} title={m.label}>
+                {i > 0 ? ", " : ""}
+                <code>{m.key}</code>
+              </span>
+            ))}
+            .
           </div>
         </div>
 
@@ -227,7 +380,7 @@ export default function AdminKpiFieldsPage() {
               {fields.map((f) => (
                 <div
                   key={f.id}
-                  className="rounded-xl border p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3"
+                  className="rounded-xl border p-4 flex flex-col md:flex-row md:flex-wrap md:items-center md:justify-between gap-3"
                 >
                   <div className="min-w-0">
                     <div className="text-sm font-medium">{f.key}</div>
@@ -252,14 +405,13 @@ export default function AdminKpiFieldsPage() {
                     />
 
                     <select
-                      className="w-28 rounded-xl border px-3 py-2 text-sm bg-white"
+                      className="w-40 rounded-xl border px-3 py-2 text-sm bg-white"
                       value={(f.input_type ?? "number") as InputType}
                       onChange={(e) =>
                         updateField(f.id, { input_type: e.target.value as InputType })
                       }
                     >
-                      <option value="number">number</option>
-                      <option value="text">text</option>
+                      <TypeOptions />
                     </select>
 
                     <button
@@ -271,6 +423,101 @@ export default function AdminKpiFieldsPage() {
                       {f.active ? "Active" : "Inactive"}
                     </button>
                   </div>
+
+                  <div className="flex flex-wrap items-center gap-2 md:basis-full text-sm">
+                    <span className="text-xs text-gray-500">
+                      Roles{(f.roles ?? []).length === 0 ? " (all)" : ""}:
+                    </span>
+                    {roleChoices.map((role) => {
+                      const assigned = (f.roles ?? []).find((r) => r.role === role);
+                      return (
+                        <div
+                          key={role}
+                          className={`flex items-center gap-2 rounded-xl border px-3 py-1.5 ${assigned ? "bg-blue-50" : ""}`}
+                        >
+                          <label className="flex items-center gap-1">
+                            <input type="checkbox" checked={!!assigned} onChange={() => toggleRole(f, role)} />
+                            {role}
+                          </label>
+                          {assigned ? (
+                            <input
+                              className="w-16 rounded-lg border px-2 py-0.5 text-xs"
+                              type="number"
+                              title={`Order on the ${role} form`}
+                              value={assigned.sort_order}
+                              onChange={(e) => setRoleOrder(f, role, Number(e.target.value))}
+                            />
+                          ) : null}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {f.input_type === "formula" ? (
+                    <div className="flex flex-wrap items-center gap-2 md:basis-full">
+                      <input
+                        className="min-w-0 flex-1 rounded-xl border px-3 py-2 text-sm font-mono"
+                        placeholder="Formula"
+                        value={f.formula ?? ""}
+                        onChange={(e) => updateField(f.id, { formula: e.target.value })}
+                      />
+                      <select
+                        className="w-40 rounded-xl border px-3 py-2 text-sm bg-white"
+                        value={(f.format ?? "number") as Format}
+                        onChange={(e) => updateField(f.id, { format: e.target.value as Format })}
+                      >
+                        <option value="number">shown as number</option>
+                        <option value="percent">shown as %</option>
+                      </select>
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap items-center gap-2 md:basis-full">
+                      <label className="flex items-center gap-2 rounded-xl border px-3 py-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={!!f.required}
+                          onChange={(e) => updateField(f.id, { required: e.target.checked })}
+                        />
+                        Required
+                      </label>
+
+                      {RANGED_TYPES.has(f.input_type ?? "number") ? (
+                        <>
+                          <input
+                            className="w-28 rounded-xl border px-3 py-2 text-sm"
+                            type="number"
+                            placeholder={f.input_type === "duration" ? "min (mins)" : "min"}
+                            value={f.min_value ?? ""}
+                            onChange={(e) => updateField(f.id, { min_value: numOrNull(e.target.value) })}
+                          />
+                          <input
+                            className="w-28 rounded-xl border px-3 py-2 text-sm"
+                            type="number"
+                            placeholder={f.input_type === "duration" ? "max (mins)" : "max"}
+                            value={f.max_value ?? ""}
+                            onChange={(e) => updateField(f.id, { max_value: numOrNull(e.target.value) })}
+                          />
+                        </>
+                      ) : null}
+
+                      {f.input_type === "select" ? (
+                        <input
+                          key={`${f.id}-${(f.options ?? []).join(",")}`}
+                          className="min-w-0 flex-1 rounded-xl border px-3 py-2 text-sm"
+                          placeholder="options, comma separated"
+                          defaultValue={(f.options ?? []).join(", ")}
+                          onBlur={(e) => updateField(f.id, { options: parseOptions(e.target.value) })}
+                        />
+                      ) : null}
+
+                      <input
+                        className="min-w-0 flex-1 rounded-xl border px-3 py-2 text-sm"
+                        placeholder="Help text (shown under the field)"
+                        value={f.help_text ?? ""}
+                        onChange={(e) => updateField(f.id, { help_text: e.target.value })}
+                      />
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
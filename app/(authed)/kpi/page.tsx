@@ -3,21 +3,23 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
-
-type FieldRow = {
-  id: string;
-  key: string;
-  label: string | null;
-  active: boolean;
-  sort_order: number | null;
-  input_type: string | null;
-};
-
-type SubmissionRow = {
-  id: string;
-  user_id: string;
-  entry_date: string; // YYYY-MM-DD
-};
+import {
+  fetchKpiFields,
+  fieldsForRole,
+  fetchMeetingMetrics,
+  formatKpiValue,
+  isFormulaField,
+  loadKpiDay,
+  numericValuesByKey,
+  saveKpiDay,
+  type KpiField,
+  type KpiSubmission,
+} from "@/lib/kpi";
+import { computeFormulas } from "@/lib/kpiFormula";
+import { fetchKpiCutoff, fetchOpenUnlock, kpiEditBlock, kpiStatusLabel, type KpiUnlock } from "@/lib/kpiReview";
+import { checkKpiValues, rangeHint } from "@/lib/kpiValidation";
+import KpiFieldInput from "@/app/daily-kpis/components/KpiFieldInput";
+import type { PersonMetrics } from "@/lib/commissions";
 
 function toISODateMelb(d: Date): string {
   const fmt = new Intl.DateTimeFormat("en-CA", {
@@ -29,6 +31,32 @@ function toISODateMelb(d: Date): string {
   return fmt.format(d);
 }
 
+function addDaysISO(iso: string, days: number) {
+  const d = new Date(`${iso}T00:00:00`);
+  d.setDate(d.getDate() + days);
+  return toISODateMelb(d);
+}
+
+/** Melbourne midnight for a YYYY-MM-DD as a UTC ISO string (DST-aware) */
+function melbMidnightToUtcIso(dateISO: string) {
+  const parts = new Intl.DateTimeFormat("en-AU", {
+    timeZone: "Australia/Melbourne",
+    timeZoneName: "shortOffset",
+    year: "numeric",
+  }).formatToParts(new Date(`${dateISO}T00:00:00Z`));
+
+  const tz = parts.find((p) => p.type === "timeZoneName")?.value ?? "GMT+11";
+  const m = tz.match(/GMT([+-])(\d{1,2})(?::(\d{2}))?/);
+
+  let offsetMin = 11 * 60;
+  if (m) {
+    const sign = m[1] === "-" ? -1 : 1;
+    offsetMin = sign * (Number(m[2] ?? "0") * 60 + Number(m[3] ?? "0"));
+  }
+
+  return new Date(Date.parse(`${dateISO}T00:00:00Z`) - offsetMin * 60_000).toISOString();
+}
+
 export default function KpiEntryPage() {
   const router = useRouter();
 
@@ -37,12 +65,25 @@ export default function KpiEntryPage() {
   const [pageMsg, setPageMsg] = useState<string | null>(null);
 
   const [userId, setUserId] = useState<string>("");
-  const [fields, setFields] = useState<FieldRow[]>([]);
-  const [submission, setSubmission] = useState<SubmissionRow | null>(null);
+  const [role, setRole] = useState<string>("");
+  const [fields, setFields] = useState<KpiField[]>([]);
+  const [submission, setSubmission] = useState<KpiSubmission | null>(null);
+  const [unlock, setUnlock] = useState<KpiUnlock | null>(null);
+  const [cutoffDays, setCutoffDays] = useState<number | null>(null);
   const [valuesByFieldId, setValuesByFieldId] = useState<Record<string, string>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [todayMetrics, setTodayMetrics] = useState<PersonMetrics | null>(null);
 
   const todayISO = useMemo(() => toISODateMelb(new Date()), []);
 
+  const editBlock =
+    cutoffDays === null ? null : kpiEditBlock(submission, todayISO, todayISO, cutoffDays, !!unlock);
+
+  const formulaValues = useMemo(
+    () => computeFormulas(fields, { ...numericValuesByKey(fields, valuesByFieldId), ...todayMetrics }),
+    [fields, valuesByFieldId, todayMetrics]
+  );
+
   useEffect(() => {
     async function init() {
       setPageMsg(null);
@@ -57,64 +98,31 @@ export default function KpiEntryPage() {
 
       setUserId(session.user.id);
 
-      const { data: fieldRows, error: fErr } = await supabase
-        .from("kpi_fields")
-        .select("id, key, label, active, sort_order, input_type")
-        .eq("active", true)
-        .order("sort_order", { ascending: true })
-        .order("label", { ascending: true });
-
-      if (fErr) {
-        setPageMsg(fErr.message);
-        setLoading(false);
-        return;
-      }
-
-      const activeFields = (fieldRows ?? []) as FieldRow[];
-      setFields(activeFields);
+      try {
+        const profRes = await supabase.from("profiles").select("role").eq("id", session.user.id).single();
+        if (profRes.error) throw new Error(profRes.error.message);
+        setRole(profRes.data?.role ?? "");
 
-      const { data: subRow, error: sErr } = await supabase
-        .from("kpi_daily_submissions")
-        .select("id, user_id, entry_date")
-        .eq("user_id", session.user.id)
-        .eq("entry_date", todayISO)
-        .maybeSingle();
+        // Only this person's form: the fields for their role, in that role's order
+        const activeFields = fieldsForRole(await fetchKpiFields(), profRes.data?.role);
+        setFields(activeFields);
 
-      if (sErr) {
-        setPageMsg(sErr.message);
-        setLoading(false);
-        return;
-      }
-
-      if (subRow) {
-        const sub = subRow as SubmissionRow;
+        const { submission: sub, values } = await loadKpiDay(session.user.id, todayISO);
         setSubmission(sub);
-
-        const { data: valRows, error: vErr } = await supabase
-          .from("kpi_daily_values")
-          .select("field_id, value_text")
-          .eq("submission_id", sub.id);
-
-        if (vErr) {
-          setPageMsg(vErr.message);
-          setLoading(false);
-          return;
-        }
+        setUnlock(await fetchOpenUnlock(session.user.id, todayISO));
+        setCutoffDays(await fetchKpiCutoff());
 
         const next: Record<string, string> = {};
-        (valRows ?? []).forEach((v: any) => {
-          next[v.field_id] = v.value_text ?? "";
-        });
-
-        activeFields.forEach((f) => {
-          if (next[f.id] === undefined) next[f.id] = "";
-        });
-
-        setValuesByFieldId(next);
-      } else {
-        const next: Record<string, string> = {};
-        activeFields.forEach((f) => (next[f.id] = ""));
+        activeFields.forEach((f) => (next[f.id] = values[f.id] ?? ""));
         setValuesByFieldId(next);
+
+        const metrics = await fetchMeetingMetrics(
+          melbMidnightToUtcIso(todayISO),
+          melbMidnightToUtcIso(addDaysISO(todayISO, 1))
+        );
+        setTodayMetrics(metrics[session.user.id] ?? null);
+      } catch (e: unknown) {
+        setPageMsg(e instanceof Error ? e.message : "Failed to load KPIs.");
       }
 
       setLoading(false);
@@ -127,20 +135,18 @@ export default function KpiEntryPage() {
     setValuesByFieldId((prev) => ({ ...prev, [fieldId]: val }));
   }
 
-  function isNumericOrEmpty(s: string) {
-    if (s.trim() === "") return true;
-    return /^-?\d+(\.\d+)?$/.test(s.trim());
-  }
-
-  async function handleSave() {
+  async function handleSave(action: "draft" | "submit") {
     setPageMsg(null);
 
-    for (const f of fields) {
-      const raw = valuesByFieldId[f.id] ?? "";
-      if (!isNumericOrEmpty(raw)) {
-        setPageMsg(`"${f.label ?? f.key}" must be a number.`);
-        return;
-      }
+    const toCheck = fields
+      .filter((f) => !isFormulaField(f))
+      .map((f) => (action === "draft" ? { ...f, required: false } : f));
+    const { errors } = checkKpiValues(toCheck, valuesByFieldId);
+    setFieldErrors(errors);
+    const firstError = fields.map((f) => errors[f.id]).find(Boolean);
+    if (firstError) {
+      setPageMsg(firstError);
+      return;
     }
 
     setSaving(true);
@@ -153,35 +159,11 @@ export default function KpiEntryPage() {
         router.push("/login");
         return;
       }
-      const uid = session.user.id;
-
-      const { data: subUpsert, error: subErr } = await supabase
-        .from("kpi_daily_submissions")
-        .upsert(
-          { user_id: uid, entry_date: todayISO },
-          { onConflict: "user_id,entry_date", ignoreDuplicates: false }
-        )
-        .select("id, user_id, entry_date")
-        .single();
-
-      if (subErr) throw new Error(subErr.message);
 
-      const sub = subUpsert as SubmissionRow;
-      setSubmission(sub);
+      setSubmission(await saveKpiDay(todayISO, valuesByFieldId, action));
+      setUnlock(null);
 
-      const payload = fields.map((f) => ({
-        submission_id: sub.id,
-        field_id: f.id,
-        value_text: (valuesByFieldId[f.id] ?? "").trim(),
-      }));
-
-      const { error: valErr } = await supabase
-        .from("kpi_daily_values")
-        .upsert(payload, { onConflict: "submission_id,field_id" });
-
-      if (valErr) throw new Error(valErr.message);
-
-      setPageMsg("Saved ✅");
+      setPageMsg(action === "draft" ? "Draft saved ✅" : "Submitted for review ✅");
       setTimeout(() => setPageMsg(null), 1500);
     } catch (e: any) {
       setPageMsg(e?.message ?? "Failed to save");
@@ -200,11 +182,8 @@ export default function KpiEntryPage() {
             <h1 className="text-2xl font-semibold">Daily KPI Entry</h1>
             <div className="mt-1 text-xs text-gray-500">
               Date (Melbourne): <span className="font-medium">{todayISO}</span>
-              {submission ? (
-                <span className="ml-2">• Status: Saved</span>
-              ) : (
-                <span className="ml-2">• Status: Not submitted</span>
-              )}
+              {role ? <span className="ml-2">• Form: {role}</span> : null}
+              <span className="ml-2">• Status: {kpiStatusLabel(submission?.status)}</span>
             </div>
           </div>
 
@@ -217,15 +196,37 @@ export default function KpiEntryPage() {
             </button>
 
             <button
-              onClick={handleSave}
-              disabled={saving}
+              onClick={() => handleSave("draft")}
+              disabled={saving || !!editBlock}
+              className="rounded-xl border px-4 py-2 text-sm bg-white disabled:opacity-60"
+            >
+              Save draft
+            </button>
+
+            <button
+              onClick={() => handleSave("submit")}
+              disabled={saving || !!editBlock}
               className="rounded-xl border px-4 py-2 text-sm bg-gray-900 text-white disabled:opacity-60"
             >
-              {saving ? "Saving…" : "Save"}
+              {saving ? "Saving…" : "Submit"}
             </button>
           </div>
         </div>
 
+        {submission?.status === "draft" && submission.review_comment ? (
+          <div className="mb-4 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm">
+            Returned by your manager: {submission.review_comment}
+          </div>
+        ) : null}
+
+        {editBlock ? (
+          <div className="mb-4 rounded-xl border bg-gray-50 p-3 text-sm text-gray-700">{editBlock}</div>
+        ) : unlock ? (
+          <div className="mb-4 rounded-xl border border-blue-200 bg-blue-50 p-3 text-sm">
+            Unlocked by an admin ({unlock.reason}). Your next save uses the unlock.
+          </div>
+        ) : null}
+
         <div className="rounded-2xl border bg-white p-5">
           {fields.length === 0 ? (
             <div className="text-sm text-gray-600">No KPI fields configured.</div>
@@ -233,18 +234,37 @@ export default function KpiEntryPage() {
             <div className="space-y-3">
               {fields.map((f) => (
                 <div key={f.id} className="flex items-center justify-between gap-3">
-                  <div>
-                    <div className="text-sm font-medium">{f.label ?? f.key}</div>
-                    <div className="text-xs text-gray-500">{f.key}</div>
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium">
+                      {f.label ?? f.key}
+                      {f.required ? <span className="text-red-600"> *</span> : null}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {f.key}
+                      {isFormulaField(f) ? " • calculated" : ""}
+                    </div>
+                    {fieldErrors[f.id] ? (
+                      <div className="text-xs text-red-700">{fieldErrors[f.id]}</div>
+                    ) : f.help_text || rangeHint(f) ? (
+                      <div className="text-xs text-gray-500">{[f.help_text, rangeHint(f)].filter(Boolean).join(" • ")}</div>
+                    ) : null}
                   </div>
 
-                  <input
-                    inputMode="numeric"
-                    className="w-40 rounded-xl border px-3 py-2 text-sm bg-white"
-                    placeholder="0"
-                    value={valuesByFieldId[f.id] ?? ""}
-                    onChange={(e) => setValue(f.id, e.target.value)}
-                  />
+                  {isFormulaField(f) ? (
+                    <div className="w-40 rounded-xl border px-3 py-2 text-sm bg-gray-50" title={f.formula ?? ""}>
+                      {formatKpiValue(f, formulaValues[f.key])}
+                    </div>
+                  ) : (
+                    <KpiFieldInput
+                      field={f}
+                      className={`w-40 shrink-0 rounded-xl border px-3 py-2 text-sm bg-white ${
+                        fieldErrors[f.id] ? "border-red-300" : ""
+                      }`}
+                      value={valuesByFieldId[f.id] ?? ""}
+                      onChange={(v) => setValue(f.id, v)}
+                      disabled={!!editBlock}
+                    />
+                  )}
                 </div>
               ))}
             </div>
@@ -1,18 +1,52 @@
 "use client";
 
-import { useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { usePathname, useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { countOverdueTasks } from "@/lib/hotLeadTasks";
 
 type Tab = {
   label: string;
   href: string;
   match?: (path: string) => boolean;
+  badge?: number;
 };
 
+function melbISO(d: Date) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(d);
+}
+
 export default function BottomTabs() {
   const router = useRouter();
   const pathname = usePathname();
 
+  // My overdue hot-lead follow-ups; refreshed on every navigation
+  const [overdueCount, setOverdueCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const { data } = await supabase.auth.getSession();
+        const uid = data.session?.user.id;
+        const count = uid ? await countOverdueTasks(melbISO(new Date()), uid) : 0;
+        if (!cancelled) setOverdueCount(count);
+      } catch {
+        // badge is best-effort
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pathname]);
+
 // Hide tabs on auth screens + admin
 const hidden =
   pathname?.startsWith("/login") ||
@@ -67,6 +101,7 @@ const hidden =
         label: "Hot Leads",
         href: "/hot-leads",
         match: (p) => p.startsWith("/hot-leads"),
+        badge: overdueCount,
       },
       {
         label: "KPIs",
@@ -74,7 +109,7 @@ const hidden =
 match: (p) => p.startsWith("/daily-kpis"),
       },
     ];
-  }, [isAdminSection]);
+  }, [isAdminSection, overdueCount]);
 
   return (
     <nav className="fixed bottom-0 left-0 right-0 z-50 border-t bg-white">
@@ -90,7 +125,7 @@ match: (p) => p.startsWith("/daily-kpis"),
                   key={t.href}
                   onClick={() => router.push(t.href)}
                   className={[
-                    "rounded-2xl px-2 py-2 text-xs",
+                    "relative rounded-2xl px-2 py-2 text-xs",
                     "transition",
                     active
                       ? "bg-black text-white"
@@ -98,6 +133,11 @@ match: (p) => p.startsWith("/daily-kpis"),
                   ].join(" ")}
                 >
                   {t.label}
+                  {t.badge ? (
+                    <span className="absolute -top-1.5 -right-1 min-w-[18px] rounded-full bg-red-600 px-1 text-[10px] font-semibold leading-[18px] text-white">
+                      {t.badge > 99 ? "99+" : t.badge}
+                    </span>
+                  ) : null}
                 </button>
               );
             })}
@@ -0,0 +1,281 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { ROUND_ROBIN_KEY, ruleFor, type AssignmentRule } from "@/lib/closerAssignment";
+
+type ProfileRow = {
+  id: string;
+  full_name: string | null;
+  role: string | null;
+  is_admin: boolean | null;
+};
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+function isAdminOk(role?: string | null, is_admin?: boolean | null) {
+  return !!is_admin || normRole(role) === "admin";
+}
+
+function safeInt(x: string, fallback: number) {
+  const n = Math.round(Number(x));
+  return Number.isFinite(n) ? n : fallback;
+}
+
+export default function AdminAssignmentPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [profiles, setProfiles] = useState<ProfileRow[]>([]);
+  const [rules, setRules] = useState<Record<string, AssignmentRule>>({});
+  const [enabled, setEnabled] = useState(true);
+
+  // closers first, then everyone else
+  const people = useMemo(() => {
+    const isCloser = (p: ProfileRow) => normRole(p.role) === "closer";
+    return [...profiles].sort((a, b) => {
+      if (isCloser(a) !== isCloser(b)) return isCloser(a) ? -1 : 1;
+      return (a.full_name ?? "").localeCompare(b.full_name ?? "");
+    });
+  }, [profiles]);
+
+  function patchRule(p: ProfileRow, patch: Partial<AssignmentRule>) {
+    setRules((prev) => ({ ...prev, [p.id]: { ...ruleFor(p, prev), ...patch } }));
+  }
+
+  const requireAdmin = useCallback(async () => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return false;
+    }
+
+    const meRes = await supabase
+      .from("profiles")
+      .select("id, role, is_admin")
+      .eq("id", session.user.id)
+      .single();
+
+    if (meRes.error) {
+      setMsg(meRes.error.message);
+      return false;
+    }
+
+    if (!isAdminOk(meRes.data?.role, meRes.data?.is_admin)) {
+      router.push("/hub");
+      return false;
+    }
+
+    return true;
+  }, [router]);
+
+  const loadRules = useCallback(async () => {
+    const [pRes, rRes, sRes] = await Promise.all([
+      supabase.from("profiles").select("id, full_name, role, is_admin").order("full_name", { ascending: true }),
+      supabase.from("closer_assignment_rules").select("closer_id, enabled, weight, daily_cap"),
+      supabase.from("app_settings").select("value").eq("key", ROUND_ROBIN_KEY).maybeSingle(),
+    ]);
+
+    if (pRes.error) throw new Error(pRes.error.message);
+    if (rRes.error) throw new Error(rRes.error.message);
+    if (sRes.error) throw new Error(sRes.error.message);
+
+    setProfiles((pRes.data ?? []) as ProfileRow[]);
+
+    const map: Record<string, AssignmentRule> = {};
+    ((rRes.data ?? []) as AssignmentRule[]).forEach((r) => (map[r.closer_id] = r));
+    setRules(map);
+
+    setEnabled(sRes.data?.value === true);
+  }, []);
+
+  const loadAll = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+    try {
+      const ok = await requireAdmin();
+      if (!ok) {
+        setLoading(false);
+        return;
+      }
+      await loadRules();
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load assignment rules.");
+      setLoading(false);
+    }
+  }, [requireAdmin, loadRules]);
+
+  useEffect(() => {
+    loadAll();
+  }, [loadAll]);
+
+  async function saveRules() {
+    setSaving(true);
+    setMsg(null);
+
+    try {
+      // Only persist people an admin has touched (everyone else keeps the default)
+      const payload = Object.values(rules).map((r) => ({
+        closer_id: r.closer_id,
+        enabled: r.enabled,
+        weight: Math.min(10, Math.max(1, r.weight)),
+        daily_cap: r.daily_cap && r.daily_cap > 0 ? r.daily_cap : null,
+        updated_at: new Date().toISOString(),
+      }));
+
+      if (payload.length > 0) {
+        const { error } = await supabase
+          .from("closer_assignment_rules")
+          .upsert(payload, { onConflict: "closer_id" });
+        if (error) throw new Error(error.message);
+      }
+
+      const { error: sErr } = await supabase
+        .from("app_settings")
+        .upsert(
+          { key: ROUND_ROBIN_KEY, value: enabled, updated_at: new Date().toISOString() },
+          { onConflict: "key" }
+        );
+      if (sErr) throw new Error(sErr.message);
+
+      await loadRules();
+
+      setMsg("Saved ✅");
+      setTimeout(() => setMsg(null), 1200);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to save assignment rules.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-2xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <div className="text-xs text-black/60">Admin</div>
+            <h1 className="text-2xl font-semibold">Closer Assignment</h1>
+            <div className="mt-1 text-xs text-black/60">
+              New meetings propose a taker by <b>weighted round-robin</b>. Closers outside their availability, already
+              booked at that time, or at their daily cap are skipped.
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => router.push("/admin")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Back
+            </button>
+            <button
+              onClick={saveRules}
+              disabled={saving}
+              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </div>
+
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <div className="text-sm font-semibold">Round-robin</div>
+              <div className="text-xs text-black/60">When off, setters pick the taker by hand.</div>
+            </div>
+            <button
+              type="button"
+              onClick={() => setEnabled((v) => !v)}
+              className={`rounded-xl border px-3 py-2 text-xs ${
+                enabled ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"
+              }`}
+              disabled={saving}
+            >
+              {enabled ? "On" : "Off"}
+            </button>
+          </div>
+        </div>
+
+        {/* Rules */}
+        <div className="rounded-2xl border bg-white p-4">
+          <div className="text-sm font-semibold mb-2">Rotation</div>
+          <div className="text-xs text-black/60 mb-4">
+            Weight 2 gets twice the meetings of weight 1 on the same day. Leave the cap blank for no limit.
+          </div>
+
+          <div className="space-y-3">
+            {people.map((p) => {
+              const rule = ruleFor(p, rules);
+
+              return (
+                <div key={p.id} className="rounded-xl border p-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="text-sm font-semibold truncate">{p.full_name ?? p.id}</div>
+                      <div className="text-xs text-black/50">{normRole(p.role) || "—"}</div>
+                    </div>
+
+                    <button
+                      type="button"
+                      onClick={() => patchRule(p, { enabled: !rule.enabled })}
+                      className={`rounded-xl border px-3 py-2 text-xs ${
+                        rule.enabled ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"
+                      }`}
+                      disabled={saving}
+                    >
+                      {rule.enabled ? "In rotation" : "Excluded"}
+                    </button>
+                  </div>
+
+                  {rule.enabled ? (
+                    <div className="mt-3 grid gap-2 sm:grid-cols-2">
+                      <label className="text-xs text-black/60">
+                        Weight (1–10)
+                        <input
+                          className="mt-1 w-full rounded-xl border px-3 py-2 text-sm"
+                          type="number"
+                          min={1}
+                          max={10}
+                          value={rule.weight}
+                          onChange={(e) => patchRule(p, { weight: safeInt(e.target.value, 1) })}
+                        />
+                      </label>
+
+                      <label className="text-xs text-black/60">
+                        Daily cap
+                        <input
+                          className="mt-1 w-full rounded-xl border px-3 py-2 text-sm"
+                          type="number"
+                          min={1}
+                          placeholder="No cap"
+                          value={rule.daily_cap ?? ""}
+                          onChange={(e) =>
+                            patchRule(p, {
+                              daily_cap: e.target.value === "" ? null : safeInt(e.target.value, 1),
+                            })
+                          }
+                        />
+                      </label>
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {msg && <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  LEAD_SOURCE_SELECT,
+  attributeBySource,
+  type AttributionMeeting,
+  type LeadSource,
+} from "@/lib/leadSources";
+
+type RangeMode = "weekly" | "monthly";
+
+/* ---------------- Date helpers (Melbourne) ---------------- */
+
+function melbISO(d: Date) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(d);
+}
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+/** Monday-start week in Melbourne time, returned as YYYY-MM-DD */
+function startOfWeekISO_Melb(today: Date) {
+  const local = new Date(today);
+  const day = local.getDay(); // 0 Sun .. 6 Sat
+  const diffToMon = (day + 6) % 7;
+  local.setDate(local.getDate() - diffToMon);
+  local.setHours(0, 0, 0, 0);
+  return melbISO(local);
+}
+
+function addDaysISO(iso: string, days: number) {
+  const d = new Date(`${iso}T00:00:00`);
+  d.setDate(d.getDate() + days);
+  return melbISO(d);
+}
+
+/**
+ * Business month:
+ * - starts on the 26th
+ * - ends (exclusive) on the 26th of next month
+ */
+function businessMonthRangeISO(now: Date) {
+  const nowISO = melbISO(now);
+  const y = Number(nowISO.slice(0, 4));
+  const m = Number(nowISO.slice(5, 7)) - 1;
+  const d = Number(nowISO.slice(8, 10));
+
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+
+  if (d >= 26) start.setFullYear(y, m, 26);
+  else start.setFullYear(y, m - 1, 26);
+
+  const endExclusive = new Date(start);
+  endExclusive.setMonth(endExclusive.getMonth() + 1);
+  endExclusive.setDate(26);
+  endExclusive.setHours(0, 0, 0, 0);
+
+  return { startISO: melbISO(start), endExclusiveISO: melbISO(endExclusive) };
+}
+
+function fmtRangeLabel(startISO: string, endExclusiveISO: string) {
+  const end = new Date(`${endExclusiveISO}T00:00:00`);
+  end.setDate(end.getDate() - 1);
+  return `${startISO} → ${melbISO(end)}`;
+}
+
+/**
+ * Convert Melbourne “YYYY-MM-DD” midnight into a UTC ISO string using the
+ * correct Melbourne offset for that date (handles DST).
+ */
+function melbMidnightToUtcIso(dateISO: string) {
+  const baseUtc = new Date(`${dateISO}T00:00:00Z`);
+
+  const parts = new Intl.DateTimeFormat("en-AU", {
+    timeZone: "Australia/Melbourne",
+    timeZoneName: "shortOffset",
+    year: "numeric",
+  }).formatToParts(baseUtc);
+
+  const tz = parts.find((p) => p.type === "timeZoneName")?.value ?? "GMT+11";
+  const m = tz.match(/GMT([+-])(\d{1,2})(?::(\d{2}))?/);
+
+  let offsetMin = 11 * 60;
+  if (m) {
+    const sign = m[1] === "-" ? -1 : 1;
+    const hh = Number(m[2] ?? "0");
+    const mm = Number(m[3] ?? "0");
+    offsetMin = sign * (hh * 60 + mm);
+  }
+
+  const melbMidnightUtcMs = Date.parse(`${dateISO}T00:00:00Z`) - offsetMin * 60_000;
+  return new Date(melbMidnightUtcMs).toISOString();
+}
+
+/* ---------------- Formatting ---------------- */
+
+function pctRatio(num: number, den: number) {
+  if (!den || den <= 0) return "—";
+  return `${Math.round((num / den) * 100)}%`;
+}
+
+/* ---------------- Page ---------------- */
+
+export default function AdminAttributionPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [rangeMode, setRangeMode] = useState<RangeMode>("monthly");
+  // 0 = current period, -1 = previous, …
+  const [periodOffset, setPeriodOffset] = useState(0);
+
+  const [sources, setSources] = useState<LeadSource[]>([]);
+  const [meetings, setMeetings] = useState<AttributionMeeting[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const activeRange = useMemo(() => {
+    if (rangeMode === "weekly") {
+      const start = addDaysISO(startOfWeekISO_Melb(new Date()), periodOffset * 7);
+      return { startISO: start, endExclusiveISO: addDaysISO(start, 7) };
+    }
+
+    const current = businessMonthRangeISO(new Date());
+    const anchor = new Date(`${current.startISO}T12:00:00`);
+    anchor.setMonth(anchor.getMonth() + periodOffset);
+    return businessMonthRangeISO(anchor);
+  }, [rangeMode, periodOffset]);
+
+  const rangeLabel = fmtRangeLabel(activeRange.startISO, activeRange.endExclusiveISO);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return;
+    }
+
+    try {
+      const meRes = await supabase
+        .from("profiles")
+        .select("id, role, is_admin")
+        .eq("id", session.user.id)
+        .single();
+
+      if (meRes.error) throw new Error(meRes.error.message);
+
+      if (!meRes.data?.is_admin && normRole(meRes.data?.role) !== "admin") {
+        router.push("/hub");
+        return;
+      }
+
+      const [sRes, mRes] = await Promise.all([
+        supabase
+          .from("lead_sources")
+          .select(LEAD_SOURCE_SELECT)
+          .order("sort_order", { ascending: true })
+          .order("name", { ascending: true }),
+        supabase
+          .from("meetings")
+          .select("source_id, campaign, outcome, rescheduled_from_id")
+          .is("discarded_at", null)
+          .gte("meeting_at", melbMidnightToUtcIso(activeRange.startISO))
+          .lt("meeting_at", melbMidnightToUtcIso(activeRange.endExclusiveISO)),
+      ]);
+
+      if (sRes.error) throw new Error(sRes.error.message);
+      if (mRes.error) throw new Error(mRes.error.message);
+
+      setSources((sRes.data ?? []) as LeadSource[]);
+      setMeetings((mRes.data ?? []) as AttributionMeeting[]);
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load attribution.");
+      setLoading(false);
+    }
+  }, [router, activeRange.startISO, activeRange.endExclusiveISO]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const rows = useMemo(() => attributeBySource(meetings, sources), [meetings, sources]);
+
+  const totals = useMemo(
+    () =>
+      rows.reduce(
+        (t, r) => ({
+          booked: t.booked + r.booked,
+          occurred: t.occurred + r.occurred,
+          shows: t.shows + r.shows,
+          moved: t.moved + r.moved,
+        }),
+        { booked: 0, occurred: 0, shows: 0, moved: 0 }
+      ),
+    [rows]
+  );
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-3xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <div className="text-xs text-black/60">Admin</div>
+            <h1 className="text-2xl font-semibold">Source Attribution</h1>
+            <div className="mt-1 text-xs text-black/60">
+              Period ({rangeMode}): {rangeLabel}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => router.push("/admin/sources")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Sources
+            </button>
+            <button onClick={() => router.push("/admin")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Back
+            </button>
+          </div>
+        </div>
+
+        {/* Controls */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex gap-2">
+              {(["weekly", "monthly"] as RangeMode[]).map((r) => (
+                <button
+                  key={r}
+                  onClick={() => {
+                    setRangeMode(r);
+                    setPeriodOffset(0);
+                  }}
+                  className={`rounded-xl border px-3 py-2 text-xs ${
+                    rangeMode === r ? "bg-black text-white" : "bg-white text-black"
+                  }`}
+                >
+                  {r === "weekly" ? "Weekly" : "Monthly"}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <button onClick={() => setPeriodOffset((o) => o - 1)} className="rounded-xl border bg-white px-3 py-2 text-xs">
+                ← Prev
+              </button>
+              <button
+                onClick={() => setPeriodOffset(0)}
+                disabled={periodOffset === 0}
+                className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-50"
+              >
+                Current
+              </button>
+              <button
+                onClick={() => setPeriodOffset((o) => Math.min(0, o + 1))}
+                disabled={periodOffset === 0}
+                className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-50"
+              >
+                Next →
+              </button>
+            </div>
+          </div>
+
+          <div className="mt-3 text-[11px] text-black/50 leading-relaxed">
+            • Booked = meetings in the period, reschedule follow-ups not counted again. <br />
+            • Occurred = showed / no-show / SS2 recorded. Show rate = shows ÷ occurred. SS2 rate = moved ÷ shows. <br />
+            • Discarded meetings are left out. Tap a source for its campaigns.
+          </div>
+        </div>
+
+        {/* Report */}
+        <div className="rounded-2xl border bg-white overflow-hidden">
+          <div className="grid grid-cols-[1fr_repeat(4,4.5rem)] gap-2 border-b bg-gray-50 px-4 py-2 text-[11px] font-semibold text-black/60">
+            <div>Source</div>
+            <div className="text-right">Booked</div>
+            <div className="text-right">Occurred</div>
+            <div className="text-right">Show</div>
+            <div className="text-right">SS2</div>
+          </div>
+
+          {rows.length === 0 ? (
+            <div className="p-6 text-sm text-black/70">No meetings in this period.</div>
+          ) : (
+            rows.map((r) => (
+              <div key={r.key} className="border-b last:border-b-0">
+                <button
+                  onClick={() => setExpanded((k) => (k === r.key ? null : r.key))}
+                  className="grid w-full grid-cols-[1fr_repeat(4,4.5rem)] gap-2 px-4 py-3 text-left text-sm hover:bg-gray-50"
+                >
+                  <div className="min-w-0 truncate font-medium">
+                    {expanded === r.key ? "▾" : "▸"} {r.label}
+                  </div>
+                  <div className="text-right">{r.booked}</div>
+                  <div className="text-right">{r.occurred}</div>
+                  <div className="text-right">{pctRatio(r.shows, r.occurred)}</div>
+                  <div className="text-right">{pctRatio(r.moved, r.shows)}</div>
+                </button>
+
+                {expanded === r.key
+                  ? r.campaigns.map((c) => (
+                      <div
+                        key={c.label}
+                        className="grid grid-cols-[1fr_repeat(4,4.5rem)] gap-2 bg-gray-50 px-4 py-2 text-xs text-black/70"
+                      >
+                        <div className="min-w-0 truncate pl-4">{c.label}</div>
+                        <div className="text-right">{c.booked}</div>
+                        <div className="text-right">{c.occurred}</div>
+                        <div className="text-right">{pctRatio(c.shows, c.occurred)}</div>
+                        <div className="text-right">{pctRatio(c.moved, c.shows)}</div>
+                      </div>
+                    ))
+                  : null}
+              </div>
+            ))
+          )}
+
+          {rows.length > 0 ? (
+            <div className="grid grid-cols-[1fr_repeat(4,4.5rem)] gap-2 border-t bg-gray-50 px-4 py-3 text-sm font-semibold">
+              <div>Total</div>
+              <div className="text-right">{totals.booked}</div>
+              <div className="text-right">{totals.occurred}</div>
+              <div className="text-right">{pctRatio(totals.shows, totals.occurred)}</div>
+              <div className="text-right">{pctRatio(totals.moved, totals.shows)}</div>
+            </div>
+          ) : null}
+        </div>
+
+        {msg && <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,435 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { fmtMoney } from "@/lib/deals";
+import {
+  COMMISSION_STATEMENT_SELECT,
+  evaluateRules,
+  fetchCommissionMeetings,
+  fetchCommissionRules,
+  fetchWeeklyTargets,
+  metricsByPerson,
+  monthWeeks,
+  paceFactor,
+  projectMetrics,
+  type CommissionMeeting,
+  type CommissionRule,
+  type CommissionStatement,
+  type StatementLine,
+} from "@/lib/commissions";
+
+type ProfileRow = { id: string; full_name: string | null };
+
+/* ---------------- Date helpers (Melbourne) ---------------- */
+
+function melbISO(d: Date) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(d);
+}
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+/**
+ * Business month:
+ * - starts on the 26th
+ * - ends (exclusive) on the 26th of next month
+ */
+function businessMonthRangeISO(now: Date) {
+  const nowISO = melbISO(now);
+  const y = Number(nowISO.slice(0, 4));
+  const m = Number(nowISO.slice(5, 7)) - 1;
+  const d = Number(nowISO.slice(8, 10));
+
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+
+  if (d >= 26) start.setFullYear(y, m, 26);
+  else start.setFullYear(y, m - 1, 26);
+
+  const endExclusive = new Date(start);
+  endExclusive.setMonth(endExclusive.getMonth() + 1);
+  endExclusive.setDate(26);
+  endExclusive.setHours(0, 0, 0, 0);
+
+  return { startISO: melbISO(start), endExclusiveISO: melbISO(endExclusive) };
+}
+
+function fmtRangeLabel(startISO: string, endExclusiveISO: string) {
+  const end = new Date(`${endExclusiveISO}T00:00:00`);
+  end.setDate(end.getDate() - 1);
+  return `${startISO} → ${melbISO(end)}`;
+}
+
+/**
+ * Convert Melbourne “YYYY-MM-DD” midnight into a UTC ISO string using the
+ * correct Melbourne offset for that date (handles DST).
+ */
+function melbMidnightToUtcIso(dateISO: string) {
+  const baseUtc = new Date(`${dateISO}T00:00:00Z`);
+
+  const parts = new Intl.DateTimeFormat("en-AU", {
+    timeZone: "Australia/Melbourne",
+    timeZoneName: "shortOffset",
+    year: "numeric",
+  }).formatToParts(baseUtc);
+
+  const tz = parts.find((p) => p.type === "timeZoneName")?.value ?? "GMT+11";
+  const m = tz.match(/GMT([+-])(\d{1,2})(?::(\d{2}))?/);
+
+  let offsetMin = 11 * 60;
+  if (m) {
+    const sign = m[1] === "-" ? -1 : 1;
+    const hh = Number(m[2] ?? "0");
+    const mm = Number(m[3] ?? "0");
+    offsetMin = sign * (hh * 60 + mm);
+  }
+
+  const melbMidnightUtcMs = Date.parse(`${dateISO}T00:00:00Z`) - offsetMin * 60_000;
+  return new Date(melbMidnightUtcMs).toISOString();
+}
+
+function fmtDateTimeAU(iso: string) {
+  return new Intl.DateTimeFormat("en-AU", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+/* ---------------- Page ---------------- */
+
+type PersonStatement = {
+  user: ProfileRow;
+  lines: StatementLine[];
+  total: number;
+  projected: number | null; // current month only
+  locked: CommissionStatement | null;
+};
+
+export default function AdminCommissionsPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  // 0 = current business month, -1 = previous, …
+  const [periodOffset, setPeriodOffset] = useState(0);
+
+  const [profiles, setProfiles] = useState<ProfileRow[]>([]);
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [targets, setTargets] = useState<Record<string, number>>({});
+  const [meetings, setMeetings] = useState<CommissionMeeting[]>([]);
+  const [locked, setLocked] = useState<CommissionStatement[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const todayISO = useMemo(() => melbISO(new Date()), []);
+
+  const activeRange = useMemo(() => {
+    const current = businessMonthRangeISO(new Date());
+    const anchor = new Date(`${current.startISO}T12:00:00`);
+    anchor.setMonth(anchor.getMonth() + periodOffset);
+    return businessMonthRangeISO(anchor);
+  }, [periodOffset]);
+
+  const monthOver = todayISO >= activeRange.endExclusiveISO;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return;
+    }
+
+    try {
+      const meRes = await supabase
+        .from("profiles")
+        .select("id, role, is_admin")
+        .eq("id", session.user.id)
+        .single();
+
+      if (meRes.error) throw new Error(meRes.error.message);
+
+      if (!meRes.data?.is_admin && normRole(meRes.data?.role) !== "admin") {
+        router.push("/hub");
+        return;
+      }
+
+      const [pRes, sRes] = await Promise.all([
+        supabase.from("profiles").select("id, full_name").order("full_name", { ascending: true }),
+        supabase
+          .from("commission_statements")
+          .select(COMMISSION_STATEMENT_SELECT)
+          .eq("period_start", activeRange.startISO),
+      ]);
+
+      if (pRes.error) throw new Error(pRes.error.message);
+      if (sRes.error) throw new Error(sRes.error.message);
+
+      setProfiles((pRes.data ?? []) as ProfileRow[]);
+      setLocked((sRes.data ?? []) as CommissionStatement[]);
+      setRules(await fetchCommissionRules());
+      setTargets(await fetchWeeklyTargets());
+      setMeetings(
+        await fetchCommissionMeetings(
+          melbMidnightToUtcIso(activeRange.startISO),
+          melbMidnightToUtcIso(activeRange.endExclusiveISO)
+        )
+      );
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load commissions.");
+      setLoading(false);
+    }
+  }, [router, activeRange.startISO, activeRange.endExclusiveISO]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const statements = useMemo<PersonStatement[]>(() => {
+    const metrics = metricsByPerson(meetings);
+    const weeks = monthWeeks(activeRange.startISO, activeRange.endExclusiveISO);
+    const pace = paceFactor(activeRange.startISO, activeRange.endExclusiveISO, todayISO);
+    const lockedByUser: Record<string, CommissionStatement> = {};
+    locked.forEach((s) => (lockedByUser[s.user_id] = s));
+
+    return profiles
+      .map((user) => {
+        const snap = lockedByUser[user.id] ?? null;
+        if (snap) return { user, lines: snap.lines, total: Number(snap.total) || 0, projected: null, locked: snap };
+
+        const m = metrics[user.id];
+        if (!m) return { user, lines: [], total: 0, projected: null, locked: null };
+
+        const earned = evaluateRules(rules, m, targets, weeks);
+        const projected = pace > 1 ? evaluateRules(rules, projectMetrics(m, pace), targets, weeks).total : null;
+        return { user, lines: earned.lines, total: earned.total, projected, locked: null };
+      })
+      .filter((s) => s.locked || s.lines.length > 0)
+      .sort((a, b) => b.total - a.total);
+  }, [profiles, rules, targets, meetings, locked, activeRange.startISO, activeRange.endExclusiveISO, todayISO]);
+
+  async function lockStatements(rows: PersonStatement[]) {
+    if (rows.length === 0) return;
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      const payload = rows.map((s) => ({
+        user_id: s.user.id,
+        period_start: activeRange.startISO,
+        period_end: activeRange.endExclusiveISO,
+        lines: s.lines,
+        total: s.total,
+      }));
+
+      const { error } = await supabase.from("commission_statements").insert(payload);
+      if (error) {
+        if (error.code === "23505") throw new Error("Already locked — reload to see the current statements.");
+        throw new Error(error.message);
+      }
+
+      await load();
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to lock statement.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function unlockStatement(s: CommissionStatement) {
+    if (!confirm("Unlock this statement? It will be recalculated from the current rules and meetings.")) return;
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      const { error } = await supabase.from("commission_statements").delete().eq("id", s.id);
+      if (error) throw new Error(error.message);
+
+      await load();
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to unlock statement.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const unlockedRows = statements.filter((s) => !s.locked);
+  const teamTotal = statements.reduce((t, s) => t + s.total, 0);
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-3xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <div className="text-xs text-black/60">Admin</div>
+            <h1 className="text-2xl font-semibold">Commissions</h1>
+            <div className="mt-1 text-xs text-black/60">
+              Business month: {fmtRangeLabel(activeRange.startISO, activeRange.endExclusiveISO)}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => router.push("/admin/commissions/rules")}
+              className="rounded-xl border bg-white px-3 py-2 text-xs"
+            >
+              Rules
+            </button>
+            <button onClick={() => router.push("/admin")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Back
+            </button>
+          </div>
+        </div>
+
+        {/* Controls */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex gap-2">
+              <button onClick={() => setPeriodOffset((o) => o - 1)} className="rounded-xl border bg-white px-3 py-2 text-xs">
+                ← Prev
+              </button>
+              <button
+                onClick={() => setPeriodOffset(0)}
+                disabled={periodOffset === 0}
+                className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-50"
+              >
+                Current
+              </button>
+              <button
+                onClick={() => setPeriodOffset((o) => Math.min(0, o + 1))}
+                disabled={periodOffset === 0}
+                className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-50"
+              >
+                Next →
+              </button>
+            </div>
+
+            <button
+              onClick={() => lockStatements(unlockedRows)}
+              disabled={saving || !monthOver || unlockedRows.length === 0}
+              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+            >
+              {saving ? "Saving…" : `Lock all (${unlockedRows.length})`}
+            </button>
+          </div>
+
+          <div className="mt-3 text-[11px] text-black/50 leading-relaxed">
+            • Earned = month to date from non-discarded meetings; projected = the same pace over the whole month. <br />
+            • Statements can be locked once the month has ended. A locked statement is a snapshot — later rule or
+            meeting changes don&apos;t move it unless it&apos;s unlocked.
+          </div>
+        </div>
+
+        {/* Statements */}
+        <div className="rounded-2xl border bg-white overflow-hidden">
+          <div className="grid grid-cols-[1fr_6rem_6rem_5rem] gap-2 border-b bg-gray-50 px-4 py-2 text-[11px] font-semibold text-black/60">
+            <div>Person</div>
+            <div className="text-right">Earned</div>
+            <div className="text-right">Projected</div>
+            <div className="text-right">Status</div>
+          </div>
+
+          {rules.filter((r) => r.active).length === 0 && statements.length === 0 ? (
+            <div className="p-6 text-sm text-black/70">No active commission rules yet.</div>
+          ) : statements.length === 0 ? (
+            <div className="p-6 text-sm text-black/70">No activity in this month.</div>
+          ) : (
+            statements.map((s) => (
+              <div key={s.user.id} className="border-b last:border-b-0">
+                <button
+                  onClick={() => setExpanded((x) => (x === s.user.id ? null : s.user.id))}
+                  className="grid w-full grid-cols-[1fr_6rem_6rem_5rem] gap-2 px-4 py-3 text-left text-sm hover:bg-gray-50"
+                >
+                  <div className="min-w-0 truncate font-medium">{s.user.full_name ?? "—"}</div>
+                  <div className="text-right">{fmtMoney(s.total)}</div>
+                  <div className="text-right text-black/60">{s.projected === null ? "—" : fmtMoney(s.projected)}</div>
+                  <div className="text-right text-xs">{s.locked ? "🔒 Locked" : "Open"}</div>
+                </button>
+
+                {expanded === s.user.id ? (
+                  <div className="bg-gray-50 px-4 py-3">
+                    {s.lines.length === 0 ? (
+                      <div className="text-xs text-black/60">No rule lines.</div>
+                    ) : (
+                      <div className="space-y-1">
+                        {s.lines.map((l) => (
+                          <div key={l.rule_id} className="flex items-start justify-between gap-3 text-xs">
+                            <div className="min-w-0">
+                              <div className="font-medium">{l.name}</div>
+                              <div className="text-[11px] text-black/50">{l.detail}</div>
+                            </div>
+                            <div className="shrink-0">{fmtMoney(l.amount)}</div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="mt-3 flex items-center justify-between gap-3">
+                      <div className="text-[11px] text-black/50">
+                        {s.locked
+                          ? `Locked ${fmtDateTimeAU(s.locked.locked_at)} by ${
+                              profiles.find((p) => p.id === s.locked?.locked_by)?.full_name ?? "—"
+                            }`
+                          : monthOver
+                            ? "Not locked yet"
+                            : "Month still running"}
+                      </div>
+                      {s.locked ? (
+                        <button
+                          onClick={() => s.locked && unlockStatement(s.locked)}
+                          disabled={saving}
+                          className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
+                        >
+                          Unlock
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => lockStatements([s])}
+                          disabled={saving || !monthOver}
+                          className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
+                        >
+                          Lock statement
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+            ))
+          )}
+
+          {statements.length > 0 ? (
+            <div className="grid grid-cols-[1fr_6rem_6rem_5rem] gap-2 border-t bg-gray-50 px-4 py-2 text-xs font-semibold">
+              <div>Total</div>
+              <div className="text-right">{fmtMoney(teamTotal)}</div>
+              <div />
+              <div />
+            </div>
+          ) : null}
+        </div>
+
+        {msg && <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  COMMISSION_METRICS,
+  COMMISSION_RULE_KINDS,
+  fetchCommissionRules,
+  type CommissionMetric,
+  type CommissionRule,
+  type CommissionRuleKind,
+} from "@/lib/commissions";
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+function isAdminOk(role?: string | null, is_admin?: boolean | null) {
+  return !!is_admin || normRole(role) === "admin";
+}
+
+export default function AdminCommissionRulesPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [newName, setNewName] = useState("");
+
+  const requireAdmin = useCallback(async () => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return false;
+    }
+
+    const meRes = await supabase
+      .from("profiles")
+      .select("id, role, is_admin")
+      .eq("id", session.user.id)
+      .single();
+
+    if (meRes.error) {
+      setMsg(meRes.error.message);
+      return false;
+    }
+
+    if (!isAdminOk(meRes.data?.role, meRes.data?.is_admin)) {
+      router.push("/hub");
+      return false;
+    }
+
+    return true;
+  }, [router]);
+
+  const loadRules = useCallback(async () => {
+    setRules(await fetchCommissionRules());
+  }, []);
+
+  const loadAll = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+    try {
+      const ok = await requireAdmin();
+      if (!ok) {
+        setLoading(false);
+        return;
+      }
+      await loadRules();
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load rules.");
+      setLoading(false);
+    }
+  }, [requireAdmin, loadRules]);
+
+  useEffect(() => {
+    loadAll();
+  }, [loadAll]);
+
+  function patchRule(id: string, patch: Partial<CommissionRule>) {
+    setRules((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  }
+
+  function move(id: string, dir: -1 | 1) {
+    setRules((prev) => {
+      const i = prev.findIndex((r) => r.id === id);
+      const j = i + dir;
+      if (i === -1 || j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+  }
+
+  async function addRule() {
+    const name = newName.trim();
+    if (!name) return;
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      // Starts as $0 per show over target; edit below and save
+      const { error } = await supabase
+        .from("commission_rules")
+        .insert({ name, metric: "shows_booked", kind: "per_unit", amount: 0, sort_order: rules.length });
+
+      if (error) throw new Error(error.message);
+
+      setNewName("");
+      await loadRules();
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to add rule.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveRules() {
+    if (rules.some((r) => !r.name.trim())) {
+      setMsg("Every rule needs a name.");
+      return;
+    }
+    if (rules.some((r) => !Number.isFinite(Number(r.amount)) || Number(r.amount) < 0)) {
+      setMsg("Amounts must be zero or more.");
+      return;
+    }
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      const payload = rules.map((r, i) => ({
+        id: r.id,
+        name: r.name.trim(),
+        metric: r.metric,
+        kind: r.kind,
+        amount: Number(r.amount),
+        threshold: r.threshold === null || Number.isNaN(Number(r.threshold)) ? null : Number(r.threshold),
+        active: r.active,
+        sort_order: i,
+      }));
+
+      if (payload.length > 0) {
+        const { error } = await supabase.from("commission_rules").upsert(payload, { onConflict: "id" });
+        if (error) throw new Error(error.message);
+      }
+
+      await loadRules();
+
+      setMsg("Saved ✅");
+      setTimeout(() => setMsg(null), 1200);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to save rules.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  const field = "rounded-xl border px-3 py-2 text-sm bg-white";
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-2xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <div className="text-xs text-black/60">Admin</div>
+            <h1 className="text-2xl font-semibold">Commission Rules</h1>
+            <div className="mt-1 text-xs text-black/60">
+              Applied to each person&apos;s business month (26th → 25th). Leave the threshold blank to use the team KPI
+              target — weekly count targets are scaled to the month.
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => router.push("/admin/commissions")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Back
+            </button>
+            <button
+              onClick={saveRules}
+              disabled={saving}
+              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </div>
+
+        {/* Add */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="text-sm font-semibold">Add rule</div>
+          <div className="mt-3 flex gap-2">
+            <input
+              className="flex-1 rounded-xl border px-3 py-2 text-sm"
+              placeholder="e.g. Shows over target, SS2 rate bonus"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") addRule();
+              }}
+            />
+            <button
+              onClick={addRule}
+              disabled={saving || !newName.trim()}
+              className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+
+        {/* List */}
+        <div className="rounded-2xl border bg-white p-4">
+          <div className="text-sm font-semibold mb-2">Rules</div>
+          <div className="text-xs text-black/60 mb-4">
+            Rates are in percent (e.g. threshold 40 = 40%). &ldquo;Per unit&rdquo; on a rate pays per point above.
+          </div>
+
+          {rules.length === 0 ? (
+            <div className="text-sm text-black/70">No rules yet.</div>
+          ) : (
+            <div className="space-y-2">
+              {rules.map((r, i) => (
+                <div key={r.id} className="flex items-start gap-2 rounded-xl border p-2">
+                  <div className="flex flex-col">
+                    <button
+                      type="button"
+                      onClick={() => move(r.id, -1)}
+                      disabled={saving || i === 0}
+                      className="px-2 text-xs text-black/60 disabled:opacity-30"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => move(r.id, 1)}
+                      disabled={saving || i === rules.length - 1}
+                      className="px-2 text-xs text-black/60 disabled:opacity-30"
+                    >
+                      ▼
+                    </button>
+                  </div>
+
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex gap-2">
+                      <input
+                        className={`flex-1 ${field} ${r.active ? "" : "text-black/40"}`}
+                        value={r.name}
+                        onChange={(e) => patchRule(r.id, { name: e.target.value })}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => patchRule(r.id, { active: !r.active })}
+                        className={`rounded-xl border px-3 py-2 text-xs ${
+                          r.active ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"
+                        }`}
+                        disabled={saving}
+                      >
+                        {r.active ? "Active" : "Inactive"}
+                      </button>
+                    </div>
+
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                      <select
+                        className={field}
+                        value={r.metric}
+                        onChange={(e) => patchRule(r.id, { metric: e.target.value as CommissionMetric })}
+                      >
+                        {COMMISSION_METRICS.map((m) => (
+                          <option key={m.value} value={m.value}>
+                            {m.label}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        className={field}
+                        value={r.kind}
+                        onChange={(e) => patchRule(r.id, { kind: e.target.value as CommissionRuleKind })}
+                      >
+                        {COMMISSION_RULE_KINDS.map((k) => (
+                          <option key={k.value} value={k.value}>
+                            {k.label}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        className={field}
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        placeholder="Amount $"
+                        value={r.amount}
+                        onChange={(e) => patchRule(r.id, { amount: Number(e.target.value) })}
+                      />
+                      <input
+                        className={field}
+                        type="number"
+                        step="0.01"
+                        placeholder="Threshold (KPI target)"
+                        value={r.threshold ?? ""}
+                        onChange={(e) =>
+                          patchRule(r.id, { threshold: e.target.value === "" ? null : Number(e.target.value) })
+                        }
+                      />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {msg && <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { formatStoredKpiValue, kpiLabel } from "@/lib/kpi";
+import {
+  KPI_CUTOFF_KEY,
+  fetchKpiCutoff,
+  fetchRecentUnlocks,
+  fetchReviewQueue,
+  isOpenUnlock,
+  lockDueKpiSubmissions,
+  reviewKpiSubmission,
+  unlockKpiDay,
+  type KpiUnlock,
+  type ReviewItem,
+} from "@/lib/kpiReview";
+
+type ProfileRow = {
+  id: string;
+  full_name: string | null;
+  role: string | null;
+};
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+function isAdminOk(role?: string | null, is_admin?: boolean | null) {
+  return !!is_admin || normRole(role) === "admin";
+}
+
+function melbourneDateISO(d: Date) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(d);
+}
+
+function formatWhen(iso: string | null) {
+  if (!iso) return "—";
+  return new Intl.DateTimeFormat("en-AU", {
+    timeZone: "Australia/Melbourne",
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+export default function AdminKpiReviewPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [people, setPeople] = useState<ProfileRow[]>([]);
+  const [queue, setQueue] = useState<ReviewItem[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+
+  const [cutoffDays, setCutoffDays] = useState("");
+  const [unlocks, setUnlocks] = useState<KpiUnlock[]>([]);
+  const [unlockUser, setUnlockUser] = useState("");
+  const [unlockDate, setUnlockDate] = useState(() => melbourneDateISO(new Date()));
+  const [unlockReason, setUnlockReason] = useState("");
+
+  const nameOf = useCallback(
+    (id: string | null) => people.find((p) => p.id === id)?.full_name ?? "Unknown",
+    [people]
+  );
+
+  const requireAdmin = useCallback(async () => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return false;
+    }
+
+    const meRes = await supabase
+      .from("profiles")
+      .select("id, role, is_admin")
+      .eq("id", session.user.id)
+      .single();
+
+    if (meRes.error) {
+      setMsg(meRes.error.message);
+      return false;
+    }
+
+    if (!isAdminOk(meRes.data?.role, meRes.data?.is_admin)) {
+      router.push("/hub");
+      return false;
+    }
+
+    return true;
+  }, [router]);
+
+  const loadReview = useCallback(async () => {
+    await lockDueKpiSubmissions();
+    const [q, u] = await Promise.all([fetchReviewQueue(), fetchRecentUnlocks()]);
+    setQueue(q);
+    setUnlocks(u);
+  }, []);
+
+  const loadAll = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+    try {
+      const ok = await requireAdmin();
+      if (!ok) {
+        setLoading(false);
+        return;
+      }
+
+      const profRes = await supabase.from("profiles").select("id, full_name, role").order("full_name");
+      if (profRes.error) throw new Error(profRes.error.message);
+      setPeople((profRes.data ?? []) as ProfileRow[]);
+
+      setCutoffDays(String(await fetchKpiCutoff()));
+      await loadReview();
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load KPI review.");
+      setLoading(false);
+    }
+  }, [requireAdmin, loadReview]);
+
+  useEffect(() => {
+    loadAll();
+  }, [loadAll]);
+
+  async function review(item: ReviewItem, approve: boolean) {
+    const comment = (comments[item.id] ?? "").trim();
+    if (!approve && !comment) {
+      setMsg("Add a comment so they know what to fix.");
+      return;
+    }
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      await reviewKpiSubmission(item.id, approve, comment);
+      setQueue((prev) => prev.filter((q) => q.id !== item.id));
+      setComments((prev) => ({ ...prev, [item.id]: "" }));
+      setMsg(approve ? "Approved ✅" : "Returned ✅");
+      setTimeout(() => setMsg(null), 1200);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to review entry.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveCutoff() {
+    const days = Number(cutoffDays);
+    if (!Number.isInteger(days) || days < 0 || days > 60) {
+      setMsg("Cut-off must be a whole number of days between 0 and 60.");
+      return;
+    }
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      const { error } = await supabase
+        .from("app_settings")
+        .upsert(
+          { key: KPI_CUTOFF_KEY, value: { days }, updated_at: new Date().toISOString() },
+          { onConflict: "key" }
+        );
+      if (error) throw new Error(error.message);
+
+      await loadReview();
+
+      setMsg("Saved ✅");
+      setTimeout(() => setMsg(null), 1200);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to save cut-off.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function unlock() {
+    if (!unlockUser || !unlockDate) {
+      setMsg("Pick a person and a day to unlock.");
+      return;
+    }
+    if (!unlockReason.trim()) {
+      setMsg("Add a reason — it's kept with the unlock.");
+      return;
+    }
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      await unlockKpiDay(unlockUser, unlockDate, unlockReason);
+      setUnlockReason("");
+      setUnlocks(await fetchRecentUnlocks());
+
+      setMsg(`Unlocked ${unlockDate} for ${nameOf(unlockUser)} ✅`);
+      setTimeout(() => setMsg(null), 1500);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to unlock.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-3xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <div className="text-xs text-black/60">Admin</div>
+            <h1 className="text-2xl font-semibold">KPI Review</h1>
+            <div className="mt-1 text-xs text-black/60">
+              Submitted days wait here. Approve them, or return them to the person with a comment. Approved days lock
+              after the cut-off; past it, people need an unlock to change a day.
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => router.push("/admin/kpi-templates")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              KPI Setup
+            </button>
+            <button onClick={() => router.push("/admin")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Back
+            </button>
+          </div>
+        </div>
+
+        {/* Queue */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="text-sm font-semibold">Waiting for review ({queue.length})</div>
+
+          {queue.length === 0 ? (
+            <div className="mt-3 text-sm text-black/70">Nothing to review.</div>
+          ) : (
+            <div className="mt-3 space-y-3">
+              {queue.map((item) => (
+                <div key={item.id} className="rounded-xl border p-3">
+                  <div className="text-sm font-medium">{nameOf(item.user_id)}</div>
+                  <div className="text-xs text-black/60">
+                    {item.entry_date} • submitted {formatWhen(item.submitted_at)}
+                  </div>
+
+                  <div className="mt-2 grid gap-x-4 gap-y-1 sm:grid-cols-2">
+                    {item.values.map((v) => (
+                      <div key={v.field.id} className="flex justify-between gap-2 text-xs">
+                        <span className="text-black/60">{kpiLabel(v.field)}</span>
+                        <span className="font-medium">{formatStoredKpiValue(v.field, v.value_text)}</span>
+                      </div>
+                    ))}
+                  </div>
+
+                  {item.notes ? <div className="mt-2 text-xs text-black/70">Notes: {item.notes}</div> : null}
+
+                  <div className="mt-3 flex gap-2">
+                    <input
+                      className="flex-1 rounded-xl border px-3 py-2 text-xs"
+                      placeholder="Comment (needed to return)"
+                      value={comments[item.id] ?? ""}
+                      onChange={(e) => setComments((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                    />
+                    <button
+                      onClick={() => review(item, false)}
+                      disabled={saving}
+                      className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
+                    >
+                      Return
+                    </button>
+                    <button
+                      onClick={() => review(item, true)}
+                      disabled={saving}
+                      className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+                    >
+                      Approve
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Cut-off */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="text-sm font-semibold">Edit cut-off</div>
+          <div className="mt-1 text-xs text-black/60">
+            Days after the entry date that people can still change it on their own. 0 means same day only.
+          </div>
+          <div className="mt-3 flex gap-2">
+            <input
+              className="w-24 rounded-xl border px-3 py-2 text-sm"
+              inputMode="numeric"
+              value={cutoffDays}
+              onChange={(e) => setCutoffDays(e.target.value)}
+            />
+            <button
+              onClick={saveCutoff}
+              disabled={saving}
+              className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+
+        {/* Unlock */}
+        <div className="rounded-2xl border bg-white p-4">
+          <div className="text-sm font-semibold">Unlock a day</div>
+          <div className="mt-1 text-xs text-black/60">
+            Lets one person change one day once (within 2 days). Every unlock is kept below.
+          </div>
+
+          <div className="mt-3 grid gap-2 sm:grid-cols-[1fr_160px]">
+            <select
+              className="rounded-xl border bg-white px-3 py-2 text-sm"
+              value={unlockUser}
+              onChange={(e) => setUnlockUser(e.target.value)}
+            >
+              <option value="">Choose person…</option>
+              {people.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.full_name ?? p.id}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              className="rounded-xl border px-3 py-2 text-sm"
+              value={unlockDate}
+              max={melbourneDateISO(new Date())}
+              onChange={(e) => setUnlockDate(e.target.value)}
+            />
+          </div>
+          <div className="mt-2 flex gap-2">
+            <input
+              className="flex-1 rounded-xl border px-3 py-2 text-sm"
+              placeholder="Reason (e.g. missed a booking)"
+              value={unlockReason}
+              onChange={(e) => setUnlockReason(e.target.value)}
+            />
+            <button
+              onClick={unlock}
+              disabled={saving}
+              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+            >
+              Unlock
+            </button>
+          </div>
+
+          <div className="mt-4 text-xs font-semibold">Recent unlocks</div>
+          {unlocks.length === 0 ? (
+            <div className="mt-2 text-xs text-black/60">None yet.</div>
+          ) : (
+            <div className="mt-2 space-y-1">
+              {unlocks.map((u) => (
+                <div key={u.id} className="flex justify-between gap-3 rounded-xl border px-3 py-2 text-xs">
+                  <div>
+                    <span className="font-medium">{nameOf(u.user_id)}</span> • {u.entry_date} • {u.reason}
+                  </div>
+                  <div className="shrink-0 text-black/60">
+                    by {nameOf(u.unlocked_by)} {formatWhen(u.created_at)} •{" "}
+                    {u.used_at ? `used ${formatWhen(u.used_at)}` : isOpenUnlock(u) ? "open" : "expired"}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {msg && <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
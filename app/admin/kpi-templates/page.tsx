@@ -3,6 +3,8 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { fetchKpiFields, fieldsForRole, isFormulaField, isNumericField, kpiLabel, type KpiField } from "@/lib/kpi";
+import { computeFormulas, formulaUsesMetrics } from "@/lib/kpiFormula";
 
 const TEAM_ROLE = "setter"; // your "team bucket" for targets
 
@@ -80,26 +82,21 @@ function safeNum(x: any) {
 }
 
 /**
- * Our simple KPI set for the new system.
- * - appointments_booked: count (monthly input)
- * - show_rate: percent (monthly input; stored same as weekly)
- * - ss2_rate: percent (monthly input; stored same as weekly)
- * - shows: derived count (monthly) = booked * show_rate
- * - moved_to_ss2: derived count (monthly) = shows * ss2_rate
+ * Targets follow the KPI fields (kpi_fields):
+ * - number fields: count (monthly input)
+ * - percentage fields and percent formulas: monthly input, stored the same as weekly
+ * - formula fields over other fields only: derived from those fields' targets
+ *   (e.g. shows = appointments_booked × show_rate / 100)
+ * A formula that reads meeting metrics (show_rate, ss2_rate) can't be derived
+ * from targets, so its target is typed in.
  */
-const KPI_ORDER = ["appointments_booked", "show_rate", "ss2_rate", "shows", "moved_to_ss2"] as const;
-type KpiKey = (typeof KPI_ORDER)[number];
-
-const LABELS: Record<KpiKey, string> = {
-  appointments_booked: "Appointments booked",
-  show_rate: "Show rate (%)",
-  ss2_rate: "SS2 rate (%)",
-  shows: "Shows (derived)",
-  moved_to_ss2: "Moved to SS2 (derived)",
-};
+function isPercent(f: KpiField) {
+  return f.format === "percent" || f.input_type === "percentage";
+}
 
-const IS_PERCENT = new Set<KpiKey>(["show_rate", "ss2_rate"]);
-const IS_DERIVED = new Set<KpiKey>(["shows", "moved_to_ss2"]);
+function isDerived(f: KpiField) {
+  return isFormulaField(f) && !formulaUsesMetrics(f);
+}
 
 export default function AdminKpiSetupPage() {
   const router = useRouter();
@@ -110,6 +107,7 @@ export default function AdminKpiSetupPage() {
 
   const monthWeeks = useMemo(() => weeksInBusinessMonth(new Date()), []);
 
+  const [fields, setFields] = useState<KpiField[]>([]);
   const [targets, setTargets] = useState<TargetRow[]>([]);
 
   const targetsByKey = useMemo(() => {
@@ -118,7 +116,34 @@ export default function AdminKpiSetupPage() {
     return m;
   }, [targets]);
 
-  function patchByKey(kpi_key: KpiKey, patch: Partial<TargetRow>) {
+  // Derived targets, worked out from the typed-in monthly targets
+  const derivedMonthly = useMemo(() => {
+    const vars: Record<string, number> = {};
+    fields
+      .filter((f) => !isDerived(f))
+      .forEach((f) => (vars[f.key] = safeNum(targetsByKey[f.key]?.target_monthly)));
+
+    const computed = computeFormulas(fields, vars);
+    const out: Record<string, number> = {};
+    fields.filter(isDerived).forEach((f) => {
+      const v = safeNum(computed[f.key]);
+      out[f.key] = isPercent(f) ? clampPct(v) : Math.max(0, Math.round(v));
+    });
+    return out;
+  }, [fields, targetsByKey]);
+
+  function monthlyFor(f: KpiField) {
+    if (isDerived(f)) return derivedMonthly[f.key] ?? 0;
+    const v = safeNum(targetsByKey[f.key]?.target_monthly);
+    return isPercent(f) ? clampPct(v) : v;
+  }
+
+  function weeklyFor(f: KpiField) {
+    const monthly = monthlyFor(f);
+    return isPercent(f) ? clampPct(monthly) : weeklyFromMonthlyCount(monthly);
+  }
+
+  function patchByKey(kpi_key: string, patch: Partial<TargetRow>) {
     setTargets((prev) =>
       prev.map((t) => (t.kpi_key === kpi_key ? { ...t, ...patch } : t))
     );
@@ -152,6 +177,10 @@ export default function AdminKpiSetupPage() {
   }, [router]);
 
   const loadTargets = useCallback(async () => {
+    // Team targets cover the fields on the team role's form
+    const kpiFields = fieldsForRole(await fetchKpiFields(), TEAM_ROLE).filter(isNumericField);
+    setFields(kpiFields);
+
     const res = await supabase
       .from("kpi_targets")
       .select("id, role, kpi_key, target_weekly, active, created_at")
@@ -165,7 +194,7 @@ export default function AdminKpiSetupPage() {
     const map: Record<string, TargetRow> = {};
     existing.forEach((r) => (map[r.kpi_key] = r));
 
-    const ensured: TargetRow[] = KPI_ORDER.map((k) => {
+    const ensured: TargetRow[] = kpiFields.map(({ key: k }) => {
       const row = map[k];
       if (row) return { ...row };
 
@@ -180,11 +209,9 @@ export default function AdminKpiSetupPage() {
     });
 
     // derive monthly for UI
-    const withMonthly = ensured.map((t) => {
+    const withMonthly = ensured.map((t, i) => {
       const wk = safeNum(t.target_weekly);
-      const monthly = IS_PERCENT.has(t.kpi_key as KpiKey)
-        ? wk
-        : monthlyFromWeeklyCount(wk);
+      const monthly = isPercent(kpiFields[i]) ? wk : monthlyFromWeeklyCount(wk);
 
       return { ...t, target_monthly: monthly };
     });
@@ -213,45 +240,16 @@ export default function AdminKpiSetupPage() {
     loadAll();
   }, [loadAll]);
 
-  const recomputeDerivedMonthly = useCallback(() => {
-    const booked = safeNum(targetsByKey["appointments_booked"]?.target_monthly);
-    const showRate = clampPct(safeNum(targetsByKey["show_rate"]?.target_monthly));
-    const ss2Rate = clampPct(safeNum(targetsByKey["ss2_rate"]?.target_monthly));
-
-    const shows = Math.round(booked * (showRate / 100));
-    const moved = Math.round(shows * (ss2Rate / 100));
-
-    patchByKey("shows", { target_monthly: shows });
-    patchByKey("moved_to_ss2", { target_monthly: moved });
-  }, [targetsByKey]);
-
-  // whenever inputs change, keep derived values correct in UI
-  useEffect(() => {
-    if (targets.length === 0) return;
-    recomputeDerivedMonthly();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [
-    targetsByKey["appointments_booked"]?.target_monthly,
-    targetsByKey["show_rate"]?.target_monthly,
-    targetsByKey["ss2_rate"]?.target_monthly,
-  ]);
-
   async function saveTargets() {
     setSaving(true);
     setMsg(null);
 
     try {
-      // Ensure derived are up to date before saving
-      recomputeDerivedMonthly();
-
-      // Build payload for DB (store weekly)
-      const payload = KPI_ORDER.map((k) => {
+      // Build payload for DB (store weekly; percents as-is)
+      const payload = fields.map((f) => {
+        const k = f.key;
         const row = targetsByKey[k];
-        const monthly = safeNum(row?.target_monthly);
-
-        const weekly = IS_PERCENT.has(k)
-          ? clampPct(monthly) // percent just stored as-is
-          : weeklyFromMonthlyCount(monthly);
+        const weekly = weeklyFor(f);
 
         return {
           // if temp row, omit id so DB generates a new one
@@ -326,24 +324,26 @@ export default function AdminKpiSetupPage() {
         <div className="rounded-2xl border bg-white p-4">
           <div className="text-sm font-semibold mb-2">Team targets (monthly)</div>
           <div className="text-xs text-black/60 mb-4">
-            <b>Shows</b> and <b>Moved to SS2</b> are auto-calculated.
+            One target per active number / formula KPI field. Formulas over other fields are auto-calculated.
           </div>
 
           <div className="space-y-3">
-            {KPI_ORDER.map((k) => {
+            {fields.length === 0 ? <div className="text-sm text-black/60">No KPI fields configured.</div> : null}
+
+            {fields.map((f) => {
+              const k = f.key;
               const row = targetsByKey[k];
-              const monthly = safeNum(row?.target_monthly);
+              const monthly = monthlyFor(f);
               const active = row?.active ?? true;
+              const derived = isDerived(f);
 
-              const weeklyDisplay = IS_PERCENT.has(k)
-                ? clampPct(monthly)
-                : weeklyFromMonthlyCount(monthly);
+              const weeklyDisplay = weeklyFor(f);
 
               return (
                 <div key={k} className="rounded-xl border p-3">
                   <div className="flex items-start justify-between gap-3">
                     <div className="min-w-0">
-                      <div className="text-sm font-semibold">{LABELS[k]}</div>
+                      <div className="text-sm font-semibold">{kpiLabel(f)}</div>
                       <div className="text-xs text-black/50">
                         key: <code>{k}</code>
                       </div>
@@ -367,18 +367,18 @@ export default function AdminKpiSetupPage() {
                       <input
                         className="mt-1 w-full rounded-xl border px-3 py-2 text-sm"
                         type="number"
-                        value={IS_PERCENT.has(k) ? clampPct(monthly) : monthly}
-                        disabled={IS_DERIVED.has(k)}
+                        value={monthly}
+                        disabled={derived}
                         onChange={(e) => {
                           const v = safeNum(e.target.value);
                           patchByKey(k, {
-                            target_monthly: IS_PERCENT.has(k) ? clampPct(v) : v,
+                            target_monthly: isPercent(f) ? clampPct(v) : v,
                           });
                         }}
                       />
-                      {IS_DERIVED.has(k) ? (
+                      {derived ? (
                         <div className="mt-1 text-[11px] text-black/50">
-                          Auto-calculated
+                          Auto-calculated: <code>{f.formula}</code>
                         </div>
                       ) : null}
                     </label>
@@ -400,8 +400,8 @@ export default function AdminKpiSetupPage() {
 
           <div className="mt-4 text-[11px] text-black/50 leading-relaxed">
             Logic:
-            <br />• <b>Shows</b> = Appointments booked × Show rate
-            <br />• <b>Moved to SS2</b> = Shows × SS2 rate
+            <br />• Derived targets use the field&apos;s formula with the other targets plugged in.
+            <br />• Formulas that read meeting data (e.g. show rate) take a typed-in target.
             <br />• Percent KPIs store the same number weekly & monthly.
           </div>
         </div>
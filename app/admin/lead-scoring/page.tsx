@@ -0,0 +1,487 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { MEETING_OUTCOMES } from "@/lib/meetingOutcome";
+import { LEAD_SOURCE_SELECT, type LeadSource } from "@/lib/leadSources";
+import {
+  BUDGET_BRACKETS,
+  DEFAULT_HOT_MIN_SCORE,
+  DEFAULT_SCORE_BANDS,
+  HOT_MIN_SCORE_KEY,
+  SCORE_BANDS_KEY,
+  SCORING_ATTRIBUTES,
+  SCORING_RULE_SELECT,
+  rescoreMeetings,
+  type ScoreBands,
+  type ScoringAttribute,
+  type ScoringRule,
+} from "@/lib/leadScoring";
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+function isAdminOk(role?: string | null, is_admin?: boolean | null) {
+  return !!is_admin || normRole(role) === "admin";
+}
+
+/** Sensible starting match value when the attribute changes */
+function defaultMatch(attribute: ScoringAttribute, sources: LeadSource[]) {
+  if (attribute === "showed") return null;
+  if (attribute === "outcome") return MEETING_OUTCOMES[0]?.value ?? null;
+  if (attribute === "source") return sources[0]?.id ?? null;
+  if (attribute === "budget_bracket") return BUDGET_BRACKETS[0].value;
+  return "7";
+}
+
+function MatchInput({
+  attribute,
+  value,
+  sources,
+  onChange,
+  disabled,
+}: {
+  attribute: ScoringAttribute;
+  value: string | null;
+  sources: LeadSource[];
+  onChange: (v: string | null) => void;
+  disabled?: boolean;
+}) {
+  const cls = "w-full rounded-xl border px-3 py-2 text-sm bg-white";
+
+  if (attribute === "showed") return <div className="px-3 py-2 text-xs text-black/40">—</div>;
+
+  if (attribute === "days_since_min" || attribute === "days_since_max") {
+    return (
+      <input
+        className={cls}
+        type="number"
+        min={0}
+        max={9999}
+        value={value ?? ""}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value.replace(/\D/g, "").slice(0, 4) || null)}
+        placeholder="days"
+      />
+    );
+  }
+
+  const options =
+    attribute === "outcome"
+      ? MEETING_OUTCOMES.map((o) => ({ value: o.value as string, label: o.label }))
+      : attribute === "source"
+        ? sources.map((s) => ({ value: s.id, label: s.active ? s.name : `${s.name} (inactive)` }))
+        : BUDGET_BRACKETS;
+
+  return (
+    <select className={cls} value={value ?? ""} disabled={disabled} onChange={(e) => onChange(e.target.value || null)}>
+      <option value="">Pick…</option>
+      {options.map((o) => (
+        <option key={o.value} value={o.value}>
+          {o.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function AdminLeadScoringPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [rules, setRules] = useState<ScoringRule[]>([]);
+  const [sources, setSources] = useState<LeadSource[]>([]);
+  const [bands, setBands] = useState<ScoreBands>(DEFAULT_SCORE_BANDS);
+  const [hotMin, setHotMin] = useState(DEFAULT_HOT_MIN_SCORE);
+
+  const [newLabel, setNewLabel] = useState("");
+  const [newAttribute, setNewAttribute] = useState<ScoringAttribute>("showed");
+  const [newMatch, setNewMatch] = useState<string | null>(null);
+  const [newPoints, setNewPoints] = useState(1);
+
+  const requireAdmin = useCallback(async () => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return false;
+    }
+
+    const meRes = await supabase
+      .from("profiles")
+      .select("id, role, is_admin")
+      .eq("id", session.user.id)
+      .single();
+
+    if (meRes.error) {
+      setMsg(meRes.error.message);
+      return false;
+    }
+
+    if (!isAdminOk(meRes.data?.role, meRes.data?.is_admin)) {
+      router.push("/hub");
+      return false;
+    }
+
+    return true;
+  }, [router]);
+
+  const loadRules = useCallback(async () => {
+    const res = await supabase
+      .from("lead_scoring_rules")
+      .select(SCORING_RULE_SELECT)
+      .order("sort_order", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (res.error) throw new Error(res.error.message);
+    setRules((res.data ?? []) as ScoringRule[]);
+  }, []);
+
+  const loadSettings = useCallback(async () => {
+    const [srcRes, setRes] = await Promise.all([
+      supabase.from("lead_sources").select(LEAD_SOURCE_SELECT).order("sort_order", { ascending: true }),
+      supabase.from("app_settings").select("key, value").in("key", [SCORE_BANDS_KEY, HOT_MIN_SCORE_KEY]),
+    ]);
+
+    if (srcRes.error) throw new Error(srcRes.error.message);
+    if (setRes.error) throw new Error(setRes.error.message);
+
+    setSources((srcRes.data ?? []) as LeadSource[]);
+
+    const settings = setRes.data ?? [];
+    const b = settings.find((r) => r.key === SCORE_BANDS_KEY)?.value as Partial<ScoreBands> | undefined;
+    setBands({
+      warm: Number.isInteger(b?.warm) ? Number(b?.warm) : DEFAULT_SCORE_BANDS.warm,
+      hot: Number.isInteger(b?.hot) ? Number(b?.hot) : DEFAULT_SCORE_BANDS.hot,
+    });
+
+    const h = Number(settings.find((r) => r.key === HOT_MIN_SCORE_KEY)?.value);
+    setHotMin(Number.isInteger(h) && h >= 1 && h <= 3 ? h : DEFAULT_HOT_MIN_SCORE);
+  }, []);
+
+  const loadAll = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+    try {
+      const ok = await requireAdmin();
+      if (!ok) {
+        setLoading(false);
+        return;
+      }
+      await Promise.all([loadRules(), loadSettings()]);
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load scoring rules.");
+      setLoading(false);
+    }
+  }, [requireAdmin, loadRules, loadSettings]);
+
+  useEffect(() => {
+    loadAll();
+  }, [loadAll]);
+
+  function patchRule(id: string, patch: Partial<ScoringRule>) {
+    setRules((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  }
+
+  function move(id: string, dir: -1 | 1) {
+    setRules((prev) => {
+      const i = prev.findIndex((r) => r.id === id);
+      const j = i + dir;
+      if (i === -1 || j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+  }
+
+  function ruleProblem(r: Pick<ScoringRule, "label" | "attribute" | "match_value" | "points">) {
+    if (!r.label.trim()) return "Every rule needs a label.";
+    if (r.attribute !== "showed" && !r.match_value) return `"${r.label.trim()}" needs a value to match.`;
+    if (!Number.isInteger(r.points) || r.points < -10 || r.points > 10) {
+      return `"${r.label.trim()}" points must be a whole number from -10 to 10.`;
+    }
+    return null;
+  }
+
+  async function addRule() {
+    const rule = { label: newLabel.trim(), attribute: newAttribute, match_value: newMatch, points: newPoints };
+    const problem = ruleProblem(rule);
+    if (problem) {
+      setMsg(problem);
+      return;
+    }
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      const { error } = await supabase.from("lead_scoring_rules").insert({ ...rule, sort_order: rules.length });
+      if (error) throw new Error(error.message);
+
+      setNewLabel("");
+      setNewPoints(1);
+      await loadRules();
+      await rescoreMeetings();
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to add rule.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveAll() {
+    const problem = rules.map(ruleProblem).find(Boolean);
+    if (problem) {
+      setMsg(problem);
+      return;
+    }
+    if (!Number.isInteger(bands.warm) || !Number.isInteger(bands.hot) || bands.warm > bands.hot) {
+      setMsg("Score 2 needs fewer (or equal) points than score 3.");
+      return;
+    }
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      const payload = rules.map((r, i) => ({
+        id: r.id,
+        label: r.label.trim(),
+        attribute: r.attribute,
+        match_value: r.attribute === "showed" ? null : r.match_value,
+        points: r.points,
+        active: r.active,
+        sort_order: i,
+      }));
+
+      if (payload.length > 0) {
+        const { error } = await supabase.from("lead_scoring_rules").upsert(payload, { onConflict: "id" });
+        if (error) throw new Error(error.message);
+      }
+
+      const { error: setErr } = await supabase.from("app_settings").upsert(
+        [
+          { key: SCORE_BANDS_KEY, value: bands },
+          { key: HOT_MIN_SCORE_KEY, value: hotMin },
+        ],
+        { onConflict: "key" }
+      );
+      if (setErr) throw new Error(setErr.message);
+
+      await rescoreMeetings();
+      await loadRules();
+      setMsg("Saved and rescored ✅");
+      setTimeout(() => setMsg(null), 1500);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to save scoring rules.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  const input = "rounded-xl border px-3 py-2 text-sm bg-white";
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-3xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <div className="text-xs text-black/60">Admin</div>
+            <h1 className="text-2xl font-semibold">Lead Scoring</h1>
+            <div className="mt-1 text-xs text-black/60">
+              Each matching rule adds its points to a meeting; the total sets the 1–3 lead score. Scores picked by hand
+              are left alone until someone switches them back to auto.
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => router.push("/admin")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Back
+            </button>
+            <button
+              onClick={saveAll}
+              disabled={saving}
+              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </div>
+
+        {/* Bands */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="text-sm font-semibold">Score bands</div>
+          <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="text-xs text-black/60">
+              Score 2 from (points)
+              <input
+                className={`mt-1 w-full ${input}`}
+                type="number"
+                value={bands.warm}
+                onChange={(e) => setBands((b) => ({ ...b, warm: Math.trunc(Number(e.target.value)) }))}
+              />
+            </label>
+            <label className="text-xs text-black/60">
+              Score 3 from (points)
+              <input
+                className={`mt-1 w-full ${input}`}
+                type="number"
+                value={bands.hot}
+                onChange={(e) => setBands((b) => ({ ...b, hot: Math.trunc(Number(e.target.value)) }))}
+              />
+            </label>
+            <label className="text-xs text-black/60">
+              Hot lead at score
+              <select className={`mt-1 w-full ${input}`} value={hotMin} onChange={(e) => setHotMin(Number(e.target.value))}>
+                <option value={1}>1 or more (every lead)</option>
+                <option value={2}>2 or more</option>
+                <option value={3}>3</option>
+              </select>
+            </label>
+          </div>
+          <div className="mt-2 text-xs text-black/50">
+            Below {bands.warm} points scores 1. Hot leads are the meetings scoring {hotMin}
+            {hotMin < 3 ? " or more" : ""}.
+          </div>
+        </div>
+
+        {/* Add */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="text-sm font-semibold">Add rule</div>
+          <div className="mt-3 grid grid-cols-1 sm:grid-cols-[1fr_1fr_1fr_80px_auto] gap-2">
+            <input
+              className={input}
+              placeholder="e.g. Referral partner"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+            />
+            <select
+              className={input}
+              value={newAttribute}
+              onChange={(e) => {
+                const a = e.target.value as ScoringAttribute;
+                setNewAttribute(a);
+                setNewMatch(defaultMatch(a, sources));
+              }}
+            >
+              {SCORING_ATTRIBUTES.map((a) => (
+                <option key={a.value} value={a.value}>
+                  {a.label}
+                </option>
+              ))}
+            </select>
+            <MatchInput attribute={newAttribute} value={newMatch} sources={sources} onChange={setNewMatch} />
+            <input
+              className={input}
+              type="number"
+              min={-10}
+              max={10}
+              value={newPoints}
+              onChange={(e) => setNewPoints(Math.trunc(Number(e.target.value)))}
+            />
+            <button
+              onClick={addRule}
+              disabled={saving || !newLabel.trim()}
+              className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+
+        {/* List */}
+        <div className="rounded-2xl border bg-white p-4">
+          <div className="text-sm font-semibold mb-2">Rules</div>
+          <div className="text-xs text-black/60 mb-4">
+            Order here is the order reasons are listed on a meeting. Points can be negative (-10 to 10).
+          </div>
+
+          {rules.length === 0 ? (
+            <div className="text-sm text-black/70">No rules yet — every meeting scores 1.</div>
+          ) : (
+            <div className="space-y-2">
+              {rules.map((r, i) => (
+                <div key={r.id} className="flex items-center gap-2 rounded-xl border p-2">
+                  <div className="flex flex-col">
+                    <button
+                      type="button"
+                      onClick={() => move(r.id, -1)}
+                      disabled={saving || i === 0}
+                      className="px-2 text-xs text-black/60 disabled:opacity-30"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => move(r.id, 1)}
+                      disabled={saving || i === rules.length - 1}
+                      className="px-2 text-xs text-black/60 disabled:opacity-30"
+                    >
+                      ▼
+                    </button>
+                  </div>
+
+                  <div className="grid flex-1 grid-cols-1 sm:grid-cols-[1fr_1fr_1fr_72px] gap-2">
+                    <input
+                      className={`${input} ${r.active ? "" : "text-black/40"}`}
+                      value={r.label}
+                      onChange={(e) => patchRule(r.id, { label: e.target.value })}
+                    />
+                    <select
+                      className={input}
+                      value={r.attribute}
+                      onChange={(e) => {
+                        const a = e.target.value as ScoringAttribute;
+                        patchRule(r.id, { attribute: a, match_value: defaultMatch(a, sources) });
+                      }}
+                    >
+                      {SCORING_ATTRIBUTES.map((a) => (
+                        <option key={a.value} value={a.value}>
+                          {a.label}
+                        </option>
+                      ))}
+                    </select>
+                    <MatchInput
+                      attribute={r.attribute}
+                      value={r.match_value}
+                      sources={sources}
+                      onChange={(v) => patchRule(r.id, { match_value: v })}
+                    />
+                    <input
+                      className={input}
+                      type="number"
+                      min={-10}
+                      max={10}
+                      value={r.points}
+                      onChange={(e) => patchRule(r.id, { points: Math.trunc(Number(e.target.value)) })}
+                    />
+                  </div>
+
+                  <button
+                    type="button"
+                    onClick={() => patchRule(r.id, { active: !r.active })}
+                    className={`rounded-xl border px-3 py-2 text-xs ${
+                      r.active ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"
+                    }`}
+                    disabled={saving}
+                  >
+                    {r.active ? "Active" : "Inactive"}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {msg && <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { LOST_REASON_SELECT, type LostReason } from "@/lib/lostReasons";
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+function isAdminOk(role?: string | null, is_admin?: boolean | null) {
+  return !!is_admin || normRole(role) === "admin";
+}
+
+export default function AdminLostReasonsPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [reasons, setReasons] = useState<LostReason[]>([]);
+  const [newName, setNewName] = useState("");
+
+  const requireAdmin = useCallback(async () => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return false;
+    }
+
+    const meRes = await supabase
+      .from("profiles")
+      .select("id, role, is_admin")
+      .eq("id", session.user.id)
+      .single();
+
+    if (meRes.error) {
+      setMsg(meRes.error.message);
+      return false;
+    }
+
+    if (!isAdminOk(meRes.data?.role, meRes.data?.is_admin)) {
+      router.push("/hub");
+      return false;
+    }
+
+    return true;
+  }, [router]);
+
+  const loadReasons = useCallback(async () => {
+    const res = await supabase
+      .from("lost_reasons")
+      .select(LOST_REASON_SELECT)
+      .order("sort_order", { ascending: true })
+      .order("label", { ascending: true });
+
+    if (res.error) throw new Error(res.error.message);
+    setReasons((res.data ?? []) as LostReason[]);
+  }, []);
+
+  const loadAll = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+    try {
+      const ok = await requireAdmin();
+      if (!ok) {
+        setLoading(false);
+        return;
+      }
+      await loadReasons();
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load reasons.");
+      setLoading(false);
+    }
+  }, [requireAdmin, loadReasons]);
+
+  useEffect(() => {
+    loadAll();
+  }, [loadAll]);
+
+  function patchReason(id: string, patch: Partial<LostReason>) {
+    setReasons((prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  }
+
+  function move(id: string, dir: -1 | 1) {
+    setReasons((prev) => {
+      const i = prev.findIndex((s) => s.id === id);
+      const j = i + dir;
+      if (i === -1 || j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+  }
+
+  async function addReason() {
+    const label = newName.trim();
+    if (!label) return;
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      const { error } = await supabase
+        .from("lost_reasons")
+        .insert({ label, sort_order: reasons.length });
+
+      if (error) {
+        if (error.code === "23505") throw new Error(`"${label}" already exists.`);
+        throw new Error(error.message);
+      }
+
+      setNewName("");
+      await loadReasons();
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to add reason.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveReasons() {
+    if (reasons.some((r) => !r.label.trim())) {
+      setMsg("Every reason needs a label.");
+      return;
+    }
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      const payload = reasons.map((s, i) => ({
+        id: s.id,
+        label: s.label.trim(),
+        active: s.active,
+        sort_order: i,
+      }));
+
+      if (payload.length > 0) {
+        const { error } = await supabase.from("lost_reasons").upsert(payload, { onConflict: "id" });
+        if (error) {
+          if (error.code === "23505") throw new Error("Two reasons can't share a label.");
+          throw new Error(error.message);
+        }
+      }
+
+      await loadReasons();
+
+      setMsg("Saved ✅");
+      setTimeout(() => setMsg(null), 1200);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to save reasons.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-2xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <div className="text-xs text-black/60">Admin</div>
+            <h1 className="text-2xl font-semibold">Lost Reasons</h1>
+            <div className="mt-1 text-xs text-black/60">
+              Why a meeting that showed didn’t move to SS2. Closers pick one when they save a showed meeting.
+              Deactivate a reason to retire it — past meetings keep their label.
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => router.push("/admin/performance")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Performance
+            </button>
+            <button onClick={() => router.push("/admin")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Back
+            </button>
+            <button
+              onClick={saveReasons}
+              disabled={saving}
+              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </div>
+
+        {/* Add */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="text-sm font-semibold">Add reason</div>
+          <div className="mt-3 flex gap-2">
+            <input
+              className="flex-1 rounded-xl border px-3 py-2 text-sm"
+              placeholder="e.g. Needs partner approval"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") addReason();
+              }}
+            />
+            <button
+              onClick={addReason}
+              disabled={saving || !newName.trim()}
+              className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+
+        {/* List */}
+        <div className="rounded-2xl border bg-white p-4">
+          <div className="text-sm font-semibold mb-2">Reasons</div>
+          <div className="text-xs text-black/60 mb-4">Order here is the order closers see and the chart uses.</div>
+
+          {reasons.length === 0 ? (
+            <div className="text-sm text-black/70">No reasons yet.</div>
+          ) : (
+            <div className="space-y-2">
+              {reasons.map((s, i) => (
+                <div key={s.id} className="flex items-center gap-2 rounded-xl border p-2">
+                  <div className="flex flex-col">
+                    <button
+                      type="button"
+                      onClick={() => move(s.id, -1)}
+                      disabled={saving || i === 0}
+                      className="px-2 text-xs text-black/60 disabled:opacity-30"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => move(s.id, 1)}
+                      disabled={saving || i === reasons.length - 1}
+                      className="px-2 text-xs text-black/60 disabled:opacity-30"
+                    >
+                      ▼
+                    </button>
+                  </div>
+
+                  <input
+                    className={`flex-1 rounded-xl border px-3 py-2 text-sm ${s.active ? "" : "text-black/40"}`}
+                    value={s.label}
+                    onChange={(e) => patchReason(s.id, { label: e.target.value })}
+                  />
+
+                  <button
+                    type="button"
+                    onClick={() => patchReason(s.id, { active: !s.active })}
+                    className={`rounded-xl border px-3 py-2 text-xs ${
+                      s.active ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"
+                    }`}
+                    disabled={saving}
+                  >
+                    {s.active ? "Active" : "Inactive"}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {msg && <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,28 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
 import { AppShell, GlassCard, NeonButton, NeonBadge } from "@/app/Components/ui/app-ui";
+import { isMoved, isShow, isShowRateEligible } from "@/lib/meetingOutcome";
+import { fetchConversion, fetchPipelineStages, type ConversionRow, type PipelineStage } from "@/lib/pipeline";
+import { fetchHotMinScore } from "@/lib/leadScoring";
+import {
+  defaultReportKey,
+  fetchKpiFields,
+  fetchKpiTotals,
+  formatKpiValue,
+  hasKpiSubmission,
+  isNumericField,
+  kpiLabel,
+  type KpiField,
+} from "@/lib/kpi";
+import {
+  DEFAULT_HOT_LEAD_SLA,
+  HOT_LEAD_SLA_KEY,
+  atRiskOwnerId,
+  fetchAtRiskHotLeads,
+  fetchHotLeadSla,
+  type AtRiskLead,
+  type HotLeadSla,
+} from "@/lib/hotLeadSla";
 
 type RangeMode = "weekly" | "monthly";
 type ScopeMode = "team" | "person";
@@ -163,12 +185,28 @@ export default function AdminHubPage() {
   // KPI
   const [todaySubmitted, setTodaySubmitted] = useState(false);
 
-  // Totals
-  const [bookedKpi, setBookedKpi] = useState(0);
+  // Totals (KPI card reports any active number or formula field)
+  const [kpiFields, setKpiFields] = useState<KpiField[]>([]);
+  const [kpiKey, setKpiKey] = useState("");
+  const [kpiTotal, setKpiTotal] = useState<number | null>(0); // null: not on the person's form
   const [meetingsOccurred, setMeetingsOccurred] = useState(0);
   const [shows, setShows] = useState(0);
   const [moved, setMoved] = useState(0);
 
+  // Stage conversion (any two pipeline stages)
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [convFromId, setConvFromId] = useState("");
+  const [convToId, setConvToId] = useState("");
+  const [conversion, setConversion] = useState<{ team: ConversionRow | null; byPerson: Record<string, ConversionRow> }>({
+    team: null,
+    byPerson: {},
+  });
+
+  // At-risk hot leads (SLA breaches) + the SLA being edited
+  const [atRisk, setAtRisk] = useState<AtRiskLead[]>([]);
+  const [slaDraft, setSlaDraft] = useState<HotLeadSla>(DEFAULT_HOT_LEAD_SLA);
+  const [savingSla, setSavingSla] = useState(false);
+
   // Today totals (hide discarded)
   const [todayMeetings, setTodayMeetings] = useState(0);
   const [todayShows, setTodayShows] = useState(0);
@@ -238,37 +276,28 @@ export default function AdminHubPage() {
       // Today KPI submitted?
       const kpiUid = scopeMode === "person" && pid ? pid : uid;
 
-      const todayKpiRes = await supabase
-        .from("daily_kpis")
-        .select("id")
-        .eq("user_id", kpiUid)
-        .eq("entry_date", todayISO)
-        .maybeSingle();
-
-      if (todayKpiRes.error) throw new Error(todayKpiRes.error.message);
-      setTodaySubmitted(!!todayKpiRes.data);
+      setTodaySubmitted(await hasKpiSubmission(kpiUid, todayISO));
 
       // -------------------------
-      // Booked KPI (daily_kpis)
+      // KPI total (daily KPI submissions, chosen field)
       // -------------------------
-      let bookedSum = 0;
-
-      let dkQ = supabase
-        .from("daily_kpis")
-        .select("user_id, entry_date, appointments_booked")
-        .gte("entry_date", activeRange.startISO)
-        .lt("entry_date", activeRange.endExclusiveISO);
-
-      if (scopeMode === "person" && pid) dkQ = dkQ.eq("user_id", pid);
-
-      const dkRes = await dkQ;
-      if (dkRes.error) throw new Error(dkRes.error.message);
-
-      (dkRes.data ?? []).forEach((r: any) => {
-        bookedSum += Number(r.appointments_booked ?? 0) || 0;
-      });
-
-      setBookedKpi(bookedSum);
+      const fields = (await fetchKpiFields()).filter(isNumericField);
+      setKpiFields(fields);
+
+      const totals = await fetchKpiTotals(
+        fields,
+        kpiKey || defaultReportKey(fields),
+        {
+          startISO: activeRange.startISO,
+          endExclusiveISO: activeRange.endExclusiveISO,
+          startUtc: rangeStartUtcIso,
+          endUtc: rangeEndUtcIso,
+        },
+        scopeMode === "person" && pid ? [pid] : undefined
+      );
+      setKpiTotal(
+        scopeMode === "person" && pid && totals.applicable && !totals.applicable.includes(pid) ? null : totals.total
+      );
 
       // -------------------------
       // Meetings (simplified schema)
@@ -277,7 +306,7 @@ export default function AdminHubPage() {
       // -------------------------
       let mtgQ = supabase
         .from("meetings")
-        .select("meeting_at, attended_by_id, showed_up, moved_to_ss2, discarded_at")
+        .select("meeting_at, attended_by_id, outcome, discarded_at")
         .gte("meeting_at", rangeStartUtcIso)
         .lt("meeting_at", rangeEndUtcIso);
 
@@ -286,22 +315,19 @@ export default function AdminHubPage() {
       const mtgRes = await mtgQ;
       if (mtgRes.error) throw new Error(mtgRes.error.message);
 
-      const nowMs = Date.now();
-      const occurred = (mtgRes.data ?? []).filter((m: any) => {
-        const t = Date.parse(m.meeting_at);
-        return Number.isFinite(t) && t <= nowMs;
-      });
+      // Occurred = outcome recorded as showed / moved / no-show (pending excluded)
+      const occurred = (mtgRes.data ?? []).filter((m) => isShowRateEligible(m.outcome));
 
       setMeetingsOccurred(occurred.length);
-      setShows(occurred.filter((m: any) => m.showed_up === true).length);
-      setMoved(occurred.filter((m: any) => m.moved_to_ss2 === true).length);
+      setShows(occurred.filter((m) => isShow(m.outcome)).length);
+      setMoved(occurred.filter((m) => isMoved(m.outcome)).length);
 
       // -------------------------
       // Today meetings (hide discarded)
       // -------------------------
       let todayQ = supabase
         .from("meetings")
-        .select("id, showed_up, meeting_at, attended_by_id, discarded_at")
+        .select("id, outcome, meeting_at, attended_by_id, discarded_at")
         .gte("meeting_at", todayStartUtcIso)
         .lt("meeting_at", todayEndExclusiveUtcIso)
         .is("discarded_at", null);
@@ -313,7 +339,9 @@ export default function AdminHubPage() {
 
       const todayList = todayRes.data ?? [];
       setTodayMeetings(todayList.length);
-      setTodayShows(todayList.filter((m: any) => m.showed_up === true).length);
+      setTodayShows(todayList.filter((m) => isShow(m.outcome)).length);
+
+      setStages(await fetchPipelineStages());
 
       setLoading(false);
     } catch (e: any) {
@@ -333,15 +361,90 @@ export default function AdminHubPage() {
     scopeMode,
     personId,
     effectivePersonId,
+    kpiKey,
   ]);
 
   useEffect(() => {
     load();
   }, [load]);
 
+  const activeStages = useMemo(() => stages.filter((s) => s.active), [stages]);
+  const effectiveFromId = convFromId || activeStages[0]?.id || "";
+  const effectiveToId = convToId || activeStages[1]?.id || "";
+
+  const loadConversion = useCallback(async () => {
+    if (!effectiveFromId || !effectiveToId) return;
+    try {
+      setConversion(await fetchConversion(effectiveFromId, effectiveToId, rangeStartUtcIso, rangeEndUtcIso));
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load stage conversion.");
+    }
+  }, [effectiveFromId, effectiveToId, rangeStartUtcIso, rangeEndUtcIso]);
+
+  useEffect(() => {
+    loadConversion();
+  }, [loadConversion]);
+
+  const loadAtRisk = useCallback(async () => {
+    try {
+      const [minScore, sla] = await Promise.all([fetchHotMinScore(), fetchHotLeadSla()]);
+      setSlaDraft(sla);
+      setAtRisk(await fetchAtRiskHotLeads(minScore, sla));
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load at-risk hot leads.");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAtRisk();
+  }, [loadAtRisk]);
+
+  async function saveSla() {
+    if (!(slaDraft.contact_hours > 0) || !(slaDraft.idle_days > 0)) {
+      setMsg("SLA hours and days must be more than 0.");
+      return;
+    }
+
+    setSavingSla(true);
+    setMsg(null);
+    try {
+      const { error } = await supabase
+        .from("app_settings")
+        .upsert({ key: HOT_LEAD_SLA_KEY, value: slaDraft }, { onConflict: "key" });
+      if (error) throw new Error(error.message);
+      await loadAtRisk();
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to save SLA.");
+    } finally {
+      setSavingSla(false);
+    }
+  }
+
+  // Worst owners first
+  const atRiskByOwner = useMemo(() => {
+    const groups: Record<string, AtRiskLead[]> = {};
+    atRisk.forEach((m) => {
+      const owner = atRiskOwnerId(m);
+      (groups[owner] ??= []).push(m);
+    });
+    return Object.entries(groups)
+      .map(([ownerId, leads]) => ({
+        ownerId,
+        name: people.find((p) => p.id === ownerId)?.full_name ?? "Unknown",
+        leads,
+      }))
+      .sort((a, b) => b.leads.length - a.leads.length || a.name.localeCompare(b.name));
+  }, [atRisk, people]);
+
+  // Person scope follows the taker, like the other person stats
+  const convRow = scopeMode === "person" ? conversion.byPerson[effectivePersonId] ?? null : conversion.team;
+
   const showRate = pctRatio(shows, meetingsOccurred);
   const moveRate = pctRatio(moved, shows);
 
+  const kpiRoles = kpiFields.find((f) => f.key === (kpiKey || defaultReportKey(kpiFields)))?.roles ?? [];
+  const kpiRolesLabel = kpiRoles.map((r) => r.role).join(" / ");
+
   if (loading) return <div className="p-6 text-white">Loading…</div>;
 
   return (
@@ -363,6 +466,7 @@ export default function AdminHubPage() {
       <div className="mb-4 text-[11px] text-white/55">
         Logged in as: <span className="text-white/80 font-medium">{myRole || "admin"}</span>
         {isAdmin ? " (admin)" : ""} • Period totals include discarded meetings. Today totals hide discarded.
+        {" "}Rates only count meetings with a recorded outcome.
         {scopeMode === "person" ? " Person scope attributes outcomes by attended_by_id." : ""}
       </div>
 
@@ -461,9 +565,30 @@ export default function AdminHubPage() {
 
       <div className="grid grid-cols-2 gap-3 mb-3">
         <GlassCard>
-          <div className="text-xs text-white/60 font-semibold">Booked (KPI)</div>
-          <div className="mt-2 text-3xl font-semibold text-white">{n(bookedKpi)}</div>
-          <div className="mt-1 text-xs text-white/55">Period: {rangeLabel}</div>
+          {kpiFields.length > 1 ? (
+            <select
+              className="w-full rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs font-semibold text-white/80 outline-none"
+              value={kpiKey || defaultReportKey(kpiFields)}
+              onChange={(e) => setKpiKey(e.target.value)}
+            >
+              {kpiFields.map((f) => (
+                <option key={f.id} value={f.key} className="text-black">
+                  {kpiLabel(f)} (KPI)
+                </option>
+              ))}
+            </select>
+          ) : (
+            <div className="text-xs text-white/60 font-semibold">
+              {kpiLabel(kpiFields.find((f) => f.key === defaultReportKey(kpiFields)))} (KPI)
+            </div>
+          )}
+          <div className="mt-2 text-3xl font-semibold text-white">
+            {formatKpiValue(kpiFields.find((f) => f.key === (kpiKey || defaultReportKey(kpiFields))), kpiTotal)}
+          </div>
+          <div className="mt-1 text-xs text-white/55">
+            {kpiTotal == null ? "Not on this person's form" : `Period: ${rangeLabel}`}
+            {kpiRolesLabel ? ` • ${kpiRolesLabel} only` : ""}
+          </div>
         </GlassCard>
 
         <GlassCard>
@@ -491,6 +616,115 @@ export default function AdminHubPage() {
         </GlassCard>
       </div>
 
+      {/* STAGE CONVERSION */}
+      {activeStages.length >= 2 ? (
+        <GlassCard className="mb-4">
+          <div className="text-xs text-white/60 font-semibold">Stage conversion</div>
+          <div className="mt-2 flex items-center gap-2">
+            <select
+              className="flex-1 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white outline-none"
+              value={effectiveFromId}
+              onChange={(e) => setConvFromId(e.target.value)}
+            >
+              {activeStages.map((s) => (
+                <option key={s.id} value={s.id} className="text-black">
+                  {s.label}
+                </option>
+              ))}
+            </select>
+            <span className="text-white/40">→</span>
+            <select
+              className="flex-1 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white outline-none"
+              value={effectiveToId}
+              onChange={(e) => setConvToId(e.target.value)}
+            >
+              {activeStages.map((s) => (
+                <option key={s.id} value={s.id} className="text-black">
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="mt-3 text-3xl font-semibold text-white">
+            {pctRatio(convRow?.reached_to ?? 0, convRow?.reached_from ?? 0)}
+          </div>
+          <div className="mt-1 text-xs text-white/55">
+            {n(convRow?.reached_to ?? 0)} of {n(convRow?.reached_from ?? 0)} deals that reached the first stage this
+            period have reached the second.
+          </div>
+        </GlassCard>
+      ) : null}
+
+      {/* AT-RISK HOT LEADS */}
+      <GlassCard className="mb-4">
+        <div className="flex items-center justify-between">
+          <div className="text-xs text-white/60 font-semibold">At-risk hot leads</div>
+          <NeonBadge tone={atRisk.length ? "red" : "green"}>{atRisk.length}</NeonBadge>
+        </div>
+
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-[11px] text-white/60">
+          Contact within
+          <input
+            type="number"
+            min={1}
+            className="w-14 rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white outline-none"
+            value={slaDraft.contact_hours}
+            onChange={(e) => setSlaDraft((s) => ({ ...s, contact_hours: Number(e.target.value) }))}
+          />
+          h • idle max
+          <input
+            type="number"
+            min={1}
+            className="w-14 rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white outline-none"
+            value={slaDraft.idle_days}
+            onChange={(e) => setSlaDraft((s) => ({ ...s, idle_days: Number(e.target.value) }))}
+          />
+          d
+          <NeonButton variant="secondary" onClick={saveSla} disabled={savingSla}>
+            {savingSla ? "Saving…" : "Save SLA"}
+          </NeonButton>
+        </div>
+
+        {atRiskByOwner.length === 0 ? (
+          <div className="mt-3 text-xs text-white/55">Every hot lead is inside its SLA ✅</div>
+        ) : (
+          <div className="mt-3 space-y-3">
+            {atRiskByOwner.map((g) => (
+              <div key={g.ownerId}>
+                <div className="text-xs font-semibold text-white/80">
+                  {g.name} <span className="text-white/45">({g.leads.length})</span>
+                </div>
+                <div className="mt-1 space-y-1">
+                  {g.leads.map((m) => (
+                    <button
+                      key={m.id}
+                      onClick={() => router.push(`/meetings/${m.id}`)}
+                      className="flex w-full items-center justify-between gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-left"
+                    >
+                      <span className="truncate text-xs text-white">{m.meeting_name || "Unnamed meeting"}</span>
+                      <span className="shrink-0 text-[11px] text-red-300">
+                        {[
+                          m.sla.notContacted ? `not contacted ${Math.floor(m.sla.hoursSinceMeeting)}h` : null,
+                          m.sla.idle ? `idle ${m.sla.idleDays}d` : null,
+                        ]
+                          .filter(Boolean)
+                          .join(" • ")}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-3">
+          <NeonButton variant="secondary" onClick={() => router.push("/hot-leads")} className="w-full">
+            Open Hot Leads
+          </NeonButton>
+        </div>
+      </GlassCard>
+
       {/* ADMIN TOOLS */}
       <GlassCard glow>
         <div className="text-sm font-semibold text-white">Admin tools</div>
@@ -508,9 +742,41 @@ export default function AdminHubPage() {
             KPI Setup
           </NeonButton>
 
+          <NeonButton variant="secondary" onClick={() => router.push("/admin/kpi-review")} className="w-full">
+            KPI Review
+          </NeonButton>
+
           <NeonButton variant="secondary" onClick={() => router.push("/admin/performance")} className="w-full">
             Performance
           </NeonButton>
+
+          <NeonButton variant="secondary" onClick={() => router.push("/admin/assignment")} className="w-full">
+            Assignment
+          </NeonButton>
+
+          <NeonButton variant="secondary" onClick={() => router.push("/admin/attribution")} className="w-full">
+            Attribution
+          </NeonButton>
+
+          <NeonButton variant="secondary" onClick={() => router.push("/admin/sources")} className="w-full">
+            Lead Sources
+          </NeonButton>
+
+          <NeonButton variant="secondary" onClick={() => router.push("/admin/lead-scoring")} className="w-full">
+            Lead Scoring
+          </NeonButton>
+
+          <NeonButton variant="secondary" onClick={() => router.push("/admin/lost-reasons")} className="w-full">
+            Lost Reasons
+          </NeonButton>
+
+          <NeonButton variant="secondary" onClick={() => router.push("/admin/pipeline")} className="w-full">
+            Pipeline
+          </NeonButton>
+
+          <NeonButton variant="secondary" onClick={() => router.push("/admin/commissions")} className="w-full">
+            Commissions
+          </NeonButton>
         </div>
       </GlassCard>
 
@@ -3,6 +3,20 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { isMoved, isShow, isShowRateEligible, type MeetingOutcome } from "@/lib/meetingOutcome";
+import { LOST_REASON_SELECT, tallyLostReasons, type LostReason } from "@/lib/lostReasons";
+import { DEAL_SELECT, fmtMoney, revenueByPerson, type DealRow } from "@/lib/deals";
+import {
+  DEFAULT_KPI_KEY,
+  defaultReportKey,
+  fetchKpiFields,
+  fetchKpiTotals,
+  formatKpiValue,
+  isNumericField,
+  kpiLabel,
+  type KpiField,
+} from "@/lib/kpi";
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
 
 /* ---------------- Types ---------------- */
 
@@ -16,11 +30,17 @@ type MeetingRow = {
   meeting_at: string; // timestamptz
   booked_by_id: string;
   attended_by_id: string;
-  showed_up: boolean;
-  moved_to_ss2: boolean;
+  outcome: MeetingOutcome;
   discarded_at: string | null;
 };
 
+type LostRow = {
+  attended_by_id: string;
+  lost_reason_id: string | null;
+};
+
+type ReportPeriod = "week" | "8weeks";
+
 /* ---------------- Date helpers (Melbourne) ---------------- */
 
 function melbISO(d: Date) {
@@ -91,6 +111,25 @@ function pct(num: number, den: number) {
   return `${Math.round((num / den) * 100)}%`;
 }
 
+/** This week / 8 weeks toggle for the period-based sections */
+function PeriodToggle({ value, onChange }: { value: ReportPeriod; onChange: (p: ReportPeriod) => void }) {
+  return (
+    <div className="flex gap-1">
+      {(["week", "8weeks"] as ReportPeriod[]).map((p) => (
+        <button
+          key={p}
+          onClick={() => onChange(p)}
+          className={`rounded-xl border px-2.5 py-1.5 text-[11px] ${
+            value === p ? "bg-black text-white" : "bg-white text-black"
+          }`}
+        >
+          {p === "week" ? "This week" : "8 weeks"}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 function Stat({
   label,
   value,
@@ -109,6 +148,24 @@ function Stat({
   );
 }
 
+/** Horizontal bar per lost reason */
+function LostReasonChart({ data }: { data: { label: string; count: number }[] }) {
+  if (data.length === 0) return <div className="mt-2 text-xs text-black/50">No lost reasons recorded.</div>;
+
+  return (
+    <div className="mt-2" style={{ height: Math.max(120, data.length * 34) }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} layout="vertical" margin={{ top: 0, right: 16, bottom: 0, left: 0 }}>
+          <XAxis type="number" allowDecimals={false} tick={{ fontSize: 11 }} />
+          <YAxis type="category" dataKey="label" width={120} tick={{ fontSize: 11 }} />
+          <Tooltip cursor={{ fill: "rgba(0,0,0,0.04)" }} />
+          <Bar dataKey="count" name="Meetings" fill="#111827" radius={[0, 6, 6, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
 /* ---------------- Component ---------------- */
 
 export default function AdminPerformancePage() {
@@ -130,17 +187,30 @@ export default function AdminPerformancePage() {
     return u?.full_name ?? "Team member";
   }, [users, selectedUserId]);
 
-  // KPI (from daily_kpis)
-  const [bookedKpi, setBookedKpi] = useState(0); // appointments_booked
+  // KPI (daily KPI submissions; any active number field)
+  const [kpiFields, setKpiFields] = useState<KpiField[]>([]);
+  const [kpiKey, setKpiKey] = useState("");
+  const [kpiTotal, setKpiTotal] = useState(0);
+  const [kpiDays, setKpiDays] = useState(0);
+  const [kpiApplies, setKpiApplies] = useState(true);
 
   // Meetings outcomes (from simplified meetings)
   const [occurredBookedBy, setOccurredBookedBy] = useState(0);
   const [showsBookedBy, setShowsBookedBy] = useState(0);
   const [ss2BookedBy, setSs2BookedBy] = useState(0);
 
-  const [takenShowed, setTakenShowed] = useState(0); // taken = attended_by AND showed_up
+  const [takenShowed, setTakenShowed] = useState(0); // taken = attended_by AND showed (outcome)
   const [ss2Taken, setSs2Taken] = useState(0);
 
+  // Lost reasons (showed, not moved) — team + selected closer
+  const [lostPeriod, setLostPeriod] = useState<ReportPeriod>("week");
+  const [lostReasons, setLostReasons] = useState<LostReason[]>([]);
+  const [lostRows, setLostRows] = useState<LostRow[]>([]);
+
+  // Revenue (settled deals)
+  const [revenuePeriod, setRevenuePeriod] = useState<ReportPeriod>("week");
+  const [settledDeals, setSettledDeals] = useState<DealRow[]>([]);
+
   // init admin + staff + week list
   useEffect(() => {
     (async () => {
@@ -175,6 +245,10 @@ export default function AdminPerformancePage() {
 
         const staff = (staffRes.data ?? []) as UserRow[];
         setUsers(staff);
+
+        const fields = (await fetchKpiFields()).filter(isNumericField);
+        setKpiFields(fields);
+        setKpiKey(defaultReportKey(fields));
         if (staff.length > 0) setSelectedUserId(staff[0].id);
 
         // build last 8 week starts
@@ -196,7 +270,7 @@ export default function AdminPerformancePage() {
   }, [router, currentWeekStartISO]);
 
   const loadWeek = useCallback(async () => {
-    if (!selectedUserId || !focusWeekStart) return;
+    if (!selectedUserId || !focusWeekStart || !kpiKey) return;
 
     setPageMsg(null);
 
@@ -208,27 +282,22 @@ export default function AdminPerformancePage() {
       const weekStartUtcIso = melbMidnightToUtcIso(weekStartISO);
       const weekEndUtcIso = melbMidnightToUtcIso(weekEndExclusiveISO);
 
-      // ---------- KPI: appointments_booked from daily_kpis ----------
-      const dkRes = await supabase
-        .from("daily_kpis")
-        .select("appointments_booked")
-        .eq("user_id", selectedUserId)
-        .gte("entry_date", weekStartISO)
-        .lt("entry_date", weekEndExclusiveISO);
-
-      if (dkRes.error) throw new Error(dkRes.error.message);
-
-      let booked = 0;
-      (dkRes.data ?? []).forEach((r: any) => {
-        booked += Number(r.appointments_booked ?? 0) || 0;
-      });
-      setBookedKpi(booked);
+      // ---------- KPI: chosen field from daily KPI submissions ----------
+      const totals = await fetchKpiTotals(
+        kpiFields,
+        kpiKey,
+        { startISO: weekStartISO, endExclusiveISO: weekEndExclusiveISO, startUtc: weekStartUtcIso, endUtc: weekEndUtcIso },
+        [selectedUserId]
+      );
+      setKpiTotal(totals.total);
+      setKpiDays(totals.days);
+      setKpiApplies(!totals.applicable || totals.applicable.includes(selectedUserId));
 
       // ---------- Meetings outcomes (simplified schema) ----------
-      // Include discarded rows in totals (history), but only count occurred meetings.
+      // Include discarded rows in totals (history), but only count meetings with a recorded outcome.
       const mRes = await supabase
         .from("meetings")
-        .select("id, meeting_at, booked_by_id, attended_by_id, showed_up, moved_to_ss2, discarded_at")
+        .select("id, meeting_at, booked_by_id, attended_by_id, outcome, discarded_at")
         .gte("meeting_at", weekStartUtcIso)
         .lt("meeting_at", weekEndUtcIso);
 
@@ -236,17 +305,13 @@ export default function AdminPerformancePage() {
 
       const all = (mRes.data ?? []) as MeetingRow[];
 
-      const nowMs = Date.now();
-      const occurred = all.filter((m) => {
-        const t = Date.parse(m.meeting_at);
-        return Number.isFinite(t) && t <= nowMs;
-      });
+      const occurred = all.filter((m) => isShowRateEligible(m.outcome));
 
       // Booked-by attribution (booked_by_id)
       const bookedBy = occurred.filter((m) => m.booked_by_id === selectedUserId);
       const bookedByOccurred = bookedBy.length;
-      const bookedByShows = bookedBy.filter((m) => m.showed_up === true).length;
-      const bookedBySS2 = bookedBy.filter((m) => m.moved_to_ss2 === true).length;
+      const bookedByShows = bookedBy.filter((m) => isShow(m.outcome)).length;
+      const bookedBySS2 = bookedBy.filter((m) => isMoved(m.outcome)).length;
 
       setOccurredBookedBy(bookedByOccurred);
       setShowsBookedBy(bookedByShows);
@@ -254,17 +319,18 @@ export default function AdminPerformancePage() {
 
       // Taken-by attribution (attended_by_id) — ONLY meetings that showed up
       const takenRows = occurred.filter(
-        (m) => m.attended_by_id === selectedUserId && m.showed_up === true
+        (m) => m.attended_by_id === selectedUserId && isShow(m.outcome)
       );
       const takenShowedCount = takenRows.length;
-      const takenSS2Count = takenRows.filter((m) => m.moved_to_ss2 === true).length;
+      const takenSS2Count = takenRows.filter((m) => isMoved(m.outcome)).length;
 
       setTakenShowed(takenShowedCount);
       setSs2Taken(takenSS2Count);
     } catch (e: any) {
       setPageMsg(e?.message ?? "Failed to load week stats.");
 
-      setBookedKpi(0);
+      setKpiTotal(0);
+      setKpiDays(0);
 
       setOccurredBookedBy(0);
       setShowsBookedBy(0);
@@ -273,19 +339,108 @@ export default function AdminPerformancePage() {
       setTakenShowed(0);
       setSs2Taken(0);
     }
-  }, [selectedUserId, focusWeekStart]);
+  }, [selectedUserId, focusWeekStart, kpiKey, kpiFields]);
 
   useEffect(() => {
     loadWeek();
   }, [loadWeek]);
 
+  const loadLostReasons = useCallback(async () => {
+    if (!focusWeekStart || weekOptions.length === 0) return;
+
+    try {
+      const startISO = lostPeriod === "week" ? focusWeekStart : weekOptions[weekOptions.length - 1];
+      const endExclusiveISO =
+        lostPeriod === "week" ? addDaysISO(focusWeekStart, 7) : addDaysISO(currentWeekStartISO, 7);
+
+      const [rRes, mRes] = await Promise.all([
+        supabase
+          .from("lost_reasons")
+          .select(LOST_REASON_SELECT)
+          .order("sort_order", { ascending: true })
+          .order("label", { ascending: true }),
+        // Same history rule as the stats above: discarded rows still count
+        supabase
+          .from("meetings")
+          .select("attended_by_id, lost_reason_id")
+          .eq("outcome", "showed")
+          .not("lost_reason_id", "is", null)
+          .gte("meeting_at", melbMidnightToUtcIso(startISO))
+          .lt("meeting_at", melbMidnightToUtcIso(endExclusiveISO)),
+      ]);
+
+      if (rRes.error) throw new Error(rRes.error.message);
+      if (mRes.error) throw new Error(mRes.error.message);
+
+      setLostReasons((rRes.data ?? []) as LostReason[]);
+      setLostRows((mRes.data ?? []) as LostRow[]);
+    } catch (e: unknown) {
+      setPageMsg(e instanceof Error ? e.message : "Failed to load lost reasons.");
+      setLostRows([]);
+    }
+  }, [lostPeriod, focusWeekStart, weekOptions, currentWeekStartISO]);
+
+  useEffect(() => {
+    loadLostReasons();
+  }, [loadLostReasons]);
+
+  const loadRevenue = useCallback(async () => {
+    if (!focusWeekStart || weekOptions.length === 0) return;
+
+    try {
+      const startISO = revenuePeriod === "week" ? focusWeekStart : weekOptions[weekOptions.length - 1];
+      const endExclusiveISO =
+        revenuePeriod === "week" ? addDaysISO(focusWeekStart, 7) : addDaysISO(currentWeekStartISO, 7);
+
+      // settlement_date is a plain date: compare Melbourne date strings directly
+      const res = await supabase
+        .from("deals")
+        .select(DEAL_SELECT)
+        .gte("settlement_date", startISO)
+        .lt("settlement_date", endExclusiveISO);
+
+      if (res.error) throw new Error(res.error.message);
+      setSettledDeals((res.data ?? []) as DealRow[]);
+    } catch (e: unknown) {
+      setPageMsg(e instanceof Error ? e.message : "Failed to load revenue.");
+      setSettledDeals([]);
+    }
+  }, [revenuePeriod, focusWeekStart, weekOptions, currentWeekStartISO]);
+
+  useEffect(() => {
+    loadRevenue();
+  }, [loadRevenue]);
+
+  const revenue = useMemo(() => revenueByPerson(settledDeals), [settledDeals]);
+  const teamRevenue = useMemo(
+    () => settledDeals.reduce((t, d) => t + (Number(d.contract_value) || 0), 0),
+    [settledDeals]
+  );
+  const revenueRows = useMemo(
+    () =>
+      users
+        .map((u) => ({ user: u, r: revenue[u.id] }))
+        .filter((x) => !!x.r)
+        .sort((a, b) => b.r.total - a.r.total),
+    [users, revenue]
+  );
+  const myRevenue = revenue[selectedUserId];
+
+  const teamLost = useMemo(() => tallyLostReasons(lostRows, lostReasons), [lostRows, lostReasons]);
+  const closerLost = useMemo(
+    () => tallyLostReasons(lostRows.filter((r) => r.attended_by_id === selectedUserId), lostReasons),
+    [lostRows, lostReasons, selectedUserId]
+  );
+
   if (loading) return <div className="p-6 text-black">Loading…</div>;
 
   const weekEndLabel = focusWeekStart ? addDaysISO(focusWeekStart, 6) : "—";
 
   // Your model:
   // show rate = shows (booked_by) / booked KPI (appointments_booked)
-  const showRateVsBookedKpi = pct(showsBookedBy, bookedKpi);
+  const kpiField = kpiFields.find((f) => f.key === kpiKey);
+  const isBookedKpi = kpiKey === DEFAULT_KPI_KEY;
+  const showRateVsBookedKpi = pct(showsBookedBy, kpiTotal);
 
   // sanity:
   const showRateVsOccurred = pct(showsBookedBy, occurredBookedBy);
@@ -305,7 +460,7 @@ export default function AdminPerformancePage() {
               {selectedUserName} • {focusWeekStart || "—"} → {weekEndLabel}
             </div>
             <div className="mt-1 text-[11px] text-black/50">
-              KPI: <code>daily_kpis.appointments_booked</code> • Meetings: booked/taken outcomes
+              KPI: <code>{kpiKey || "—"}</code> from daily KPI submissions • Meetings: booked/taken outcomes
             </div>
           </div>
 
@@ -337,6 +492,23 @@ export default function AdminPerformancePage() {
               </select>
             </div>
 
+            {kpiFields.length > 1 ? (
+              <div>
+                <div className="text-xs font-semibold text-black/60">KPI</div>
+                <select
+                  className="mt-2 w-full rounded-xl border px-3 py-2 bg-white text-sm"
+                  value={kpiKey}
+                  onChange={(e) => setKpiKey(e.target.value)}
+                >
+                  {kpiFields.map((f) => (
+                    <option key={f.id} value={f.key}>
+                      {kpiLabel(f)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : null}
+
             <div>
               <div className="text-xs font-semibold text-black/60">Week</div>
               <select
@@ -355,15 +527,35 @@ export default function AdminPerformancePage() {
             <div className="text-[11px] text-black/50 leading-relaxed">
               • “Booked-by” uses <code>meetings.booked_by_id</code> (setter attribution). <br />
               • “Taken-by” uses <code>meetings.attended_by_id</code> but only counts those that <b>showed up</b>. <br />
-              • Only meetings that already happened are counted.
+              • Only meetings with a recorded outcome (showed / no-show / SS2) are counted.
             </div>
           </div>
         </div>
 
         {/* Top stats */}
         <div className="grid grid-cols-2 gap-3 mb-3">
-          <Stat label="Appointments booked (KPI)" value={n(bookedKpi)} sub="From daily_kpis" />
-          <Stat label="Show rate (vs KPI booked)" value={showRateVsBookedKpi} sub="Shows ÷ KPI booked" />
+          <Stat
+            label={`${kpiLabel(kpiField)} (KPI)`}
+            value={kpiApplies ? formatKpiValue(kpiField, kpiTotal) : "—"}
+            sub={
+              !kpiApplies
+                ? "Not on this person's form"
+                : kpiField?.formula
+                  ? `= ${kpiField.formula}`
+                  : "From daily KPI submissions"
+            }
+          />
+          {isBookedKpi ? (
+            <Stat label="Show rate (vs KPI booked)" value={showRateVsBookedKpi} sub="Shows ÷ KPI booked" />
+          ) : kpiField?.format === "percent" ? (
+            <Stat label="Show rate (vs occurred)" value={showRateVsOccurred} sub="Shows ÷ meetings occurred" />
+          ) : (
+            <Stat
+              label="Per day (KPI)"
+              value={kpiApplies && kpiDays > 0 ? formatKpiValue(kpiField, kpiTotal / kpiDays) : "—"}
+              sub={`${kpiLabel(kpiField)} ÷ ${kpiDays} day${kpiDays === 1 ? "" : "s"} logged`}
+            />
+          )}
         </div>
 
         {/* Booked-by attribution */}
@@ -377,7 +569,7 @@ export default function AdminPerformancePage() {
               value={n(occurredBookedBy)}
               sub={`Show rate (vs occurred): ${showRateVsOccurred}`}
             />
-            <Stat label="Shows" value={n(showsBookedBy)} sub="showed_up = true" />
+            <Stat label="Shows" value={n(showsBookedBy)} sub="outcome = showed / SS2" />
             <Stat
               label="Moved to SS2"
               value={n(ss2BookedBy)}
@@ -398,7 +590,7 @@ export default function AdminPerformancePage() {
                   className="rounded-xl border bg-white px-3 py-2 text-xs text-left"
                 >
                   Open KPI entry
-                  <div className="text-[11px] text-black/50 mt-1">Enter appointments booked</div>
+                  <div className="text-[11px] text-black/50 mt-1">Enter daily KPIs</div>
                 </button>
               </div>
             </div>
@@ -411,11 +603,95 @@ export default function AdminPerformancePage() {
           <div className="mt-1 text-xs text-black/60">Meetings taken by this person (only those that showed up)</div>
 
           <div className="mt-3 grid grid-cols-2 gap-3">
-            <Stat label="Taken (showed up)" value={n(takenShowed)} sub="attended_by + showed_up" />
+            <Stat label="Taken (showed up)" value={n(takenShowed)} sub="attended_by + showed" />
             <Stat label="Moved to SS2" value={n(ss2Taken)} sub={`Move rate: ${moveRateTaken}`} />
           </div>
         </div>
 
+        {/* Revenue */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <div className="text-sm font-semibold text-black">Revenue</div>
+              <div className="mt-1 text-xs text-black/60">Contract value of deals settled in the period</div>
+            </div>
+            <PeriodToggle value={revenuePeriod} onChange={setRevenuePeriod} />
+          </div>
+
+          <div className="mt-3 grid grid-cols-2 gap-3">
+            <Stat
+              label="As setter"
+              value={fmtMoney(myRevenue?.setter_total ?? 0)}
+              sub={`${myRevenue?.setter_deals ?? 0} deals • avg ${
+                myRevenue?.setter_deals ? fmtMoney(myRevenue.setter_total / myRevenue.setter_deals) : "—"
+              }`}
+            />
+            <Stat
+              label="As closer"
+              value={fmtMoney(myRevenue?.closer_total ?? 0)}
+              sub={`${myRevenue?.closer_deals ?? 0} deals • avg ${
+                myRevenue?.closer_deals ? fmtMoney(myRevenue.closer_total / myRevenue.closer_deals) : "—"
+              }`}
+            />
+          </div>
+
+          <div className="mt-4 text-xs font-semibold text-black/60">
+            Team • {fmtMoney(teamRevenue)} from {settledDeals.length} deals • avg{" "}
+            {settledDeals.length ? fmtMoney(teamRevenue / settledDeals.length) : "—"}
+          </div>
+
+          {revenueRows.length === 0 ? (
+            <div className="mt-2 text-xs text-black/50">No deals settled in this period.</div>
+          ) : (
+            <div className="mt-2 divide-y rounded-xl border">
+              {revenueRows.map(({ user, r }) => (
+                <div
+                  key={user.id}
+                  className={`flex items-center justify-between gap-3 px-3 py-2 text-xs ${
+                    user.id === selectedUserId ? "bg-gray-50 font-semibold" : ""
+                  }`}
+                >
+                  <div className="min-w-0 truncate">{user.full_name ?? "—"}</div>
+                  <div className="shrink-0 text-right">
+                    {fmtMoney(r.total)}
+                    <div className="text-[11px] font-normal text-black/50">
+                      {r.deals} deals • avg {fmtMoney(r.total / r.deals)}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Lost reasons */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <div className="text-sm font-semibold text-black">Lost reasons</div>
+              <div className="mt-1 text-xs text-black/60">Showed but didn’t move to SS2 — what we lose on most</div>
+            </div>
+            <PeriodToggle value={lostPeriod} onChange={setLostPeriod} />
+          </div>
+
+          <div className="mt-4 text-xs font-semibold text-black/60">
+            Team • {teamLost.reduce((t, r) => t + r.count, 0)} meetings
+          </div>
+          <LostReasonChart data={teamLost} />
+
+          <div className="mt-4 text-xs font-semibold text-black/60">
+            {selectedUserName} (taken by) • {closerLost.reduce((t, r) => t + r.count, 0)} meetings
+          </div>
+          <LostReasonChart data={closerLost} />
+
+          <button
+            onClick={() => router.push("/admin/lost-reasons")}
+            className="mt-4 rounded-xl border bg-white px-3 py-2 text-xs"
+          >
+            Edit reason codes
+          </button>
+        </div>
+
         {pageMsg && <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm text-black">{pageMsg}</div>}
       </div>
     </div>
@@ -0,0 +1,279 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { OUTCOME_STAGE_KEYS, PIPELINE_STAGE_SELECT, stageKeyFromLabel, type PipelineStage } from "@/lib/pipeline";
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+function isAdminOk(role?: string | null, is_admin?: boolean | null) {
+  return !!is_admin || normRole(role) === "admin";
+}
+
+export default function AdminPipelinePage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [newName, setNewName] = useState("");
+
+  const requireAdmin = useCallback(async () => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return false;
+    }
+
+    const meRes = await supabase
+      .from("profiles")
+      .select("id, role, is_admin")
+      .eq("id", session.user.id)
+      .single();
+
+    if (meRes.error) {
+      setMsg(meRes.error.message);
+      return false;
+    }
+
+    if (!isAdminOk(meRes.data?.role, meRes.data?.is_admin)) {
+      router.push("/hub");
+      return false;
+    }
+
+    return true;
+  }, [router]);
+
+  const loadStages = useCallback(async () => {
+    const res = await supabase
+      .from("pipeline_stages")
+      .select(PIPELINE_STAGE_SELECT)
+      .order("sort_order", { ascending: true })
+      .order("label", { ascending: true });
+
+    if (res.error) throw new Error(res.error.message);
+    setStages((res.data ?? []) as PipelineStage[]);
+  }, []);
+
+  const loadAll = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+    try {
+      const ok = await requireAdmin();
+      if (!ok) {
+        setLoading(false);
+        return;
+      }
+      await loadStages();
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load stages.");
+      setLoading(false);
+    }
+  }, [requireAdmin, loadStages]);
+
+  useEffect(() => {
+    loadAll();
+  }, [loadAll]);
+
+  function patchStage(id: string, patch: Partial<PipelineStage>) {
+    setStages((prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  }
+
+  function move(id: string, dir: -1 | 1) {
+    setStages((prev) => {
+      const i = prev.findIndex((s) => s.id === id);
+      const j = i + dir;
+      if (i === -1 || j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+  }
+
+  async function addStage() {
+    const label = newName.trim();
+    if (!label) return;
+
+    const key = stageKeyFromLabel(label);
+    if (!key) {
+      setMsg("Use letters or numbers in the stage name.");
+      return;
+    }
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      const { error } = await supabase
+        .from("pipeline_stages")
+        .insert({ key, label, sort_order: stages.length });
+
+      if (error) {
+        if (error.code === "23505") throw new Error(`"${label}" already exists.`);
+        throw new Error(error.message);
+      }
+
+      setNewName("");
+      await loadStages();
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to add stage.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveStages() {
+    if (stages.some((r) => !r.label.trim())) {
+      setMsg("Every stage needs a label.");
+      return;
+    }
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      const payload = stages.map((s, i) => ({
+        id: s.id,
+        key: s.key,
+        label: s.label.trim(),
+        active: s.active,
+        sort_order: i,
+      }));
+
+      if (payload.length > 0) {
+        const { error } = await supabase.from("pipeline_stages").upsert(payload, { onConflict: "id" });
+        if (error) throw new Error(error.message);
+      }
+
+      await loadStages();
+
+      setMsg("Saved ✅");
+      setTimeout(() => setMsg(null), 1200);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to save stages.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-2xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <div className="text-xs text-black/60">Admin</div>
+            <h1 className="text-2xl font-semibold">Pipeline Stages</h1>
+            <div className="mt-1 text-xs text-black/60">
+              The steps a deal moves through after the first meeting. SS1 and SS2 follow the meeting outcome; later
+              stages are marked on the meeting or lead. Deactivate a stage to retire it — recorded progress is kept.
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => router.push("/admin")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Back
+            </button>
+            <button
+              onClick={saveStages}
+              disabled={saving}
+              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </div>
+
+        {/* Add */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="text-sm font-semibold">Add stage</div>
+          <div className="mt-3 flex gap-2">
+            <input
+              className="flex-1 rounded-xl border px-3 py-2 text-sm"
+              placeholder="e.g. Finance approved"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") addStage();
+              }}
+            />
+            <button
+              onClick={addStage}
+              disabled={saving || !newName.trim()}
+              className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+
+        {/* List */}
+        <div className="rounded-2xl border bg-white p-4">
+          <div className="text-sm font-semibold mb-2">Stages</div>
+          <div className="text-xs text-black/60 mb-4">Order here is the pipeline order used everywhere stages are listed.</div>
+
+          {stages.length === 0 ? (
+            <div className="text-sm text-black/70">No stages yet.</div>
+          ) : (
+            <div className="space-y-2">
+              {stages.map((s, i) => (
+                <div key={s.id} className="flex items-center gap-2 rounded-xl border p-2">
+                  <div className="flex flex-col">
+                    <button
+                      type="button"
+                      onClick={() => move(s.id, -1)}
+                      disabled={saving || i === 0}
+                      className="px-2 text-xs text-black/60 disabled:opacity-30"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => move(s.id, 1)}
+                      disabled={saving || i === stages.length - 1}
+                      className="px-2 text-xs text-black/60 disabled:opacity-30"
+                    >
+                      ▼
+                    </button>
+                  </div>
+
+                  <div className="flex-1">
+                    <input
+                      className={`w-full rounded-xl border px-3 py-2 text-sm ${s.active ? "" : "text-black/40"}`}
+                      value={s.label}
+                      onChange={(e) => patchStage(s.id, { label: e.target.value })}
+                    />
+                    <div className="mt-1 text-[11px] text-black/40">
+                      key: {s.key}
+                      {OUTCOME_STAGE_KEYS.includes(s.key) ? " • set from meeting outcome" : ""}
+                    </div>
+                  </div>
+
+                  <button
+                    type="button"
+                    onClick={() => patchStage(s.id, { active: !s.active })}
+                    className={`rounded-xl border px-3 py-2 text-xs ${
+                      s.active ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"
+                    }`}
+                    disabled={saving}
+                  >
+                    {s.active ? "Active" : "Inactive"}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {msg && <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
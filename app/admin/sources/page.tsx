@@ -0,0 +1,272 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { LEAD_SOURCE_SELECT, type LeadSource } from "@/lib/leadSources";
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+function isAdminOk(role?: string | null, is_admin?: boolean | null) {
+  return !!is_admin || normRole(role) === "admin";
+}
+
+export default function AdminSourcesPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [sources, setSources] = useState<LeadSource[]>([]);
+  const [newName, setNewName] = useState("");
+
+  const requireAdmin = useCallback(async () => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return false;
+    }
+
+    const meRes = await supabase
+      .from("profiles")
+      .select("id, role, is_admin")
+      .eq("id", session.user.id)
+      .single();
+
+    if (meRes.error) {
+      setMsg(meRes.error.message);
+      return false;
+    }
+
+    if (!isAdminOk(meRes.data?.role, meRes.data?.is_admin)) {
+      router.push("/hub");
+      return false;
+    }
+
+    return true;
+  }, [router]);
+
+  const loadSources = useCallback(async () => {
+    const res = await supabase
+      .from("lead_sources")
+      .select(LEAD_SOURCE_SELECT)
+      .order("sort_order", { ascending: true })
+      .order("name", { ascending: true });
+
+    if (res.error) throw new Error(res.error.message);
+    setSources((res.data ?? []) as LeadSource[]);
+  }, []);
+
+  const loadAll = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+    try {
+      const ok = await requireAdmin();
+      if (!ok) {
+        setLoading(false);
+        return;
+      }
+      await loadSources();
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load sources.");
+      setLoading(false);
+    }
+  }, [requireAdmin, loadSources]);
+
+  useEffect(() => {
+    loadAll();
+  }, [loadAll]);
+
+  function patchSource(id: string, patch: Partial<LeadSource>) {
+    setSources((prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  }
+
+  function move(id: string, dir: -1 | 1) {
+    setSources((prev) => {
+      const i = prev.findIndex((s) => s.id === id);
+      const j = i + dir;
+      if (i === -1 || j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+  }
+
+  async function addSource() {
+    const name = newName.trim();
+    if (!name) return;
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      const { error } = await supabase
+        .from("lead_sources")
+        .insert({ name, sort_order: sources.length });
+
+      if (error) {
+        if (error.code === "23505") throw new Error(`"${name}" already exists.`);
+        throw new Error(error.message);
+      }
+
+      setNewName("");
+      await loadSources();
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to add source.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveSources() {
+    if (sources.some((s) => !s.name.trim())) {
+      setMsg("Every source needs a name.");
+      return;
+    }
+
+    setSaving(true);
+    setMsg(null);
+    try {
+      const payload = sources.map((s, i) => ({
+        id: s.id,
+        name: s.name.trim(),
+        active: s.active,
+        sort_order: i,
+      }));
+
+      if (payload.length > 0) {
+        const { error } = await supabase.from("lead_sources").upsert(payload, { onConflict: "id" });
+        if (error) {
+          if (error.code === "23505") throw new Error("Two sources can't share a name.");
+          throw new Error(error.message);
+        }
+      }
+
+      await loadSources();
+
+      setMsg("Saved ✅");
+      setTimeout(() => setMsg(null), 1200);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to save sources.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-2xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <div className="text-xs text-black/60">Admin</div>
+            <h1 className="text-2xl font-semibold">Lead Sources</h1>
+            <div className="mt-1 text-xs text-black/60">
+              Channels and referral partners setters pick from when booking. Deactivate a source to retire it — past
+              meetings keep their attribution.
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => router.push("/admin/attribution")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Report
+            </button>
+            <button onClick={() => router.push("/admin")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Back
+            </button>
+            <button
+              onClick={saveSources}
+              disabled={saving}
+              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </div>
+
+        {/* Add */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="text-sm font-semibold">Add source</div>
+          <div className="mt-3 flex gap-2">
+            <input
+              className="flex-1 rounded-xl border px-3 py-2 text-sm"
+              placeholder="e.g. Facebook Ads, Google Ads, Referral – Smith & Co"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") addSource();
+              }}
+            />
+            <button
+              onClick={addSource}
+              disabled={saving || !newName.trim()}
+              className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+
+        {/* List */}
+        <div className="rounded-2xl border bg-white p-4">
+          <div className="text-sm font-semibold mb-2">Sources</div>
+          <div className="text-xs text-black/60 mb-4">Order here is the order in the booking form and the report.</div>
+
+          {sources.length === 0 ? (
+            <div className="text-sm text-black/70">No sources yet.</div>
+          ) : (
+            <div className="space-y-2">
+              {sources.map((s, i) => (
+                <div key={s.id} className="flex items-center gap-2 rounded-xl border p-2">
+                  <div className="flex flex-col">
+                    <button
+                      type="button"
+                      onClick={() => move(s.id, -1)}
+                      disabled={saving || i === 0}
+                      className="px-2 text-xs text-black/60 disabled:opacity-30"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => move(s.id, 1)}
+                      disabled={saving || i === sources.length - 1}
+                      className="px-2 text-xs text-black/60 disabled:opacity-30"
+                    >
+                      ▼
+                    </button>
+                  </div>
+
+                  <input
+                    className={`flex-1 rounded-xl border px-3 py-2 text-sm ${s.active ? "" : "text-black/40"}`}
+                    value={s.name}
+                    onChange={(e) => patchSource(s.id, { name: e.target.value })}
+                  />
+
+                  <button
+                    type="button"
+                    onClick={() => patchSource(s.id, { active: !s.active })}
+                    className={`rounded-xl border px-3 py-2 text-xs ${
+                      s.active ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"
+                    }`}
+                    disabled={saving}
+                  >
+                    {s.active ? "Active" : "Inactive"}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {msg && <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { KPI_FIELD_SELECT, KPI_SUBMISSION_SELECT, fieldAppliesTo, type KpiField } from "@/lib/kpi";
+import { KPI_CUTOFF_KEY, KPI_UNLOCK_SELECT, kpiEditBlock, parseKpiCutoff } from "@/lib/kpiReview";
+import { checkKpiValues } from "@/lib/kpiValidation";
+
+function melbourneDateISO(d: Date) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(d);
+}
+
+/**
+ * Saves the caller's KPI entry for one day, as a draft or submitted for
+ * review. Only the fields on their role's form are stored, and every value
+ * is checked against its field's type and rules here as well as in the form
+ * (required fields only on submit). Approved, locked and past-cut-off days
+ * need an open admin unlock, which the save uses up. The tables only accept
+ * writes from this route.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    const authHeader = req.headers.get("authorization") || "";
+    const token = authHeader.toLowerCase().startsWith("bearer ") ? authHeader.slice(7) : "";
+    if (!token) {
+      return NextResponse.json({ error: "Missing Authorization token." }, { status: 401 });
+    }
+
+    const supabaseAdmin = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY! // server-only env var
+    );
+
+    const { data: userData, error: userErr } = await supabaseAdmin.auth.getUser(token);
+    if (userErr || !userData?.user) {
+      return NextResponse.json({ error: "Invalid session." }, { status: 401 });
+    }
+    const userId = userData.user.id;
+
+    const entryDate = String(body?.entry_date ?? "");
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(entryDate)) {
+      return NextResponse.json({ error: "entry_date must be YYYY-MM-DD." }, { status: 400 });
+    }
+
+    const todayISO = melbourneDateISO(new Date());
+    if (entryDate > todayISO) {
+      return NextResponse.json({ error: "You can't log KPIs for a future day." }, { status: 400 });
+    }
+
+    const action = body?.action === "draft" ? "draft" : "submit";
+
+    // Approved entries past the cut-off lock before we look at this one.
+    const lockRes = await supabaseAdmin.rpc("lock_due_kpi_submissions");
+    if (lockRes.error) {
+      return NextResponse.json({ error: lockRes.error.message }, { status: 400 });
+    }
+
+    const [cutoffRes, existingRes, unlockRes] = await Promise.all([
+      supabaseAdmin.from("app_settings").select("value").eq("key", KPI_CUTOFF_KEY).maybeSingle(),
+      supabaseAdmin
+        .from("kpi_daily_submissions")
+        .select(KPI_SUBMISSION_SELECT)
+        .eq("user_id", userId)
+        .eq("entry_date", entryDate)
+        .maybeSingle(),
+      supabaseAdmin
+        .from("kpi_unlocks")
+        .select(KPI_UNLOCK_SELECT)
+        .eq("user_id", userId)
+        .eq("entry_date", entryDate)
+        .is("used_at", null)
+        .gt("expires_at", new Date().toISOString())
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    const loadErr = cutoffRes.error || existingRes.error || unlockRes.error;
+    if (loadErr) {
+      return NextResponse.json({ error: loadErr.message }, { status: 400 });
+    }
+
+    const unlock = unlockRes.data;
+    const blocked = kpiEditBlock(existingRes.data, entryDate, todayISO, parseKpiCutoff(cutoffRes.data?.value), false);
+    if (blocked && !unlock) {
+      return NextResponse.json({ error: blocked }, { status: 403 });
+    }
+
+    const rawValues = (body?.values ?? {}) as Record<string, unknown>;
+    const values: Record<string, string> = {};
+    Object.entries(rawValues).forEach(([id, v]) => (values[id] = v == null ? "" : String(v)));
+
+    const fieldsRes = await supabaseAdmin.from("kpi_fields").select(KPI_FIELD_SELECT).eq("active", true);
+    if (fieldsRes.error) {
+      return NextResponse.json({ error: fieldsRes.error.message }, { status: 400 });
+    }
+
+    const profRes = await supabaseAdmin.from("profiles").select("role").eq("id", userId).maybeSingle();
+    if (profRes.error) {
+      return NextResponse.json({ error: profRes.error.message }, { status: 400 });
+    }
+
+    const fields = ((fieldsRes.data ?? []) as KpiField[]).filter(
+      (f) => f.input_type !== "formula" && fieldAppliesTo(f, profRes.data?.role)
+    );
+
+    // Drafts can be partial; required fields only matter once submitted.
+    const checked = checkKpiValues(
+      action === "draft" ? fields.map((f) => ({ ...f, required: false })) : fields,
+      values
+    );
+    const firstError = fields.map((f) => checked.errors[f.id]).find(Boolean);
+    if (firstError) {
+      return NextResponse.json({ error: firstError, fieldErrors: checked.errors }, { status: 400 });
+    }
+
+    const notes = body?.notes === undefined ? undefined : String(body.notes ?? "").trim() || null;
+
+    // Claim the unlock before writing anything, so only one save can use it.
+    // If the save then fails the unlock is handed back.
+    let claimedUnlockId: string | null = null;
+    if (unlock) {
+      const claimRes = await supabaseAdmin
+        .from("kpi_unlocks")
+        .update({ used_at: new Date().toISOString() })
+        .eq("id", unlock.id)
+        .is("used_at", null)
+        .gt("expires_at", new Date().toISOString())
+        .select("id")
+        .maybeSingle();
+      if (claimRes.error) {
+        return NextResponse.json({ error: claimRes.error.message }, { status: 400 });
+      }
+      // Another save got there first
+      if (!claimRes.data && blocked) {
+        return NextResponse.json({ error: blocked }, { status: 403 });
+      }
+      claimedUnlockId = claimRes.data?.id ?? null;
+    }
+
+    const failSave = async (message: string) => {
+      if (claimedUnlockId) {
+        await supabaseAdmin.from("kpi_unlocks").update({ used_at: null }).eq("id", claimedUnlockId);
+      }
+      return NextResponse.json({ error: message }, { status: 400 });
+    };
+
+    const { data: submission, error: subErr } = await supabaseAdmin
+      .from("kpi_daily_submissions")
+      .upsert(
+        {
+          user_id: userId,
+          entry_date: entryDate,
+          ...(notes !== undefined ? { notes } : {}),
+          ...(action === "draft"
+            ? { status: "draft", submitted_at: null }
+            : {
+                status: "submitted",
+                submitted_at: new Date().toISOString(),
+                // A fresh submission starts a fresh review
+                reviewed_by: null,
+                reviewed_at: null,
+                review_comment: null,
+              }),
+          locked_at: null,
+        },
+        { onConflict: "user_id,entry_date" }
+      )
+      .select(KPI_SUBMISSION_SELECT)
+      .single();
+
+    if (subErr) {
+      return failSave(subErr.message);
+    }
+
+    const payload = fields.map((f) => ({
+      submission_id: submission.id,
+      field_id: f.id,
+      value_text: checked.values[f.id] ?? "",
+    }));
+
+    if (payload.length > 0) {
+      const { error: valErr } = await supabaseAdmin
+        .from("kpi_daily_values")
+        .upsert(payload, { onConflict: "submission_id,field_id" });
+      if (valErr) {
+        return failSave(valErr.message);
+      }
+    }
+
+    return NextResponse.json({ ok: true, submission });
+  } catch (e: unknown) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
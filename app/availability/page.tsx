@@ -0,0 +1,340 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { MEETING_MINUTES, WEEKDAYS, type AvailabilityRow } from "@/lib/closerAvailability";
+
+type ProfileRow = {
+  id: string;
+  full_name: string | null;
+};
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+/** Postgres `time` comes back as HH:MM:SS; <input type="time"> wants HH:MM */
+function hhmm(t: string) {
+  return (t ?? "").slice(0, 5);
+}
+
+export default function AvailabilityPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [userId, setUserId] = useState<string>("");
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [profiles, setProfiles] = useState<ProfileRow[]>([]);
+  const [closerId, setCloserId] = useState<string>("");
+
+  const [rows, setRows] = useState<AvailabilityRow[]>([]);
+
+  // add form
+  const [newWeekday, setNewWeekday] = useState<number>(1);
+  const [newStart, setNewStart] = useState("09:00");
+  const [newEnd, setNewEnd] = useState("17:00");
+
+  const rowsByWeekday = useMemo(() => {
+    const m: Record<number, AvailabilityRow[]> = {};
+    rows.forEach((r) => (m[r.weekday] ??= []).push(r));
+    Object.values(m).forEach((list) => list.sort((a, b) => a.start_time.localeCompare(b.start_time)));
+    return m;
+  }, [rows]);
+
+  const loadRows = useCallback(async (cid: string) => {
+    const res = await supabase
+      .from("closer_availability")
+      .select("id, closer_id, weekday, start_time, end_time, active")
+      .eq("closer_id", cid)
+      .order("weekday", { ascending: true })
+      .order("start_time", { ascending: true });
+
+    if (res.error) throw new Error(res.error.message);
+    setRows((res.data ?? []) as AvailabilityRow[]);
+  }, []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return;
+    }
+
+    const uid = session.user.id;
+    setUserId(uid);
+
+    try {
+      const meRes = await supabase.from("profiles").select("id, role, is_admin").eq("id", uid).single();
+      if (meRes.error) throw new Error(meRes.error.message);
+
+      const adminFlag = !!meRes.data?.is_admin || normRole(meRes.data?.role) === "admin";
+      setIsAdmin(adminFlag);
+
+      const pRes = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .order("full_name", { ascending: true });
+
+      if (pRes.error) throw new Error(pRes.error.message);
+      setProfiles((pRes.data ?? []) as ProfileRow[]);
+
+      setCloserId(uid);
+      await loadRows(uid);
+
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load availability.");
+      setLoading(false);
+    }
+  }, [router, loadRows]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function switchCloser(cid: string) {
+    setCloserId(cid);
+    setMsg(null);
+    try {
+      await loadRows(cid);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load availability.");
+    }
+  }
+
+  function patchRow(id: string, patch: Partial<AvailabilityRow>) {
+    setRows((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  }
+
+  async function addRow() {
+    setMsg(null);
+
+    if (newEnd <= newStart) {
+      setMsg("End time must be after start time.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("closer_availability").insert({
+        closer_id: closerId,
+        weekday: newWeekday,
+        start_time: newStart,
+        end_time: newEnd,
+        active: true,
+      });
+
+      if (error) throw new Error(error.message);
+
+      await loadRows(closerId);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to add availability.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function deleteRow(id: string) {
+    setMsg(null);
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("closer_availability").delete().eq("id", id);
+      if (error) throw new Error(error.message);
+
+      setRows((prev) => prev.filter((r) => r.id !== id));
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to delete availability.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveAll() {
+    setMsg(null);
+
+    const bad = rows.find((r) => hhmm(r.end_time) <= hhmm(r.start_time));
+    if (bad) {
+      setMsg("Each window needs an end time after its start time.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = rows.map((r) => ({
+        id: r.id,
+        closer_id: r.closer_id,
+        weekday: r.weekday,
+        start_time: hhmm(r.start_time),
+        end_time: hhmm(r.end_time),
+        active: r.active,
+      }));
+
+      const { error } = await supabase.from("closer_availability").upsert(payload, { onConflict: "id" });
+      if (error) throw new Error(error.message);
+
+      await loadRows(closerId);
+
+      setMsg("Saved ✅");
+      setTimeout(() => setMsg(null), 1200);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to save availability.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  const editingSelf = closerId === userId;
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-3xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-black">Availability</h1>
+            <div className="mt-1 text-xs text-black/60">
+              Weekly windows in Melbourne time. Setters can only book {MEETING_MINUTES}-minute slots inside them.
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => router.push("/meetings")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Meetings
+            </button>
+            <button
+              onClick={saveAll}
+              disabled={saving}
+              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </div>
+
+        {isAdmin ? (
+          <div className="rounded-2xl border bg-white p-4 mb-4">
+            <div className="text-xs font-semibold text-black/60">Closer</div>
+            <select
+              className="mt-2 w-full rounded-xl border px-3 py-2 text-sm bg-white"
+              value={closerId}
+              onChange={(e) => switchCloser(e.target.value)}
+            >
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.full_name ?? p.id}
+                  {p.id === userId ? " (you)" : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : null}
+
+        {/* Add */}
+        <div className="rounded-2xl border bg-white p-5 mb-4">
+          <h2 className="text-sm font-semibold text-black">Add window</h2>
+          <div className="mt-3 grid grid-cols-1 sm:grid-cols-4 gap-3">
+            <select
+              className="rounded-xl border px-3 py-2 text-sm bg-white"
+              value={newWeekday}
+              onChange={(e) => setNewWeekday(Number(e.target.value))}
+            >
+              {WEEKDAYS.map((d) => (
+                <option key={d.value} value={d.value}>
+                  {d.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="time"
+              className="rounded-xl border px-3 py-2 text-sm"
+              value={newStart}
+              onChange={(e) => setNewStart(e.target.value)}
+            />
+            <input
+              type="time"
+              className="rounded-xl border px-3 py-2 text-sm"
+              value={newEnd}
+              onChange={(e) => setNewEnd(e.target.value)}
+            />
+            <button
+              onClick={addRow}
+              disabled={saving || !closerId}
+              className="rounded-xl border bg-white px-3 py-2 text-sm disabled:opacity-60"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+
+        {/* Week */}
+        <div className="rounded-2xl border bg-white p-5">
+          <h2 className="text-sm font-semibold text-black">
+            {editingSelf ? "Your week" : `${profiles.find((p) => p.id === closerId)?.full_name ?? "Closer"}'s week`}
+          </h2>
+
+          <div className="mt-4 space-y-4">
+            {WEEKDAYS.map((d) => {
+              const list = rowsByWeekday[d.value] ?? [];
+              return (
+                <div key={d.value}>
+                  <div className="text-xs font-semibold text-black/60">{d.label}</div>
+                  {list.length === 0 ? (
+                    <div className="mt-1 text-xs text-black/40">Unavailable</div>
+                  ) : (
+                    <div className="mt-2 space-y-2">
+                      {list.map((r) => (
+                        <div key={r.id} className="flex items-center gap-2 flex-wrap">
+                          <input
+                            type="time"
+                            className="rounded-xl border px-3 py-2 text-sm"
+                            value={hhmm(r.start_time)}
+                            onChange={(e) => patchRow(r.id, { start_time: e.target.value })}
+                          />
+                          <span className="text-xs text-black/50">→</span>
+                          <input
+                            type="time"
+                            className="rounded-xl border px-3 py-2 text-sm"
+                            value={hhmm(r.end_time)}
+                            onChange={(e) => patchRow(r.id, { end_time: e.target.value })}
+                          />
+                          <button
+                            onClick={() => patchRow(r.id, { active: !r.active })}
+                            className={`rounded-xl border px-3 py-2 text-xs ${
+                              r.active ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"
+                            }`}
+                          >
+                            {r.active ? "Active" : "Paused"}
+                          </button>
+                          <button
+                            onClick={() => deleteRow(r.id)}
+                            disabled={saving}
+                            className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {msg && <div className="mt-6 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
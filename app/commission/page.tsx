@@ -0,0 +1,249 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { fmtMoney } from "@/lib/deals";
+import {
+  COMMISSION_STATEMENT_SELECT,
+  evaluateRules,
+  fetchCommissionMeetings,
+  fetchCommissionRules,
+  fetchWeeklyTargets,
+  metricsByPerson,
+  monthWeeks,
+  paceFactor,
+  projectMetrics,
+  type CommissionStatement,
+  type StatementLine,
+} from "@/lib/commissions";
+
+/* ---------------- Date helpers (Melbourne) ---------------- */
+
+function melbISO(d: Date) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(d);
+}
+
+/**
+ * Business month:
+ * - starts on the 26th
+ * - ends (exclusive) on the 26th of next month
+ */
+function businessMonthRangeISO(now: Date) {
+  const nowISO = melbISO(now);
+  const y = Number(nowISO.slice(0, 4));
+  const m = Number(nowISO.slice(5, 7)) - 1;
+  const d = Number(nowISO.slice(8, 10));
+
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+
+  if (d >= 26) start.setFullYear(y, m, 26);
+  else start.setFullYear(y, m - 1, 26);
+
+  const endExclusive = new Date(start);
+  endExclusive.setMonth(endExclusive.getMonth() + 1);
+  endExclusive.setDate(26);
+  endExclusive.setHours(0, 0, 0, 0);
+
+  return { startISO: melbISO(start), endExclusiveISO: melbISO(endExclusive) };
+}
+
+function fmtRangeLabel(startISO: string, endExclusiveISO: string) {
+  const end = new Date(`${endExclusiveISO}T00:00:00`);
+  end.setDate(end.getDate() - 1);
+  return `${startISO} → ${melbISO(end)}`;
+}
+
+/**
+ * Convert Melbourne “YYYY-MM-DD” midnight into a UTC ISO string using the
+ * correct Melbourne offset for that date (handles DST).
+ */
+function melbMidnightToUtcIso(dateISO: string) {
+  const baseUtc = new Date(`${dateISO}T00:00:00Z`);
+
+  const parts = new Intl.DateTimeFormat("en-AU", {
+    timeZone: "Australia/Melbourne",
+    timeZoneName: "shortOffset",
+    year: "numeric",
+  }).formatToParts(baseUtc);
+
+  const tz = parts.find((p) => p.type === "timeZoneName")?.value ?? "GMT+11";
+  const m = tz.match(/GMT([+-])(\d{1,2})(?::(\d{2}))?/);
+
+  let offsetMin = 11 * 60;
+  if (m) {
+    const sign = m[1] === "-" ? -1 : 1;
+    const hh = Number(m[2] ?? "0");
+    const mm = Number(m[3] ?? "0");
+    offsetMin = sign * (hh * 60 + mm);
+  }
+
+  const melbMidnightUtcMs = Date.parse(`${dateISO}T00:00:00Z`) - offsetMin * 60_000;
+  return new Date(melbMidnightUtcMs).toISOString();
+}
+
+function StatementLines({ lines }: { lines: StatementLine[] }) {
+  if (lines.length === 0) return <div className="mt-3 text-xs text-black/60">No commission rules apply yet.</div>;
+
+  return (
+    <div className="mt-3 space-y-2">
+      {lines.map((l) => (
+        <div key={l.rule_id} className="flex items-start justify-between gap-3 rounded-xl border px-3 py-2 text-xs">
+          <div className="min-w-0">
+            <div className="font-medium">{l.name}</div>
+            <div className="text-[11px] text-black/50">{l.detail}</div>
+          </div>
+          <div className="shrink-0 font-semibold">{fmtMoney(l.amount)}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/* ---------------- Page ---------------- */
+
+export default function CommissionPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [earned, setEarned] = useState<{ lines: StatementLine[]; total: number }>({ lines: [], total: 0 });
+  const [projected, setProjected] = useState<number | null>(null);
+  const [history, setHistory] = useState<CommissionStatement[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const month = useMemo(() => businessMonthRangeISO(new Date()), []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return;
+    }
+    const uid = session.user.id;
+
+    try {
+      const [rules, targets, meetings] = await Promise.all([
+        fetchCommissionRules(),
+        fetchWeeklyTargets(),
+        fetchCommissionMeetings(melbMidnightToUtcIso(month.startISO), melbMidnightToUtcIso(month.endExclusiveISO)),
+      ]);
+
+      const mine = metricsByPerson(meetings)[uid] ?? {
+        occurred_booked: 0,
+        shows_booked: 0,
+        shows_taken: 0,
+        ss2_moves: 0,
+      };
+      const weeks = monthWeeks(month.startISO, month.endExclusiveISO);
+      const pace = paceFactor(month.startISO, month.endExclusiveISO, melbISO(new Date()));
+
+      setEarned(evaluateRules(rules, mine, targets, weeks));
+      setProjected(evaluateRules(rules, projectMetrics(mine, pace), targets, weeks).total);
+
+      // Locked statements (RLS: only my own unless admin)
+      const sRes = await supabase
+        .from("commission_statements")
+        .select(COMMISSION_STATEMENT_SELECT)
+        .eq("user_id", uid)
+        .order("period_start", { ascending: false })
+        .limit(12);
+
+      if (sRes.error) throw new Error(sRes.error.message);
+      setHistory((sRes.data ?? []) as CommissionStatement[]);
+
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load commission.");
+      setLoading(false);
+    }
+  }, [router, month.startISO, month.endExclusiveISO]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-md">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <h1 className="text-2xl font-semibold">My Commission</h1>
+            <div className="mt-1 text-xs text-black/60">
+              Business month: {fmtRangeLabel(month.startISO, month.endExclusiveISO)}
+            </div>
+          </div>
+
+          <button onClick={() => router.push("/hub")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+            Back
+          </button>
+        </div>
+
+        {/* This month */}
+        <div className="grid grid-cols-2 gap-3 mb-3">
+          <div className="rounded-2xl border bg-white p-4">
+            <div className="text-xs font-semibold text-black/60">Earned so far</div>
+            <div className="mt-2 text-3xl font-semibold">{fmtMoney(earned.total)}</div>
+            <div className="mt-1 text-xs text-black/50">Month to date</div>
+          </div>
+          <div className="rounded-2xl border bg-white p-4">
+            <div className="text-xs font-semibold text-black/60">Projected</div>
+            <div className="mt-2 text-3xl font-semibold">{fmtMoney(projected)}</div>
+            <div className="mt-1 text-xs text-black/50">At your current pace</div>
+          </div>
+        </div>
+
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="text-sm font-semibold">Breakdown</div>
+          <div className="mt-1 text-xs text-black/60">
+            Estimate only — payroll uses the statement locked after the month closes.
+          </div>
+          <StatementLines lines={earned.lines} />
+        </div>
+
+        {/* Locked statements */}
+        <div className="rounded-2xl border bg-white p-4">
+          <div className="text-sm font-semibold">Statements</div>
+          {history.length === 0 ? (
+            <div className="mt-3 text-xs text-black/60">No locked statements yet.</div>
+          ) : (
+            <div className="mt-3 space-y-2">
+              {history.map((s) => (
+                <div key={s.id} className="rounded-xl border">
+                  <button
+                    onClick={() => setExpanded((x) => (x === s.id ? null : s.id))}
+                    className="flex w-full items-center justify-between gap-3 px-3 py-2 text-left text-sm"
+                  >
+                    <span>{fmtRangeLabel(s.period_start, s.period_end)}</span>
+                    <span className="font-semibold">🔒 {fmtMoney(Number(s.total))}</span>
+                  </button>
+                  {expanded === s.id ? (
+                    <div className="border-t px-3 pb-3">
+                      <StatementLines lines={s.lines} />
+                    </div>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {msg && <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
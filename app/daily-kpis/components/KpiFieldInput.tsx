@@ -0,0 +1,65 @@
+"use client";
+
+import type { KpiField } from "@/lib/kpi";
+
+function placeholderFor(f: KpiField) {
+  if (f.input_type === "currency") return "$0.00";
+  if (f.input_type === "percentage") return "0–100%";
+  if (f.input_type === "duration") return "h:mm";
+  if (f.input_type === "text") return "";
+  return "0";
+}
+
+/** The entry control for one KPI field, by its input type */
+export default function KpiFieldInput({
+  field: f,
+  value,
+  onChange,
+  className,
+  disabled,
+}: {
+  field: KpiField;
+  value: string;
+  onChange: (value: string) => void;
+  className: string;
+  disabled?: boolean;
+}) {
+  if (f.input_type === "yes_no" || f.input_type === "select") {
+    const options =
+      f.input_type === "yes_no"
+        ? [
+            { value: "1", label: "Yes" },
+            { value: "0", label: "No" },
+          ]
+        : (f.options ?? []).map((o) => ({ value: o, label: o }));
+
+    return (
+      <select
+        className={`${className} bg-white disabled:bg-gray-50`}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+      >
+        <option value="">{f.required ? "Choose…" : "—"}</option>
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  const textual = f.input_type === "text" || f.input_type === "duration";
+
+  return (
+    <input
+      className={`${className} disabled:bg-gray-50`}
+      inputMode={f.input_type === "integer" ? "numeric" : textual ? "text" : "decimal"}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholderFor(f)}
+      disabled={disabled}
+    />
+  );
+}
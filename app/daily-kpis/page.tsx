@@ -3,16 +3,32 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
-
-type DailyKpiRow = {
-  id: string;
-  user_id: string;
-  entry_date: string; // YYYY-MM-DD
-  appointments_booked: number;
-  notes: string | null;
-  created_at?: string;
-  updated_at?: string;
-};
+import {
+  fetchKpiFields,
+  fieldsForRole,
+  fetchMeetingMetrics,
+  formatKpiValue,
+  isFormulaField,
+  kpiLabel,
+  loadKpiDay,
+  numericValuesByKey,
+  saveKpiDay,
+  type KpiField,
+  type KpiSubmission,
+} from "@/lib/kpi";
+import { computeFormulas } from "@/lib/kpiFormula";
+import {
+  fetchKpiCutoff,
+  fetchKpiStatuses,
+  fetchOpenUnlock,
+  kpiEditBlock,
+  kpiStatusClass,
+  kpiStatusLabel,
+  type KpiUnlock,
+} from "@/lib/kpiReview";
+import { checkKpiValues, rangeHint } from "@/lib/kpiValidation";
+import KpiFieldInput from "./components/KpiFieldInput";
+import type { PersonMetrics } from "@/lib/commissions";
 
 type ProfileRow = {
   id: string;
@@ -30,9 +46,30 @@ function melbourneDateISO(d: Date) {
   }).format(d);
 }
 
-function safeNum(x: any) {
-  const n = Number(x);
-  return Number.isFinite(n) ? n : 0;
+function addDaysISO(iso: string, days: number) {
+  const d = new Date(`${iso}T00:00:00`);
+  d.setDate(d.getDate() + days);
+  return melbourneDateISO(d);
+}
+
+/** Melbourne midnight for a YYYY-MM-DD as a UTC ISO string (DST-aware) */
+function melbMidnightToUtcIso(dateISO: string) {
+  const parts = new Intl.DateTimeFormat("en-AU", {
+    timeZone: "Australia/Melbourne",
+    timeZoneName: "shortOffset",
+    year: "numeric",
+  }).formatToParts(new Date(`${dateISO}T00:00:00Z`));
+
+  const tz = parts.find((p) => p.type === "timeZoneName")?.value ?? "GMT+11";
+  const m = tz.match(/GMT([+-])(\d{1,2})(?::(\d{2}))?/);
+
+  let offsetMin = 11 * 60;
+  if (m) {
+    const sign = m[1] === "-" ? -1 : 1;
+    offsetMin = sign * (Number(m[2] ?? "0") * 60 + Number(m[3] ?? "0"));
+  }
+
+  return new Date(Date.parse(`${dateISO}T00:00:00Z`) - offsetMin * 60_000).toISOString();
 }
 
 export default function DailyKpisPage() {
@@ -48,8 +85,25 @@ export default function DailyKpisPage() {
   const [days, setDays] = useState<string[]>([]);
   const [selectedDay, setSelectedDay] = useState<string>(() => melbourneDateISO(new Date()));
 
-  const [appointmentsBooked, setAppointmentsBooked] = useState<string>("0");
+  const [fields, setFields] = useState<KpiField[]>([]);
+  const [valuesByFieldId, setValuesByFieldId] = useState<Record<string, string>>({});
+  const [submission, setSubmission] = useState<KpiSubmission | null>(null);
+  const [unlock, setUnlock] = useState<KpiUnlock | null>(null);
+  const [cutoffDays, setCutoffDays] = useState<number | null>(null);
+  const [statusByDay, setStatusByDay] = useState<Record<string, string>>({});
   const [notes, setNotes] = useState<string>("");
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [dayMetrics, setDayMetrics] = useState<PersonMetrics | null>(null);
+
+  const todayISO = melbourneDateISO(new Date());
+  const editBlock =
+    cutoffDays === null ? null : kpiEditBlock(submission, selectedDay, todayISO, cutoffDays, !!unlock);
+
+  // Formula fields update as numbers are typed
+  const formulaValues = useMemo(
+    () => computeFormulas(fields, { ...numericValuesByKey(fields, valuesByFieldId), ...dayMetrics }),
+    [fields, valuesByFieldId, dayMetrics]
+  );
 
   const buildHistory = useCallback(() => {
     const out: string[] = [];
@@ -83,32 +137,23 @@ export default function DailyKpisPage() {
 
     const p = prof as ProfileRow;
     setName(p.full_name ?? "Team member");
-    return { uid };
+    return { uid, role: p.role };
   }, [router]);
 
-  const loadDay = useCallback(
-    async (uid: string, dayISO: string) => {
-      const { data, error } = await supabase
-        .from("daily_kpis")
-        .select("id, user_id, entry_date, appointments_booked, notes")
-        .eq("user_id", uid)
-        .eq("entry_date", dayISO)
-        .maybeSingle();
-
-      if (error) throw new Error(error.message);
-
-      if (!data) {
-        setAppointmentsBooked("0");
-        setNotes("");
-        return;
-      }
-
-      const row = data as DailyKpiRow;
-      setAppointmentsBooked(String(safeNum(row.appointments_booked)));
-      setNotes(row.notes ?? "");
-    },
-    []
-  );
+  const loadDay = useCallback(async (uid: string, dayISO: string) => {
+    const { submission, values } = await loadKpiDay(uid, dayISO);
+    setSubmission(submission);
+    setUnlock(await fetchOpenUnlock(uid, dayISO));
+    setValuesByFieldId(values);
+    setFieldErrors({});
+    setNotes(submission?.notes ?? "");
+
+    const metrics = await fetchMeetingMetrics(
+      melbMidnightToUtcIso(dayISO),
+      melbMidnightToUtcIso(addDaysISO(dayISO, 1))
+    );
+    setDayMetrics(metrics[uid] ?? null);
+  }, []);
 
   const loadAll = useCallback(async () => {
     setLoading(true);
@@ -120,6 +165,8 @@ export default function DailyKpisPage() {
       const sessionInfo = await ensureSessionAndProfile();
       if (!sessionInfo) return;
 
+      setFields(fieldsForRole(await fetchKpiFields(), sessionInfo.role));
+      setCutoffDays(await fetchKpiCutoff());
       await loadDay(sessionInfo.uid, selectedDay);
 
       setLoading(false);
@@ -133,42 +180,48 @@ export default function DailyKpisPage() {
     loadAll();
   }, [loadAll]);
 
+  useEffect(() => {
+    if (!userId || days.length === 0) return;
+    fetchKpiStatuses(userId, days[days.length - 1], days[0])
+      .then(setStatusByDay)
+      .catch((e) => setMsg(e?.message ?? "Failed to load history."));
+  }, [userId, days, submission]);
+
   // Reload KPI values when user clicks a different day
   useEffect(() => {
     if (!userId) return;
     loadDay(userId, selectedDay).catch((e) => setMsg(e?.message ?? "Failed to load day."));
   }, [selectedDay, userId, loadDay]);
 
-  const save = useCallback(async () => {
+  const save = useCallback(async (action: "draft" | "submit") => {
     if (!userId) return;
 
+    // Drafts can be partial; required fields only matter on submit
+    const toCheck = fields
+      .filter((f) => !isFormulaField(f))
+      .map((f) => (action === "draft" ? { ...f, required: false } : f));
+    const { errors } = checkKpiValues(toCheck, valuesByFieldId);
+    setFieldErrors(errors);
+    const firstError = fields.map((f) => errors[f.id]).find(Boolean);
+    if (firstError) {
+      setMsg(firstError);
+      return;
+    }
+
     setSaving(true);
     setMsg(null);
 
     try {
-      const appt = safeNum(appointmentsBooked);
-
-      const payload = {
-        user_id: userId,
-        entry_date: selectedDay,
-        appointments_booked: appt,
-        notes: notes.trim() ? notes.trim() : null,
-      };
-
-      const { error } = await supabase
-        .from("daily_kpis")
-        .upsert(payload, { onConflict: "user_id,entry_date" });
-
-      if (error) throw new Error(error.message);
-
-      setMsg("Saved ✅");
+      setSubmission(await saveKpiDay(selectedDay, valuesByFieldId, action, notes.trim() ? notes.trim() : null));
+      setUnlock(null);
+      setMsg(action === "draft" ? "Draft saved ✅" : "Submitted for review ✅");
       setTimeout(() => setMsg(null), 1200);
     } catch (e: any) {
       setMsg(e?.message ?? "Failed to save.");
     } finally {
       setSaving(false);
     }
-  }, [userId, selectedDay, appointmentsBooked, notes]);
+  }, [userId, selectedDay, fields, valuesByFieldId, notes]);
 
   if (loading) return <div className="p-6 text-black">Loading…</div>;
 
@@ -180,7 +233,8 @@ export default function DailyKpisPage() {
             <div className="text-xs text-black/60">Daily KPIs</div>
             <h1 className="text-2xl font-semibold">{name}</h1>
             <div className="mt-1 text-xs text-black/60">
-              Date: <span className="font-medium text-black">{selectedDay}</span>
+              Date: <span className="font-medium text-black">{selectedDay}</span> •{" "}
+              {kpiStatusLabel(submission?.status)}
             </div>
           </div>
 
@@ -192,11 +246,18 @@ export default function DailyKpisPage() {
               Back
             </button>
             <button
-              onClick={save}
-              disabled={saving}
+              onClick={() => save("draft")}
+              disabled={saving || !!editBlock}
+              className="rounded-xl border px-4 py-2 text-sm bg-white text-black disabled:opacity-60"
+            >
+              Save draft
+            </button>
+            <button
+              onClick={() => save("submit")}
+              disabled={saving || !!editBlock}
               className="rounded-xl bg-black px-4 py-2 text-sm text-white disabled:opacity-60"
             >
-              {saving ? "Saving…" : "Save"}
+              {saving ? "Saving…" : "Submit"}
             </button>
           </div>
         </div>
@@ -216,7 +277,14 @@ export default function DailyKpisPage() {
                       isSel ? "bg-black text-white" : "bg-white text-black"
                     }`}
                   >
-                    {d === melbourneDateISO(new Date()) ? "Today" : d}
+                    <div className="flex items-center justify-between gap-2">
+                      <span>{d === todayISO ? "Today" : d}</span>
+                      {statusByDay[d] ? (
+                        <span className={`rounded-full border px-2 py-0.5 text-[10px] ${kpiStatusClass(statusByDay[d])}`}>
+                          {kpiStatusLabel(statusByDay[d])}
+                        </span>
+                      ) : null}
+                    </div>
                   </button>
                 );
               })}
@@ -227,27 +295,69 @@ export default function DailyKpisPage() {
           <div className="rounded-2xl border bg-white p-5">
             <div className="text-sm font-medium">KPIs to log</div>
             <div className="text-xs text-black/60 mt-1">
-              Keep it simple: just appointments booked (+ optional notes).
+              Fields are set by your admin. Fields marked * are needed to submit; save a draft to finish later. Submitted
+              days go to your manager for approval.
             </div>
 
+            {submission?.status === "draft" && submission.review_comment ? (
+              <div className="mt-4 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm">
+                Returned by your manager: {submission.review_comment}
+              </div>
+            ) : null}
+
+            {editBlock ? (
+              <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm">{editBlock}</div>
+            ) : unlock ? (
+              <div className="mt-4 rounded-xl border border-blue-200 bg-blue-50 p-3 text-sm">
+                Unlocked by an admin ({unlock.reason}). Your next save uses the unlock.
+              </div>
+            ) : null}
+
             <div className="mt-4 grid gap-3">
-              <label className="text-xs text-black/60">
-                Appointments booked
-                <input
-                  className="mt-1 w-full rounded-xl border px-3 py-2 text-sm"
-                  inputMode="numeric"
-                  value={appointmentsBooked}
-                  onChange={(e) => setAppointmentsBooked(e.target.value)}
-                  placeholder="0"
-                />
-              </label>
+              {fields.length === 0 ? <div className="text-sm text-black/60">No KPI fields configured.</div> : null}
+
+              {fields.map((f) =>
+                isFormulaField(f) ? (
+                  <div key={f.id} className="text-xs text-black/60">
+                    {kpiLabel(f)}
+                    <div className="mt-1 w-full rounded-xl border bg-gray-50 px-3 py-2 text-sm text-black">
+                      {formatKpiValue(f, formulaValues[f.key])}
+                    </div>
+                    <div className="mt-1 text-[11px] text-black/50">
+                      Calculated: <code>{f.formula}</code>
+                    </div>
+                  </div>
+                ) : (
+                  <label key={f.id} className="text-xs text-black/60">
+                    {kpiLabel(f)}
+                    {f.required ? <span className="text-red-600"> *</span> : null}
+                    <KpiFieldInput
+                      field={f}
+                      className={`mt-1 w-full rounded-xl border px-3 py-2 text-sm ${
+                        fieldErrors[f.id] ? "border-red-300" : ""
+                      }`}
+                      value={valuesByFieldId[f.id] ?? ""}
+                      onChange={(v) => setValuesByFieldId((prev) => ({ ...prev, [f.id]: v }))}
+                      disabled={!!editBlock}
+                    />
+                    {fieldErrors[f.id] ? (
+                      <div className="mt-1 text-[11px] text-red-700">{fieldErrors[f.id]}</div>
+                    ) : f.help_text || rangeHint(f) ? (
+                      <div className="mt-1 text-[11px] text-black/50">
+                        {[f.help_text, rangeHint(f)].filter(Boolean).join(" • ")}
+                      </div>
+                    ) : null}
+                  </label>
+                )
+              )}
 
               <label className="text-xs text-black/60">
                 Notes (optional)
                 <textarea
-                  className="mt-1 w-full rounded-xl border px-3 py-2 text-sm"
+                  className="mt-1 w-full rounded-xl border px-3 py-2 text-sm disabled:bg-gray-50"
                   value={notes}
                   onChange={(e) => setNotes(e.target.value)}
+                  disabled={!!editBlock}
                   rows={4}
                   placeholder="Anything worth noting for the day…"
                 />
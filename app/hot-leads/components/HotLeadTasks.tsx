@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  HOT_LEAD_TASK_SELECT,
+  TASK_TITLE_MAX,
+  isOverdue,
+  sortTasks,
+  type HotLeadTask,
+} from "@/lib/hotLeadTasks";
+
+type Person = { id: string; full_name: string | null };
+
+/** Follow-up tasks for one hot lead: add, tick off, remove */
+export default function HotLeadTasks({
+  meetingId,
+  tasks,
+  userId,
+  isAdmin,
+  profiles,
+  todayISO,
+  onChange,
+}: {
+  meetingId: string;
+  tasks: HotLeadTask[];
+  userId: string;
+  isAdmin: boolean;
+  profiles: Person[];
+  todayISO: string;
+  onChange: (tasks: HotLeadTask[]) => void;
+}) {
+  const [adding, setAdding] = useState(false);
+  const [title, setTitle] = useState("");
+  const [dueDate, setDueDate] = useState(todayISO);
+  const [assigneeId, setAssigneeId] = useState(userId);
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const nameOf = (id: string | null) => (id ? profiles.find((p) => p.id === id)?.full_name ?? "—" : "Unassigned");
+
+  async function addTask() {
+    const t = title.trim().slice(0, TASK_TITLE_MAX);
+    if (!t || !dueDate) return;
+
+    setBusyId("new");
+    setError(null);
+
+    try {
+      const { data, error } = await supabase
+        .from("hot_lead_tasks")
+        .insert({
+          meeting_id: meetingId,
+          title: t,
+          due_date: dueDate,
+          assignee_id: assigneeId || null,
+          created_by: userId,
+        })
+        .select(HOT_LEAD_TASK_SELECT)
+        .single();
+
+      if (error) throw new Error(error.message);
+
+      onChange([...tasks, data as HotLeadTask]);
+      setTitle("");
+      setAdding(false);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to add task.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function toggleDone(task: HotLeadTask) {
+    setBusyId(task.id);
+    setError(null);
+
+    try {
+      const patch = task.done_at
+        ? { done_at: null, done_by: null }
+        : { done_at: new Date().toISOString(), done_by: userId };
+
+      const { error } = await supabase.from("hot_lead_tasks").update(patch).eq("id", task.id);
+      if (error) throw new Error(error.message);
+
+      onChange(tasks.map((t) => (t.id === task.id ? { ...t, ...patch } : t)));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to update task.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function removeTask(task: HotLeadTask) {
+    setBusyId(task.id);
+    setError(null);
+
+    try {
+      const { error } = await supabase.from("hot_lead_tasks").delete().eq("id", task.id);
+      if (error) throw new Error(error.message);
+
+      onChange(tasks.filter((t) => t.id !== task.id));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to remove task.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const input = "rounded-xl border px-3 py-2 text-sm bg-white";
+
+  return (
+    <div className="mt-3 rounded-xl border bg-gray-50 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-semibold text-black/60">Follow-ups</div>
+        {!adding ? (
+          <button type="button" onClick={() => setAdding(true)} className="text-xs underline text-black/60">
+            + Add task
+          </button>
+        ) : null}
+      </div>
+
+      {tasks.length === 0 && !adding ? <div className="mt-2 text-xs text-black/50">No follow-up tasks.</div> : null}
+
+      {tasks.length ? (
+        <div className="mt-2 space-y-1.5">
+          {sortTasks(tasks).map((t) => {
+            const overdue = isOverdue(t, todayISO);
+            const canEdit = isAdmin || t.assignee_id === userId || t.created_by === userId;
+
+            return (
+              <div
+                key={t.id}
+                className={`flex items-center gap-2 rounded-xl border px-3 py-2 text-xs ${
+                  overdue ? "border-red-200 bg-red-50" : "bg-white"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={!!t.done_at}
+                  disabled={!canEdit || busyId !== null}
+                  onChange={() => toggleDone(t)}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className={`truncate ${t.done_at ? "line-through text-black/40" : "font-medium"}`}>{t.title}</div>
+                  <div className={`text-[11px] ${overdue ? "text-red-700" : "text-black/50"}`}>
+                    {overdue ? "Overdue • " : ""}Due {t.due_date} • {nameOf(t.assignee_id)}
+                  </div>
+                </div>
+                {isAdmin || t.created_by === userId ? (
+                  <button
+                    type="button"
+                    onClick={() => removeTask(t)}
+                    disabled={busyId !== null}
+                    className="text-[11px] text-black/40 hover:text-black disabled:opacity-50"
+                    title="Remove task"
+                  >
+                    ✕
+                  </button>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+
+      {adding ? (
+        <div className="mt-2 grid grid-cols-1 sm:grid-cols-[1fr_auto_auto] gap-2">
+          <input
+            className={input}
+            placeholder="e.g. Call back with pricing"
+            maxLength={TASK_TITLE_MAX}
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addTask();
+            }}
+          />
+          <input className={input} type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+          <select className={input} value={assigneeId} onChange={(e) => setAssigneeId(e.target.value)}>
+            <option value="">Unassigned</option>
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.full_name ?? p.id}
+              </option>
+            ))}
+          </select>
+          <div className="sm:col-span-3 flex justify-end gap-2">
+            <button type="button" onClick={() => setAdding(false)} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={addTask}
+              disabled={busyId !== null || !title.trim() || !dueDate}
+              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+            >
+              {busyId === "new" ? "Saving…" : "Add task"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {error ? <div className="mt-2 text-[11px] text-red-700">{error}</div> : null}
+    </div>
+  );
+}
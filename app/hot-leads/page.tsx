@@ -1,8 +1,31 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { outcomeBadgeClass, outcomeLabel, type MeetingOutcome } from "@/lib/meetingOutcome";
+import { DISCARD_REASONS, cleanDiscardReason } from "@/lib/meetingDiscard";
+import { PAGE_SIZE, cursorFromRow, keysetFilter, keysetOrder, type MeetingCursor } from "@/lib/meetingCursor";
+import { useInfiniteScroll } from "@/lib/useInfiniteScroll";
+import {
+  HOT_LEAD_TASK_SELECT,
+  fetchOverdueTasks,
+  type HotLeadTask,
+  type OverdueTask,
+} from "@/lib/hotLeadTasks";
+import { HOT_STAGES, daysInStage, hotStageLabel, nextTask, type HotStage } from "@/lib/hotLeadStages";
+import {
+  DEFAULT_HOT_LEAD_SLA,
+  fetchAtRiskHotLeads,
+  fetchHotLeadSla,
+  fmtAgo,
+  slaStatus,
+  type HotLeadSla,
+} from "@/lib/hotLeadSla";
+import { DEFAULT_HOT_MIN_SCORE, fetchHotMinScore, rescoreMeetings } from "@/lib/leadScoring";
+import { rescheduleMeetingAt } from "@/lib/meetingReschedule";
+import DiscardedBin from "../meetings/components/DiscardedBin";
+import HotLeadTasks from "./components/HotLeadTasks";
 
 type ProfileRow = {
   id: string;
@@ -18,14 +41,55 @@ type MeetingRow = {
   attended_by_id: string;
 
   lead_score: number;
+  score_manual: boolean;
 
-  showed_up: boolean;
-  moved_to_ss2: boolean;
+  outcome: MeetingOutcome;
+
+  rescheduled_from_id: string | null;
+
+  // Board column + when it got there
+  hot_stage: HotStage;
+  hot_stage_at: string;
+
+  // Follow-up activity, for SLA flags
+  last_activity_at: string | null;
+  contacted_at: string | null;
+
+  lead_id: string | null;
+  source_id: string | null;
+  campaign: string | null;
 
   discarded_at: string | null;
   created_at: string;
 };
 
+function melbISO(d: Date) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(d);
+}
+
+/** Tasks for the given meetings, grouped by meeting */
+async function fetchTasksFor(meetingIds: string[]) {
+  const out: Record<string, HotLeadTask[]> = {};
+  if (meetingIds.length === 0) return out;
+
+  const res = await supabase
+    .from("hot_lead_tasks")
+    .select(HOT_LEAD_TASK_SELECT)
+    .in("meeting_id", meetingIds)
+    .order("due_date", { ascending: true });
+
+  if (res.error) throw new Error(res.error.message);
+
+  meetingIds.forEach((id) => (out[id] = []));
+  ((res.data ?? []) as HotLeadTask[]).forEach((t) => out[t.meeting_id]?.push(t));
+  return out;
+}
+
 function fmtDateTimeAU(iso: string) {
   const d = new Date(iso);
   return new Intl.DateTimeFormat("en-AU", {
@@ -38,6 +102,19 @@ function fmtDateTimeAU(iso: string) {
   }).format(d);
 }
 
+/** For <input type="datetime-local"> we need "YYYY-MM-DDTHH:mm" */
+function toDatetimeLocalValue(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+}
+
+function fromDatetimeLocalToIso(value: string) {
+  const d = new Date(value);
+  return d.toISOString();
+}
+
 function initials(name?: string | null) {
   const n = (name ?? "").trim();
   if (!n) return "—";
@@ -50,6 +127,156 @@ function normRole(r?: string | null) {
   return (r ?? "").trim().toLowerCase();
 }
 
+/** Red chips for a lead breaching the contact / idle SLA */
+function SlaFlags({ m, sla }: { m: MeetingRow; sla: HotLeadSla }) {
+  const st = slaStatus(m, sla);
+  if (!st.breached) return null;
+
+  return (
+    <>
+      {st.notContacted ? (
+        <span className="inline-flex items-center rounded-full border border-red-300 bg-red-100 px-2 py-0.5 text-[11px] text-red-800">
+          ⚠ Not contacted ({Math.floor(st.hoursSinceMeeting)}h)
+        </span>
+      ) : null}
+      {st.idle ? (
+        <span className="inline-flex items-center rounded-full border border-red-300 bg-red-100 px-2 py-0.5 text-[11px] text-red-800">
+          ⚠ Idle {st.idleDays}d
+        </span>
+      ) : null}
+    </>
+  );
+}
+
+/** Stage columns; drag a card (or use its menu on touch screens) to move it */
+function HotLeadBoard({
+  meetings,
+  tasksByMeeting,
+  profilesById,
+  todayISO,
+  sla,
+  savingId,
+  onMove,
+  onOpen,
+}: {
+  meetings: MeetingRow[];
+  tasksByMeeting: Record<string, HotLeadTask[]>;
+  profilesById: Record<string, ProfileRow>;
+  todayISO: string;
+  sla: HotLeadSla;
+  savingId: string | null;
+  onMove: (m: MeetingRow, stage: HotStage) => void;
+  onOpen: (id: string) => void;
+}) {
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overStage, setOverStage] = useState<HotStage | null>(null);
+
+  function drop(stage: HotStage) {
+    const m = meetings.find((x) => x.id === dragId);
+    setDragId(null);
+    setOverStage(null);
+    if (m && m.hot_stage !== stage) onMove(m, stage);
+  }
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {HOT_STAGES.map((col) => {
+        const cards = meetings.filter((m) => m.hot_stage === col.value);
+
+        return (
+          <div
+            key={col.value}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setOverStage(col.value);
+            }}
+            onDragLeave={() => setOverStage((s) => (s === col.value ? null : s))}
+            onDrop={(e) => {
+              e.preventDefault();
+              drop(col.value);
+            }}
+            className={`w-64 shrink-0 rounded-2xl border p-2 ${
+              overStage === col.value && dragId ? "bg-gray-100 border-black/30" : "bg-white"
+            }`}
+          >
+            <div className={`flex items-center justify-between rounded-xl px-3 py-2 text-xs font-semibold ${col.headerClass}`}>
+              <span>{col.label}</span>
+              <span>{cards.length}</span>
+            </div>
+
+            <div className="mt-2 space-y-2 min-h-[4rem]">
+              {cards.map((m) => {
+                const booked = profilesById[m.booked_by_id]?.full_name ?? null;
+                const taken = profilesById[m.attended_by_id]?.full_name ?? null;
+                const days = daysInStage(m.hot_stage_at);
+                const next = nextTask(tasksByMeeting[m.id]);
+                const nextOverdue = next ? next.due_date < todayISO : false;
+
+                return (
+                  <div
+                    key={m.id}
+                    draggable={savingId !== m.id}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData("text/plain", m.id);
+                      e.dataTransfer.effectAllowed = "move";
+                      setDragId(m.id);
+                    }}
+                    onDragEnd={() => {
+                      setDragId(null);
+                      setOverStage(null);
+                    }}
+                    className={`rounded-xl border bg-gray-50 p-3 cursor-grab active:cursor-grabbing ${
+                      dragId === m.id || savingId === m.id ? "opacity-50" : ""
+                    }`}
+                  >
+                    <button onClick={() => onOpen(m.id)} className="block w-full text-left">
+                      <div className="text-sm font-semibold truncate">{m.meeting_name || "Unnamed meeting"}</div>
+                    </button>
+
+                    <div className="mt-2 flex items-center gap-1.5 text-[11px]">
+                      <span className="rounded-lg border bg-white px-1.5 py-0.5 font-semibold" title={`Booked by ${booked ?? "—"}`}>
+                        {initials(booked)}
+                      </span>
+                      <span className="text-black/30">→</span>
+                      <span className="rounded-lg border bg-white px-1.5 py-0.5 font-semibold" title={`Taken by ${taken ?? "—"}`}>
+                        {initials(taken)}
+                      </span>
+                      <span className="ml-auto text-black/50">
+                        {days === 0 ? "today" : `${days}d`} in column
+                      </span>
+                    </div>
+
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      <SlaFlags m={m} sla={sla} />
+                    </div>
+
+                    <div className={`mt-2 text-[11px] truncate ${nextOverdue ? "text-red-700" : "text-black/60"}`}>
+                      {next ? `Next: ${next.title} • ${nextOverdue ? "overdue " : ""}${next.due_date}` : "No open tasks"}
+                    </div>
+
+                    <select
+                      className="mt-2 w-full rounded-lg border bg-white px-2 py-1 text-[11px] sm:hidden"
+                      value={m.hot_stage}
+                      disabled={savingId === m.id}
+                      onChange={(e) => onMove(m, e.target.value as HotStage)}
+                    >
+                      {HOT_STAGES.map((s) => (
+                        <option key={s.value} value={s.value}>
+                          Move to {s.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export default function HotLeadsPage() {
   const router = useRouter();
 
@@ -57,6 +284,7 @@ export default function HotLeadsPage() {
   const [msg, setMsg] = useState<string | null>(null);
   const [savingId, setSavingId] = useState<string | null>(null);
 
+  const [userId, setUserId] = useState<string>("");
   const [isAdmin, setIsAdmin] = useState(false);
 
   const [profiles, setProfiles] = useState<ProfileRow[]>([]);
@@ -67,10 +295,70 @@ export default function HotLeadsPage() {
   }, [profiles]);
 
   const [meetings, setMeetings] = useState<MeetingRow[]>([]);
+  const [hotMin, setHotMin] = useState(DEFAULT_HOT_MIN_SCORE);
+  const [sla, setSla] = useState<HotLeadSla>(DEFAULT_HOT_LEAD_SLA);
+  const [atRiskIds, setAtRiskIds] = useState<string[]>([]);
   const [q, setQ] = useState("");
+  const [qApplied, setQApplied] = useState(""); // debounced, sent to the server
+
+  // Paging: total comes from the server, pages are appended on scroll
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const listGenRef = useRef(0);
+  const loadedOnceRef = useRef(false); // search reloads keep the page (and input focus) mounted
+  const rescoredRef = useRef(false);
+
+  const [rescheduleId, setRescheduleId] = useState<string | null>(null);
+  const [rescheduleAtLocal, setRescheduleAtLocal] = useState<string>("");
+
+  const [discardId, setDiscardId] = useState<string | null>(null);
+  const [discardReason, setDiscardReason] = useState<string>("");
+  const [showBin, setShowBin] = useState(false);
+  const [view, setView] = useState<"list" | "board">("list");
+
+  // Follow-up tasks: per visible hot lead, plus everything overdue
+  const todayISO = useMemo(() => melbISO(new Date()), []);
+  const [tasksByMeeting, setTasksByMeeting] = useState<Record<string, HotLeadTask[]>>({});
+  const [overdue, setOverdue] = useState<OverdueTask[]>([]);
+
+  /** Hot leads = lead_score >= threshold, not discarded; newest first by (meeting_at, id) keyset */
+  const fetchHotPage = useCallback(
+    async (uid: string, adminFlag: boolean, minScore: number, term: string, after: MeetingCursor | null) => {
+      let hotQ = supabase
+        .from("meetings")
+        .select(
+          "id, meeting_name, meeting_at, booked_by_id, attended_by_id, lead_score, score_manual, outcome, rescheduled_from_id, hot_stage, hot_stage_at, last_activity_at, contacted_at, lead_id, source_id, campaign, discarded_at, created_at",
+          { count: after ? undefined : "exact" }
+        )
+        .gte("lead_score", minScore)
+        .neq("outcome", "rescheduled") // the follow-up carries the lead now
+        .is("discarded_at", null);
+
+      keysetOrder("newest").forEach((o) => {
+        hotQ = hotQ.order(o.column, { ascending: o.ascending });
+      });
+      hotQ = hotQ.limit(PAGE_SIZE);
+
+      if (after) hotQ = hotQ.or(keysetFilter("newest", after));
+
+      // Non-admin only sees their own hot leads
+      if (!adminFlag) {
+        hotQ = hotQ.or(`booked_by_id.eq.${uid},attended_by_id.eq.${uid}`);
+      }
+
+      if (term) hotQ = hotQ.ilike("meeting_name", `%${term}%`);
+
+      const hotRes = await hotQ;
+      if (hotRes.error) throw new Error(hotRes.error.message);
+
+      return { rows: (hotRes.data ?? []) as MeetingRow[], count: hotRes.count ?? null };
+    },
+    []
+  );
 
   const load = useCallback(async () => {
-    setLoading(true);
+    if (!loadedOnceRef.current) setLoading(true);
     setMsg(null);
 
     const { data: sessionData } = await supabase.auth.getSession();
@@ -81,6 +369,7 @@ export default function HotLeadsPage() {
     }
 
     const uid = session.user.id;
+    setUserId(uid);
 
     try {
       // Check admin (admins see all hot leads; non-admin see only those booked/taken by them)
@@ -99,43 +388,116 @@ export default function HotLeadsPage() {
       if (profRes.error) throw new Error(profRes.error.message);
       setProfiles((profRes.data ?? []) as ProfileRow[]);
 
-      // Hot leads = lead_score = 3 and not discarded
-      let hotQ = supabase
-        .from("meetings")
-        .select(
-          "id, meeting_name, meeting_at, booked_by_id, attended_by_id, lead_score, showed_up, moved_to_ss2, discarded_at, created_at"
-        )
-        .eq("lead_score", 3)
-        .is("discarded_at", null)
-        .order("meeting_at", { ascending: false })
-        .limit(1000);
-
-      // Non-admin only sees their own hot leads
-      if (!adminFlag) {
-        hotQ = hotQ.or(`booked_by_id.eq.${uid},attended_by_id.eq.${uid}`);
+      // "Days since meeting" rules age daily, so bring stored scores up to date
+      // once when the page opens; searches and reloads reuse them
+      if (!rescoredRef.current) {
+        rescoredRef.current = true;
+        await rescoreMeetings();
       }
-
-      const hotRes = await hotQ;
-      if (hotRes.error) throw new Error(hotRes.error.message);
-
-      setMeetings((hotRes.data ?? []) as MeetingRow[]);
+      const minScore = await fetchHotMinScore();
+      setHotMin(minScore);
+      const slaNow = await fetchHotLeadSla();
+      setSla(slaNow);
+      const atRisk = await fetchAtRiskHotLeads(minScore, slaNow, adminFlag ? null : uid);
+      setAtRiskIds(atRisk.map((m) => m.id));
+
+      const gen = ++listGenRef.current;
+      const page = await fetchHotPage(uid, adminFlag, minScore, qApplied, null);
+      if (gen !== listGenRef.current) return;
+
+      setMeetings(page.rows);
+      setTasksByMeeting(await fetchTasksFor(page.rows.map((m) => m.id)));
+      // Admins see the whole team's overdue follow-ups; everyone else their own
+      setOverdue(await fetchOverdueTasks(todayISO, adminFlag ? null : uid));
+      setTotalCount(page.count);
+      setHasMore(page.count != null && page.rows.length < page.count);
+      loadedOnceRef.current = true;
       setLoading(false);
     } catch (e: any) {
       setMsg(e?.message ?? "Failed to load hot leads.");
       setMeetings([]);
       setLoading(false);
     }
-  }, [router]);
+  }, [router, qApplied, fetchHotPage, todayISO]);
 
   useEffect(() => {
     load();
   }, [load]);
 
-  const filtered = useMemo(() => {
-    const qq = q.trim().toLowerCase();
-    if (!qq) return meetings;
-    return meetings.filter((m) => (m.meeting_name ?? "").toLowerCase().includes(qq));
-  }, [meetings, q]);
+  // search as you type, without a query per keystroke
+  useEffect(() => {
+    const t = setTimeout(() => setQApplied(q.trim()), 300);
+    return () => clearTimeout(t);
+  }, [q]);
+
+  const loadMore = useCallback(async () => {
+    const last = meetings[meetings.length - 1];
+    if (!hasMore || loadingMore || !last || !userId) return;
+
+    const gen = listGenRef.current;
+    setLoadingMore(true);
+
+    try {
+      const page = await fetchHotPage(userId, isAdmin, hotMin, qApplied, cursorFromRow(last));
+      if (gen !== listGenRef.current) return;
+
+      setMeetings((prev) => {
+        const seen = new Set(prev.map((m) => m.id));
+        return [...prev, ...page.rows.filter((m) => !seen.has(m.id))];
+      });
+      const more = await fetchTasksFor(page.rows.map((m) => m.id));
+      setTasksByMeeting((prev) => ({ ...prev, ...more }));
+      setHasMore(page.rows.length === PAGE_SIZE);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load more hot leads.");
+      setHasMore(false);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [meetings, hasMore, loadingMore, userId, isAdmin, hotMin, qApplied, fetchHotPage]);
+
+  // The board shows every live card, so its column counts are real and any
+  // card can be dragged: keep paging until the list is complete
+  useEffect(() => {
+    if (view === "board" && hasMore && !loadingMore) loadMore();
+  }, [view, hasMore, loadingMore, loadMore]);
+
+  async function refreshOverdue() {
+    try {
+      setOverdue(await fetchOverdueTasks(todayISO, isAdmin ? null : userId));
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load overdue tasks.");
+    }
+  }
+
+  function onTasksChange(meetingId: string, tasks: HotLeadTask[]) {
+    setTasksByMeeting((prev) => ({ ...prev, [meetingId]: tasks }));
+    refreshOverdue();
+  }
+
+  async function completeOverdue(t: OverdueTask) {
+    setSavingId(t.id);
+    setMsg(null);
+
+    try {
+      const patch = { done_at: new Date().toISOString(), done_by: userId };
+      const { error } = await supabase.from("hot_lead_tasks").update(patch).eq("id", t.id);
+      if (error) throw new Error(error.message);
+
+      setOverdue((prev) => prev.filter((x) => x.id !== t.id));
+      setTasksByMeeting((prev) =>
+        prev[t.meeting_id]
+          ? { ...prev, [t.meeting_id]: prev[t.meeting_id].map((x) => (x.id === t.id ? { ...x, ...patch } : x)) }
+          : prev
+      );
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to complete task.");
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  const sentinelRef = useInfiniteScroll(loadMore, hasMore && !loadingMore);
 
   async function setLeadScore(meetingId: string, nextScore: number) {
     setSavingId(meetingId);
@@ -144,14 +506,15 @@ export default function HotLeadsPage() {
     try {
       const { error } = await supabase
         .from("meetings")
-        .update({ lead_score: nextScore })
+        .update({ lead_score: nextScore, score_manual: true })
         .eq("id", meetingId);
 
       if (error) throw new Error(error.message);
 
       // remove locally if not hot anymore
-      if (nextScore !== 3) {
+      if (nextScore < hotMin) {
         setMeetings((prev) => prev.filter((m) => m.id !== meetingId));
+        setAtRiskIds((prev) => prev.filter((id) => id !== meetingId));
       } else {
         await load();
       }
@@ -162,9 +525,72 @@ export default function HotLeadsPage() {
     }
   }
 
+  function startReschedule(m: MeetingRow) {
+    setDiscardId(null);
+    const next = new Date(Date.parse(m.meeting_at) + 24 * 60 * 60 * 1000);
+    setRescheduleAtLocal(toDatetimeLocalValue(next));
+    setRescheduleId(m.id);
+  }
+
+  // Same flow as /meetings: linked follow-up + original marked rescheduled
+  async function rescheduleMeeting(m: MeetingRow) {
+    setSavingId(m.id);
+    setMsg(null);
+
+    try {
+      if (!rescheduleAtLocal) throw new Error("Pick a new date/time.");
+
+      await rescheduleMeetingAt(m.id, fromDatetimeLocalToIso(rescheduleAtLocal));
+
+      setRescheduleId(null);
+      await load();
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to reschedule hot lead.");
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  /** Board move: show it straight away, put it back if the save fails */
+  async function moveStage(m: MeetingRow, stage: HotStage) {
+    const before = { hot_stage: m.hot_stage, hot_stage_at: m.hot_stage_at };
+    const patch = (x: Partial<MeetingRow>) =>
+      setMeetings((prev) => prev.map((y) => (y.id === m.id ? { ...y, ...x } : y)));
+
+    setSavingId(m.id);
+    setMsg(null);
+    patch({ hot_stage: stage, hot_stage_at: new Date().toISOString() });
+
+    try {
+      const { data, error } = await supabase
+        .from("meetings")
+        .update({ hot_stage: stage })
+        .eq("id", m.id)
+        .select("hot_stage, hot_stage_at, last_activity_at, contacted_at")
+        .single();
+
+      if (error) throw new Error(error.message);
+      patch(data as Partial<MeetingRow>);
+    } catch (e: unknown) {
+      patch(before);
+      setMsg(e instanceof Error ? e.message : "Failed to move hot lead.");
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  function startDiscard(m: MeetingRow) {
+    setRescheduleId(null);
+    setDiscardReason("");
+    setDiscardId(m.id);
+  }
+
   async function discardMeeting(meetingId: string) {
-    const ok = window.confirm("Discard this hot lead? It will be hidden from the list.");
-    if (!ok) return;
+    const reason = cleanDiscardReason(discardReason);
+    if (!reason) {
+      setMsg("Add a reason before discarding.");
+      return;
+    }
 
     setSavingId(meetingId);
     setMsg(null);
@@ -172,12 +598,14 @@ export default function HotLeadsPage() {
     try {
       const { error } = await supabase
         .from("meetings")
-        .update({ discarded_at: new Date().toISOString() })
+        .update({ discarded_at: new Date().toISOString(), discard_reason: reason })
         .eq("id", meetingId);
 
       if (error) throw new Error(error.message);
 
       setMeetings((prev) => prev.filter((m) => m.id !== meetingId));
+      setAtRiskIds((prev) => prev.filter((id) => id !== meetingId));
+      setDiscardId(null);
     } catch (e: any) {
       setMsg(e?.message ?? "Failed to discard hot lead.");
     } finally {
@@ -185,21 +613,49 @@ export default function HotLeadsPage() {
     }
   }
 
+  // Server list covers every hot lead; loaded rows reflect moves made here since
+  const atRiskCount = useMemo(() => {
+    const ids = new Set(atRiskIds);
+    meetings.forEach((m) => (slaStatus(m, sla).breached ? ids.add(m.id) : ids.delete(m.id)));
+    return ids.size;
+  }, [atRiskIds, meetings, sla]);
+
   if (loading) return <div className="p-6 text-black">Loading…</div>;
 
   return (
     <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
-      <div className="mx-auto w-full max-w-3xl">
+      <div className={`mx-auto w-full ${view === "board" ? "max-w-6xl" : "max-w-3xl"}`}>
         {/* Header */}
         <div className="flex items-start justify-between gap-3 mb-4">
           <div>
             <h1 className="text-2xl font-semibold">Hot Leads</h1>
             <div className="mt-1 text-xs text-black/60">
-              Hot lead = <b>lead_score = 3</b> • {isAdmin ? "All hot leads" : "Only your hot leads"}
+              Hot lead = <b>lead_score ≥ {hotMin}</b> • {isAdmin ? "All hot leads" : "Only your hot leads"}
+            </div>
+            <div className="mt-1 text-xs text-black/60">
+              SLA: contact within {sla.contact_hours}h of the meeting • idle no more than {sla.idle_days}d
+              {atRiskCount ? <span className="ml-1 font-semibold text-red-700">• {atRiskCount} breaching</span> : null}
             </div>
           </div>
 
           <div className="flex gap-2">
+            <div className="flex rounded-xl border bg-white p-0.5">
+              {(["list", "board"] as const).map((v) => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  className={`rounded-lg px-3 py-1.5 text-xs ${view === v ? "bg-black text-white" : ""}`}
+                >
+                  {v === "list" ? "List" : "Board"}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setShowBin((v) => !v)}
+              className={`rounded-xl border px-3 py-2 text-xs ${showBin ? "bg-black text-white" : "bg-white"}`}
+            >
+              Discarded
+            </button>
             <button onClick={load} className="rounded-xl border bg-white px-3 py-2 text-xs">
               Refresh
             </button>
@@ -209,6 +665,48 @@ export default function HotLeadsPage() {
           </div>
         </div>
 
+        {/* Discarded bin */}
+        {showBin ? (
+          <div className="mb-4 rounded-2xl border bg-gray-100 p-4">
+            <div className="mb-3">
+              <h2 className="text-sm font-semibold">Discarded hot leads</h2>
+              <div className="mt-1 text-xs text-black/60">Restore to put a lead back on this list.</div>
+            </div>
+            <DiscardedBin userId={userId} isAdmin={isAdmin} profilesById={profilesById} minScore={hotMin} onRestored={load} />
+          </div>
+        ) : null}
+
+        {/* Overdue follow-ups */}
+        {overdue.length ? (
+          <div className="mb-4 rounded-2xl border border-red-200 bg-red-50 p-4">
+            <h2 className="text-sm font-semibold text-red-800">Overdue ({overdue.length})</h2>
+            <div className="mt-1 text-xs text-red-800/70">
+              {isAdmin ? "Follow-ups past their due date across the team." : "Your follow-ups past their due date."}
+            </div>
+
+            <div className="mt-3 space-y-2">
+              {overdue.map((t) => (
+                <div key={t.id} className="flex items-center justify-between gap-3 rounded-xl border bg-white px-3 py-2">
+                  <button onClick={() => router.push(`/meetings/${t.meeting_id}`)} className="min-w-0 text-left">
+                    <div className="text-sm font-medium truncate">{t.title}</div>
+                    <div className="text-[11px] text-black/50">
+                      {t.meeting?.meeting_name || "Unnamed meeting"} • Due {t.due_date}
+                      {isAdmin ? ` • ${profilesById[t.assignee_id ?? ""]?.full_name ?? "Unassigned"}` : ""}
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => completeOverdue(t)}
+                    disabled={savingId === t.id}
+                    className="shrink-0 rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
+                  >
+                    {savingId === t.id ? "Saving…" : "Done"}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
         {/* Search */}
         <div className="rounded-2xl border bg-white p-4 mb-4">
           <div className="text-xs font-semibold text-black/60">Search</div>
@@ -219,16 +717,30 @@ export default function HotLeadsPage() {
             onChange={(e) => setQ(e.target.value)}
           />
           <div className="mt-2 text-[11px] text-black/50">
-            Showing <b>{filtered.length}</b> of <b>{meetings.length}</b>
+            Showing <b>{meetings.length}</b> of <b>{totalCount ?? meetings.length}</b>
           </div>
         </div>
 
-        {/* List */}
-        {filtered.length === 0 ? (
+        {/* List / board */}
+        {meetings.length === 0 ? (
           <div className="rounded-2xl border bg-white p-6 text-sm text-black/70">No hot leads ✅</div>
+        ) : view === "board" ? (
+          <div>
+            <HotLeadBoard
+              meetings={meetings}
+              tasksByMeeting={tasksByMeeting}
+              profilesById={profilesById}
+              todayISO={todayISO}
+              sla={sla}
+              savingId={savingId}
+              onMove={moveStage}
+              onOpen={(id) => router.push(`/meetings/${id}`)}
+            />
+            {hasMore ? <div className="mt-3 text-center text-xs text-black/60">Loading the rest of the board…</div> : null}
+          </div>
         ) : (
           <div className="space-y-3">
-            {filtered.map((m) => {
+            {meetings.map((m) => {
               const bookedName = profilesById[m.booked_by_id]?.full_name ?? "—";
               const takenName = profilesById[m.attended_by_id]?.full_name ?? "—";
 
@@ -250,22 +762,26 @@ export default function HotLeadsPage() {
 
                       <div className="mt-3 flex flex-wrap items-center gap-2">
                         <span className="inline-flex items-center rounded-full border px-2.5 py-1 text-xs bg-red-50 border-red-200 text-red-700">
-                          Hot (3)
+                          Hot ({m.lead_score}){m.score_manual ? " ✋" : ""}
                         </span>
 
-                        {m.showed_up ? (
-                          <span className="inline-flex items-center rounded-full border px-2.5 py-1 text-xs bg-green-50 border-green-200 text-green-700">
-                            Showed
-                          </span>
-                        ) : (
-                          <span className="inline-flex items-center rounded-full border px-2.5 py-1 text-xs bg-gray-50 border-gray-200 text-black/70">
-                            Not showed
-                          </span>
-                        )}
+                        <span className="inline-flex items-center rounded-full border px-2.5 py-1 text-xs bg-white text-black/70">
+                          {hotStageLabel(m.hot_stage)} • {daysInStage(m.hot_stage_at)}d
+                        </span>
+
+                        <span className="text-[11px] text-black/50">Last activity {fmtAgo(m.last_activity_at)}</span>
+
+                        <SlaFlags m={m} sla={sla} />
+
+                        <span
+                          className={`inline-flex items-center rounded-full border px-2.5 py-1 text-xs ${outcomeBadgeClass(m.outcome)}`}
+                        >
+                          {outcomeLabel(m.outcome)}
+                        </span>
 
-                        {m.moved_to_ss2 ? (
-                          <span className="inline-flex items-center rounded-full border px-2.5 py-1 text-xs bg-blue-50 border-blue-200 text-blue-700">
-                            Moved to SS2
+                        {m.rescheduled_from_id ? (
+                          <span className="inline-flex items-center rounded-full border px-2.5 py-1 text-xs bg-gray-50 border-gray-200 text-black/70">
+                            ↻ Follow-up
                           </span>
                         ) : null}
                       </div>
@@ -285,34 +801,38 @@ export default function HotLeadsPage() {
                       <span className="text-[11px] text-black/40 font-mono">{m.id.slice(0, 8)}…</span>
 
                       <button
-                        onClick={() => router.push("/meetings")}
+                        onClick={() => router.push(`/meetings/${m.id}`)}
                         className="rounded-xl bg-black px-3 py-2 text-xs text-white"
                       >
-                        Open meetings
+                        Open meeting
                       </button>
 
-                      <div className="flex gap-2">
-                        <button
-                          onClick={() => setLeadScore(m.id, 2)}
-                          disabled={savingId === m.id}
-                          className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
-                          title="Set lead_score to 2 (removes from hot leads)"
-                        >
-                          {savingId === m.id ? "Saving…" : "Set 2"}
-                        </button>
+                      <button
+                        onClick={() => startReschedule(m)}
+                        disabled={savingId === m.id || m.outcome === "rescheduled"}
+                        className="w-full rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
+                      >
+                        Reschedule
+                      </button>
 
-                        <button
-                          onClick={() => setLeadScore(m.id, 1)}
-                          disabled={savingId === m.id}
-                          className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
-                          title="Set lead_score to 1 (removes from hot leads)"
-                        >
-                          {savingId === m.id ? "Saving…" : "Set 1"}
-                        </button>
+                      <div className="flex gap-2">
+                        {[2, 1]
+                          .filter((n) => n < hotMin)
+                          .map((n) => (
+                            <button
+                              key={n}
+                              onClick={() => setLeadScore(m.id, n)}
+                              disabled={savingId === m.id}
+                              className="rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
+                              title={`Set lead_score to ${n} by hand (removes from hot leads)`}
+                            >
+                              {savingId === m.id ? "Saving…" : `Set ${n}`}
+                            </button>
+                          ))}
                       </div>
 
                       <button
-                        onClick={() => discardMeeting(m.id)}
+                        onClick={() => startDiscard(m)}
                         disabled={savingId === m.id}
                         className="w-full rounded-xl border bg-white px-3 py-2 text-xs disabled:opacity-60"
                       >
@@ -320,9 +840,87 @@ export default function HotLeadsPage() {
                       </button>
                     </div>
                   </div>
+
+                  <HotLeadTasks
+                    meetingId={m.id}
+                    tasks={tasksByMeeting[m.id] ?? []}
+                    userId={userId}
+                    isAdmin={isAdmin}
+                    profiles={profiles}
+                    todayISO={todayISO}
+                    onChange={(tasks) => onTasksChange(m.id, tasks)}
+                  />
+
+                  {discardId === m.id ? (
+                    <div className="mt-3 rounded-xl border border-red-200 bg-red-50 p-3">
+                      <div className="text-xs font-medium">Why are you discarding this hot lead?</div>
+                      <div className="mt-2 flex gap-2 flex-wrap">
+                        {DISCARD_REASONS.map((r) => (
+                          <button
+                            key={r}
+                            type="button"
+                            onClick={() => setDiscardReason(r)}
+                            className={`rounded-xl border px-3 py-1.5 text-xs ${
+                              discardReason === r ? "bg-black text-white" : "bg-white"
+                            }`}
+                          >
+                            {r}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="mt-2 flex gap-2 flex-wrap">
+                        <input
+                          className="flex-1 rounded-xl border px-3 py-2 text-sm bg-white"
+                          placeholder="Reason (required)"
+                          value={discardReason}
+                          onChange={(e) => setDiscardReason(e.target.value)}
+                        />
+                        <button onClick={() => setDiscardId(null)} className="rounded-xl border bg-white px-3 py-2 text-xs">
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => discardMeeting(m.id)}
+                          disabled={savingId === m.id || !discardReason.trim()}
+                          className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+                        >
+                          {savingId === m.id ? "Saving…" : "Discard"}
+                        </button>
+                      </div>
+                    </div>
+                  ) : null}
+
+                  {rescheduleId === m.id ? (
+                    <div className="mt-3 rounded-xl border bg-gray-50 p-3">
+                      <div className="text-xs font-medium">Reschedule to</div>
+                      <div className="mt-2 flex gap-2 flex-wrap">
+                        <input
+                          type="datetime-local"
+                          className="flex-1 rounded-xl border px-3 py-2 text-sm bg-white"
+                          value={rescheduleAtLocal}
+                          onChange={(e) => setRescheduleAtLocal(e.target.value)}
+                        />
+                        <button
+                          onClick={() => setRescheduleId(null)}
+                          className="rounded-xl border bg-white px-3 py-2 text-xs"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => rescheduleMeeting(m)}
+                          disabled={savingId === m.id}
+                          className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+                        >
+                          {savingId === m.id ? "Saving…" : "Create follow-up"}
+                        </button>
+                      </div>
+                    </div>
+                  ) : null}
                 </div>
               );
             })}
+
+            <div ref={sentinelRef} />
+            {loadingMore ? <div className="py-2 text-center text-xs text-black/50">Loading more…</div> : null}
           </div>
         )}
 
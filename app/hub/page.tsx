@@ -4,6 +4,27 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
 import FocusTimer from "@/src/app/login/components/FocusTimer";
+import { isMoved, isShow, isShowRateEligible } from "@/lib/meetingOutcome";
+import { fetchConversion, fetchPipelineStages, type ConversionRow, type PipelineStage } from "@/lib/pipeline";
+import {
+  defaultReportKey,
+  fetchKpiFields,
+  fetchKpiTotals,
+  formatKpiValue,
+  hasKpiSubmission,
+  isFormulaField,
+  isNumericField,
+  kpiLabel,
+  type KpiField,
+} from "@/lib/kpi";
+import {
+  DEAL_SELECT,
+  LEADERBOARD_REVENUE_KEY,
+  fmtMoney,
+  revenueByPerson,
+  type DealRow,
+  type PersonRevenue,
+} from "@/lib/deals";
 
 type LeaderboardMode = "weekly" | "monthly";
 const LEADERBOARD_LIMIT = 10;
@@ -115,9 +136,7 @@ type LeaderRow = {
   user_id: string;
   name: string;
 
-  booked_kpi: number;
-
-  // BOOKER-owned (show rate)
+  // BOOKER-owned (show rate) — occurred = showed + no-show (pending excluded)
   booked_occurred: number;
   booked_showed: number;
   show_rate_text: string;
@@ -135,9 +154,24 @@ type WeeklyTargets = {
   ss2_rate: number | null;   // %
 };
 
+type HubMeeting = {
+  id: string;
+  meeting_at: string;
+  booked_by_id: string;
+  attended_by_id: string | null;
+  outcome: string | null;
+  rescheduled_from_id: string | null;
+};
+
+// app_settings key: credit a follow-up's show to the booker of the first attempt
+const RESCHEDULE_CREDIT_KEY = "reschedule_credit_original";
+
 const ROUTES = {
   meetings: "/meetings",
+  availability: "/availability",
+  leads: "/leads",
   dailyKpis: "/daily-kpis",
+  commission: "/commission",
   docsAll: "/documents",
   profile: "/profile",
 } as const;
@@ -195,11 +229,26 @@ function QuickActionsDropdown({
             <div className="text-xs text-white/50 mt-1">View + update outcomes</div>
           </button>
 
+          <button onClick={() => go(ROUTES.leads)} className="w-full px-3 py-3 text-left text-sm text-white hover:bg-white/5">
+            👤 Leads
+            <div className="text-xs text-white/50 mt-1">One record per person + history</div>
+          </button>
+
+          <button onClick={() => go(ROUTES.availability)} className="w-full px-3 py-3 text-left text-sm text-white hover:bg-white/5">
+            🗓 Availability
+            <div className="text-xs text-white/50 mt-1">Weekly bookable windows</div>
+          </button>
+
           <button onClick={() => go(ROUTES.dailyKpis)} className="w-full px-3 py-3 text-left text-sm text-white hover:bg-white/5">
             📌 Daily KPI Entry
             <div className="text-xs text-white/50 mt-1">Appointments booked</div>
           </button>
 
+          <button onClick={() => go(ROUTES.commission)} className="w-full px-3 py-3 text-left text-sm text-white hover:bg-white/5">
+            💰 My Commission
+            <div className="text-xs text-white/50 mt-1">Projected earnings this month</div>
+          </button>
+
           <button onClick={() => go(ROUTES.docsAll)} className="w-full px-3 py-3 text-left text-sm text-white hover:bg-white/5">
             📄 Documents
             <div className="text-xs text-white/50 mt-1">Company docs + resources</div>
@@ -246,6 +295,33 @@ export default function HubPage() {
   // weekly targets banner data
   const [weeklyTargets, setWeeklyTargets] = useState<WeeklyTargets | null>(null);
 
+  // my saved meeting filters (query strings for /meetings)
+  const [savedFilters, setSavedFilters] = useState<{ id: string; name: string; query: string }[]>([]);
+
+  // stage-to-stage conversion (any two pipeline stages)
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [convFromId, setConvFromId] = useState("");
+  const [convToId, setConvToId] = useState("");
+  const [conversion, setConversion] = useState<{ team: ConversionRow | null; byPerson: Record<string, ConversionRow> }>({
+    team: null,
+    byPerson: {},
+  });
+
+  // reschedule attribution (admin-controlled, team-wide)
+  const [creditOriginal, setCreditOriginal] = useState(false);
+  const [savingCredit, setSavingCredit] = useState(false);
+
+  // KPI column: any active number field, summed over the leaderboard range
+  const [kpiFields, setKpiFields] = useState<KpiField[]>([]);
+  const [kpiKey, setKpiKey] = useState("");
+  const [kpiTotals, setKpiTotals] = useState<Record<string, number>>({});
+  const [kpiApplicable, setKpiApplicable] = useState<string[] | null>(null); // null = every role
+
+  // settled revenue column (admin-controlled, team-wide)
+  const [showRevenue, setShowRevenue] = useState(false);
+  const [savingRevenue, setSavingRevenue] = useState(false);
+  const [revenue, setRevenue] = useState<Record<string, PersonRevenue>>({});
+
   const todayISO = useMemo(() => toISODateMelb(new Date()), []);
 
   const { monthStartISO, monthEndExclusiveISO } = useMemo(() => businessMonthRangeISO(new Date()), []);
@@ -295,6 +371,16 @@ export default function HubPage() {
     setWeeklyTargets(next);
   }, []);
 
+  // Saved filter chips are optional; if they fail to load, just hide them
+  const loadSavedFiltersSafe = useCallback(async () => {
+    const res = await supabase
+      .from("meeting_filter_presets")
+      .select("id, name, query")
+      .order("name", { ascending: true });
+
+    setSavedFilters(res.error ? [] : res.data ?? []);
+  }, []);
+
   const load = useCallback(async () => {
     setLoading(true);
     setMsg(null);
@@ -318,6 +404,8 @@ export default function HubPage() {
 
       if (myProfileRes.error) throw new Error(myProfileRes.error.message);
 
+      await loadSavedFiltersSafe();
+
       const r = normRole(myProfileRes.data?.role);
       setMyRole(r);
       const adminFlag = !!(myProfileRes.data as any)?.is_admin || r === "admin";
@@ -326,16 +414,27 @@ export default function HubPage() {
       // weekly targets
       await loadWeeklyTargetsSafe();
 
-      // Today KPI submitted?
-      const todayKpiRes = await supabase
-        .from("daily_kpis")
-        .select("id")
-        .eq("user_id", uid)
-        .eq("entry_date", todayISO)
+      // reschedule attribution setting (defaults to strict if missing)
+      const settingRes = await supabase
+        .from("app_settings")
+        .select("value")
+        .eq("key", RESCHEDULE_CREDIT_KEY)
         .maybeSingle();
 
-      if (todayKpiRes.error) throw new Error(todayKpiRes.error.message);
-      setTodaySubmitted(!!todayKpiRes.data);
+      const credit = !settingRes.error && settingRes.data?.value === true;
+      setCreditOriginal(credit);
+
+      const revenueSettingRes = await supabase
+        .from("app_settings")
+        .select("value")
+        .eq("key", LEADERBOARD_REVENUE_KEY)
+        .maybeSingle();
+
+      setShowRevenue(!revenueSettingRes.error && revenueSettingRes.data?.value === true);
+
+      // Today KPI submitted?
+      setTodaySubmitted(await hasKpiSubmission(uid, todayISO));
+      setKpiFields((await fetchKpiFields()).filter(isNumericField));
 
       // Staff list
       const profRes = await supabase
@@ -346,39 +445,58 @@ export default function HubPage() {
       if (profRes.error) throw new Error(profRes.error.message);
 
       const staff = (profRes.data ?? []) as { id: string; full_name: string | null }[];
-      const userIds = staff.map((p) => p.id).filter(Boolean);
-
-      // 1) Booked KPI (daily_kpis)
-      const bookedKpiByUser: Record<string, number> = {};
-      if (userIds.length > 0) {
-        const dkRes = await supabase
-          .from("daily_kpis")
-          .select("user_id, appointments_booked, entry_date")
-          .in("user_id", userIds)
-          .gte("entry_date", rangeStartISO)
-          .lt("entry_date", rangeEndExclusiveISO);
-
-        if (dkRes.error) throw new Error(dkRes.error.message);
-
-        (dkRes.data ?? []).forEach((row: any) => {
-          const u = row.user_id;
-          if (!u) return;
-          bookedKpiByUser[u] = (bookedKpiByUser[u] ?? 0) + safeNum(row.appointments_booked);
-        });
-      }
 
-      // 2) Meetings metrics
+      // Meetings metrics (the KPI column loads separately)
       const mtgRes = await supabase
         .from("meetings")
-        .select("meeting_at, booked_by_id, attended_by_id, showed_up, moved_to_ss2, discarded_at")
+        .select("id, meeting_at, booked_by_id, attended_by_id, outcome, rescheduled_from_id, discarded_at")
         .is("discarded_at", null)
         .gte("meeting_at", rangeStartUtcIso)
         .lt("meeting_at", rangeEndUtcIso);
 
       if (mtgRes.error) throw new Error(mtgRes.error.message);
 
-      const nowMs = Date.now();
-      const rowsMeet = (mtgRes.data ?? []) as any[];
+      const rowsMeet = (mtgRes.data ?? []) as HubMeeting[];
+
+      // For follow-ups, find the booker of the first attempt in the chain
+      const rootBookerById: Record<string, string> = {};
+      if (credit) {
+        const parentOf: Record<string, string | null> = {};
+        const bookerOf: Record<string, string> = {};
+        rowsMeet.forEach((m) => {
+          parentOf[m.id] = m.rescheduled_from_id ?? null;
+          bookerOf[m.id] = m.booked_by_id;
+        });
+
+        // Fetch ancestors outside the range, a level at a time
+        for (let depth = 0; depth < 10; depth++) {
+          const missing = Array.from(
+            new Set(Object.values(parentOf).filter((id): id is string => !!id && !(id in parentOf)))
+          );
+          if (missing.length === 0) break;
+
+          const parRes = await supabase
+            .from("meetings")
+            .select("id, booked_by_id, rescheduled_from_id")
+            .in("id", missing);
+
+          if (parRes.error) throw new Error(parRes.error.message);
+
+          missing.forEach((id) => (parentOf[id] = null));
+          ((parRes.data ?? []) as Pick<HubMeeting, "id" | "booked_by_id" | "rescheduled_from_id">[]).forEach((p) => {
+            parentOf[p.id] = p.rescheduled_from_id ?? null;
+            bookerOf[p.id] = p.booked_by_id;
+          });
+        }
+
+        rowsMeet.forEach((m) => {
+          let cur: string = m.id;
+          for (let i = 0; i < 20 && parentOf[cur] && bookerOf[parentOf[cur] as string]; i++) {
+            cur = parentOf[cur] as string;
+          }
+          rootBookerById[m.id] = bookerOf[cur] ?? m.booked_by_id;
+        });
+      }
 
       const bookedOccurredBy: Record<string, number> = {};
       const bookedShowedBy: Record<string, number> = {};
@@ -387,15 +505,19 @@ export default function HubPage() {
       const takenShowed: Record<string, number> = {};
       const takenMoved: Record<string, number> = {};
 
-      rowsMeet.forEach((m: any) => {
-        const b = m.booked_by_id ?? null;
+      rowsMeet.forEach((m) => {
         const a = m.attended_by_id ?? null;
 
-        const t = Date.parse(m.meeting_at);
-        const occurred = Number.isFinite(t) && t <= nowMs;
-        if (!occurred) return;
+        // A rescheduled attempt is never counted (same as /admin); the follow-up's
+        // result goes to whoever rebooked it, or in credit mode to the first booker.
+        const outcome = m.outcome;
 
-        const showed = m.showed_up === true;
+        const b = (credit ? rootBookerById[m.id] : m.booked_by_id) ?? m.booked_by_id ?? null;
+
+        // Scheduled / cancelled stay out of every denominator
+        if (!isShowRateEligible(outcome)) return;
+
+        const showed = isShow(outcome);
 
         // BOOKER-owned show rate
         if (b) {
@@ -409,14 +531,12 @@ export default function HubPage() {
 
           if (showed) {
             takenShowed[a] = (takenShowed[a] ?? 0) + 1;
-            if (m.moved_to_ss2 === true) takenMoved[a] = (takenMoved[a] ?? 0) + 1;
+            if (isMoved(outcome)) takenMoved[a] = (takenMoved[a] ?? 0) + 1;
           }
         }
       });
 
       const leaders: LeaderRow[] = staff.map((u) => {
-        const booked_kpi = Math.round(bookedKpiByUser[u.id] ?? 0);
-
         const booked_occurred = bookedOccurredBy[u.id] ?? 0;
         const booked_showed = bookedShowedBy[u.id] ?? 0;
 
@@ -435,8 +555,6 @@ export default function HubPage() {
           user_id: u.id,
           name: u.full_name ?? u.id,
 
-          booked_kpi,
-
           booked_occurred,
           booked_showed,
           show_rate_text: showRate.pctText,
@@ -463,6 +581,7 @@ export default function HubPage() {
       });
 
       setTeamLeaders(leaders);
+      setStages(await fetchPipelineStages());
       setLoading(false);
     } catch (e: any) {
       setMsg(e?.message ?? "Failed to load hub.");
@@ -477,12 +596,114 @@ export default function HubPage() {
     rangeStartUtcIso,
     rangeEndUtcIso,
     loadWeeklyTargetsSafe,
+    loadSavedFiltersSafe,
   ]);
 
   useEffect(() => {
     load();
   }, [load]);
 
+  const activeStages = useMemo(() => stages.filter((s) => s.active), [stages]);
+  const effectiveFromId = convFromId || activeStages[0]?.id || "";
+  const effectiveToId = convToId || activeStages[1]?.id || "";
+  const stageLabel = (id: string) => stages.find((s) => s.id === id)?.label ?? "—";
+
+  const loadConversion = useCallback(async () => {
+    if (!effectiveFromId || !effectiveToId) return;
+    try {
+      setConversion(await fetchConversion(effectiveFromId, effectiveToId, rangeStartUtcIso, rangeEndUtcIso));
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load stage conversion.");
+    }
+  }, [effectiveFromId, effectiveToId, rangeStartUtcIso, rangeEndUtcIso]);
+
+  useEffect(() => {
+    loadConversion();
+  }, [loadConversion]);
+
+  const effectiveKpiKey = kpiKey || defaultReportKey(kpiFields);
+  const kpiColumnField = kpiFields.find((f) => f.key === effectiveKpiKey);
+  const kpiColumnLabel = kpiLabel(kpiColumnField);
+
+  const loadKpiColumn = useCallback(async () => {
+    if (kpiFields.length === 0) return;
+    try {
+      const { byUser, applicable } = await fetchKpiTotals(kpiFields, effectiveKpiKey, {
+        startISO: rangeStartISO,
+        endExclusiveISO: rangeEndExclusiveISO,
+        startUtc: rangeStartUtcIso,
+        endUtc: rangeEndUtcIso,
+      });
+      setKpiTotals(byUser);
+      setKpiApplicable(applicable);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load KPI totals.");
+    }
+  }, [kpiFields, effectiveKpiKey, rangeStartISO, rangeEndExclusiveISO, rangeStartUtcIso, rangeEndUtcIso]);
+
+  useEffect(() => {
+    loadKpiColumn();
+  }, [loadKpiColumn]);
+
+  // settlement_date is a plain date, so the range compares Melbourne date strings
+  const loadRevenue = useCallback(async () => {
+    if (!showRevenue) return;
+    try {
+      const res = await supabase
+        .from("deals")
+        .select(DEAL_SELECT)
+        .gte("settlement_date", rangeStartISO)
+        .lt("settlement_date", rangeEndExclusiveISO);
+
+      if (res.error) throw new Error(res.error.message);
+      setRevenue(revenueByPerson((res.data ?? []) as DealRow[]));
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load revenue.");
+    }
+  }, [showRevenue, rangeStartISO, rangeEndExclusiveISO]);
+
+  useEffect(() => {
+    loadRevenue();
+  }, [loadRevenue]);
+
+  async function toggleShowRevenue() {
+    setSavingRevenue(true);
+    setMsg(null);
+
+    try {
+      const { error } = await supabase
+        .from("app_settings")
+        .upsert({ key: LEADERBOARD_REVENUE_KEY, value: !showRevenue }, { onConflict: "key" });
+
+      if (error) throw new Error(error.message);
+
+      setShowRevenue(!showRevenue);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to update revenue setting.");
+    } finally {
+      setSavingRevenue(false);
+    }
+  }
+
+  async function toggleCreditOriginal() {
+    setSavingCredit(true);
+    setMsg(null);
+
+    try {
+      const { error } = await supabase
+        .from("app_settings")
+        .upsert({ key: RESCHEDULE_CREDIT_KEY, value: !creditOriginal }, { onConflict: "key" });
+
+      if (error) throw new Error(error.message);
+
+      await load();
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to update reschedule setting.");
+    } finally {
+      setSavingCredit(false);
+    }
+  }
+
   const kpiTone = todaySubmitted ? "green" : "amber";
 
   /* ---------------- UI helpers (dark neon) ---------------- */
@@ -582,6 +803,20 @@ export default function HubPage() {
             >
               Open
             </button>
+
+            {savedFilters.length > 0 ? (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {savedFilters.map((f) => (
+                  <button
+                    key={f.id}
+                    onClick={() => router.push(f.query ? `${ROUTES.meetings}?${f.query}` : ROUTES.meetings)}
+                    className="rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs text-white/80 hover:bg-white/10"
+                  >
+                    {f.name}
+                  </button>
+                ))}
+              </div>
+            ) : null}
           </div>
         </div>
 
@@ -595,6 +830,9 @@ export default function HubPage() {
               </div>
 
               <div className="mt-2 text-[11px] text-white/45 whitespace-pre-line">
+                {creditOriginal
+                  ? "Reschedules: a follow-up that shows counts for the original booker."
+                  : "Reschedules: a follow-up counts for whoever rebooked it."}
               </div>
             </div>
 
@@ -624,6 +862,42 @@ export default function HubPage() {
             </div>
           </div>
 
+          {isAdmin ? (
+            <div className="mt-3 flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs text-white/75">
+              <span>Credit successful reschedules to the original booker</span>
+              <button
+                onClick={toggleCreditOriginal}
+                disabled={savingCredit}
+                className={`rounded-lg border px-2 py-1 text-[11px] transition disabled:opacity-60 ${
+                  creditOriginal
+                    ? "border-emerald-400/30 bg-emerald-400/15 text-emerald-100"
+                    : "border-white/10 bg-white/5 text-white hover:bg-white/10"
+                }`}
+                type="button"
+              >
+                {creditOriginal ? "On" : "Off"}
+              </button>
+            </div>
+          ) : null}
+
+          {isAdmin ? (
+            <div className="mt-2 flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs text-white/75">
+              <span>Show settled revenue on the leaderboard</span>
+              <button
+                onClick={toggleShowRevenue}
+                disabled={savingRevenue}
+                className={`rounded-lg border px-2 py-1 text-[11px] transition disabled:opacity-60 ${
+                  showRevenue
+                    ? "border-emerald-400/30 bg-emerald-400/15 text-emerald-100"
+                    : "border-white/10 bg-white/5 text-white hover:bg-white/10"
+                }`}
+                type="button"
+              >
+                {showRevenue ? "On" : "Off"}
+              </button>
+            </div>
+          ) : null}
+
           {/* Weekly targets banner */}
           <div className="mt-3 rounded-xl border border-emerald-400/15 bg-emerald-400/5 px-3 py-2 text-xs text-white/80 flex items-center justify-between gap-3 flex-wrap">
             <div className="flex items-center gap-2 flex-wrap">
@@ -644,6 +918,67 @@ export default function HubPage() {
             ) : null}
           </div>
 
+          {/* KPI column picker */}
+          {kpiFields.length > 1 ? (
+            <div className="mt-3 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs text-white/80 flex items-center gap-2 flex-wrap">
+              <span className="text-white/60">KPI column</span>
+              <select
+                className="rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-xs text-white outline-none"
+                value={effectiveKpiKey}
+                onChange={(e) => setKpiKey(e.target.value)}
+              >
+                {kpiFields.map((f) => (
+                  <option key={f.id} value={f.key} className="text-black">
+                    {kpiLabel(f)}
+                  </option>
+                ))}
+              </select>
+              <span className="text-[11px] text-white/40">From daily KPI submissions</span>
+            </div>
+          ) : null}
+
+          {/* Stage conversion picker */}
+          {activeStages.length >= 2 ? (
+            <div className="mt-3 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs text-white/80 flex items-center justify-between gap-3 flex-wrap">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-white/60">Conversion</span>
+                <select
+                  className="rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-xs text-white outline-none"
+                  value={effectiveFromId}
+                  onChange={(e) => setConvFromId(e.target.value)}
+                >
+                  {activeStages.map((s) => (
+                    <option key={s.id} value={s.id} className="text-black">
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-white/40">→</span>
+                <select
+                  className="rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-xs text-white outline-none"
+                  value={effectiveToId}
+                  onChange={(e) => setConvToId(e.target.value)}
+                >
+                  {activeStages.map((s) => (
+                    <option key={s.id} value={s.id} className="text-black">
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                Team:{" "}
+                <span className="text-emerald-100">
+                  {pctOrDash(conversion.team?.reached_to ?? 0, conversion.team?.reached_from ?? 0).pctText}
+                </span>{" "}
+                <span className="text-[11px] text-white/40">
+                  ({conversion.team?.reached_to ?? 0}/{conversion.team?.reached_from ?? 0})
+                </span>
+              </div>
+            </div>
+          ) : null}
+
           {teamLeaders.length === 0 ? (
             <div className="mt-4 text-sm text-white/60">No leaderboard data yet.</div>
           ) : (
@@ -653,12 +988,18 @@ export default function HubPage() {
                   <tr className="text-left text-xs text-white/55">
                     <th className="py-2">#</th>
                     <th className="py-2">Name</th>
-                    <th className="py-2">Booked</th>
+                    <th className="py-2">{kpiColumnLabel}</th>
                     <th className="py-2">Shows</th>
                     <th className="py-2">Show rate</th>
                     <th className="py-2">Taken</th>
                     <th className="py-2">Moved</th>
                     <th className="py-2">Move rate</th>
+                    {activeStages.length >= 2 ? (
+                      <th className="py-2 whitespace-nowrap">
+                        {stageLabel(effectiveFromId)}→{stageLabel(effectiveToId)}
+                      </th>
+                    ) : null}
+                    {showRevenue ? <th className="py-2">Revenue</th> : null}
                   </tr>
                 </thead>
 
@@ -668,7 +1009,14 @@ export default function HubPage() {
                       <td className="py-2 text-white/70">{idx + 1}</td>
                       <td className="py-2 font-medium">{r.name}</td>
 
-                      <td className="py-2">{safeNum(r.booked_kpi)}</td>
+                      <td className="py-2">
+                        {kpiApplicable && !kpiApplicable.includes(r.user_id)
+                          ? "—"
+                          : formatKpiValue(
+                              kpiColumnField,
+                              kpiTotals[r.user_id] ?? (kpiColumnField && isFormulaField(kpiColumnField) ? null : 0)
+                            )}
+                      </td>
                       <td className="py-2">{safeNum(r.booked_showed)}</td>
 
                       <td className="py-2">
@@ -688,6 +1036,30 @@ export default function HubPage() {
                           ({safeNum(r.taken_moved)}/{safeNum(r.taken_showed)})
                         </span>
                       </td>
+
+                      {activeStages.length >= 2 ? (
+                        <td className="py-2">
+                          <span className="text-emerald-100">
+                            {
+                              pctOrDash(
+                                conversion.byPerson[r.user_id]?.reached_to ?? 0,
+                                conversion.byPerson[r.user_id]?.reached_from ?? 0
+                              ).pctText
+                            }
+                          </span>{" "}
+                          <span className="text-[11px] text-white/40">
+                            ({conversion.byPerson[r.user_id]?.reached_to ?? 0}/
+                            {conversion.byPerson[r.user_id]?.reached_from ?? 0})
+                          </span>
+                        </td>
+                      ) : null}
+
+                      {showRevenue ? (
+                        <td className="py-2 whitespace-nowrap">
+                          <span className="text-emerald-100">{fmtMoney(revenue[r.user_id]?.total ?? 0)}</span>{" "}
+                          <span className="text-[11px] text-white/40">({revenue[r.user_id]?.deals ?? 0})</span>
+                        </td>
+                      ) : null}
                     </tr>
                   ))}
                 </tbody>
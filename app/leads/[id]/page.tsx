@@ -0,0 +1,467 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { outcomeBadgeClass, outcomeLabel, type MeetingOutcome } from "@/lib/meetingOutcome";
+import {
+  LEAD_SELECT,
+  describeDuplicate,
+  findLeadDuplicates,
+  type LeadDuplicate,
+  type LeadRow,
+} from "@/lib/leads";
+import {
+  STAGE_PROGRESS_SELECT,
+  fetchPipelineStages,
+  type PipelineStage,
+  type StageProgress,
+} from "@/lib/pipeline";
+import { DEAL_SELECT, fmtMoney, type DealRow } from "@/lib/deals";
+import { BUDGET_BRACKETS } from "@/lib/leadScoring";
+import PipelineTracker from "@/app/meetings/components/PipelineTracker";
+import DealEditor from "@/app/meetings/components/DealEditor";
+
+type ProfileRow = {
+  id: string;
+  full_name: string | null;
+};
+
+type HistoryRow = {
+  id: string;
+  meeting_name: string | null;
+  meeting_at: string;
+  booked_by_id: string;
+  attended_by_id: string;
+  lead_score: number;
+  outcome: MeetingOutcome;
+  discarded_at: string | null;
+};
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+function fmtDateTimeAU(iso: string) {
+  return new Intl.DateTimeFormat("en-AU", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+export default function LeadDetailPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const leadId = params?.id ?? "";
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [userId, setUserId] = useState<string>("");
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [profiles, setProfiles] = useState<ProfileRow[]>([]);
+  const profilesById = useMemo(() => {
+    const m: Record<string, ProfileRow> = {};
+    profiles.forEach((p) => (m[p.id] = p));
+    return m;
+  }, [profiles]);
+
+  const [lead, setLead] = useState<LeadRow | null>(null);
+  const [history, setHistory] = useState<HistoryRow[]>([]);
+  const [duplicates, setDuplicates] = useState<LeadDuplicate[]>([]);
+
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [progress, setProgress] = useState<StageProgress[]>([]);
+  const [deals, setDeals] = useState<DealRow[]>([]);
+
+  const canEdit = !!lead && (isAdmin || lead.owner_id === userId);
+
+  // A deal closed outside any meeting lives on the lead itself
+  const leadDeal = deals.find((d) => d.meeting_id === null) ?? null;
+  const meetingDeals = deals.filter((d) => d.meeting_id !== null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return;
+    }
+
+    const uid = session.user.id;
+    setUserId(uid);
+
+    try {
+      const meRes = await supabase.from("profiles").select("id, role, is_admin").eq("id", uid).single();
+      if (meRes.error) throw new Error(meRes.error.message);
+
+      setIsAdmin(!!meRes.data?.is_admin || normRole(meRes.data?.role) === "admin");
+
+      const pRes = await supabase.from("profiles").select("id, full_name").order("full_name", { ascending: true });
+      if (pRes.error) throw new Error(pRes.error.message);
+      setProfiles((pRes.data ?? []) as ProfileRow[]);
+
+      const lRes = await supabase.from("leads").select(LEAD_SELECT).eq("id", leadId).maybeSingle();
+      if (lRes.error) throw new Error(lRes.error.message);
+      if (!lRes.data) throw new Error("Lead not found.");
+      setLead(lRes.data as LeadRow);
+
+      // Full history, discarded included (flagged) so nothing about the lead is hidden here
+      const hRes = await supabase
+        .from("meetings")
+        .select("id, meeting_name, meeting_at, booked_by_id, attended_by_id, lead_score, outcome, discarded_at")
+        .eq("lead_id", leadId)
+        .order("meeting_at", { ascending: false });
+
+      if (hRes.error) throw new Error(hRes.error.message);
+      setHistory((hRes.data ?? []) as HistoryRow[]);
+
+      // Stage rows recorded on the lead itself and on any of its meetings
+      const prRes = await supabase
+        .from("pipeline_progress")
+        .select(STAGE_PROGRESS_SELECT)
+        .eq("lead_id", leadId)
+        .order("reached_at", { ascending: true });
+
+      if (prRes.error) throw new Error(prRes.error.message);
+      setProgress((prRes.data ?? []) as StageProgress[]);
+      setStages(await fetchPipelineStages());
+
+      const dRes = await supabase
+        .from("deals")
+        .select(DEAL_SELECT)
+        .eq("lead_id", leadId)
+        .order("created_at", { ascending: true });
+
+      if (dRes.error) throw new Error(dRes.error.message);
+      setDeals((dRes.data ?? []) as DealRow[]);
+
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load lead.");
+      setLoading(false);
+    }
+  }, [router, leadId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function onDealSaved(d: DealRow) {
+    setDeals((prev) => (prev.some((x) => x.id === d.id) ? prev.map((x) => (x.id === d.id ? d : x)) : [...prev, d]));
+
+    // Contract / settled stages are marked by a DB trigger
+    const prRes = await supabase
+      .from("pipeline_progress")
+      .select(STAGE_PROGRESS_SELECT)
+      .eq("lead_id", leadId)
+      .order("reached_at", { ascending: true });
+
+    if (prRes.error) setMsg(prRes.error.message);
+    else setProgress((prRes.data ?? []) as StageProgress[]);
+  }
+
+  function patchLead(patch: Partial<LeadRow>) {
+    setLead((prev) => (prev ? { ...prev, ...patch } : prev));
+    if ("phone" in patch || "email" in patch) setDuplicates([]);
+  }
+
+  async function saveLead(force = false) {
+    if (!lead) return;
+    setMsg(null);
+
+    if (!lead.full_name.trim()) {
+      setMsg("Name is required.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (!force) {
+        const dups = await findLeadDuplicates(lead.phone, lead.email, lead.id);
+        if (dups.length > 0) {
+          setDuplicates(dups);
+          return;
+        }
+      }
+
+      const { error } = await supabase
+        .from("leads")
+        .update({
+          full_name: lead.full_name.trim(),
+          phone: lead.phone?.trim() || null,
+          email: lead.email?.trim() || null,
+          source: lead.source?.trim() || null,
+          owner_id: lead.owner_id,
+          budget_bracket: lead.budget_bracket,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", lead.id);
+
+      if (error) throw new Error(error.message);
+
+      setDuplicates([]);
+      setMsg("Saved ✅");
+      setTimeout(() => setMsg(null), 1200);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to save lead.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  if (!lead) {
+    return (
+      <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+        <div className="mx-auto w-full max-w-3xl">
+          <div className="rounded-2xl border bg-white p-6 text-sm text-black/70">{msg ?? "Lead not found."}</div>
+          <button onClick={() => router.push("/leads")} className="mt-4 rounded-xl border bg-white px-3 py-2 text-xs">
+            Back to leads
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const live = history.filter((h) => !h.discarded_at);
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-3xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div className="min-w-0">
+            <div className="text-xs text-black/60">Lead</div>
+            <h1 className="text-2xl font-semibold truncate">{lead.full_name}</h1>
+            <div className="mt-1 text-xs text-black/60">
+              {live.length} meeting{live.length === 1 ? "" : "s"} • Owner{" "}
+              {profilesById[lead.owner_id ?? ""]?.full_name ?? "—"}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => router.push("/leads")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Leads
+            </button>
+            {canEdit ? (
+              <button
+                onClick={() => saveLead()}
+                disabled={saving}
+                className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+              >
+                {saving ? "Saving…" : "Save"}
+              </button>
+            ) : null}
+          </div>
+        </div>
+
+        {/* Details */}
+        <div className="rounded-2xl border bg-white p-5 mb-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="text-xs text-black/60">
+              Name
+              <input
+                className="mt-1 w-full rounded-xl border px-3 py-2 text-sm text-black disabled:bg-gray-50"
+                value={lead.full_name}
+                disabled={!canEdit}
+                onChange={(e) => patchLead({ full_name: e.target.value })}
+              />
+            </label>
+            <label className="text-xs text-black/60">
+              Source
+              <input
+                className="mt-1 w-full rounded-xl border px-3 py-2 text-sm text-black disabled:bg-gray-50"
+                value={lead.source ?? ""}
+                disabled={!canEdit}
+                onChange={(e) => patchLead({ source: e.target.value })}
+              />
+            </label>
+            <label className="text-xs text-black/60">
+              Phone
+              <input
+                className="mt-1 w-full rounded-xl border px-3 py-2 text-sm text-black disabled:bg-gray-50"
+                value={lead.phone ?? ""}
+                disabled={!canEdit}
+                onChange={(e) => patchLead({ phone: e.target.value })}
+              />
+            </label>
+            <label className="text-xs text-black/60">
+              Email
+              <input
+                className="mt-1 w-full rounded-xl border px-3 py-2 text-sm text-black disabled:bg-gray-50"
+                value={lead.email ?? ""}
+                disabled={!canEdit}
+                onChange={(e) => patchLead({ email: e.target.value })}
+              />
+            </label>
+            <label className="text-xs text-black/60">
+              Owner
+              <select
+                className="mt-1 w-full rounded-xl border px-3 py-2 text-sm text-black bg-white disabled:bg-gray-50"
+                value={lead.owner_id ?? ""}
+                disabled={!canEdit}
+                onChange={(e) => patchLead({ owner_id: e.target.value || null })}
+              >
+                <option value="">—</option>
+                {profiles.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.full_name ?? p.id}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-black/60">
+              Budget
+              <select
+                className="mt-1 w-full rounded-xl border px-3 py-2 text-sm text-black bg-white disabled:bg-gray-50"
+                value={lead.budget_bracket ?? ""}
+                disabled={!canEdit}
+                onChange={(e) => patchLead({ budget_bracket: e.target.value || null })}
+              >
+                <option value="">—</option>
+                {BUDGET_BRACKETS.map((b) => (
+                  <option key={b.value} value={b.value}>
+                    {b.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {duplicates.length > 0 ? (
+            <div className="mt-3 rounded-xl border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+              <div className="font-medium">Another lead already has these details:</div>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {duplicates.map((d) => (
+                  <button
+                    key={d.id}
+                    onClick={() => router.push(`/leads/${d.id}`)}
+                    className="rounded-xl border bg-white px-3 py-1.5 text-xs text-black"
+                  >
+                    {describeDuplicate(d)}
+                  </button>
+                ))}
+                <button
+                  onClick={() => saveLead(true)}
+                  disabled={saving}
+                  className="rounded-xl border border-amber-300 bg-white px-3 py-1.5 text-xs disabled:opacity-60"
+                >
+                  Save anyway
+                </button>
+              </div>
+            </div>
+          ) : null}
+        </div>
+
+        {/* Pipeline */}
+        <div className="rounded-2xl border bg-white p-5 mb-4">
+          <h2 className="text-sm font-semibold">Pipeline</h2>
+          <div className="mt-1 text-xs text-black/60">
+            Furthest stage across every meeting, plus stages reached outside a meeting (e.g. contract, settlement).
+          </div>
+          <PipelineTracker
+            stages={stages}
+            progress={progress}
+            meetingId={null}
+            leadId={lead.id}
+            userId={userId}
+            isAdmin={isAdmin}
+            profilesById={profilesById}
+            onChange={setProgress}
+          />
+        </div>
+
+        {/* Deals */}
+        <div className="rounded-2xl border bg-white p-5 mb-4">
+          <h2 className="text-sm font-semibold">Deals</h2>
+          <div className="mt-1 text-xs text-black/60">
+            Deals recorded on this lead&apos;s meetings, plus one closed outside a meeting.
+          </div>
+
+          {meetingDeals.length ? (
+            <div className="mt-3 space-y-2">
+              {meetingDeals.map((d) => (
+                <button
+                  key={d.id}
+                  onClick={() => router.push(`/meetings/${d.meeting_id}`)}
+                  className="w-full rounded-xl border px-3 py-2 text-left text-xs hover:bg-gray-50"
+                >
+                  <b>{fmtMoney(d.contract_value)}</b> • Commission {fmtMoney(d.commission_amount)} •{" "}
+                  {d.settlement_date ? `Settled ${d.settlement_date}` : "Not settled"} • Setter{" "}
+                  {profilesById[d.setter_id ?? ""]?.full_name ?? "—"} • Closer{" "}
+                  {profilesById[d.closer_id ?? ""]?.full_name ?? "—"}
+                </button>
+              ))}
+            </div>
+          ) : null}
+
+          <DealEditor
+            key={leadDeal?.id ?? "new"}
+            deal={leadDeal}
+            meetingId={null}
+            leadId={lead.id}
+            defaultSetterId={history[0]?.booked_by_id ?? null}
+            defaultCloserId={history[0]?.attended_by_id ?? null}
+            userId={userId}
+            profiles={profiles}
+            isAdmin={isAdmin}
+            canEdit={canEdit}
+            onSaved={onDealSaved}
+          />
+        </div>
+
+        {/* History */}
+        <div className="rounded-2xl border bg-white p-5">
+          <h2 className="text-sm font-semibold">Meeting history</h2>
+          <div className="mt-1 text-xs text-black/60">Every meeting booked for this lead, newest first.</div>
+
+          {history.length === 0 ? (
+            <div className="mt-4 text-sm text-black/70">No meetings yet.</div>
+          ) : (
+            <div className="mt-4 space-y-2">
+              {history.map((h) => (
+                <button
+                  key={h.id}
+                  onClick={() => router.push(`/meetings/${h.id}`)}
+                  className={`w-full rounded-xl border px-3 py-2 text-left hover:bg-gray-50 ${
+                    h.discarded_at ? "opacity-60" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">{h.meeting_name || "Unnamed meeting"}</div>
+                      <div className="text-[11px] text-black/50">
+                        {fmtDateTimeAU(h.meeting_at)} • Booked {profilesById[h.booked_by_id]?.full_name ?? "—"} • Taken{" "}
+                        {profilesById[h.attended_by_id]?.full_name ?? "—"} • Score {h.lead_score ?? 1}
+                      </div>
+                    </div>
+                    <span
+                      className={`inline-flex items-center rounded-full border px-2.5 py-1 text-xs ${
+                        h.discarded_at ? "bg-red-50 border-red-200 text-red-700" : outcomeBadgeClass(h.outcome)
+                      }`}
+                    >
+                      {h.discarded_at ? "Discarded" : outcomeLabel(h.outcome)}
+                    </span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {msg && <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  LEAD_SELECT,
+  describeDuplicate,
+  findLeadDuplicates,
+  type LeadDuplicate,
+  type LeadRow,
+} from "@/lib/leads";
+import { useInfiniteScroll } from "@/lib/useInfiniteScroll";
+
+type ProfileRow = {
+  id: string;
+  full_name: string | null;
+};
+
+type LeadListRow = LeadRow & {
+  meetings: { count: number }[] | null;
+};
+
+const PAGE_SIZE = 50;
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+function fmtDateAU(iso: string) {
+  return new Intl.DateTimeFormat("en-AU", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+  }).format(new Date(iso));
+}
+
+export default function LeadsPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [userId, setUserId] = useState<string>("");
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [profiles, setProfiles] = useState<ProfileRow[]>([]);
+  const profilesById = useMemo(() => {
+    const m: Record<string, ProfileRow> = {};
+    profiles.forEach((p) => (m[p.id] = p));
+    return m;
+  }, [profiles]);
+
+  const [leads, setLeads] = useState<LeadListRow[]>([]);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const listGenRef = useRef(0);
+  const loadedOnceRef = useRef(false);
+
+  const [q, setQ] = useState("");
+  const [qApplied, setQApplied] = useState("");
+
+  // create form
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [source, setSource] = useState("");
+  const [ownerId, setOwnerId] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [duplicates, setDuplicates] = useState<LeadDuplicate[]>([]);
+
+  /** Newest first, keyset on (created_at, id) */
+  const fetchLeadsPage = useCallback(async (term: string, after: LeadRow | null) => {
+    let lq = supabase
+      .from("leads")
+      .select(`${LEAD_SELECT}, meetings(count)`, { count: after ? undefined : "exact" })
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(PAGE_SIZE);
+
+    if (after) {
+      const at = `"${after.created_at}"`;
+      lq = lq.or(`created_at.lt.${at},and(created_at.eq.${at},id.lt.${after.id})`);
+    }
+
+    if (term) {
+      const t = term.replace(/[,()"]/g, " ");
+      lq = lq.or(`full_name.ilike.%${t}%,phone.ilike.%${t}%,email.ilike.%${t}%`);
+    }
+
+    const res = await lq;
+    if (res.error) throw new Error(res.error.message);
+
+    return { rows: (res.data ?? []) as LeadListRow[], count: res.count ?? null };
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!loadedOnceRef.current) setLoading(true);
+    setMsg(null);
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return;
+    }
+
+    const uid = session.user.id;
+    setUserId(uid);
+
+    try {
+      const meRes = await supabase.from("profiles").select("id, role, is_admin").eq("id", uid).single();
+      if (meRes.error) throw new Error(meRes.error.message);
+
+      setIsAdmin(!!meRes.data?.is_admin || normRole(meRes.data?.role) === "admin");
+
+      const pRes = await supabase.from("profiles").select("id, full_name").order("full_name", { ascending: true });
+      if (pRes.error) throw new Error(pRes.error.message);
+      setProfiles((pRes.data ?? []) as ProfileRow[]);
+
+      const gen = ++listGenRef.current;
+      const page = await fetchLeadsPage(qApplied, null);
+      if (gen !== listGenRef.current) return;
+
+      setLeads(page.rows);
+      setTotalCount(page.count);
+      setHasMore(page.count != null && page.rows.length < page.count);
+      loadedOnceRef.current = true;
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load leads.");
+      setLoading(false);
+    }
+  }, [router, qApplied, fetchLeadsPage]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    const t = setTimeout(() => setQApplied(q.trim()), 300);
+    return () => clearTimeout(t);
+  }, [q]);
+
+  useEffect(() => {
+    if (!ownerId && userId) setOwnerId(userId);
+  }, [ownerId, userId]);
+
+  async function loadMore() {
+    const last = leads[leads.length - 1];
+    if (!hasMore || loadingMore || !last) return;
+
+    const gen = listGenRef.current;
+    setLoadingMore(true);
+
+    try {
+      const page = await fetchLeadsPage(qApplied, last);
+      if (gen !== listGenRef.current) return;
+
+      setLeads((prev) => {
+        const seen = new Set(prev.map((l) => l.id));
+        return [...prev, ...page.rows.filter((l) => !seen.has(l.id))];
+      });
+      setHasMore(page.rows.length === PAGE_SIZE);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load more leads.");
+      setHasMore(false);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  const sentinelRef = useInfiniteScroll(loadMore, hasMore && !loadingMore);
+
+  async function createLead(force = false) {
+    setMsg(null);
+
+    if (!name.trim()) {
+      setMsg("Name is required.");
+      return;
+    }
+
+    setCreating(true);
+    try {
+      if (!force) {
+        const dups = await findLeadDuplicates(phone, email);
+        if (dups.length > 0) {
+          setDuplicates(dups);
+          return;
+        }
+      }
+
+      const { data, error } = await supabase
+        .from("leads")
+        .insert({
+          full_name: name.trim(),
+          phone: phone.trim() || null,
+          email: email.trim() || null,
+          source: source.trim() || null,
+          owner_id: ownerId || userId,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw new Error(error.message);
+
+      setName("");
+      setPhone("");
+      setEmail("");
+      setSource("");
+      setDuplicates([]);
+
+      router.push(`/leads/${data.id}`);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to create lead.");
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-3xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <h1 className="text-2xl font-semibold">Leads</h1>
+            <div className="mt-1 text-xs text-black/60">
+              One record per person • every meeting links back here {isAdmin ? "• admin" : ""}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => router.push("/meetings")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Meetings
+            </button>
+            <button onClick={() => router.push("/hub")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Hub
+            </button>
+          </div>
+        </div>
+
+        {/* Create */}
+        <div className="rounded-2xl border bg-white p-5 mb-4">
+          <h2 className="text-sm font-semibold">Add lead</h2>
+          <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <input
+              className="rounded-xl border px-3 py-2 text-sm"
+              placeholder="Full name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <input
+              className="rounded-xl border px-3 py-2 text-sm"
+              placeholder="Source (e.g. Facebook, Referral)"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+            />
+            <input
+              className="rounded-xl border px-3 py-2 text-sm"
+              placeholder="Phone"
+              value={phone}
+              onChange={(e) => {
+                setPhone(e.target.value);
+                setDuplicates([]);
+              }}
+            />
+            <input
+              className="rounded-xl border px-3 py-2 text-sm"
+              placeholder="Email"
+              value={email}
+              onChange={(e) => {
+                setEmail(e.target.value);
+                setDuplicates([]);
+              }}
+            />
+            <select
+              className="rounded-xl border px-3 py-2 text-sm bg-white"
+              value={ownerId}
+              onChange={(e) => setOwnerId(e.target.value)}
+            >
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  Owner: {p.full_name ?? p.id}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => createLead()}
+              disabled={creating}
+              className="rounded-xl bg-black px-3 py-2 text-sm text-white disabled:opacity-60"
+            >
+              {creating ? "Saving…" : "Add lead"}
+            </button>
+          </div>
+
+          {duplicates.length > 0 ? (
+            <div className="mt-3 rounded-xl border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+              <div className="font-medium">This looks like an existing lead:</div>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {duplicates.map((d) => (
+                  <button
+                    key={d.id}
+                    onClick={() => router.push(`/leads/${d.id}`)}
+                    className="rounded-xl border bg-white px-3 py-1.5 text-xs text-black"
+                  >
+                    {describeDuplicate(d)}
+                  </button>
+                ))}
+                <button
+                  onClick={() => createLead(true)}
+                  disabled={creating}
+                  className="rounded-xl border border-amber-300 bg-white px-3 py-1.5 text-xs disabled:opacity-60"
+                >
+                  Create anyway
+                </button>
+              </div>
+            </div>
+          ) : null}
+        </div>
+
+        {/* Search */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="text-xs font-semibold text-black/60">Search</div>
+          <input
+            className="mt-2 w-full rounded-xl border px-3 py-2 text-sm"
+            placeholder="Name, phone or email…"
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+          />
+          <div className="mt-2 text-[11px] text-black/50">
+            Showing <b>{leads.length}</b> of <b>{totalCount ?? leads.length}</b>
+          </div>
+        </div>
+
+        {/* List */}
+        {leads.length === 0 ? (
+          <div className="rounded-2xl border bg-white p-6 text-sm text-black/70">No leads found.</div>
+        ) : (
+          <div className="space-y-3">
+            {leads.map((l) => (
+              <button
+                key={l.id}
+                onClick={() => router.push(`/leads/${l.id}`)}
+                className="w-full rounded-2xl border bg-white p-4 text-left hover:bg-gray-50"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-sm font-semibold truncate">{l.full_name}</div>
+                    <div className="mt-1 text-xs text-black/60">
+                      {[l.phone, l.email].filter(Boolean).join(" • ") || "No contact details"}
+                    </div>
+                    <div className="mt-1 text-xs text-black/60">
+                      Owner: <span className="font-medium text-black">{profilesById[l.owner_id ?? ""]?.full_name ?? "—"}</span>
+                      {l.source ? ` • Source: ${l.source}` : ""} • Added {fmtDateAU(l.created_at)}
+                    </div>
+                  </div>
+                  <span className="inline-flex items-center rounded-full border px-2.5 py-1 text-xs bg-gray-50 border-gray-200 text-black/70">
+                    {l.meetings?.[0]?.count ?? 0} meeting{(l.meetings?.[0]?.count ?? 0) === 1 ? "" : "s"}
+                  </span>
+                </div>
+              </button>
+            ))}
+
+            <div ref={sentinelRef} />
+            {loadingMore ? <div className="py-2 text-center text-xs text-black/50">Loading more…</div> : null}
+          </div>
+        )}
+
+        {msg && <div className="mt-4 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,857 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { outcomeBadgeClass, outcomeLabel, type MeetingOutcome } from "@/lib/meetingOutcome";
+import { SKIP_LABELS, type AssignmentDecision, type AssignmentMethod } from "@/lib/closerAssignment";
+import { LEAD_SELECT, type LeadRow } from "@/lib/leads";
+import { LEAD_SOURCE_SELECT, cleanCampaign, type LeadSource } from "@/lib/leadSources";
+import {
+  STAGE_PROGRESS_SELECT,
+  fetchPipelineStages,
+  type PipelineStage,
+  type StageProgress,
+} from "@/lib/pipeline";
+import { DEAL_SELECT, type DealRow } from "@/lib/deals";
+import { explainScore, type ScoreReason } from "@/lib/leadScoring";
+import { hotStageLabel } from "@/lib/hotLeadStages";
+import DealEditor from "../components/DealEditor";
+import LeadPicker from "../components/LeadPicker";
+import PipelineTracker from "../components/PipelineTracker";
+
+/* ---------------- Types ---------------- */
+
+type ProfileRow = {
+  id: string;
+  full_name: string | null;
+};
+
+type MeetingRow = {
+  id: string;
+  meeting_name: string | null;
+  meeting_at: string; // timestamptz
+
+  booked_by_id: string;
+  attended_by_id: string;
+
+  lead_score: number;
+  score_manual: boolean;
+  score_points: number | null;
+  score_reasons: ScoreReason[];
+
+  outcome: MeetingOutcome;
+
+  rescheduled_from_id: string | null;
+
+  lead_id: string | null;
+
+  source_id: string | null;
+  campaign: string | null;
+
+  lost_reason_id: string | null;
+  lost_note: string | null;
+  lost_reason?: { label: string } | null;
+
+  override_reason: string | null;
+  override_by: string | null;
+
+  assignment_method: AssignmentMethod | null;
+  assignment_detail: AssignmentDecision | null;
+
+  discarded_at: string | null;
+  discarded_by: string | null;
+  discard_reason: string | null;
+  created_at: string;
+};
+
+type ScoreFields = Pick<MeetingRow, "lead_score" | "score_manual" | "score_points" | "score_reasons">;
+
+type ChainRow = {
+  id: string;
+  meeting_at: string;
+  outcome: MeetingOutcome;
+  booked_by_id: string;
+  rescheduled_from_id: string | null;
+};
+
+type NoteRow = {
+  id: string;
+  meeting_id: string;
+  author_id: string;
+  body: string;
+  created_at: string;
+};
+
+type EventRow = {
+  id: string;
+  meeting_id: string;
+  actor_id: string | null;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  created_at: string;
+};
+
+/* ---------------- Utils ---------------- */
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+function fmtDateTimeAU(iso: string) {
+  const d = new Date(iso);
+  return new Intl.DateTimeFormat("en-AU", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(d);
+}
+
+function initials(name?: string | null) {
+  const n = (name ?? "").trim();
+  if (!n) return "—";
+  const parts = n.split(/\s+/).filter(Boolean);
+  if (parts.length === 1) return parts[0].slice(0, 2).toUpperCase();
+  return (parts[0][0] + parts[1][0]).toUpperCase();
+}
+
+function fmtBool(v: string | null) {
+  if (v === "true") return "Yes";
+  if (v === "false") return "No";
+  return "—";
+}
+
+/** Human sentence for one meeting_events row */
+function describeEvent(e: EventRow) {
+  if (e.field === "created") return "Meeting created";
+  if (e.field === "outcome") return `Outcome: ${outcomeLabel(e.old_value)} → ${outcomeLabel(e.new_value)}`;
+  if (e.field === "showed_up") return `Showed up: ${fmtBool(e.old_value)} → ${fmtBool(e.new_value)}`;
+  if (e.field === "moved_to_ss2") return `Moved to SS2: ${fmtBool(e.old_value)} → ${fmtBool(e.new_value)}`;
+  if (e.field === "lead_score") return `Lead score: ${e.old_value ?? "—"} → ${e.new_value ?? "—"}`;
+  if (e.field === "hot_stage") return `Board: ${hotStageLabel(e.old_value)} → ${hotStageLabel(e.new_value)}`;
+  if (e.field === "discarded") return `Discarded: ${e.new_value ?? "no reason"}`;
+  if (e.field === "restored") return "Restored from the Discarded bin";
+  return `${e.field}: ${e.old_value ?? "—"} → ${e.new_value ?? "—"}`;
+}
+
+/** This meeting's stage rows plus everything recorded against its lead */
+async function loadDealProgress(meetingId: string, leadId: string | null): Promise<StageProgress[]> {
+  let q = supabase.from("pipeline_progress").select(STAGE_PROGRESS_SELECT);
+  q = leadId ? q.or(`meeting_id.eq.${meetingId},lead_id.eq.${leadId}`) : q.eq("meeting_id", meetingId);
+
+  const res = await q.order("reached_at", { ascending: true });
+  if (res.error) throw new Error(res.error.message);
+  return (res.data ?? []) as StageProgress[];
+}
+
+const CHAIN_SELECT = "id, meeting_at, outcome, booked_by_id, rescheduled_from_id";
+const MAX_CHAIN = 20;
+
+/**
+ * Walk rescheduled_from_id both ways so the detail page can show every
+ * attempt for this lead, oldest first.
+ */
+async function loadRescheduleChain(m: ChainRow): Promise<ChainRow[]> {
+  const before: ChainRow[] = [];
+  let parentId = m.rescheduled_from_id;
+  while (parentId && before.length < MAX_CHAIN) {
+    const res = await supabase.from("meetings").select(CHAIN_SELECT).eq("id", parentId).maybeSingle();
+    if (res.error) throw new Error(res.error.message);
+    if (!res.data) break;
+    const row = res.data as ChainRow;
+    before.unshift(row);
+    parentId = row.rescheduled_from_id;
+  }
+
+  const after: ChainRow[] = [];
+  let childOf = m.id;
+  while (after.length < MAX_CHAIN) {
+    const res = await supabase
+      .from("meetings")
+      .select(CHAIN_SELECT)
+      .eq("rescheduled_from_id", childOf)
+      .is("discarded_at", null)
+      .order("created_at", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+    if (res.error) throw new Error(res.error.message);
+    if (!res.data) break;
+    const row = res.data as ChainRow;
+    after.push(row);
+    childOf = row.id;
+  }
+
+  return [...before, m, ...after];
+}
+
+/* ---------------- Component ---------------- */
+
+export default function MeetingDetailPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const meetingId = params?.id ?? "";
+
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [userId, setUserId] = useState<string>("");
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [profiles, setProfiles] = useState<ProfileRow[]>([]);
+  const profilesById = useMemo(() => {
+    const m: Record<string, ProfileRow> = {};
+    profiles.forEach((p) => (m[p.id] = p));
+    return m;
+  }, [profiles]);
+
+  const [meeting, setMeeting] = useState<MeetingRow | null>(null);
+  const [notes, setNotes] = useState<NoteRow[]>([]);
+  const [events, setEvents] = useState<EventRow[]>([]);
+  const [chain, setChain] = useState<ChainRow[]>([]);
+  const [lead, setLead] = useState<LeadRow | null>(null);
+  const [linkingLead, setLinkingLead] = useState(false);
+
+  const [sources, setSources] = useState<LeadSource[]>([]);
+  const [sourceDraft, setSourceDraft] = useState("");
+  const [campaignDraft, setCampaignDraft] = useState("");
+  const [savingSource, setSavingSource] = useState(false);
+
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [progress, setProgress] = useState<StageProgress[]>([]);
+  const [deal, setDeal] = useState<DealRow | null>(null);
+  const [savingScore, setSavingScore] = useState(false);
+
+  const [noteDraft, setNoteDraft] = useState("");
+  const [posting, setPosting] = useState(false);
+
+  /* ---------------- Load ---------------- */
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const session = sessionData.session;
+    if (!session) {
+      router.push("/login");
+      return;
+    }
+
+    const uid = session.user.id;
+    setUserId(uid);
+
+    try {
+      const meRes = await supabase.from("profiles").select("id, role, is_admin").eq("id", uid).single();
+      if (meRes.error) throw new Error(meRes.error.message);
+
+      const adminFlag = !!meRes.data?.is_admin || normRole(meRes.data?.role) === "admin";
+      setIsAdmin(adminFlag);
+
+      const pRes = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .order("full_name", { ascending: true });
+
+      if (pRes.error) throw new Error(pRes.error.message);
+      setProfiles((pRes.data ?? []) as ProfileRow[]);
+
+      const mtgRes = await supabase
+        .from("meetings")
+        .select(
+          "id, meeting_name, meeting_at, booked_by_id, attended_by_id, lead_score, score_manual, score_points, score_reasons, outcome, rescheduled_from_id, lead_id, source_id, campaign, override_reason, override_by, assignment_method, assignment_detail, discarded_at, discarded_by, discard_reason, created_at, lost_reason_id, lost_note, lost_reason:lost_reasons(label)"
+        )
+        .eq("id", meetingId)
+        .maybeSingle();
+
+      if (mtgRes.error) throw new Error(mtgRes.error.message);
+
+      const m = (mtgRes.data ?? null) as unknown as MeetingRow | null;
+
+      // Non-admin: same restriction as the meetings list (booked or taken by me)
+      if (!m || (!adminFlag && m.booked_by_id !== uid && m.attended_by_id !== uid)) {
+        setMeeting(null);
+        setLoading(false);
+        return;
+      }
+
+      setMeeting(m);
+      setSourceDraft(m.source_id ?? "");
+      setCampaignDraft(m.campaign ?? "");
+      setChain(await loadRescheduleChain(m));
+
+      const srcRes = await supabase
+        .from("lead_sources")
+        .select(LEAD_SOURCE_SELECT)
+        .order("sort_order", { ascending: true })
+        .order("name", { ascending: true });
+      if (srcRes.error) throw new Error(srcRes.error.message);
+      setSources((srcRes.data ?? []) as LeadSource[]);
+
+      setStages(await fetchPipelineStages());
+      setProgress(await loadDealProgress(m.id, m.lead_id));
+
+      const dealRes = await supabase.from("deals").select(DEAL_SELECT).eq("meeting_id", m.id).maybeSingle();
+      if (dealRes.error) throw new Error(dealRes.error.message);
+      setDeal((dealRes.data ?? null) as DealRow | null);
+
+      if (m.lead_id) {
+        const leadRes = await supabase.from("leads").select(LEAD_SELECT).eq("id", m.lead_id).maybeSingle();
+        if (leadRes.error) throw new Error(leadRes.error.message);
+        setLead((leadRes.data ?? null) as LeadRow | null);
+      } else {
+        setLead(null);
+      }
+
+      const notesRes = await supabase
+        .from("meeting_notes")
+        .select("id, meeting_id, author_id, body, created_at")
+        .eq("meeting_id", meetingId)
+        .order("created_at", { ascending: true });
+
+      if (notesRes.error) throw new Error(notesRes.error.message);
+      setNotes((notesRes.data ?? []) as NoteRow[]);
+
+      const evRes = await supabase
+        .from("meeting_events")
+        .select("id, meeting_id, actor_id, field, old_value, new_value, created_at")
+        .eq("meeting_id", meetingId)
+        .order("created_at", { ascending: false });
+
+      if (evRes.error) throw new Error(evRes.error.message);
+      setEvents((evRes.data ?? []) as EventRow[]);
+
+      setLoading(false);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load meeting.");
+      setLoading(false);
+    }
+  }, [router, meetingId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /* ---------------- Notes ---------------- */
+
+  async function linkLead(l: LeadRow) {
+    if (!meeting) return;
+    setLinkingLead(true);
+    setMsg(null);
+
+    try {
+      const { error } = await supabase.from("meetings").update({ lead_id: l.id }).eq("id", meeting.id);
+      if (error) throw new Error(error.message);
+
+      setMeeting({ ...meeting, lead_id: l.id });
+      setLead(l);
+      setDeal((d) => (d ? { ...d, lead_id: l.id } : d));
+      setProgress(await loadDealProgress(meeting.id, l.id));
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to link lead.");
+    } finally {
+      setLinkingLead(false);
+    }
+  }
+
+  // Saving a deal can mark the contract / settled stages (DB trigger)
+  async function onDealSaved(d: DealRow) {
+    if (!meeting) return;
+    setDeal(d);
+    try {
+      setProgress(await loadDealProgress(meeting.id, meeting.lead_id));
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to reload pipeline.");
+    }
+  }
+
+  /** A number pins the score by hand; null hands it back to the rules */
+  async function setScore(score: number | null) {
+    if (!meeting) return;
+    setSavingScore(true);
+    setMsg(null);
+
+    try {
+      const patch = score === null ? { score_manual: false } : { lead_score: score, score_manual: true };
+      const { data, error } = await supabase
+        .from("meetings")
+        .update(patch)
+        .eq("id", meeting.id)
+        .select("lead_score, score_manual, score_points, score_reasons")
+        .single();
+
+      if (error) throw new Error(error.message);
+      setMeeting({ ...meeting, ...(data as ScoreFields) });
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to update score.");
+    } finally {
+      setSavingScore(false);
+    }
+  }
+
+  async function saveAttribution() {
+    if (!meeting) return;
+    setSavingSource(true);
+    setMsg(null);
+
+    try {
+      const patch = { source_id: sourceDraft || null, campaign: cleanCampaign(campaignDraft) };
+      const { error } = await supabase.from("meetings").update(patch).eq("id", meeting.id);
+      if (error) throw new Error(error.message);
+
+      setMeeting({ ...meeting, ...patch });
+      setCampaignDraft(patch.campaign ?? "");
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to save source.");
+    } finally {
+      setSavingSource(false);
+    }
+  }
+
+  async function postNote() {
+    const body = noteDraft.trim();
+    if (!body || !meeting) return;
+
+    setPosting(true);
+    setMsg(null);
+
+    try {
+      const { data, error } = await supabase
+        .from("meeting_notes")
+        .insert({ meeting_id: meeting.id, author_id: userId, body })
+        .select("id, meeting_id, author_id, body, created_at")
+        .single();
+
+      if (error) throw new Error(error.message);
+
+      setNotes((prev) => [...prev, data as NoteRow]);
+      setNoteDraft("");
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to post note.");
+    } finally {
+      setPosting(false);
+    }
+  }
+
+  async function deleteNote(noteId: string) {
+    const ok = window.confirm("Delete this note?");
+    if (!ok) return;
+
+    setMsg(null);
+
+    try {
+      const { error } = await supabase.from("meeting_notes").delete().eq("id", noteId);
+      if (error) throw new Error(error.message);
+
+      setNotes((prev) => prev.filter((n) => n.id !== noteId));
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to delete note.");
+    }
+  }
+
+  if (loading) return <div className="p-6 text-black">Loading…</div>;
+
+  if (!meeting) {
+    return (
+      <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+        <div className="mx-auto w-full max-w-3xl">
+          <div className="rounded-2xl border bg-white p-6 text-sm text-black/70">
+            {msg ?? "Meeting not found."}
+          </div>
+          <button
+            onClick={() => router.push("/meetings")}
+            className="mt-4 rounded-xl border bg-white px-3 py-2 text-xs"
+          >
+            Back to meetings
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const bookedName = profilesById[meeting.booked_by_id]?.full_name ?? "—";
+  const takenName = profilesById[meeting.attended_by_id]?.full_name ?? "—";
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 p-4 text-black">
+      <div className="mx-auto w-full max-w-3xl">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="h-10 w-10 rounded-xl border bg-white flex items-center justify-center text-xs font-semibold">
+              {initials(meeting.meeting_name)}
+            </div>
+            <div className="min-w-0">
+              <h1 className="text-2xl font-semibold text-black truncate">
+                {meeting.meeting_name || "Unnamed meeting"}
+              </h1>
+              <div className="mt-1 text-xs text-black/60">{fmtDateTimeAU(meeting.meeting_at)}</div>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={load} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Refresh
+            </button>
+            <button onClick={() => router.push("/meetings")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Back
+            </button>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="rounded-2xl border bg-white p-4 mb-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs text-black/70">
+            <div className="rounded-xl border bg-white px-3 py-2">
+              Booked by: <span className="font-medium text-black">{bookedName}</span>
+            </div>
+            <div className="rounded-xl border bg-white px-3 py-2">
+              Taken by: <span className="font-medium text-black">{takenName}</span>
+            </div>
+          </div>
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <span className="inline-flex items-center rounded-full border px-2.5 py-1 text-xs bg-gray-50 border-gray-200 text-black/70">
+              Score {meeting.lead_score ?? 1}
+              {meeting.score_manual ? " ✋ manual" : " • auto"}
+            </span>
+
+            <span
+              className={`inline-flex items-center rounded-full border px-2.5 py-1 text-xs ${outcomeBadgeClass(meeting.outcome)}`}
+            >
+              {outcomeLabel(meeting.outcome)}
+            </span>
+
+            {meeting.discarded_at ? (
+              <span className="inline-flex items-center rounded-full border px-2.5 py-1 text-xs bg-red-50 border-red-200 text-red-700">
+                Discarded
+              </span>
+            ) : null}
+          </div>
+
+          {/* Score explanation + override */}
+          <div className="mt-3 rounded-xl border bg-gray-50 px-3 py-2 text-xs text-black/70">
+            <div>
+              Rules: {explainScore(meeting.score_reasons, meeting.score_points)}
+              {meeting.score_manual ? (
+                <span className="text-amber-700"> — overridden by hand to {meeting.lead_score}</span>
+              ) : null}
+            </div>
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <span className="text-black/50">Override:</span>
+              {[1, 2, 3].map((n) => (
+                <button
+                  key={n}
+                  type="button"
+                  onClick={() => setScore(n)}
+                  disabled={savingScore}
+                  className={`rounded-lg border px-2 py-1 text-[11px] disabled:opacity-60 ${
+                    meeting.score_manual && meeting.lead_score === n ? "bg-black text-white" : "bg-white"
+                  }`}
+                >
+                  {n}
+                </button>
+              ))}
+              {meeting.score_manual ? (
+                <button
+                  type="button"
+                  onClick={() => setScore(null)}
+                  disabled={savingScore}
+                  className="text-[11px] underline text-black/60 disabled:opacity-60"
+                >
+                  Use rules
+                </button>
+              ) : null}
+            </div>
+          </div>
+
+          {meeting.discarded_at ? (
+            <div className="mt-3 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-800">
+              Discarded by {profilesById[meeting.discarded_by ?? ""]?.full_name ?? "—"} on{" "}
+              {fmtDateTimeAU(meeting.discarded_at)}: {meeting.discard_reason || "no reason recorded"}
+            </div>
+          ) : null}
+
+          {meeting.lost_reason_id ? (
+            <div className="mt-3 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+              Didn’t move to SS2: <b>{meeting.lost_reason?.label ?? "—"}</b>
+              {meeting.lost_note ? ` — ${meeting.lost_note}` : ""}
+            </div>
+          ) : null}
+
+          {meeting.override_reason ? (
+            <div className="mt-3 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+              Booked with admin override by {profilesById[meeting.override_by ?? ""]?.full_name ?? "an admin"}:{" "}
+              {meeting.override_reason}
+            </div>
+          ) : null}
+        </div>
+
+        {/* Lead */}
+        <div className="rounded-2xl border bg-white p-5 mb-4">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-sm font-semibold text-black">Lead</h2>
+            {lead ? (
+              <button
+                onClick={() => router.push(`/leads/${lead.id}`)}
+                className="rounded-xl border bg-white px-3 py-2 text-xs text-black"
+              >
+                Open lead
+              </button>
+            ) : null}
+          </div>
+
+          {lead ? (
+            <div className="mt-2 text-xs text-black/70">
+              <span className="font-medium text-black">{lead.full_name}</span>
+              {lead.phone ? ` • ${lead.phone}` : ""}
+              {lead.email ? ` • ${lead.email}` : ""}
+            </div>
+          ) : (
+            <>
+              <div className="mt-1 text-xs text-black/60">Not linked yet — find the lead to attach this meeting to.</div>
+              <LeadPicker selected={null} onSelect={(l) => l && linkLead(l)} />
+              {linkingLead ? <div className="mt-1 text-[11px] text-black/50">Linking…</div> : null}
+            </>
+          )}
+        </div>
+
+        {/* Pipeline */}
+        <div className="rounded-2xl border bg-white p-5 mb-4">
+          <h2 className="text-sm font-semibold text-black">Pipeline</h2>
+          <div className="mt-1 text-xs text-black/60">
+            {lead ? "Stages for this lead across all its meetings." : "Stages reached from this meeting."}
+          </div>
+          <PipelineTracker
+            stages={stages}
+            progress={progress}
+            meetingId={meeting.id}
+            leadId={meeting.lead_id}
+            userId={userId}
+            isAdmin={isAdmin}
+            profilesById={profilesById}
+            onChange={setProgress}
+          />
+        </div>
+
+        {/* Deal */}
+        <div className="rounded-2xl border bg-white p-5 mb-4">
+          <h2 className="text-sm font-semibold text-black">Deal</h2>
+          <div className="mt-1 text-xs text-black/60">
+            Contract value and settlement — settled deals count as revenue for the setter and closer.
+          </div>
+          <DealEditor
+            key={deal?.id ?? "new"}
+            deal={deal}
+            meetingId={meeting.id}
+            leadId={meeting.lead_id}
+            defaultSetterId={meeting.booked_by_id}
+            defaultCloserId={meeting.attended_by_id}
+            userId={userId}
+            profiles={profiles}
+            isAdmin={isAdmin}
+            canEdit={isAdmin || meeting.booked_by_id === userId || meeting.attended_by_id === userId}
+            onSaved={onDealSaved}
+          />
+        </div>
+
+        {/* Attribution */}
+        <div className="rounded-2xl border bg-white p-5 mb-4">
+          <h2 className="text-sm font-semibold text-black">Source</h2>
+          <div className="mt-1 text-xs text-black/60">Where this lead came from — feeds the attribution report.</div>
+
+          <div className="mt-3 grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2">
+            <select
+              className="rounded-xl border px-3 py-2 text-sm bg-white text-black"
+              value={sourceDraft}
+              onChange={(e) => setSourceDraft(e.target.value)}
+            >
+              <option value="">Unattributed</option>
+              {sources
+                .filter((s) => s.active || s.id === meeting.source_id)
+                .map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                    {s.active ? "" : " (inactive)"}
+                  </option>
+                ))}
+            </select>
+            <input
+              className="rounded-xl border px-3 py-2 text-sm text-black"
+              placeholder="Campaign (optional)"
+              value={campaignDraft}
+              onChange={(e) => setCampaignDraft(e.target.value)}
+            />
+            <button
+              onClick={saveAttribution}
+              disabled={
+                savingSource ||
+                ((sourceDraft || null) === meeting.source_id && cleanCampaign(campaignDraft) === meeting.campaign)
+              }
+              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+            >
+              {savingSource ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </div>
+
+        {/* Assignment audit */}
+        {meeting.assignment_detail ? (
+          <div className="rounded-2xl border bg-white p-5 mb-4">
+            <h2 className="text-sm font-semibold text-black">Assignment</h2>
+            <div className="mt-1 text-xs text-black/60">
+              {meeting.assignment_method === "round_robin"
+                ? "Taker chosen by round-robin."
+                : meeting.assignment_detail.picked
+                  ? `Round-robin suggested ${profilesById[meeting.assignment_detail.picked]?.full_name ?? "—"}; the booker chose ${takenName}.`
+                  : "No closer was free in the rotation; the taker was picked by hand."}{" "}
+              Decided {fmtDateTimeAU(meeting.assignment_detail.decided_at)}.
+            </div>
+
+            <div className="mt-4 space-y-2">
+              {meeting.assignment_detail.candidates.map((c) => (
+                <div
+                  key={c.closer_id}
+                  className="flex items-center justify-between gap-3 rounded-xl border px-3 py-2 text-xs text-black/70"
+                >
+                  <span className="font-medium text-black">
+                    {profilesById[c.closer_id]?.full_name ?? "—"}
+                    {c.closer_id === meeting.assignment_detail?.picked ? " ✓" : ""}
+                  </span>
+                  <span>
+                    {c.booked_that_day} that day • weight {c.weight}
+                    {c.daily_cap != null ? ` • cap ${c.daily_cap}` : ""}
+                    {c.skipped ? ` • ${SKIP_LABELS[c.skipped]}` : ""}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
+        {/* Reschedule chain */}
+        {chain.length > 1 ? (
+          <div className="rounded-2xl border bg-white p-5 mb-4">
+            <h2 className="text-sm font-semibold text-black">Attempts ({chain.length})</h2>
+            <div className="mt-1 text-xs text-black/60">Every booking for this lead, linked by reschedule.</div>
+
+            <div className="mt-4 space-y-2">
+              {chain.map((c, idx) => (
+                <button
+                  key={c.id}
+                  onClick={() => router.push(`/meetings/${c.id}`)}
+                  disabled={c.id === meeting.id}
+                  className={`w-full rounded-xl border px-3 py-2 text-left text-xs flex items-center justify-between gap-3 ${
+                    c.id === meeting.id ? "bg-gray-50 border-black/30" : "bg-white"
+                  }`}
+                >
+                  <span>
+                    <span className="font-medium text-black">#{idx + 1}</span> • {fmtDateTimeAU(c.meeting_at)} • Booked:{" "}
+                    {profilesById[c.booked_by_id]?.full_name ?? "—"}
+                  </span>
+                  <span
+                    className={`inline-flex items-center rounded-full border px-2 py-0.5 text-[11px] ${outcomeBadgeClass(c.outcome)}`}
+                  >
+                    {outcomeLabel(c.outcome)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
+        {/* Notes */}
+        <div className="rounded-2xl border bg-white p-5 mb-4">
+          <h2 className="text-sm font-semibold text-black">Notes</h2>
+          <div className="mt-1 text-xs text-black/60">Handoff context from the booker and the taker.</div>
+
+          {notes.length === 0 ? (
+            <div className="mt-4 text-sm text-black/70">No notes yet.</div>
+          ) : (
+            <div className="mt-4 space-y-3">
+              {notes.map((n) => {
+                const authorName = profilesById[n.author_id]?.full_name ?? "—";
+                const role =
+                  n.author_id === meeting.booked_by_id
+                    ? "Booker"
+                    : n.author_id === meeting.attended_by_id
+                    ? "Taker"
+                    : null;
+
+                return (
+                  <div key={n.id} className="rounded-xl border p-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="text-xs text-black/60">
+                        <span className="font-medium text-black">{authorName}</span>
+                        {role ? ` • ${role}` : ""} • {fmtDateTimeAU(n.created_at)}
+                      </div>
+
+                      {n.author_id === userId ? (
+                        <button
+                          onClick={() => deleteNote(n.id)}
+                          className="text-[11px] text-black/40 hover:text-black"
+                        >
+                          Delete
+                        </button>
+                      ) : null}
+                    </div>
+                    <div className="mt-2 text-sm text-black whitespace-pre-line">{n.body}</div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="mt-4">
+            <textarea
+              className="w-full rounded-xl border px-3 py-2 text-sm text-black"
+              rows={3}
+              placeholder="What happened on the call?"
+              value={noteDraft}
+              onChange={(e) => setNoteDraft(e.target.value)}
+            />
+            <div className="mt-2 flex justify-end">
+              <button
+                onClick={postNote}
+                disabled={posting || !noteDraft.trim()}
+                className="rounded-xl bg-black px-4 py-2 text-sm text-white disabled:opacity-60"
+              >
+                {posting ? "Posting…" : "Add note"}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Activity */}
+        <div className="rounded-2xl border bg-white p-5">
+          <h2 className="text-sm font-semibold text-black">Activity</h2>
+          <div className="mt-1 text-xs text-black/60">Every change to outcomes and lead score.</div>
+
+          {events.length === 0 ? (
+            <div className="mt-4 text-sm text-black/70">No changes recorded yet.</div>
+          ) : (
+            <div className="mt-4 space-y-2">
+              {events.map((e) => (
+                <div key={e.id} className="flex items-start gap-3">
+                  <div className="mt-1.5 h-2 w-2 rounded-full bg-black/30 shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-sm text-black">{describeEvent(e)}</div>
+                    <div className="text-[11px] text-black/50">
+                      {e.actor_id ? profilesById[e.actor_id]?.full_name ?? "—" : "System"} •{" "}
+                      {fmtDateTimeAU(e.created_at)}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {msg && <div className="mt-6 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+      </div>
+    </div>
+  );
+}
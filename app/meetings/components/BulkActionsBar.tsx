@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { DISCARD_REASONS, cleanDiscardReason } from "@/lib/meetingDiscard";
+import type { BulkPatch } from "@/lib/meetingBulk";
+import { cleanLostNote, type LostReason } from "@/lib/lostReasons";
+import LostReasonFields from "./LostReasonFields";
+
+type Person = { id: string; full_name: string | null };
+
+export default function BulkActionsBar({
+  count,
+  totalVisible,
+  profiles,
+  lostReasons,
+  busy,
+  onApply,
+  onSelectAll,
+  onClear,
+}: {
+  count: number;
+  totalVisible: number;
+  profiles: Person[];
+  lostReasons: LostReason[];
+  busy: boolean;
+  onApply: (patch: BulkPatch, label: string) => void;
+  onSelectAll: () => void;
+  onClear: () => void;
+}) {
+  const [discarding, setDiscarding] = useState(false);
+  const [reason, setReason] = useState("");
+
+  // "Showed" needs one lost reason for the whole selection
+  const [markingShowed, setMarkingShowed] = useState(false);
+  const [lostReasonId, setLostReasonId] = useState<string | null>(null);
+  const [lostNote, setLostNote] = useState("");
+
+  const btn = "rounded-xl border px-3 py-2 text-xs bg-white text-black disabled:opacity-60";
+  const sel = "rounded-xl border px-3 py-2 text-xs bg-white text-black disabled:opacity-60";
+
+  return (
+    <div className="sticky top-2 z-20 mt-4 rounded-2xl border bg-gray-50 p-3 shadow-sm">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="text-xs text-black">
+          <b>{count}</b> selected
+          {count < totalVisible ? (
+            <button onClick={onSelectAll} className="ml-2 underline text-black/60">
+              Select all {totalVisible}
+            </button>
+          ) : null}
+          <button onClick={onClear} className="ml-2 underline text-black/60">
+            Clear
+          </button>
+        </div>
+
+        {busy ? <div className="text-xs text-black/60">Applying…</div> : null}
+      </div>
+
+      <div className="mt-3 flex gap-2 flex-wrap">
+        <button disabled={busy} onClick={() => setMarkingShowed((v) => !v)} className={btn}>
+          Showed…
+        </button>
+        <button disabled={busy} onClick={() => onApply({ outcome: "no_show" }, "Mark no-show")} className={btn}>
+          No-show
+        </button>
+        <button disabled={busy} onClick={() => onApply({ outcome: "moved_to_ss2" }, "Mark moved to SS2")} className={btn}>
+          Moved to SS2
+        </button>
+
+        <select
+          disabled={busy}
+          className={sel}
+          value=""
+          onChange={(e) => e.target.value && onApply({ lead_score: Number(e.target.value) }, "Change lead score")}
+        >
+          <option value="">Score…</option>
+          <option value={1}>1</option>
+          <option value={2}>2</option>
+          <option value={3}>3</option>
+        </select>
+
+        <select
+          disabled={busy}
+          className={sel}
+          value=""
+          onChange={(e) => e.target.value && onApply({ booked_by_id: e.target.value }, "Reassign booker")}
+        >
+          <option value="">Booked by…</option>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.full_name ?? p.id}
+            </option>
+          ))}
+        </select>
+
+        <select
+          disabled={busy}
+          className={sel}
+          value=""
+          onChange={(e) => e.target.value && onApply({ attended_by_id: e.target.value }, "Reassign taker")}
+        >
+          <option value="">Taken by…</option>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.full_name ?? p.id}
+            </option>
+          ))}
+        </select>
+
+        <button disabled={busy} onClick={() => setDiscarding((v) => !v)} className={btn}>
+          Discard…
+        </button>
+      </div>
+
+      {markingShowed ? (
+        <div className="mt-3">
+          <LostReasonFields
+            reasons={lostReasons}
+            reasonId={lostReasonId}
+            note={lostNote}
+            onChange={(patch) => {
+              if (patch.lost_reason_id !== undefined) setLostReasonId(patch.lost_reason_id);
+              if (patch.lost_note !== undefined) setLostNote(patch.lost_note ?? "");
+            }}
+          />
+          <div className="mt-2 flex justify-end">
+            <button
+              disabled={busy || !lostReasonId}
+              onClick={() => {
+                if (!lostReasonId) return;
+                onApply(
+                  { outcome: "showed", lost_reason_id: lostReasonId, lost_note: cleanLostNote(lostNote) },
+                  "Mark showed"
+                );
+                setMarkingShowed(false);
+                setLostReasonId(null);
+                setLostNote("");
+              }}
+              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+            >
+              Mark {count} showed
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {discarding ? (
+        <div className="mt-3 rounded-xl border border-red-200 bg-red-50 p-3">
+          <div className="flex gap-2 flex-wrap">
+            {DISCARD_REASONS.map((r) => (
+              <button
+                key={r}
+                type="button"
+                onClick={() => setReason(r)}
+                className={`rounded-xl border px-3 py-1.5 text-xs ${reason === r ? "bg-black text-white" : "bg-white text-black"}`}
+              >
+                {r}
+              </button>
+            ))}
+          </div>
+          <div className="mt-2 flex gap-2 flex-wrap">
+            <input
+              className="flex-1 rounded-xl border px-3 py-2 text-sm bg-white text-black"
+              placeholder="Reason (required)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            <button
+              disabled={busy || !reason.trim()}
+              onClick={() => {
+                onApply({ discard_reason: cleanDiscardReason(reason) }, "Discard");
+                setDiscarding(false);
+                setReason("");
+              }}
+              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+            >
+              Discard {count}
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { DEAL_SELECT, fmtMoney, parseMoney, type DealRow } from "@/lib/deals";
+
+type Person = { id: string; full_name: string | null };
+
+function moneyInput(v: number | null | undefined) {
+  return v === null || v === undefined ? "" : String(v);
+}
+
+/**
+ * Create or edit one deal. New deals are recorded against `meetingId` when
+ * given, otherwise against the lead. Setter/closer come from the meeting
+ * (the deals_guard trigger sets them); only admins pick them for lead-level
+ * deals. Once settled, or for anyone but its creator, a deal is admin-only.
+ */
+export default function DealEditor({
+  deal,
+  meetingId,
+  leadId,
+  defaultSetterId,
+  defaultCloserId,
+  userId,
+  profiles,
+  canEdit,
+  isAdmin,
+  onSaved,
+}: {
+  deal: DealRow | null;
+  meetingId: string | null;
+  leadId: string | null;
+  defaultSetterId: string | null;
+  defaultCloserId: string | null;
+  userId: string;
+  profiles: Person[];
+  canEdit: boolean;
+  isAdmin: boolean;
+  onSaved: (deal: DealRow) => void;
+}) {
+  const [contractValue, setContractValue] = useState(moneyInput(deal?.contract_value));
+  const [commission, setCommission] = useState(moneyInput(deal?.commission_amount));
+  const [settlementDate, setSettlementDate] = useState(deal?.settlement_date ?? "");
+  const [setterId, setSetterId] = useState(deal?.setter_id ?? defaultSetterId ?? "");
+  const [closerId, setCloserId] = useState(deal?.closer_id ?? defaultCloserId ?? "");
+
+  // Meeting deals always credit the meeting's setter and closer
+  const canAssign = isAdmin && !meetingId && !deal?.meeting_id;
+
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function save() {
+    setError(null);
+
+    const value = parseMoney(contractValue);
+    const comm = parseMoney(commission);
+    if (value === null || Number.isNaN(value)) {
+      setError("Enter the contract value.");
+      return;
+    }
+    if (Number.isNaN(comm)) {
+      setError("Commission amount must be a number.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const patch = {
+        contract_value: value,
+        commission_amount: comm,
+        settlement_date: settlementDate || null,
+        ...(canAssign ? { setter_id: setterId || null, closer_id: closerId || null } : {}),
+        updated_at: new Date().toISOString(),
+      };
+
+      const res = deal
+        ? await supabase.from("deals").update(patch).eq("id", deal.id).select(DEAL_SELECT).single()
+        : await supabase
+            .from("deals")
+            .insert({ ...patch, meeting_id: meetingId, lead_id: leadId, created_by: userId })
+            .select(DEAL_SELECT)
+            .single();
+
+      if (res.error) {
+        if (res.error.code === "23505") throw new Error("This meeting already has a deal.");
+        throw new Error(res.error.message);
+      }
+
+      onSaved(res.data as DealRow);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to save deal.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const adminOnly = !!deal && !isAdmin && (deal.created_by !== userId || !!deal.settlement_date);
+
+  if (!canEdit || adminOnly) {
+    if (!deal) return <div className="mt-2 text-xs text-black/60">No deal recorded.</div>;
+    return (
+      <div className="mt-2 text-xs text-black/70">
+        Contract <b>{fmtMoney(deal.contract_value)}</b> • Commission {fmtMoney(deal.commission_amount)} •{" "}
+        {deal.settlement_date ? `Settled ${deal.settlement_date}` : "Not settled"}
+        {canEdit ? <div className="mt-1 text-black/50">Only an admin can change this deal now.</div> : null}
+      </div>
+    );
+  }
+
+  const nameOf = (id: string) => profiles.find((p) => p.id === id)?.full_name ?? "—";
+
+  const input = "mt-1 w-full rounded-xl border px-3 py-2 text-sm text-black bg-white";
+
+  return (
+    <div className="mt-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <label className="text-xs text-black/60">
+          Contract value
+          <input
+            className={input}
+            inputMode="decimal"
+            placeholder="$"
+            value={contractValue}
+            onChange={(e) => setContractValue(e.target.value)}
+          />
+        </label>
+        <label className="text-xs text-black/60">
+          Commission-bearing amount
+          <input
+            className={input}
+            inputMode="decimal"
+            placeholder="$"
+            value={commission}
+            onChange={(e) => setCommission(e.target.value)}
+          />
+        </label>
+        <label className="text-xs text-black/60">
+          Settlement date
+          <input
+            className={input}
+            type="date"
+            value={settlementDate}
+            onChange={(e) => setSettlementDate(e.target.value)}
+          />
+        </label>
+        {canAssign ? (
+          <>
+            <label className="text-xs text-black/60">
+              Setter
+              <select className={input} value={setterId} onChange={(e) => setSetterId(e.target.value)}>
+                <option value="">—</option>
+                {profiles.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.full_name ?? p.id}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-black/60">
+              Closer
+              <select className={input} value={closerId} onChange={(e) => setCloserId(e.target.value)}>
+                <option value="">—</option>
+                {profiles.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.full_name ?? p.id}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        ) : (
+          <div className="sm:col-span-2 flex items-end text-xs text-black/60">
+            Setter {nameOf(setterId)} • Closer {nameOf(closerId)} ({meetingId ? "from the meeting" : "from the latest meeting"})
+          </div>
+        )}
+        <div className="flex items-end">
+          <button
+            type="button"
+            onClick={save}
+            disabled={saving}
+            className="w-full rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+          >
+            {saving ? "Saving…" : deal ? "Save deal" : "Record deal"}
+          </button>
+        </div>
+      </div>
+
+      {error ? <div className="mt-2 text-[11px] text-red-700">{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { outcomeBadgeClass, outcomeLabel, type MeetingOutcome } from "@/lib/meetingOutcome";
+
+type DiscardedRow = {
+  id: string;
+  meeting_name: string | null;
+  meeting_at: string;
+  booked_by_id: string;
+  attended_by_id: string;
+  lead_score: number;
+  outcome: MeetingOutcome;
+  discarded_at: string;
+  discarded_by: string | null;
+  discard_reason: string | null;
+};
+
+function fmtDateTimeAU(iso: string) {
+  return new Intl.DateTimeFormat("en-AU", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+/**
+ * Soft-deleted meetings with who discarded them, when and why.
+ * Anyone can restore what they can see; only admins can purge for good.
+ */
+export default function DiscardedBin({
+  userId,
+  isAdmin,
+  profilesById,
+  minScore,
+  onRestored,
+}: {
+  userId: string;
+  isAdmin: boolean;
+  profilesById: Record<string, { full_name: string | null }>;
+  /** Hot Leads bin: lead_score at or above the hot threshold only */
+  minScore?: number;
+  onRestored?: () => void;
+}) {
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [rows, setRows] = useState<DiscardedRow[]>([]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setMsg(null);
+
+    try {
+      let q = supabase
+        .from("meetings")
+        .select(
+          "id, meeting_name, meeting_at, booked_by_id, attended_by_id, lead_score, outcome, discarded_at, discarded_by, discard_reason"
+        )
+        .not("discarded_at", "is", null)
+        .order("discarded_at", { ascending: false })
+        .limit(500);
+
+      if (minScore != null) q = q.gte("lead_score", minScore);
+      if (!isAdmin && userId) q = q.or(`booked_by_id.eq.${userId},attended_by_id.eq.${userId}`);
+
+      const res = await q;
+      if (res.error) throw new Error(res.error.message);
+
+      setRows((res.data ?? []) as DiscardedRow[]);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load discarded meetings.");
+    } finally {
+      setLoading(false);
+    }
+  }, [minScore, isAdmin, userId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function restore(id: string) {
+    setSavingId(id);
+    setMsg(null);
+
+    try {
+      const { error } = await supabase.from("meetings").update({ discarded_at: null }).eq("id", id);
+      if (error) throw new Error(error.message);
+
+      setRows((prev) => prev.filter((r) => r.id !== id));
+      onRestored?.();
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to restore meeting.");
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  async function purge(id: string) {
+    const ok = window.confirm("Permanently delete this meeting? Notes and history go with it. This can't be undone.");
+    if (!ok) return;
+
+    setSavingId(id);
+    setMsg(null);
+
+    try {
+      const { error } = await supabase.from("meetings").delete().eq("id", id);
+      if (error) throw new Error(error.message);
+
+      setRows((prev) => prev.filter((r) => r.id !== id));
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to delete meeting.");
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  if (loading) return <div className="rounded-2xl border bg-white p-6 text-sm text-black/70">Loading…</div>;
+
+  return (
+    <div>
+      {msg && <div className="mb-3 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
+
+      {rows.length === 0 ? (
+        <div className="rounded-2xl border bg-white p-6 text-sm text-black/70">Nothing discarded ✅</div>
+      ) : (
+        <div className="space-y-3">
+          {rows.map((r) => (
+            <div key={r.id} className="rounded-2xl border bg-white p-4">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-black truncate">{r.meeting_name || "Unnamed meeting"}</div>
+                  <div className="mt-1 text-xs text-black/60">
+                    {fmtDateTimeAU(r.meeting_at)} • Booked by {profilesById[r.booked_by_id]?.full_name ?? "—"} • Taken
+                    by {profilesById[r.attended_by_id]?.full_name ?? "—"}
+                  </div>
+
+                  <div className="mt-2 flex flex-wrap items-center gap-2">
+                    <span
+                      className={`inline-flex items-center rounded-full border px-2.5 py-1 text-xs ${outcomeBadgeClass(r.outcome)}`}
+                    >
+                      {outcomeLabel(r.outcome)}
+                    </span>
+                    <span className="inline-flex items-center rounded-full border px-2.5 py-1 text-xs bg-gray-50 border-gray-200 text-black/70">
+                      Score {r.lead_score ?? 1}
+                    </span>
+                  </div>
+
+                  <div className="mt-2 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-800">
+                    Discarded by <b>{r.discarded_by ? profilesById[r.discarded_by]?.full_name ?? "—" : "—"}</b> on{" "}
+                    {fmtDateTimeAU(r.discarded_at)} — {r.discard_reason || "no reason recorded"}
+                  </div>
+                </div>
+
+                <div className="flex flex-col items-end gap-2">
+                  <button
+                    onClick={() => restore(r.id)}
+                    disabled={savingId === r.id}
+                    className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+                  >
+                    {savingId === r.id ? "Saving…" : "Restore"}
+                  </button>
+
+                  {isAdmin ? (
+                    <button
+                      onClick={() => purge(r.id)}
+                      disabled={savingId === r.id}
+                      className="rounded-xl border border-red-200 bg-white px-3 py-2 text-xs text-red-700 disabled:opacity-60"
+                    >
+                      Delete forever
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
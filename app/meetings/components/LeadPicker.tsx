@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { LEAD_SELECT, type LeadRow } from "@/lib/leads";
+
+/** Search-as-you-type picker for an existing lead (name, phone or email) */
+export default function LeadPicker({
+  selected,
+  onSelect,
+  placeholder = "Search existing leads…",
+}: {
+  selected: LeadRow | null;
+  onSelect: (lead: LeadRow | null) => void;
+  placeholder?: string;
+}) {
+  const [query, setQuery] = useState("");
+  const [options, setOptions] = useState<LeadRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const term = query.trim().replace(/[,()"]/g, " ");
+    if (term.length < 2) return;
+
+    let cancelled = false;
+    const t = setTimeout(async () => {
+      const res = await supabase
+        .from("leads")
+        .select(LEAD_SELECT)
+        .or(`full_name.ilike.%${term}%,phone.ilike.%${term}%,email.ilike.%${term}%`)
+        .order("created_at", { ascending: false })
+        .limit(8);
+
+      if (cancelled) return;
+      if (res.error) {
+        setError(res.error.message);
+        return;
+      }
+      setError(null);
+      setOptions((res.data ?? []) as LeadRow[]);
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [query]);
+
+  // stale results stay hidden once the query is too short
+  const visible = query.trim().length >= 2 ? options : [];
+
+  if (selected) {
+    return (
+      <div className="mt-1 flex items-center justify-between gap-2 rounded-xl border bg-gray-50 px-3 py-2 text-sm text-black">
+        <div className="min-w-0">
+          <div className="font-medium truncate">{selected.full_name}</div>
+          <div className="text-[11px] text-black/50 truncate">
+            {[selected.phone, selected.email].filter(Boolean).join(" • ") || "No contact details"}
+          </div>
+        </div>
+        <button type="button" onClick={() => onSelect(null)} className="text-xs underline text-black/60">
+          Change
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative mt-1">
+      <input
+        className="w-full rounded-xl border px-3 py-2 text-sm text-black"
+        placeholder={placeholder}
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+
+      {visible.length > 0 ? (
+        <div className="absolute z-30 mt-1 w-full overflow-hidden rounded-xl border bg-white shadow-sm">
+          {visible.map((l) => (
+            <button
+              key={l.id}
+              type="button"
+              onClick={() => {
+                onSelect(l);
+                setQuery("");
+                setOptions([]);
+              }}
+              className="block w-full px-3 py-2 text-left text-sm text-black hover:bg-gray-50"
+            >
+              <div className="font-medium truncate">{l.full_name}</div>
+              <div className="text-[11px] text-black/50 truncate">
+                {[l.phone, l.email].filter(Boolean).join(" • ") || "No contact details"}
+              </div>
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {error ? <div className="mt-1 text-[11px] text-red-700">{error}</div> : null}
+    </div>
+  );
+}
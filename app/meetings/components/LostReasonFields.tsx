@@ -0,0 +1,47 @@
+"use client";
+
+import { LOST_NOTE_MAX, type LostReason } from "@/lib/lostReasons";
+
+/** Reason code (required) + optional note for a showed meeting that didn't move to SS2 */
+export default function LostReasonFields({
+  reasons,
+  reasonId,
+  note,
+  onChange,
+}: {
+  reasons: LostReason[];
+  reasonId: string | null;
+  note: string | null;
+  onChange: (patch: { lost_reason_id?: string | null; lost_note?: string | null }) => void;
+}) {
+  return (
+    <div className="mt-2 rounded-xl border border-amber-200 bg-amber-50 p-3">
+      <div className="text-xs font-medium text-amber-900">Why didn’t it move to SS2?</div>
+
+      <div className="mt-2 flex gap-2 flex-wrap">
+        {reasons
+          .filter((r) => r.active || r.id === reasonId)
+          .map((r) => (
+            <button
+              key={r.id}
+              type="button"
+              onClick={() => onChange({ lost_reason_id: r.id })}
+              className={`rounded-xl border px-3 py-1.5 text-xs ${
+                reasonId === r.id ? "bg-black text-white" : "bg-white text-black"
+              }`}
+            >
+              {r.label}
+            </button>
+          ))}
+      </div>
+
+      <input
+        className="mt-2 w-full rounded-xl border px-3 py-2 text-sm bg-white text-black"
+        placeholder="Note (optional)"
+        maxLength={LOST_NOTE_MAX}
+        value={note ?? ""}
+        onChange={(e) => onChange({ lost_note: e.target.value })}
+      />
+    </div>
+  );
+}
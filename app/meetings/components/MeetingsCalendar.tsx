@@ -0,0 +1,172 @@
+"use client";
+
+import { useMemo } from "react";
+import { outcomeBadgeClass, type MeetingOutcome } from "@/lib/meetingOutcome";
+
+export type CalendarMode = "day" | "week";
+
+export type CalendarMeeting = {
+  id: string;
+  meeting_name: string | null;
+  meeting_at: string;
+  attended_by_id: string;
+  outcome: MeetingOutcome;
+};
+
+export type CalendarPerson = {
+  id: string;
+  full_name: string | null;
+};
+
+// Visible hours (Melbourne), one row per hour
+const START_HOUR = 7;
+const END_HOUR = 21; // exclusive
+
+const HOURS = Array.from({ length: END_HOUR - START_HOUR }, (_, i) => START_HOUR + i);
+
+function initials(name?: string | null) {
+  const n = (name ?? "").trim();
+  if (!n) return "—";
+  const parts = n.split(/\s+/).filter(Boolean);
+  if (parts.length === 1) return parts[0].slice(0, 2).toUpperCase();
+  return (parts[0][0] + parts[1][0]).toUpperCase();
+}
+
+/** Melbourne date (YYYY-MM-DD) + hour for a timestamptz */
+function melbSlot(iso: string) {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(iso));
+
+  const get = (t: string) => parts.find((p) => p.type === t)?.value ?? "";
+  return { dateISO: `${get("year")}-${get("month")}-${get("day")}`, hour: Number(get("hour")) };
+}
+
+function fmtMelbTime(iso: string) {
+  return new Intl.DateTimeFormat("en-AU", {
+    timeZone: "Australia/Melbourne",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+function fmtDayHeader(dateISO: string) {
+  const d = new Date(`${dateISO}T12:00:00Z`);
+  return new Intl.DateTimeFormat("en-AU", {
+    timeZone: "UTC",
+    weekday: "short",
+    day: "2-digit",
+    month: "short",
+  }).format(d);
+}
+
+function fmtHour(h: number) {
+  const suffix = h >= 12 ? "pm" : "am";
+  const hh = h % 12 === 0 ? 12 : h % 12;
+  return `${hh}${suffix}`;
+}
+
+export default function MeetingsCalendar({
+  mode,
+  days,
+  closers,
+  meetings,
+  profilesById,
+  onSlotClick,
+  onOpenMeeting,
+}: {
+  mode: CalendarMode;
+  /** Melbourne dates shown as columns (week) — day view uses days[0] */
+  days: string[];
+  /** Day view columns */
+  closers: CalendarPerson[];
+  meetings: CalendarMeeting[];
+  profilesById: Record<string, CalendarPerson>;
+  onSlotClick: (dateISO: string, hour: number, closerId?: string) => void;
+  onOpenMeeting: (id: string) => void;
+}) {
+  // bucket key: `${column}|${hour}` where column is a date (week) or closer id (day)
+  const buckets = useMemo(() => {
+    const map: Record<string, CalendarMeeting[]> = {};
+    meetings.forEach((m) => {
+      const { dateISO, hour } = melbSlot(m.meeting_at);
+      const col = mode === "week" ? dateISO : m.attended_by_id;
+      if (mode === "day" && dateISO !== days[0]) return;
+      const key = `${col}|${hour}`;
+      (map[key] ??= []).push(m);
+    });
+    return map;
+  }, [meetings, mode, days]);
+
+  const columns =
+    mode === "week"
+      ? days.map((d) => ({ key: d, label: fmtDayHeader(d) }))
+      : closers.map((c) => ({ key: c.id, label: c.full_name ?? c.id }));
+
+  if (columns.length === 0) {
+    return <div className="mt-4 text-sm text-black/70">No closers to show for this day.</div>;
+  }
+
+  return (
+    <div className="mt-4 overflow-x-auto">
+      <div
+        className="grid min-w-[640px] text-xs"
+        style={{ gridTemplateColumns: `56px repeat(${columns.length}, minmax(84px, 1fr))` }}
+      >
+        {/* Header row */}
+        <div />
+        {columns.map((c) => (
+          <div key={c.key} className="px-1 py-2 text-center font-semibold text-black/70 truncate">
+            {c.label}
+          </div>
+        ))}
+
+        {HOURS.map((h) => (
+          <div key={h} className="contents">
+            <div className="border-t py-2 pr-2 text-right text-[11px] text-black/50">{fmtHour(h)}</div>
+
+            {columns.map((c) => {
+              const items = buckets[`${c.key}|${h}`] ?? [];
+              const dateISO = mode === "week" ? c.key : days[0];
+              const closerId = mode === "day" ? c.key : undefined;
+
+              if (items.length === 0) {
+                return (
+                  <button
+                    key={c.key}
+                    onClick={() => onSlotClick(dateISO, h, closerId)}
+                    className="border-t border-l min-h-[44px] hover:bg-gray-50"
+                    title="Book this slot"
+                  />
+                );
+              }
+
+              return (
+                <div key={c.key} className="border-t border-l min-h-[44px] p-1 space-y-1">
+                  {items.map((m) => (
+                    <button
+                      key={m.id}
+                      onClick={() => onOpenMeeting(m.id)}
+                      className={`w-full rounded-lg border px-1.5 py-1 text-left text-[11px] ${outcomeBadgeClass(m.outcome)}`}
+                    >
+                      <div className="font-medium truncate">{m.meeting_name || "Unnamed"}</div>
+                      <div className="opacity-70">
+                        {fmtMelbTime(m.meeting_at)}
+                        {mode === "week" ? ` • ${initials(profilesById[m.attended_by_id]?.full_name)}` : ""}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  OUTCOME_STAGE_KEYS,
+  STAGE_PROGRESS_SELECT,
+  reachedByStage,
+  type PipelineStage,
+  type StageProgress,
+} from "@/lib/pipeline";
+
+type Person = { id: string; full_name: string | null };
+
+function fmtDateTimeAU(iso: string) {
+  return new Intl.DateTimeFormat("en-AU", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+/**
+ * Stage checklist for one meeting or lead. `progress` may include rows from
+ * related records (a lead's meetings); only rows this tracker recorded
+ * against `meetingId`/`leadId` can be undone here.
+ */
+export default function PipelineTracker({
+  stages,
+  progress,
+  meetingId,
+  leadId,
+  userId,
+  isAdmin,
+  profilesById,
+  onChange,
+}: {
+  stages: PipelineStage[];
+  progress: StageProgress[];
+  meetingId: string | null;
+  leadId: string | null;
+  userId: string;
+  isAdmin: boolean;
+  profilesById: Record<string, Person>;
+  onChange: (rows: StageProgress[]) => void;
+}) {
+  const [busyStageId, setBusyStageId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reached = reachedByStage(progress);
+  const visible = stages.filter((s) => s.active || reached[s.id]);
+
+  const ownRow = (r: StageProgress) =>
+    meetingId ? r.meeting_id === meetingId : r.meeting_id === null && r.lead_id === leadId;
+
+  async function markReached(stage: PipelineStage) {
+    setBusyStageId(stage.id);
+    setError(null);
+
+    try {
+      const { data, error } = await supabase
+        .from("pipeline_progress")
+        .insert({ stage_id: stage.id, meeting_id: meetingId, lead_id: leadId, recorded_by: userId })
+        .select(STAGE_PROGRESS_SELECT)
+        .single();
+
+      if (error) {
+        if (error.code === "23505") throw new Error(`Already at ${stage.label}.`);
+        throw new Error(error.message);
+      }
+
+      onChange([...progress, data as StageProgress]);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to update stage.");
+    } finally {
+      setBusyStageId(null);
+    }
+  }
+
+  async function undo(row: StageProgress) {
+    setBusyStageId(row.stage_id);
+    setError(null);
+
+    try {
+      const { error } = await supabase.from("pipeline_progress").delete().eq("id", row.id);
+      if (error) throw new Error(error.message);
+
+      onChange(progress.filter((p) => p.id !== row.id));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to undo stage.");
+    } finally {
+      setBusyStageId(null);
+    }
+  }
+
+  return (
+    <div>
+      <div className="mt-3 space-y-2">
+        {visible.map((s) => {
+          const row = reached[s.id];
+          const fromOutcome = OUTCOME_STAGE_KEYS.includes(s.key);
+          const canUndo =
+            !!row && !fromOutcome && ownRow(row) && (isAdmin || row.recorded_by === userId);
+
+          return (
+            <div key={s.id} className="flex items-center justify-between gap-3 rounded-xl border px-3 py-2">
+              <div className="min-w-0">
+                <div className={`text-sm font-medium ${row ? "text-black" : "text-black/50"}`}>
+                  {row ? "✓ " : ""}
+                  {s.label}
+                  {s.active ? "" : " (retired)"}
+                </div>
+                <div className="text-[11px] text-black/50">
+                  {row
+                    ? `${fmtDateTimeAU(row.reached_at)}${
+                        row.recorded_by ? ` • ${profilesById[row.recorded_by]?.full_name ?? "—"}` : ""
+                      }`
+                    : fromOutcome
+                      ? "Set from the meeting outcome"
+                      : "Not reached"}
+                </div>
+              </div>
+
+              {!row && !fromOutcome && s.active ? (
+                <button
+                  type="button"
+                  onClick={() => markReached(s)}
+                  disabled={busyStageId !== null}
+                  className="rounded-xl border bg-white px-3 py-2 text-xs text-black disabled:opacity-60"
+                >
+                  {busyStageId === s.id ? "Saving…" : "Mark reached"}
+                </button>
+              ) : canUndo ? (
+                <button
+                  type="button"
+                  onClick={() => undo(row)}
+                  disabled={busyStageId !== null}
+                  className="text-xs underline text-black/60 disabled:opacity-60"
+                >
+                  Undo
+                </button>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+
+      {error ? <div className="mt-2 text-[11px] text-red-700">{error}</div> : null}
+    </div>
+  );
+}
@@ -1,8 +1,48 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { MEETING_OUTCOMES, type MeetingOutcome } from "@/lib/meetingOutcome";
+import { rescheduleMeetingAt } from "@/lib/meetingReschedule";
+import {
+  MEETING_MINUTES,
+  freeSlotsForDate,
+  slotsForDate,
+  type AvailabilityRow,
+} from "@/lib/closerAvailability";
+import {
+  ROUND_ROBIN_KEY,
+  proposeCloser,
+  type AssignmentDecision,
+  type AssignmentRule,
+} from "@/lib/closerAssignment";
+import { DISCARD_REASONS, cleanDiscardReason } from "@/lib/meetingDiscard";
+import { summarizeBulk, type BulkPatch, type BulkResult } from "@/lib/meetingBulk";
+import {
+  SORT_OPTIONS,
+  parseMeetingFilters,
+  serializeMeetingFilters,
+  type MeetingSort,
+  type PersonMode,
+  type RangePreset,
+} from "@/lib/meetingFilters";
+import { PAGE_SIZE, cursorFromRow, keysetFilter, keysetOrder, type MeetingCursor } from "@/lib/meetingCursor";
+import { useInfiniteScroll } from "@/lib/useInfiniteScroll";
+import {
+  LEAD_SELECT,
+  describeDuplicate,
+  findLeadDuplicates,
+  type LeadDuplicate,
+  type LeadRow,
+} from "@/lib/leads";
+import { LEAD_SOURCE_SELECT, cleanCampaign, type LeadSource } from "@/lib/leadSources";
+import { LOST_REASON_SELECT, cleanLostNote, needsLostReason, type LostReason } from "@/lib/lostReasons";
+import MeetingsCalendar, { type CalendarMode } from "./components/MeetingsCalendar";
+import DiscardedBin from "./components/DiscardedBin";
+import BulkActionsBar from "./components/BulkActionsBar";
+import LeadPicker from "./components/LeadPicker";
+import LostReasonFields from "./components/LostReasonFields";
 
 /* ---------------- Types ---------------- */
 
@@ -22,16 +62,41 @@ type MeetingRow = {
   attended_by_id: string;
 
   lead_score: number;
+  // Picked by hand rather than from the scoring rules
+  score_manual: boolean;
 
-  showed_up: boolean;
-  moved_to_ss2: boolean;
+  outcome: MeetingOutcome;
+
+  // Set on a follow-up created by "Reschedule"
+  rescheduled_from_id: string | null;
+
+  lead_id: string | null;
+  lead?: { full_name: string } | null;
+
+  source_id: string | null;
+  campaign: string | null;
+
+  // Only set while outcome = showed
+  lost_reason_id: string | null;
+  lost_note: string | null;
 
   discarded_at: string | null;
   created_at: string;
 };
 
-type PersonMode = "either" | "booked_by" | "taken_by";
-type RangePreset = "week" | "month" | "all";
+const MEETING_SELECT =
+  "id, meeting_name, meeting_at, booked_by_id, attended_by_id, lead_score, score_manual, outcome, rescheduled_from_id, lead_id, source_id, campaign, lost_reason_id, lost_note, discarded_at, created_at, lead:leads(full_name)";
+
+// Calendar windows are a day or a week, so they load in one go
+const CALENDAR_LIMIT = 1000;
+
+type FilterPreset = {
+  id: string;
+  name: string;
+  query: string;
+};
+
+type ViewMode = "list" | "calendar";
 
 /* ---------------- Utils ---------------- */
 
@@ -173,7 +238,17 @@ function rangeLabel(
 /* ---------------- Component ---------------- */
 
 export default function MeetingsPage() {
+  // useSearchParams needs a Suspense boundary in the app router
+  return (
+    <Suspense fallback={<div className="p-6 text-black">Loading…</div>}>
+      <MeetingsPageInner />
+    </Suspense>
+  );
+}
+
+function MeetingsPageInner() {
   const router = useRouter();
+  const searchParams = useSearchParams();
 
   const [loading, setLoading] = useState(true);
   const [msg, setMsg] = useState<string | null>(null);
@@ -191,15 +266,65 @@ export default function MeetingsPage() {
 
   const [meetings, setMeetings] = useState<MeetingRow[]>([]);
 
-  /* ---------------- Filters ---------------- */
+  // List paging: total comes from the server, pages are appended on scroll
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const listGenRef = useRef(0); // bumps on every fresh load so stale pages are dropped
+
+  /* ---------------- Filters (mirrored in the query string) ---------------- */
+
+  const [initialFilters] = useState(() => parseMeetingFilters(new URLSearchParams(searchParams.toString())));
 
-  const [rangePreset, setRangePreset] = useState<RangePreset>("week");
+  const [rangePreset, setRangePreset] = useState<RangePreset>(initialFilters.range);
 
-  const [searchInput, setSearchInput] = useState("");
-  const [searchApplied, setSearchApplied] = useState("");
+  const [searchInput, setSearchInput] = useState(initialFilters.search);
+  const [searchApplied, setSearchApplied] = useState(initialFilters.search);
 
-  const [personMode, setPersonMode] = useState<PersonMode>("either");
-  const [personId, setPersonId] = useState<string>(""); // "" = all
+  const [personMode, setPersonMode] = useState<PersonMode>(initialFilters.personMode);
+  const [personId, setPersonId] = useState<string>(initialFilters.personId); // "" = all
+
+  const [outcomeFilter, setOutcomeFilter] = useState<MeetingOutcome | "">(initialFilters.outcome);
+  const [scoreFilter, setScoreFilter] = useState<number | null>(initialFilters.score);
+  const [sortBy, setSortBy] = useState<MeetingSort>(initialFilters.sort);
+
+  const filterQuery = useMemo(
+    () =>
+      serializeMeetingFilters({
+        range: rangePreset,
+        personId,
+        personMode,
+        search: searchApplied,
+        outcome: outcomeFilter,
+        score: scoreFilter,
+        sort: sortBy,
+      }),
+    [rangePreset, personId, personMode, searchApplied, outcomeFilter, scoreFilter, sortBy]
+  );
+
+  // Keep the URL shareable without adding history entries per tweak
+  useEffect(() => {
+    if (filterQuery === searchParams.toString()) return;
+    router.replace(filterQuery ? `/meetings?${filterQuery}` : "/meetings", { scroll: false });
+  }, [filterQuery, searchParams, router]);
+
+  function applyFilterQuery(query: string) {
+    const f = parseMeetingFilters(new URLSearchParams(query));
+    setRangePreset(f.range);
+    setPersonId(f.personId);
+    setPersonMode(f.personMode);
+    setSearchInput(f.search);
+    setSearchApplied(f.search);
+    setOutcomeFilter(f.outcome);
+    setScoreFilter(f.score);
+    setSortBy(f.sort);
+    setViewMode("list");
+  }
+
+  // Saved presets
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [presetName, setPresetName] = useState("");
+  const [savingPreset, setSavingPreset] = useState(false);
 
   // Date windows
   const weekStartISO = useMemo(() => startOfWeekISO_Melb(new Date()), []);
@@ -207,18 +332,33 @@ export default function MeetingsPage() {
 
   const { monthStartISO, monthEndExclusiveISO } = useMemo(() => businessMonthRangeISO(new Date()), []);
 
-  // Active UTC range for meetings query
+  /* ---------------- Calendar ---------------- */
+
+  const [viewMode, setViewMode] = useState<ViewMode>("list");
+  const [calMode, setCalMode] = useState<CalendarMode>("week");
+  const [calAnchorISO, setCalAnchorISO] = useState<string>(() => toISODateMelb(new Date()));
+
+  // Visible calendar days (Melbourne dates)
+  const calDays = useMemo(() => {
+    if (calMode === "day") return [calAnchorISO];
+    const start = startOfWeekISO_Melb(new Date(`${calAnchorISO}T00:00:00`));
+    return Array.from({ length: 7 }, (_, i) => addDaysISO(start, i));
+  }, [calMode, calAnchorISO]);
+
+  // Active UTC range for meetings query (calendar uses its visible window instead of the preset)
   const rangeStartUtcIso = useMemo(() => {
+    if (viewMode === "calendar") return melbMidnightToUtcIso(calDays[0]);
     if (rangePreset === "week") return melbMidnightToUtcIso(weekStartISO);
     if (rangePreset === "month") return melbMidnightToUtcIso(monthStartISO);
     return null;
-  }, [rangePreset, weekStartISO, monthStartISO]);
+  }, [viewMode, calDays, rangePreset, weekStartISO, monthStartISO]);
 
   const rangeEndUtcIso = useMemo(() => {
+    if (viewMode === "calendar") return melbMidnightToUtcIso(addDaysISO(calDays[calDays.length - 1], 1));
     if (rangePreset === "week") return melbMidnightToUtcIso(weekEndExclusiveISO);
     if (rangePreset === "month") return melbMidnightToUtcIso(monthEndExclusiveISO);
     return null;
-  }, [rangePreset, weekEndExclusiveISO, monthEndExclusiveISO]);
+  }, [viewMode, calDays, rangePreset, weekEndExclusiveISO, monthEndExclusiveISO]);
 
   /* ---------------- Create form ---------------- */
 
@@ -228,15 +368,126 @@ export default function MeetingsPage() {
   const [bookedById, setBookedById] = useState<string>("");
   const [attendedById, setAttendedById] = useState<string>("");
 
-  const [leadScore, setLeadScore] = useState<number>(1);
-  const [showedUp, setShowedUp] = useState<boolean>(true);
-  const [movedToSs2, setMovedToSs2] = useState<boolean>(false);
+  // null = let the scoring rules decide
+  const [leadScore, setLeadScore] = useState<number | null>(null);
+  const [outcome, setOutcome] = useState<MeetingOutcome>("scheduled");
+  const [lostReasonId, setLostReasonId] = useState<string | null>(null);
+  const [lostNote, setLostNote] = useState("");
+
+  // Lead: pick an existing one, or a new lead is created from the name + contact details
+  const [selectedLead, setSelectedLead] = useState<LeadRow | null>(null);
+  const [newLeadPhone, setNewLeadPhone] = useState("");
+  const [newLeadEmail, setNewLeadEmail] = useState("");
+  const [leadDuplicates, setLeadDuplicates] = useState<LeadDuplicate[]>([]);
+
+  // Attribution
+  const [sources, setSources] = useState<LeadSource[]>([]);
+  const [sourceId, setSourceId] = useState("");
+  const [campaign, setCampaign] = useState("");
+
+  const [lostReasons, setLostReasons] = useState<LostReason[]>([]);
 
   const [creating, setCreating] = useState(false);
+  const createRef = useRef<HTMLDivElement | null>(null);
+
+  // Taker availability for the chosen day (slot picker)
+  const createDateISO = meetingAtLocal.slice(0, 10);
+  const createTimeHHMM = meetingAtLocal.slice(11, 16);
+  const [takerAvailability, setTakerAvailability] = useState<AvailabilityRow[]>([]);
+  const [takerBookedIsos, setTakerBookedIsos] = useState<string[]>([]);
+
+  // Round-robin proposal for "Taken by" (kept until the booker picks someone by hand)
+  const [roundRobinOn, setRoundRobinOn] = useState(false);
+  const [assignmentRules, setAssignmentRules] = useState<Record<string, AssignmentRule>>({});
+  const [assignment, setAssignment] = useState<AssignmentDecision | null>(null);
+  const takerPickedRef = useRef(false);
+
+  // Admin-only: book outside availability / on top of another meeting
+  const [overrideBooking, setOverrideBooking] = useState(false);
+  const [overrideReason, setOverrideReason] = useState("");
+
+  const takerSlots = useMemo(
+    () => slotsForDate(takerAvailability, createDateISO),
+    [takerAvailability, createDateISO]
+  );
+  const takerFreeSlots = useMemo(
+    () => freeSlotsForDate(takerAvailability, createDateISO, takerBookedIsos),
+    [takerAvailability, createDateISO, takerBookedIsos]
+  );
   const [savingMeetingId, setSavingMeetingId] = useState<string | null>(null);
 
+  /* ---------------- Reschedule ---------------- */
+
+  const [rescheduleId, setRescheduleId] = useState<string | null>(null);
+  const [rescheduleAtLocal, setRescheduleAtLocal] = useState<string>("");
+
+  /* ---------------- Discard ---------------- */
+
+  const [discardId, setDiscardId] = useState<string | null>(null);
+  const [discardReason, setDiscardReason] = useState<string>("");
+  const [showBin, setShowBin] = useState(false);
+
+  /* ---------------- Bulk selection ---------------- */
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkBusy, setBulkBusy] = useState(false);
+
   /* ---------------- Load ---------------- */
 
+  /**
+   * One page of meetings for the current filters. List view pages by
+   * (meeting_at, id) keyset and asks for an exact count on the first page;
+   * calendar view loads its whole (short) window.
+   */
+  const fetchMeetingsPage = useCallback(
+    async (uid: string, adminFlag: boolean, term: string, after: MeetingCursor | null) => {
+      const paged = viewMode === "list";
+      const sort: MeetingSort = paged ? sortBy : "newest";
+
+      let q = supabase
+        .from("meetings")
+        .select(MEETING_SELECT, { count: paged && !after ? "exact" : undefined })
+        .is("discarded_at", null);
+
+      keysetOrder(sort).forEach((o) => {
+        q = q.order(o.column, { ascending: o.ascending });
+      });
+      q = q.limit(paged ? PAGE_SIZE : CALENDAR_LIMIT);
+
+      if (after) q = q.or(keysetFilter(sort, after));
+
+      // Range filter (week/month/calendar window) — all-time skips this
+      if (rangeStartUtcIso && rangeEndUtcIso) {
+        q = q.gte("meeting_at", rangeStartUtcIso).lt("meeting_at", rangeEndUtcIso);
+      }
+
+      // Non-admin: keep it restricted
+      if (!adminFlag) {
+        q = q.or(`booked_by_id.eq.${uid},attended_by_id.eq.${uid}`);
+      }
+
+      // Person filter
+      if (personId) {
+        if (personMode === "booked_by") q = q.eq("booked_by_id", personId);
+        else if (personMode === "taken_by") q = q.eq("attended_by_id", personId);
+        else q = q.or(`booked_by_id.eq.${personId},attended_by_id.eq.${personId}`);
+      }
+
+      // Facets
+      if (outcomeFilter) q = q.eq("outcome", outcomeFilter);
+      if (scoreFilter != null) q = q.eq("lead_score", scoreFilter);
+
+      // Search
+      if (term) q = q.ilike("meeting_name", `%${term}%`);
+
+      const res = await q;
+      if (res.error) throw new Error(res.error.message);
+
+      return { rows: (res.data ?? []) as unknown as MeetingRow[], count: res.count ?? null };
+    },
+    [viewMode, sortBy, rangeStartUtcIso, rangeEndUtcIso, personId, personMode, outcomeFilter, scoreFilter]
+  );
+
   const load = useCallback(
     async (overrideSearch?: string) => {
       setLoading(true);
@@ -272,60 +523,141 @@ export default function MeetingsPage() {
         if (pRes.error) throw new Error(pRes.error.message);
         setProfiles((pRes.data ?? []) as ProfileRow[]);
 
-        // meetings query
-        let q = supabase
-          .from("meetings")
-          .select(
-            "id, meeting_name, meeting_at, booked_by_id, attended_by_id, lead_score, showed_up, moved_to_ss2, discarded_at, created_at"
-          )
-          .is("discarded_at", null)
-          .order("meeting_at", { ascending: false })
-          .limit(1000);
-
-        // Range filter (week/month) — all-time skips this
-        if (rangePreset !== "all" && rangeStartUtcIso && rangeEndUtcIso) {
-          q = q.gte("meeting_at", rangeStartUtcIso).lt("meeting_at", rangeEndUtcIso);
-        }
-
-        // Non-admin: keep it restricted
-        if (!adminFlag) {
-          q = q.or(`booked_by_id.eq.${uid},attended_by_id.eq.${uid}`);
-        }
-
-        // Person filter
-        if (personId) {
-          if (personMode === "booked_by") q = q.eq("booked_by_id", personId);
-          else if (personMode === "taken_by") q = q.eq("attended_by_id", personId);
-          else q = q.or(`booked_by_id.eq.${personId},attended_by_id.eq.${personId}`);
-        }
-
-        // Search
+        // round-robin config + lead sources + lost reasons
+        const [rrRes, rulesRes, srcRes, lostRes] = await Promise.all([
+          supabase.from("app_settings").select("value").eq("key", ROUND_ROBIN_KEY).maybeSingle(),
+          supabase.from("closer_assignment_rules").select("closer_id, enabled, weight, daily_cap"),
+          supabase
+            .from("lead_sources")
+            .select(LEAD_SOURCE_SELECT)
+            .order("sort_order", { ascending: true })
+            .order("name", { ascending: true }),
+          supabase
+            .from("lost_reasons")
+            .select(LOST_REASON_SELECT)
+            .order("sort_order", { ascending: true })
+            .order("label", { ascending: true }),
+        ]);
+
+        if (rrRes.error) throw new Error(rrRes.error.message);
+        if (rulesRes.error) throw new Error(rulesRes.error.message);
+        if (srcRes.error) throw new Error(srcRes.error.message);
+        if (lostRes.error) throw new Error(lostRes.error.message);
+
+        setSources((srcRes.data ?? []) as LeadSource[]);
+        setLostReasons((lostRes.data ?? []) as LostReason[]);
+
+        setRoundRobinOn(rrRes.data?.value === true);
+        const rules: Record<string, AssignmentRule> = {};
+        ((rulesRes.data ?? []) as AssignmentRule[]).forEach((r) => (rules[r.closer_id] = r));
+        setAssignmentRules(rules);
+
+        // meetings (first page)
+        const gen = ++listGenRef.current;
         const term = (overrideSearch ?? searchApplied).trim();
-        if (term) q = q.ilike("meeting_name", `%${term}%`);
-
-        const mtgRes = await q;
-        if (mtgRes.error) throw new Error(mtgRes.error.message);
+        const page = await fetchMeetingsPage(uid, adminFlag, term, null);
+        if (gen !== listGenRef.current) return;
 
-        setMeetings((mtgRes.data ?? []) as MeetingRow[]);
+        setMeetings(page.rows);
+        setTotalCount(page.count);
+        setHasMore(viewMode === "list" && page.count != null && page.rows.length < page.count);
         setLoading(false);
       } catch (e: any) {
         setMsg(e?.message ?? "Failed to load meetings.");
         setLoading(false);
       }
     },
-    [router, rangePreset, rangeStartUtcIso, rangeEndUtcIso, personId, personMode, searchApplied]
+    [router, searchApplied, viewMode, fetchMeetingsPage]
   );
 
+  async function loadMore() {
+    const last = meetings[meetings.length - 1];
+    if (!hasMore || loadingMore || !last || !userId) return;
+
+    const gen = listGenRef.current;
+    setLoadingMore(true);
+
+    try {
+      const page = await fetchMeetingsPage(userId, isAdmin, searchApplied.trim(), cursorFromRow(last));
+      if (gen !== listGenRef.current) return;
+
+      setMeetings((prev) => {
+        const seen = new Set(prev.map((m) => m.id));
+        return [...prev, ...page.rows.filter((m) => !seen.has(m.id))];
+      });
+      setHasMore(page.rows.length === PAGE_SIZE);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to load more meetings.");
+      setHasMore(false);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  const sentinelRef = useInfiniteScroll(loadMore, hasMore && !loadingMore);
+
   // initial load
   useEffect(() => {
-    load("");
+    load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  /* ---------------- Presets ---------------- */
+
+  const loadPresets = useCallback(async () => {
+    const res = await supabase
+      .from("meeting_filter_presets")
+      .select("id, name, query")
+      .order("name", { ascending: true });
+
+    if (res.error) throw new Error(res.error.message);
+    setPresets((res.data ?? []) as FilterPreset[]);
+  }, []);
+
+  useEffect(() => {
+    loadPresets().catch((e) => setMsg(e?.message ?? "Failed to load saved filters."));
+  }, [loadPresets]);
+
+  async function savePreset() {
+    const name = presetName.trim();
+    if (!name) return;
+
+    setSavingPreset(true);
+    setMsg(null);
+
+    try {
+      // same name overwrites
+      const { error } = await supabase
+        .from("meeting_filter_presets")
+        .upsert({ owner_id: userId, name, query: filterQuery }, { onConflict: "owner_id,name" });
+
+      if (error) throw new Error(error.message);
+
+      setPresetName("");
+      await loadPresets();
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to save filter.");
+    } finally {
+      setSavingPreset(false);
+    }
+  }
+
+  async function deletePreset(id: string) {
+    setMsg(null);
+    try {
+      const { error } = await supabase.from("meeting_filter_presets").delete().eq("id", id);
+      if (error) throw new Error(error.message);
+
+      setPresets((prev) => prev.filter((p) => p.id !== id));
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to delete filter.");
+    }
+  }
+
   // reload when non-search filters change
   useEffect(() => {
     load();
-  }, [rangePreset, personId, personMode]); // intentionally excludes searchInput
+  }, [rangePreset, personId, personMode, outcomeFilter, scoreFilter, sortBy, viewMode, calMode, calAnchorISO]); // intentionally excludes searchInput
 
   // defaults once profiles loaded
   useEffect(() => {
@@ -334,27 +666,230 @@ export default function MeetingsPage() {
     if (!attendedById) setAttendedById(userId);
   }, [userId, profiles, bookedById, attendedById]);
 
+  // Day view columns: closers plus anyone taking a meeting that day
+  const calClosers = useMemo(() => {
+    if (personId && personMode === "taken_by") {
+      const p = profilesById[personId];
+      return p ? [p] : [];
+    }
+    const ids = new Set(profiles.filter((p) => normRole(p.role) === "closer").map((p) => p.id));
+    meetings.forEach((m) => ids.add(m.attended_by_id));
+    return profiles.filter((p) => ids.has(p.id));
+  }, [profiles, profilesById, meetings, personId, personMode]);
+
+  function shiftCalendar(dir: -1 | 1) {
+    setCalAnchorISO((prev) => addDaysISO(prev, dir * (calMode === "week" ? 7 : 1)));
+  }
+
+  /** Tap on an empty calendar slot → pre-fill the create form */
+  function prefillFromSlot(dateISO: string, hour: number, closerId?: string) {
+    setMeetingAtLocal(`${dateISO}T${String(hour).padStart(2, "0")}:00`);
+
+    const takerId = closerId ?? (personId && personMode === "taken_by" ? personId : "");
+    if (takerId) {
+      takerPickedRef.current = true;
+      setAttendedById(takerId);
+    }
+
+    createRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }
+
+  /* ---------------- Slots ---------------- */
+
+  const loadTakerSlots = useCallback(async () => {
+    if (!attendedById || !/^\d{4}-\d{2}-\d{2}$/.test(createDateISO)) return;
+
+    const avRes = await supabase
+      .from("closer_availability")
+      .select("id, closer_id, weekday, start_time, end_time, active")
+      .eq("closer_id", attendedById)
+      .eq("active", true);
+
+    if (avRes.error) throw new Error(avRes.error.message);
+
+    const dayRes = await supabase
+      .from("meetings")
+      .select("meeting_at")
+      .eq("attended_by_id", attendedById)
+      .is("discarded_at", null)
+      .not("outcome", "in", "(cancelled,rescheduled)")
+      .gte("meeting_at", melbMidnightToUtcIso(createDateISO))
+      .lt("meeting_at", melbMidnightToUtcIso(addDaysISO(createDateISO, 1)));
+
+    if (dayRes.error) throw new Error(dayRes.error.message);
+
+    setTakerAvailability((avRes.data ?? []) as AvailabilityRow[]);
+    setTakerBookedIsos((dayRes.data ?? []).map((r: { meeting_at: string }) => r.meeting_at));
+  }, [attendedById, createDateISO]);
+
+  useEffect(() => {
+    loadTakerSlots().catch((e) => setMsg(e?.message ?? "Failed to load availability."));
+  }, [loadTakerSlots]);
+
+  /* ---------------- Round-robin ---------------- */
+
+  const loadAssignment = useCallback(async () => {
+    if (!roundRobinOn || profiles.length === 0 || !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(meetingAtLocal)) {
+      setAssignment(null);
+      return;
+    }
+
+    const avRes = await supabase
+      .from("closer_availability")
+      .select("id, closer_id, weekday, start_time, end_time, active")
+      .eq("active", true);
+
+    if (avRes.error) throw new Error(avRes.error.message);
+
+    const dayRes = await supabase
+      .from("meetings")
+      .select("attended_by_id, meeting_at, created_at")
+      .is("discarded_at", null)
+      .not("outcome", "in", "(cancelled,rescheduled)")
+      .gte("meeting_at", melbMidnightToUtcIso(createDateISO))
+      .lt("meeting_at", melbMidnightToUtcIso(addDaysISO(createDateISO, 1)));
+
+    if (dayRes.error) throw new Error(dayRes.error.message);
+
+    // Latest meeting per closer on any day, for the least-recently-assigned tie-break
+    const recentRes = await supabase
+      .from("meetings")
+      .select("attended_by_id, created_at")
+      .not("attended_by_id", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(500);
+
+    if (recentRes.error) throw new Error(recentRes.error.message);
+
+    const lastAssignedById: Record<string, string> = {};
+    ((recentRes.data ?? []) as { attended_by_id: string; created_at: string }[]).forEach((r) => {
+      lastAssignedById[r.attended_by_id] ??= r.created_at;
+    });
+
+    setAssignment(
+      proposeCloser({
+        profiles,
+        rulesById: assignmentRules,
+        availability: (avRes.data ?? []) as AvailabilityRow[],
+        dayMeetings: dayRes.data ?? [],
+        lastAssignedById,
+        meetingAtIso: fromDatetimeLocalToIso(meetingAtLocal),
+        dateISO: createDateISO,
+      })
+    );
+  }, [roundRobinOn, profiles, assignmentRules, meetingAtLocal, createDateISO]);
+
+  useEffect(() => {
+    loadAssignment().catch((e) => setMsg(e?.message ?? "Failed to suggest a closer."));
+  }, [loadAssignment]);
+
+  // Follow the proposal until the booker overrides it
+  useEffect(() => {
+    if (assignment?.picked && !takerPickedRef.current) setAttendedById(assignment.picked);
+  }, [assignment]);
+
+  function applySuggestedTaker() {
+    takerPickedRef.current = false;
+    if (assignment?.picked) setAttendedById(assignment.picked);
+  }
+
   /* ---------------- Create meeting ---------------- */
 
-  async function createMeeting() {
+  async function createMeeting(forceNewLead = false) {
     setCreating(true);
     setMsg(null);
 
     try {
       if (!userId) throw new Error("Not logged in.");
+      if (!selectedLead && !meetingName.trim()) throw new Error("Pick a lead or enter the lead's name.");
       if (!bookedById) throw new Error("Select who booked it.");
       if (!attendedById) throw new Error("Select who took it.");
+      if (!sourceId && sources.some((s) => s.active)) throw new Error("Select where the lead came from.");
+      if (needsLostReason(outcome) && !lostReasonId) throw new Error("Pick why it didn't move to SS2.");
 
       const meetingAtIso = fromDatetimeLocalToIso(meetingAtLocal);
 
+      const overriding = isAdmin && overrideBooking;
+      const reason = overrideReason.trim();
+      if (overriding && !reason) throw new Error("Add a reason for the override.");
+
+      const takerName = profilesById[attendedById]?.full_name ?? "This closer";
+
+      // Only published slots (when the closer has published any for that day)
+      if (!overriding && takerSlots.length > 0 && !takerSlots.includes(createTimeHHMM)) {
+        throw new Error(`${takerName} isn't available then. Pick one of the free slots.`);
+      }
+
+      // Double-booking check (the DB trigger enforces this too)
+      const clashRes = await supabase
+        .from("meetings")
+        .select("id")
+        .eq("attended_by_id", attendedById)
+        .is("discarded_at", null)
+        .not("outcome", "in", "(cancelled,rescheduled)")
+        .gt("meeting_at", new Date(Date.parse(meetingAtIso) - MEETING_MINUTES * 60_000).toISOString())
+        .lt("meeting_at", new Date(Date.parse(meetingAtIso) + MEETING_MINUTES * 60_000).toISOString())
+        .limit(1);
+
+      if (clashRes.error) throw new Error(clashRes.error.message);
+      const clashes = (clashRes.data ?? []).length > 0;
+
+      if (clashes && !overriding) {
+        throw new Error(`${takerName} already has a meeting within an hour of that time.`);
+      }
+
+      // Record how the taker was chosen (proposal kept for audit even when overridden)
+      const followedProposal = !!assignment?.picked && assignment.picked === attendedById;
+      const assignmentDetail = assignment
+        ? followedProposal
+          ? assignment
+          : { ...assignment, overridden_to: attendedById }
+        : null;
+
+      // Lead: reuse the picked one, otherwise create it (after a duplicate check)
+      let leadId = selectedLead?.id ?? null;
+      if (!leadId) {
+        if (!forceNewLead) {
+          const dups = await findLeadDuplicates(newLeadPhone, newLeadEmail);
+          if (dups.length > 0) {
+            setLeadDuplicates(dups);
+            return;
+          }
+        }
+
+        const leadRes = await supabase
+          .from("leads")
+          .insert({
+            full_name: meetingName.trim(),
+            phone: newLeadPhone.trim() || null,
+            email: newLeadEmail.trim() || null,
+            owner_id: bookedById,
+          })
+          .select(LEAD_SELECT)
+          .single();
+
+        if (leadRes.error) throw new Error(leadRes.error.message);
+
+        // keep it selected so a failed meeting insert can be retried without a second lead
+        setSelectedLead(leadRes.data as LeadRow);
+        leadId = leadRes.data.id;
+      }
+
       const payload = {
-        meeting_name: meetingName.trim() ? meetingName.trim() : null,
+        lead_id: leadId,
+        meeting_name: meetingName.trim() ? meetingName.trim() : selectedLead?.full_name ?? null,
         meeting_at: meetingAtIso,
         booked_by_id: bookedById,
         attended_by_id: attendedById,
-        lead_score: leadScore,
-        showed_up: showedUp,
-        moved_to_ss2: movedToSs2,
+        ...(leadScore != null ? { lead_score: leadScore, score_manual: true } : {}),
+        outcome,
+        lost_reason_id: needsLostReason(outcome) ? lostReasonId : null,
+        lost_note: needsLostReason(outcome) ? cleanLostNote(lostNote) : null,
+        override_reason: overriding ? reason : null,
+        assignment_method: followedProposal ? "round_robin" : "manual",
+        assignment_detail: assignmentDetail,
+        source_id: sourceId || null,
+        campaign: cleanCampaign(campaign),
         discarded_at: null,
       };
 
@@ -363,10 +898,23 @@ export default function MeetingsPage() {
 
       await load();
 
+      await loadTakerSlots();
+
+      takerPickedRef.current = false;
+      await loadAssignment();
+
       setMeetingName("");
-      setLeadScore(1);
-      setMovedToSs2(false);
-      setShowedUp(true);
+      setSelectedLead(null);
+      setNewLeadPhone("");
+      setNewLeadEmail("");
+      setLeadDuplicates([]);
+      setCampaign("");
+      setLeadScore(null);
+      setOutcome("scheduled");
+      setLostReasonId(null);
+      setLostNote("");
+      setOverrideBooking(false);
+      setOverrideReason("");
     } catch (e: any) {
       setMsg(e?.message ?? "Failed to create meeting.");
     } finally {
@@ -381,14 +929,19 @@ export default function MeetingsPage() {
     setMsg(null);
 
     try {
+      const showedNotMoved = needsLostReason(m.outcome);
+      if (showedNotMoved && !m.lost_reason_id) throw new Error("Pick why it didn't move to SS2.");
+
       const payload = {
         meeting_name: m.meeting_name,
         meeting_at: m.meeting_at,
         booked_by_id: m.booked_by_id,
         attended_by_id: m.attended_by_id,
         lead_score: m.lead_score,
-        showed_up: m.showed_up,
-        moved_to_ss2: m.moved_to_ss2,
+        score_manual: m.score_manual,
+        outcome: m.outcome,
+        lost_reason_id: showedNotMoved ? m.lost_reason_id : null,
+        lost_note: showedNotMoved ? cleanLostNote(m.lost_note) : null,
       };
 
       const { error } = await supabase.from("meetings").update(payload).eq("id", m.id);
@@ -402,9 +955,18 @@ export default function MeetingsPage() {
     }
   }
 
+  function startDiscard(m: MeetingRow) {
+    setRescheduleId(null);
+    setDiscardReason("");
+    setDiscardId(m.id);
+  }
+
   async function discardMeeting(meetingId: string) {
-    const ok = window.confirm("Discard this meeting? It will disappear from the list but stay saved for KPIs.");
-    if (!ok) return;
+    const reason = cleanDiscardReason(discardReason);
+    if (!reason) {
+      setMsg("Add a reason before discarding.");
+      return;
+    }
 
     setSavingMeetingId(meetingId);
     setMsg(null);
@@ -412,12 +974,13 @@ export default function MeetingsPage() {
     try {
       const { error } = await supabase
         .from("meetings")
-        .update({ discarded_at: new Date().toISOString() })
+        .update({ discarded_at: new Date().toISOString(), discard_reason: reason })
         .eq("id", meetingId);
 
       if (error) throw new Error(error.message);
 
       setMeetings((prev) => prev.filter((m) => m.id !== meetingId));
+      setDiscardId(null);
     } catch (e: any) {
       setMsg(e?.message ?? "Failed to discard meeting.");
     } finally {
@@ -425,6 +988,87 @@ export default function MeetingsPage() {
     }
   }
 
+  // Drop selections that fell out of the list (filters, discards)
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      if (prev.size === 0) return prev;
+      const visible = new Set(meetings.map((m) => m.id));
+      return new Set(Array.from(prev).filter((id) => visible.has(id)));
+    });
+  }, [meetings]);
+
+  function toggleSelected(id: string) {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  /** One RPC for the whole selection, one reload, one summary message */
+  async function applyBulk(patch: BulkPatch, label: string) {
+    const ids = Array.from(selectedIds);
+    if (ids.length === 0) return;
+
+    const ok = window.confirm(`${label} for ${ids.length} meeting${ids.length === 1 ? "" : "s"}?`);
+    if (!ok) return;
+
+    setBulkBusy(true);
+    setMsg(null);
+
+    try {
+      const { data, error } = await supabase.rpc("bulk_update_meetings", { p_ids: ids, p_patch: patch });
+      if (error) throw new Error(error.message);
+
+      const results = (data ?? []) as BulkResult[];
+
+      const nameById: Record<string, string | null> = {};
+      meetings.forEach((m) => (nameById[m.id] = m.meeting_name));
+
+      // keep failures selected so they can be retried
+      setSelectedIds(new Set(results.filter((r) => !r.ok).map((r) => r.meeting_id)));
+
+      await load();
+
+      setMsg(`${label}: ${summarizeBulk(results, nameById)}`);
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Bulk update failed.");
+    } finally {
+      setBulkBusy(false);
+    }
+  }
+
+  function startReschedule(m: MeetingRow) {
+    setDiscardId(null);
+    // Default to the same time the next day
+    const next = new Date(Date.parse(m.meeting_at) + 24 * 60 * 60 * 1000);
+    setRescheduleAtLocal(toDatetimeLocalValue(next));
+    setRescheduleId(m.id);
+  }
+
+  /**
+   * Creates a linked follow-up meeting and marks the original as rescheduled,
+   * so the first attempt drops out of show-rate denominators.
+   */
+  async function rescheduleMeeting(m: MeetingRow) {
+    setSavingMeetingId(m.id);
+    setMsg(null);
+
+    try {
+      if (!rescheduleAtLocal) throw new Error("Pick a new date/time.");
+
+      await rescheduleMeetingAt(m.id, fromDatetimeLocalToIso(rescheduleAtLocal));
+
+      setRescheduleId(null);
+      await load();
+    } catch (e: unknown) {
+      setMsg(e instanceof Error ? e.message : "Failed to reschedule meeting.");
+    } finally {
+      setSavingMeetingId(null);
+    }
+  }
+
   function patchMeeting(id: string, patch: Partial<MeetingRow>) {
     setMeetings((prev) => prev.map((x) => (x.id === id ? { ...x, ...patch } : x)));
   }
@@ -439,7 +1083,7 @@ export default function MeetingsPage() {
           <div>
             <h1 className="text-2xl font-semibold text-black">Meetings</h1>
             <div className="mt-1 text-xs text-black/60">
-              Simple meeting tracker (Booked by / Taken by / Score / Showed / Moved).
+              Simple meeting tracker (Booked by / Taken by / Score / Outcome).
             </div>
             <div className="mt-1 text-[11px] text-black/50">
               Logged in as: <span className="font-medium">{myRole || "user"}</span>
@@ -448,33 +1092,82 @@ export default function MeetingsPage() {
           </div>
 
           <div className="flex gap-2 flex-wrap justify-end">
+            <button
+              onClick={() => setShowBin((v) => !v)}
+              className={`rounded-xl border px-3 py-2 text-xs ${showBin ? "bg-black text-white" : "bg-white text-black"}`}
+            >
+              Discarded
+            </button>
+            <button onClick={() => router.push("/leads")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Leads
+            </button>
+            <button onClick={() => router.push("/availability")} className="rounded-xl border bg-white px-3 py-2 text-xs">
+              Availability
+            </button>
             <button onClick={() => router.push("/hub")} className="rounded-xl border bg-white px-3 py-2 text-xs">
               Hub
             </button>
           </div>
         </div>
 
+        {/* Discarded bin */}
+        {showBin ? (
+          <div className="mb-4 rounded-2xl border bg-gray-100 p-4">
+            <div className="mb-3">
+              <h2 className="text-sm font-semibold text-black">Discarded bin</h2>
+              <div className="mt-1 text-xs text-black/60">
+                Hidden from the list and from stats. Restore to bring a meeting back.
+              </div>
+            </div>
+            <DiscardedBin userId={userId} isAdmin={isAdmin} profilesById={profilesById} onRestored={() => load()} />
+          </div>
+        ) : null}
+
         {/* Filters */}
         <div className="mb-4 rounded-2xl border bg-white p-4">
           <div className="flex items-start justify-between gap-3 flex-wrap">
             <div>
               <div className="text-xs font-semibold text-black/60">Filters</div>
               <div className="mt-1 text-[11px] text-black/50">
-                <b>{rangeLabel(rangePreset, weekStartISO, weekEndExclusiveISO, monthStartISO, monthEndExclusiveISO)}</b>
+                <b>
+                  {viewMode === "calendar"
+                    ? `Calendar: ${fmtRangeShort(calDays[0], addDaysISO(calDays[calDays.length - 1], 1))}`
+                    : rangeLabel(rangePreset, weekStartISO, weekEndExclusiveISO, monthStartISO, monthEndExclusiveISO)}
+                </b>
               </div>
             </div>
 
             <div className="flex gap-2 flex-wrap">
               <select
                 className="rounded-xl border px-3 py-2 text-sm bg-white"
-                value={rangePreset}
-                onChange={(e) => setRangePreset(e.target.value as RangePreset)}
+                value={viewMode}
+                onChange={(e) => setViewMode(e.target.value as ViewMode)}
               >
-                <option value="week">This week</option>
-                <option value="month">This month</option>
-                <option value="all">All time</option>
+                <option value="list">List</option>
+                <option value="calendar">Calendar</option>
               </select>
 
+              {viewMode === "list" ? (
+                <select
+                  className="rounded-xl border px-3 py-2 text-sm bg-white"
+                  value={rangePreset}
+                  onChange={(e) => setRangePreset(e.target.value as RangePreset)}
+                >
+                  <option value="week">This week</option>
+                  <option value="month">This month</option>
+                  <option value="all">All time</option>
+                </select>
+              ) : (
+                <select
+                  className="rounded-xl border px-3 py-2 text-sm bg-white"
+                  value={calMode}
+                  onChange={(e) => setCalMode(e.target.value as CalendarMode)}
+                >
+                  <option value="week">Week</option>
+                  <option value="day">Day</option>
+                </select>
+              )}
+
               <select
                 className="rounded-xl border px-3 py-2 text-sm bg-white"
                 value={personMode}
@@ -498,6 +1191,44 @@ export default function MeetingsPage() {
                 ))}
               </select>
 
+              <select
+                className="rounded-xl border px-3 py-2 text-sm bg-white"
+                value={outcomeFilter}
+                onChange={(e) => setOutcomeFilter(e.target.value as MeetingOutcome | "")}
+              >
+                <option value="">Any outcome</option>
+                {MEETING_OUTCOMES.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+
+              <select
+                className="rounded-xl border px-3 py-2 text-sm bg-white"
+                value={scoreFilter ?? ""}
+                onChange={(e) => setScoreFilter(e.target.value ? Number(e.target.value) : null)}
+              >
+                <option value="">Any score</option>
+                <option value={1}>Score 1</option>
+                <option value={2}>Score 2</option>
+                <option value={3}>Score 3</option>
+              </select>
+
+              {viewMode === "list" ? (
+                <select
+                  className="rounded-xl border px-3 py-2 text-sm bg-white"
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as MeetingSort)}
+                >
+                  {SORT_OPTIONS.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+
               <button
                 onClick={() => {
                   const next = searchInput;
@@ -511,6 +1242,49 @@ export default function MeetingsPage() {
             </div>
           </div>
 
+          {/* Saved filters */}
+          <div className="mt-3 flex items-center gap-2 flex-wrap">
+            {presets.map((p) => (
+              <span
+                key={p.id}
+                className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs ${
+                  p.query === filterQuery ? "bg-black text-white" : "bg-gray-50 text-black"
+                }`}
+              >
+                <button onClick={() => applyFilterQuery(p.query)}>{p.name}</button>
+                <button onClick={() => deletePreset(p.id)} className="opacity-50" title="Delete saved filter">
+                  ×
+                </button>
+              </span>
+            ))}
+
+            <input
+              className="rounded-xl border px-3 py-1.5 text-xs text-black"
+              placeholder="Name this filter…"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  savePreset();
+                }
+              }}
+            />
+            <button
+              onClick={savePreset}
+              disabled={savingPreset || !presetName.trim()}
+              className="rounded-xl border bg-white px-3 py-1.5 text-xs disabled:opacity-60"
+            >
+              Save filter
+            </button>
+            <button
+              onClick={() => navigator.clipboard?.writeText(window.location.href).then(() => setMsg("Link copied ✅"))}
+              className="rounded-xl border bg-white px-3 py-1.5 text-xs"
+            >
+              Copy link
+            </button>
+          </div>
+
           <div className="mt-3">
             <div className="text-xs font-semibold text-black/60">Search meetings</div>
             <input
@@ -531,15 +1305,15 @@ export default function MeetingsPage() {
         </div>
 
         {/* Create */}
-        <div className="rounded-2xl border bg-white p-5 mb-6">
+        <div ref={createRef} className="rounded-2xl border bg-white p-5 mb-6">
           <div className="flex items-start justify-between gap-3 flex-wrap">
             <div>
               <h2 className="text-sm font-semibold text-black">Add meeting</h2>
-              <div className="mt-1 text-xs text-black/60">Booker + taker + score + outcomes.</div>
+              <div className="mt-1 text-xs text-black/60">Booker + taker + score + outcome. Pick a free slot for the taker.</div>
             </div>
 
             <button
-              onClick={createMeeting}
+              onClick={() => createMeeting()}
               disabled={creating}
               className="rounded-xl bg-black px-4 py-2 text-sm text-white disabled:opacity-60"
             >
@@ -549,15 +1323,85 @@ export default function MeetingsPage() {
 
           <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
             <div className="sm:col-span-2">
-              <label className="text-xs font-medium text-black">Meeting name</label>
+              <label className="text-xs font-medium text-black">Lead</label>
+              <LeadPicker
+                selected={selectedLead}
+                onSelect={(l) => {
+                  setSelectedLead(l);
+                  setLeadDuplicates([]);
+                }}
+                placeholder="Search existing leads… (or fill in a new one below)"
+              />
+            </div>
+
+            <div className="sm:col-span-2">
+              <label className="text-xs font-medium text-black">
+                {selectedLead ? "Meeting name" : "New lead name"}
+              </label>
               <input
                 className="mt-1 w-full rounded-xl border px-3 py-2 text-sm text-black"
-                placeholder="e.g. Sachin – IS"
+                placeholder={selectedLead ? `Defaults to ${selectedLead.full_name}` : "e.g. Sachin – IS"}
                 value={meetingName}
                 onChange={(e) => setMeetingName(e.target.value)}
               />
             </div>
 
+            {!selectedLead ? (
+              <>
+                <div>
+                  <label className="text-xs font-medium text-black">Phone</label>
+                  <input
+                    className="mt-1 w-full rounded-xl border px-3 py-2 text-sm text-black"
+                    value={newLeadPhone}
+                    onChange={(e) => {
+                      setNewLeadPhone(e.target.value);
+                      setLeadDuplicates([]);
+                    }}
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-black">Email</label>
+                  <input
+                    className="mt-1 w-full rounded-xl border px-3 py-2 text-sm text-black"
+                    value={newLeadEmail}
+                    onChange={(e) => {
+                      setNewLeadEmail(e.target.value);
+                      setLeadDuplicates([]);
+                    }}
+                  />
+                </div>
+              </>
+            ) : null}
+
+            {leadDuplicates.length > 0 ? (
+              <div className="sm:col-span-2 rounded-xl border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+                <div className="font-medium">This lead may already exist — book against it instead?</div>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {leadDuplicates.map((d) => (
+                    <button
+                      key={d.id}
+                      type="button"
+                      onClick={() => {
+                        setSelectedLead(d);
+                        setLeadDuplicates([]);
+                      }}
+                      className="rounded-xl border bg-white px-3 py-1.5 text-xs text-black"
+                    >
+                      Use {describeDuplicate(d)}
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => createMeeting(true)}
+                    disabled={creating}
+                    className="rounded-xl border border-amber-300 bg-white px-3 py-1.5 text-xs disabled:opacity-60"
+                  >
+                    Create new lead anyway
+                  </button>
+                </div>
+              </div>
+            ) : null}
+
             <div>
               <label className="text-xs font-medium text-black">Meeting date/time</label>
               <input
@@ -568,16 +1412,96 @@ export default function MeetingsPage() {
               />
             </div>
 
+            <div className="sm:col-span-2 order-last">
+              <div className="text-xs font-medium text-black">
+                Free slots • {profilesById[attendedById]?.full_name ?? "—"} • {createDateISO}
+              </div>
+
+              {takerSlots.length === 0 ? (
+                <div className="mt-1 text-[11px] text-black/50">
+                  No availability published for this day — any time can be booked.
+                </div>
+              ) : takerFreeSlots.length === 0 ? (
+                <div className="mt-1 text-[11px] text-black/50">Fully booked on this day.</div>
+              ) : (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {takerFreeSlots.map((slot) => (
+                    <button
+                      key={slot}
+                      type="button"
+                      onClick={() => setMeetingAtLocal(`${createDateISO}T${slot}`)}
+                      className={`rounded-xl border px-3 py-1.5 text-xs ${
+                        slot === createTimeHHMM ? "bg-black text-white" : "bg-white text-black"
+                      }`}
+                    >
+                      {slot}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {isAdmin ? (
+                <div className="mt-3 rounded-xl border bg-gray-50 p-3">
+                  <label className="flex items-center justify-between gap-3 text-xs text-black">
+                    <span>Admin override (outside availability or double-book)</span>
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      checked={overrideBooking}
+                      onChange={(e) => setOverrideBooking(e.target.checked)}
+                    />
+                  </label>
+                  {overrideBooking ? (
+                    <input
+                      className="mt-2 w-full rounded-xl border px-3 py-2 text-sm text-black bg-white"
+                      placeholder="Reason (required)"
+                      value={overrideReason}
+                      onChange={(e) => setOverrideReason(e.target.value)}
+                    />
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
+
+            <div>
+              <label className="text-xs font-medium text-black">Source</label>
+              <select
+                className="mt-1 w-full rounded-xl border px-3 py-2 text-sm bg-white text-black"
+                value={sourceId}
+                onChange={(e) => setSourceId(e.target.value)}
+              >
+                <option value="">Select source…</option>
+                {sources
+                  .filter((s) => s.active)
+                  .map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="text-xs font-medium text-black">Campaign</label>
+              <input
+                className="mt-1 w-full rounded-xl border px-3 py-2 text-sm text-black"
+                placeholder="Optional, e.g. Spring promo"
+                value={campaign}
+                onChange={(e) => setCampaign(e.target.value)}
+              />
+            </div>
+
             <div>
               <label className="text-xs font-medium text-black">Lead score</label>
               <select
                 className="mt-1 w-full rounded-xl border px-3 py-2 text-sm bg-white text-black"
-                value={leadScore}
-                onChange={(e) => setLeadScore(Number(e.target.value))}
+                value={leadScore ?? ""}
+                onChange={(e) => setLeadScore(e.target.value ? Number(e.target.value) : null)}
               >
+                <option value="">Auto (scoring rules)</option>
                 <option value={1}>1</option>
                 <option value={2}>2</option>
-                <option value={3}>3 (Hot)</option>
+                <option value={3}>3</option>
               </select>
             </div>
 
@@ -601,7 +1525,10 @@ export default function MeetingsPage() {
               <select
                 className="mt-1 w-full rounded-xl border px-3 py-2 text-sm bg-white text-black"
                 value={attendedById}
-                onChange={(e) => setAttendedById(e.target.value)}
+                onChange={(e) => {
+                  takerPickedRef.current = true;
+                  setAttendedById(e.target.value);
+                }}
               >
                 {profiles.map((p) => (
                   <option key={p.id} value={p.id}>
@@ -609,171 +1536,409 @@ export default function MeetingsPage() {
                   </option>
                 ))}
               </select>
+
+              {roundRobinOn && assignment ? (
+                <div className="mt-1 text-[11px] text-black/50">
+                  {!assignment.picked ? (
+                    "Round-robin: no closer is free then — pick one by hand."
+                  ) : assignment.picked === attendedById ? (
+                    "Assigned by round-robin."
+                  ) : (
+                    <>
+                      Round-robin suggests{" "}
+                      <b>{profilesById[assignment.picked]?.full_name ?? "—"}</b> — your pick will be recorded as
+                      manual.{" "}
+                      <button type="button" onClick={applySuggestedTaker} className="underline">
+                        Use suggestion
+                      </button>
+                    </>
+                  )}
+                </div>
+              ) : null}
             </div>
 
             <div className="sm:col-span-2">
-              <div className="text-xs font-medium text-black mb-2">Outcomes</div>
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                <label className="flex items-center justify-between rounded-xl border px-3 py-2 text-sm bg-white">
-                  <span className="text-black">Showed up</span>
-                  <input
-                    type="checkbox"
-                    className="h-4 w-4"
-                    checked={showedUp}
-                    onChange={(e) => setShowedUp(e.target.checked)}
-                  />
-                </label>
+              <label className="text-xs font-medium text-black">Outcome</label>
+              <select
+                className="mt-1 w-full rounded-xl border px-3 py-2 text-sm bg-white text-black"
+                value={outcome}
+                onChange={(e) => setOutcome(e.target.value as MeetingOutcome)}
+              >
+                {MEETING_OUTCOMES.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              <div className="mt-1 text-[11px] text-black/50">
+                Leave as Scheduled until the meeting has happened.
+              </div>
+
+              {needsLostReason(outcome) ? (
+                <LostReasonFields
+                  reasons={lostReasons}
+                  reasonId={lostReasonId}
+                  note={lostNote}
+                  onChange={(patch) => {
+                    if (patch.lost_reason_id !== undefined) setLostReasonId(patch.lost_reason_id);
+                    if (patch.lost_note !== undefined) setLostNote(patch.lost_note ?? "");
+                  }}
+                />
+              ) : null}
+            </div>
+          </div>
+        </div>
+
+        {viewMode === "calendar" ? (
+          <div className="rounded-2xl border bg-white p-5">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <div>
+                <h2 className="text-sm font-semibold text-black">
+                  {calMode === "week" ? "Week" : "Day"} • {fmtRangeShort(calDays[0], addDaysISO(calDays[calDays.length - 1], 1))}
+                </h2>
+                <div className="mt-1 text-[11px] text-black/50">
+                  {calMode === "week" ? "Initials = who takes it." : "One column per closer."} Tap an empty slot to book it.
+                </div>
+              </div>
 
-                <label className="flex items-center justify-between rounded-xl border px-3 py-2 text-sm bg-white">
-                  <span className="text-black">Moved to SS2</span>
+              <div className="flex gap-2">
+                <button onClick={() => shiftCalendar(-1)} className="rounded-xl border bg-white px-3 py-2 text-xs">
+                  ←
+                </button>
+                <button
+                  onClick={() => setCalAnchorISO(toISODateMelb(new Date()))}
+                  className="rounded-xl border bg-white px-3 py-2 text-xs"
+                >
+                  Today
+                </button>
+                <button onClick={() => shiftCalendar(1)} className="rounded-xl border bg-white px-3 py-2 text-xs">
+                  →
+                </button>
+              </div>
+            </div>
+
+            <MeetingsCalendar
+              mode={calMode}
+              days={calDays}
+              closers={calClosers}
+              meetings={meetings}
+              profilesById={profilesById}
+              onSlotClick={prefillFromSlot}
+              onOpenMeeting={(id) => router.push(`/meetings/${id}`)}
+            />
+          </div>
+        ) : (
+          // List
+          <div className="rounded-2xl border bg-white p-5">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <div>
+                <h2 className="text-sm font-semibold text-black">{isAdmin ? "All meetings" : "Your meetings"}</h2>
+                {totalCount != null ? (
+                  <div className="mt-1 text-[11px] text-black/50">
+                    Showing <b>{meetings.length}</b> of <b>{totalCount}</b>
+                  </div>
+                ) : null}
+              </div>
+              {meetings.length > 0 ? (
+                <label className="flex items-center gap-2 text-xs text-black/60">
                   <input
                     type="checkbox"
                     className="h-4 w-4"
-                    checked={movedToSs2}
-                    onChange={(e) => setMovedToSs2(e.target.checked)}
+                    checked={selectedIds.size > 0 && selectedIds.size === meetings.length}
+                    onChange={(e) => setSelectedIds(e.target.checked ? new Set(meetings.map((m) => m.id)) : new Set())}
                   />
+                  Select all
                 </label>
-              </div>
+              ) : null}
             </div>
-          </div>
-        </div>
-
-        {/* List */}
-        <div className="rounded-2xl border bg-white p-5">
-          <div className="flex items-center justify-between gap-3 flex-wrap">
-            <h2 className="text-sm font-semibold text-black">{isAdmin ? "All meetings" : "Your meetings"}</h2>
-          </div>
 
-          {meetings.length === 0 ? (
-            <div className="mt-4 text-sm text-black/70">No meetings found.</div>
-          ) : (
-            <div className="mt-4 space-y-3">
-              {meetings.map((m) => {
-                const bookedName = profilesById[m.booked_by_id]?.full_name ?? "—";
-                const takenName = profilesById[m.attended_by_id]?.full_name ?? "—";
-
-                return (
-                  <div key={m.id} className="rounded-2xl border p-4 bg-white">
-                    <div className="flex items-start justify-between gap-3">
-                      <div className="flex items-center gap-3 min-w-0">
-                        <div className="h-9 w-9 rounded-xl border bg-gray-50 flex items-center justify-center text-xs font-semibold">
-                          {initials(m.meeting_name)}
-                        </div>
-                        <div className="min-w-0">
-                          <div className="text-sm font-semibold truncate">{m.meeting_name || "Unnamed meeting"}</div>
-                          <div className="mt-1 text-xs text-black/60">{fmtDateTimeAU(m.meeting_at)}</div>
-                          <div className="mt-1 text-xs text-black/60">
-                            Booked: <span className="font-medium text-black">{bookedName}</span> • Taken:{" "}
-                            <span className="font-medium text-black">{takenName}</span> • Score:{" "}
-                            <span className="font-medium text-black">{m.lead_score ?? 1}</span>
+            {selectedIds.size > 0 ? (
+              <BulkActionsBar
+                count={selectedIds.size}
+                totalVisible={meetings.length}
+                profiles={profiles}
+                lostReasons={lostReasons}
+                busy={bulkBusy}
+                onApply={applyBulk}
+                onSelectAll={() => setSelectedIds(new Set(meetings.map((m) => m.id)))}
+                onClear={() => setSelectedIds(new Set())}
+              />
+            ) : null}
+
+            {meetings.length === 0 ? (
+              <div className="mt-4 text-sm text-black/70">No meetings found.</div>
+            ) : (
+              <div className="mt-4 space-y-3">
+                {meetings.map((m) => {
+                  const bookedName = profilesById[m.booked_by_id]?.full_name ?? "—";
+                  const takenName = profilesById[m.attended_by_id]?.full_name ?? "—";
+
+                  return (
+                    <div
+                      key={m.id}
+                      className={`rounded-2xl border p-4 ${selectedIds.has(m.id) ? "bg-gray-50 border-black/30" : "bg-white"}`}
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="flex items-center gap-3 min-w-0">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 shrink-0"
+                            checked={selectedIds.has(m.id)}
+                            onChange={() => toggleSelected(m.id)}
+                            aria-label="Select meeting"
+                          />
+                          <div className="h-9 w-9 rounded-xl border bg-gray-50 flex items-center justify-center text-xs font-semibold">
+                            {initials(m.meeting_name)}
+                          </div>
+                          <div className="min-w-0">
+                            <div className="text-sm font-semibold truncate">{m.meeting_name || "Unnamed meeting"}</div>
+                            <div className="mt-1 text-xs text-black/60">{fmtDateTimeAU(m.meeting_at)}</div>
+                            <div className="mt-1 text-xs text-black/60">
+                              Booked: <span className="font-medium text-black">{bookedName}</span> • Taken:{" "}
+                              <span className="font-medium text-black">{takenName}</span> • Score:{" "}
+                              <span className="font-medium text-black">
+                                {m.lead_score ?? 1}
+                                {m.score_manual ? " ✋" : ""}
+                              </span>
+                            </div>
+                            {m.source_id ? (
+                              <div className="mt-1 text-xs text-black/60">
+                                Source:{" "}
+                                <span className="font-medium text-black">
+                                  {sources.find((s) => s.id === m.source_id)?.name ?? "—"}
+                                </span>
+                                {m.campaign ? ` • ${m.campaign}` : ""}
+                              </div>
+                            ) : null}
+                            {m.lost_reason_id ? (
+                              <div className="mt-1 text-xs text-amber-800">
+                                Lost: {lostReasons.find((r) => r.id === m.lost_reason_id)?.label ?? "—"}
+                                {m.lost_note ? ` — ${m.lost_note}` : ""}
+                              </div>
+                            ) : null}
+                            {m.lead_id ? (
+                              <button
+                                onClick={() => router.push(`/leads/${m.lead_id}`)}
+                                className="mt-1 mr-3 text-[11px] text-black/50 underline"
+                              >
+                                👤 {m.lead?.full_name ?? "Lead"}
+                              </button>
+                            ) : null}
+                            {m.rescheduled_from_id ? (
+                              <button
+                                onClick={() => router.push(`/meetings/${m.rescheduled_from_id}`)}
+                                className="mt-1 text-[11px] text-black/50 underline"
+                              >
+                                ↻ Follow-up of an earlier attempt
+                              </button>
+                            ) : null}
                           </div>
                         </div>
-                      </div>
-
-                      <div className="flex items-center gap-2">
-                        <button
-                          onClick={() => discardMeeting(m.id)}
-                          disabled={savingMeetingId === m.id}
-                          className="rounded-xl border px-3 py-2 text-xs bg-white text-black disabled:opacity-60"
-                        >
-                          Discard
-                        </button>
-
-                        <button
-                          onClick={() => saveMeetingUpdates(m)}
-                          disabled={savingMeetingId === m.id}
-                          className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
-                        >
-                          {savingMeetingId === m.id ? "Saving…" : "Save"}
-                        </button>
-                      </div>
-                    </div>
 
-                    {/* Quick edits */}
-                    <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
-                      <div className="lg:col-span-2">
-                        <label className="text-xs font-medium text-black">Meeting name</label>
-                        <input
-                          className="mt-1 w-full rounded-xl border px-3 py-2 text-sm text-black"
-                          value={m.meeting_name ?? ""}
-                          onChange={(e) => patchMeeting(m.id, { meeting_name: e.target.value })}
-                        />
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => router.push(`/meetings/${m.id}`)}
+                            className="rounded-xl border px-3 py-2 text-xs bg-white text-black"
+                          >
+                            Open
+                          </button>
+
+                          <button
+                            onClick={() => startReschedule(m)}
+                            disabled={savingMeetingId === m.id || m.outcome === "rescheduled"}
+                            className="rounded-xl border px-3 py-2 text-xs bg-white text-black disabled:opacity-60"
+                          >
+                            Reschedule
+                          </button>
+
+                          <button
+                            onClick={() => startDiscard(m)}
+                            disabled={savingMeetingId === m.id}
+                            className="rounded-xl border px-3 py-2 text-xs bg-white text-black disabled:opacity-60"
+                          >
+                            Discard
+                          </button>
+
+                          <button
+                            onClick={() => saveMeetingUpdates(m)}
+                            disabled={savingMeetingId === m.id}
+                            className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+                          >
+                            {savingMeetingId === m.id ? "Saving…" : "Save"}
+                          </button>
+                        </div>
                       </div>
 
-                      <div>
-                        <label className="text-xs font-medium text-black">Lead score</label>
-                        <select
-                          className="mt-1 w-full rounded-xl border px-3 py-2 text-sm bg-white text-black"
-                          value={m.lead_score ?? 1}
-                          onChange={(e) => patchMeeting(m.id, { lead_score: Number(e.target.value) })}
-                        >
-                          <option value={1}>1</option>
-                          <option value={2}>2</option>
-                          <option value={3}>3 (Hot)</option>
-                        </select>
-                      </div>
+                      {rescheduleId === m.id ? (
+                        <div className="mt-4 rounded-xl border bg-gray-50 p-3">
+                          <div className="text-xs font-medium text-black">Reschedule to</div>
+                          <div className="mt-2 flex gap-2 flex-wrap">
+                            <input
+                              type="datetime-local"
+                              className="flex-1 rounded-xl border px-3 py-2 text-sm bg-white text-black"
+                              value={rescheduleAtLocal}
+                              onChange={(e) => setRescheduleAtLocal(e.target.value)}
+                            />
+                            <button
+                              onClick={() => setRescheduleId(null)}
+                              className="rounded-xl border px-3 py-2 text-xs bg-white text-black"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              onClick={() => rescheduleMeeting(m)}
+                              disabled={savingMeetingId === m.id}
+                              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+                            >
+                              {savingMeetingId === m.id ? "Saving…" : "Create follow-up"}
+                            </button>
+                          </div>
+                          <div className="mt-2 text-[11px] text-black/50">
+                            This attempt is marked Rescheduled and a linked meeting is created.
+                          </div>
+                        </div>
+                      ) : null}
+
+                      {discardId === m.id ? (
+                        <div className="mt-4 rounded-xl border border-red-200 bg-red-50 p-3">
+                          <div className="text-xs font-medium text-black">Why are you discarding this meeting?</div>
+                          <div className="mt-2 flex gap-2 flex-wrap">
+                            {DISCARD_REASONS.map((r) => (
+                              <button
+                                key={r}
+                                type="button"
+                                onClick={() => setDiscardReason(r)}
+                                className={`rounded-xl border px-3 py-1.5 text-xs ${
+                                  discardReason === r ? "bg-black text-white" : "bg-white text-black"
+                                }`}
+                              >
+                                {r}
+                              </button>
+                            ))}
+                          </div>
+                          <div className="mt-2 flex gap-2 flex-wrap">
+                            <input
+                              className="flex-1 rounded-xl border px-3 py-2 text-sm bg-white text-black"
+                              placeholder="Reason (required)"
+                              value={discardReason}
+                              onChange={(e) => setDiscardReason(e.target.value)}
+                            />
+                            <button
+                              onClick={() => setDiscardId(null)}
+                              className="rounded-xl border px-3 py-2 text-xs bg-white text-black"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              onClick={() => discardMeeting(m.id)}
+                              disabled={savingMeetingId === m.id || !discardReason.trim()}
+                              className="rounded-xl bg-black px-3 py-2 text-xs text-white disabled:opacity-60"
+                            >
+                              {savingMeetingId === m.id ? "Saving…" : "Discard"}
+                            </button>
+                          </div>
+                          <div className="mt-2 text-[11px] text-black/50">
+                            Your name and the reason are kept. It can be restored from the Discarded bin.
+                          </div>
+                        </div>
+                      ) : null}
+
+                      {/* Quick edits */}
+                      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                        <div className="lg:col-span-2">
+                          <label className="text-xs font-medium text-black">Meeting name</label>
+                          <input
+                            className="mt-1 w-full rounded-xl border px-3 py-2 text-sm text-black"
+                            value={m.meeting_name ?? ""}
+                            onChange={(e) => patchMeeting(m.id, { meeting_name: e.target.value })}
+                          />
+                        </div>
 
-                      <div>
-                        <label className="text-xs font-medium text-black">Booked by</label>
-                        <select
-                          className="mt-1 w-full rounded-xl border px-3 py-2 text-sm bg-white text-black"
-                          value={m.booked_by_id}
-                          onChange={(e) => patchMeeting(m.id, { booked_by_id: e.target.value })}
-                        >
-                          {profiles.map((p) => (
-                            <option key={p.id} value={p.id}>
-                              {p.full_name ?? p.id}
-                            </option>
-                          ))}
-                        </select>
-                      </div>
+                        <div>
+                          <label className="text-xs font-medium text-black">Lead score</label>
+                          <select
+                            className="mt-1 w-full rounded-xl border px-3 py-2 text-sm bg-white text-black"
+                            value={m.score_manual ? m.lead_score ?? 1 : ""}
+                            onChange={(e) =>
+                              patchMeeting(
+                                m.id,
+                                e.target.value
+                                  ? { lead_score: Number(e.target.value), score_manual: true }
+                                  : { score_manual: false }
+                              )
+                            }
+                          >
+                            <option value="">Auto ({m.lead_score ?? 1})</option>
+                            <option value={1}>1</option>
+                            <option value={2}>2</option>
+                            <option value={3}>3</option>
+                          </select>
+                        </div>
 
-                      <div>
-                        <label className="text-xs font-medium text-black">Taken by</label>
-                        <select
-                          className="mt-1 w-full rounded-xl border px-3 py-2 text-sm bg-white text-black"
-                          value={m.attended_by_id}
-                          onChange={(e) => patchMeeting(m.id, { attended_by_id: e.target.value })}
-                        >
-                          {profiles.map((p) => (
-                            <option key={p.id} value={p.id}>
-                              {p.full_name ?? p.id}
-                            </option>
-                          ))}
-                        </select>
-                      </div>
+                        <div>
+                          <label className="text-xs font-medium text-black">Booked by</label>
+                          <select
+                            className="mt-1 w-full rounded-xl border px-3 py-2 text-sm bg-white text-black"
+                            value={m.booked_by_id}
+                            onChange={(e) => patchMeeting(m.id, { booked_by_id: e.target.value })}
+                          >
+                            {profiles.map((p) => (
+                              <option key={p.id} value={p.id}>
+                                {p.full_name ?? p.id}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
 
-                      <div className="sm:col-span-2 lg:col-span-4">
-                        <label className="text-xs font-medium text-black">Outcomes</label>
-                        <div className="mt-1 grid grid-cols-1 sm:grid-cols-2 gap-3">
-                          <label className="flex items-center justify-between rounded-xl border px-3 py-2 text-sm bg-white">
-                            <span className="text-black">Showed up</span>
-                            <input
-                              type="checkbox"
-                              className="h-4 w-4"
-                              checked={m.showed_up}
-                              onChange={(e) => patchMeeting(m.id, { showed_up: e.target.checked })}
-                            />
-                          </label>
+                        <div>
+                          <label className="text-xs font-medium text-black">Taken by</label>
+                          <select
+                            className="mt-1 w-full rounded-xl border px-3 py-2 text-sm bg-white text-black"
+                            value={m.attended_by_id}
+                            onChange={(e) => patchMeeting(m.id, { attended_by_id: e.target.value })}
+                          >
+                            {profiles.map((p) => (
+                              <option key={p.id} value={p.id}>
+                                {p.full_name ?? p.id}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
 
-                          <label className="flex items-center justify-between rounded-xl border px-3 py-2 text-sm bg-white">
-                            <span className="text-black">Moved to SS2</span>
-                            <input
-                              type="checkbox"
-                              className="h-4 w-4"
-                              checked={m.moved_to_ss2}
-                              onChange={(e) => patchMeeting(m.id, { moved_to_ss2: e.target.checked })}
+                        <div className="sm:col-span-2 lg:col-span-4">
+                          <label className="text-xs font-medium text-black">Outcome</label>
+                          <select
+                            className="mt-1 w-full rounded-xl border px-3 py-2 text-sm bg-white text-black"
+                            value={m.outcome ?? "scheduled"}
+                            onChange={(e) => patchMeeting(m.id, { outcome: e.target.value as MeetingOutcome })}
+                          >
+                            {MEETING_OUTCOMES.map((o) => (
+                              <option key={o.value} value={o.value}>
+                                {o.label}
+                              </option>
+                            ))}
+                          </select>
+
+                          {needsLostReason(m.outcome) ? (
+                            <LostReasonFields
+                              reasons={lostReasons}
+                              reasonId={m.lost_reason_id}
+                              note={m.lost_note}
+                              onChange={(patch) => patchMeeting(m.id, patch)}
                             />
-                          </label>
+                          ) : null}
                         </div>
                       </div>
                     </div>
-                  </div>
-                );
-              })}
-            </div>
-          )}
-        </div>
+                  );
+                })}
+
+                <div ref={sentinelRef} />
+                {loadingMore ? <div className="py-2 text-center text-xs text-black/50">Loading more…</div> : null}
+              </div>
+            )}
+          </div>
+        )}
 
         {msg && <div className="mt-6 rounded-xl border bg-gray-50 p-3 text-sm text-black">{msg}</div>}
       </div>
@@ -0,0 +1,149 @@
+/**
+ * Round-robin closer assignment.
+ *
+ * Each eligible closer's load for the meeting's Melbourne day is divided by
+ * their weight; the lowest ratio wins, ties go to whoever was assigned least
+ * recently (across days, so a fresh day doesn't restart the rotation). The full candidate list is kept so the decision can be stored on
+ * the meeting and audited later.
+ */
+
+import { meetingsOverlap, melbTimeHHMM, slotsForDate, type AvailabilityRow } from "@/lib/closerAvailability";
+
+export const ROUND_ROBIN_KEY = "round_robin_enabled";
+
+export type AssignmentRule = {
+  closer_id: string;
+  enabled: boolean;
+  weight: number;
+  daily_cap: number | null;
+};
+
+export type AssignmentMethod = "round_robin" | "manual";
+
+export type SkipReason = "disabled" | "unavailable" | "busy" | "at_cap";
+
+export type AssignmentCandidate = {
+  closer_id: string;
+  weight: number;
+  daily_cap: number | null;
+  booked_that_day: number;
+  last_assigned_at: string | null;
+  skipped: SkipReason | null;
+};
+
+export type AssignmentDecision = {
+  picked: string | null;
+  meeting_at: string;
+  decided_at: string;
+  candidates: AssignmentCandidate[];
+  /** Set when the booker chose someone other than the proposal */
+  overridden_to?: string;
+};
+
+export type DayMeeting = {
+  attended_by_id: string;
+  meeting_at: string;
+  created_at: string;
+};
+
+export const SKIP_LABELS: Record<SkipReason, string> = {
+  disabled: "Not in rotation",
+  unavailable: "Outside availability",
+  busy: "Already booked then",
+  at_cap: "At daily cap",
+};
+
+function normRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+/** Closers are in the rotation by default; anyone else only once an admin adds a rule */
+export function ruleFor(
+  profile: { id: string; role?: string | null },
+  rulesById: Record<string, AssignmentRule>
+): AssignmentRule {
+  return (
+    rulesById[profile.id] ?? {
+      closer_id: profile.id,
+      enabled: normRole(profile.role) === "closer",
+      weight: 1,
+      daily_cap: null,
+    }
+  );
+}
+
+/**
+ * Propose a taker for a meeting.
+ * `availability` is every active window for the team; a closer with no
+ * windows at all is treated as always available.
+ * `dayMeetings` are the live meetings on the meeting's Melbourne day.
+ * `lastAssignedById` is each closer's most recent meeting (created_at) on any
+ * day; closers missing from it count as never assigned.
+ */
+export function proposeCloser({
+  profiles,
+  rulesById,
+  availability,
+  dayMeetings,
+  lastAssignedById = {},
+  meetingAtIso,
+  dateISO,
+}: {
+  profiles: { id: string; role?: string | null }[];
+  rulesById: Record<string, AssignmentRule>;
+  availability: AvailabilityRow[];
+  dayMeetings: DayMeeting[];
+  lastAssignedById?: Record<string, string>;
+  meetingAtIso: string;
+  dateISO: string;
+}): AssignmentDecision {
+  const slot = melbTimeHHMM(meetingAtIso);
+
+  const candidates: AssignmentCandidate[] = profiles
+    .map((p) => ({ p, rule: ruleFor(p, rulesById) }))
+    .filter(({ rule }) => rule.enabled || !!rulesById[rule.closer_id])
+    .map(({ p, rule }) => {
+      const mine = dayMeetings.filter((m) => m.attended_by_id === p.id);
+      const lastAssigned = mine.reduce<string | null>(
+        (acc, m) => (!acc || m.created_at > acc ? m.created_at : acc),
+        lastAssignedById[p.id] ?? null
+      );
+
+      const windows = availability.filter((a) => a.closer_id === p.id);
+      const slots = slotsForDate(windows, dateISO);
+
+      let skipped: SkipReason | null = null;
+      if (!rule.enabled) skipped = "disabled";
+      else if (windows.length > 0 && !slots.includes(slot)) skipped = "unavailable";
+      else if (mine.some((m) => meetingsOverlap(m.meeting_at, meetingAtIso))) skipped = "busy";
+      else if (rule.daily_cap != null && mine.length >= rule.daily_cap) skipped = "at_cap";
+
+      return {
+        closer_id: p.id,
+        weight: Math.max(1, rule.weight),
+        daily_cap: rule.daily_cap,
+        booked_that_day: mine.length,
+        last_assigned_at: lastAssigned,
+        skipped,
+      };
+    });
+
+  const ranked = candidates
+    .filter((c) => !c.skipped)
+    .sort((a, b) => {
+      const la = a.booked_that_day / a.weight;
+      const lb = b.booked_that_day / b.weight;
+      if (la !== lb) return la - lb;
+      const ta = a.last_assigned_at ?? "";
+      const tb = b.last_assigned_at ?? "";
+      if (ta !== tb) return ta < tb ? -1 : 1;
+      return a.closer_id.localeCompare(b.closer_id);
+    });
+
+  return {
+    picked: ranked[0]?.closer_id ?? null,
+    meeting_at: meetingAtIso,
+    decided_at: new Date().toISOString(),
+    candidates,
+  };
+}
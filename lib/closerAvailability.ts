@@ -0,0 +1,85 @@
+/**
+ * Closer availability + slot helpers.
+ *
+ * Availability rows are weekly wall-clock windows in Melbourne time. A slot
+ * is a MEETING_MINUTES block starting inside a window; the DB trigger
+ * `prevent_double_booking` uses the same length.
+ */
+
+export const MEETING_MINUTES = 60;
+
+export type AvailabilityRow = {
+  id: string;
+  closer_id: string;
+  weekday: number; // ISO: 1 = Mon .. 7 = Sun
+  start_time: string; // "HH:MM[:SS]"
+  end_time: string;
+  active: boolean;
+};
+
+export const WEEKDAYS: { value: number; label: string }[] = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 7, label: "Sun" },
+];
+
+function toMinutes(hhmm: string) {
+  const [h, m] = hhmm.split(":").map((x) => Number(x));
+  return (h || 0) * 60 + (m || 0);
+}
+
+function fromMinutes(total: number) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+}
+
+/** ISO weekday for a Melbourne calendar date (YYYY-MM-DD) */
+export function isoWeekday(dateISO: string) {
+  const d = new Date(`${dateISO}T12:00:00Z`).getUTCDay(); // 0 Sun .. 6 Sat
+  return d === 0 ? 7 : d;
+}
+
+/** Melbourne "HH:MM" for a timestamptz */
+export function melbTimeHHMM(iso: string) {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone: "Australia/Melbourne",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(new Date(iso));
+}
+
+/** Every slot start ("HH:MM") a closer has published for that date */
+export function slotsForDate(rows: AvailabilityRow[], dateISO: string) {
+  const wd = isoWeekday(dateISO);
+  const out = new Set<string>();
+
+  rows
+    .filter((r) => r.active && r.weekday === wd)
+    .forEach((r) => {
+      const end = toMinutes(r.end_time);
+      for (let t = toMinutes(r.start_time); t + MEETING_MINUTES <= end; t += MEETING_MINUTES) {
+        out.add(fromMinutes(t));
+      }
+    });
+
+  return Array.from(out).sort();
+}
+
+/** Two meeting start times clash if they are less than one meeting apart */
+export function meetingsOverlap(aIso: string, bIso: string) {
+  return Math.abs(Date.parse(aIso) - Date.parse(bIso)) < MEETING_MINUTES * 60_000;
+}
+
+/** Published slots minus any that clash with already-booked meetings that day */
+export function freeSlotsForDate(rows: AvailabilityRow[], dateISO: string, bookedIsos: string[]) {
+  const booked = bookedIsos.map((iso) => toMinutes(melbTimeHHMM(iso)));
+  return slotsForDate(rows, dateISO).filter((slot) => {
+    const t = toMinutes(slot);
+    return booked.every((b) => Math.abs(b - t) >= MEETING_MINUTES);
+  });
+}
@@ -0,0 +1,242 @@
+/**
+ * Commission rules and monthly statements. Earnings are worked out from the
+ * business month's meetings (26th → 25th) against admin-defined rules; a
+ * locked statement is a snapshot of that calculation for payroll.
+ */
+
+import { supabase } from "@/lib/supabaseClient";
+import { isMoved, isShow, isShowRateEligible, type MeetingOutcome } from "@/lib/meetingOutcome";
+
+export type CommissionMetric = "shows_booked" | "ss2_moves" | "show_rate" | "ss2_rate";
+export type CommissionRuleKind = "per_unit" | "tier";
+
+/** `targetKey`: the kpi_targets row a blank rule threshold falls back to */
+export const COMMISSION_METRICS: { value: CommissionMetric; label: string; rate: boolean; targetKey: string | null }[] = [
+  { value: "shows_booked", label: "Shows booked", rate: false, targetKey: "appointments_booked" },
+  { value: "ss2_moves", label: "SS2 moves (taken)", rate: false, targetKey: null },
+  { value: "show_rate", label: "Show rate (booked)", rate: true, targetKey: "show_rate" },
+  { value: "ss2_rate", label: "SS2 rate (taken)", rate: true, targetKey: "ss2_rate" },
+];
+
+export const COMMISSION_RULE_KINDS: { value: CommissionRuleKind; label: string }[] = [
+  { value: "per_unit", label: "$ per unit above threshold" },
+  { value: "tier", label: "Bonus when threshold is met" },
+];
+
+export function metricLabel(m: string) {
+  return COMMISSION_METRICS.find((x) => x.value === m)?.label ?? m;
+}
+
+export type CommissionRule = {
+  id: string;
+  name: string;
+  metric: CommissionMetric;
+  kind: CommissionRuleKind;
+  amount: number;
+  threshold: number | null; // null → the KPI target for the metric
+  active: boolean;
+  sort_order: number;
+};
+
+export const COMMISSION_RULE_SELECT = "id, name, metric, kind, amount, threshold, active, sort_order";
+
+export type StatementLine = {
+  rule_id: string;
+  name: string;
+  detail: string;
+  amount: number;
+};
+
+export type CommissionStatement = {
+  id: string;
+  user_id: string;
+  period_start: string; // YYYY-MM-DD
+  period_end: string; // exclusive
+  lines: StatementLine[];
+  total: number;
+  locked_at: string;
+  locked_by: string | null;
+};
+
+export const COMMISSION_STATEMENT_SELECT = "id, user_id, period_start, period_end, lines, total, locked_at, locked_by";
+
+export type PersonMetrics = {
+  occurred_booked: number;
+  shows_booked: number;
+  shows_taken: number;
+  ss2_moves: number;
+};
+
+export type CommissionMeeting = {
+  booked_by_id: string;
+  attended_by_id: string;
+  outcome: MeetingOutcome;
+};
+
+const emptyMetrics = (): PersonMetrics => ({ occurred_booked: 0, shows_booked: 0, shows_taken: 0, ss2_moves: 0 });
+
+/** Booked-by and taken-by counts per person, same rules as the leaderboard */
+export function metricsByPerson(meetings: CommissionMeeting[]) {
+  const out: Record<string, PersonMetrics> = {};
+  const get = (id: string) => (out[id] ??= emptyMetrics());
+
+  meetings.forEach((m) => {
+    if (m.booked_by_id && isShowRateEligible(m.outcome)) {
+      const b = get(m.booked_by_id);
+      b.occurred_booked += 1;
+      if (isShow(m.outcome)) b.shows_booked += 1;
+    }
+    if (m.attended_by_id && isShow(m.outcome)) {
+      const t = get(m.attended_by_id);
+      t.shows_taken += 1;
+      if (isMoved(m.outcome)) t.ss2_moves += 1;
+    }
+  });
+
+  return out;
+}
+
+function daysBetweenISO(startISO: string, endISO: string) {
+  return Math.round((Date.parse(`${endISO}T00:00:00Z`) - Date.parse(`${startISO}T00:00:00Z`)) / 86_400_000);
+}
+
+/** Length of a business month in weeks, for scaling weekly targets */
+export function monthWeeks(startISO: string, endExclusiveISO: string) {
+  return Math.max(1, daysBetweenISO(startISO, endExclusiveISO)) / 7;
+}
+
+/** Multiplier from month-to-date to a full month; 1 once the month is over */
+export function paceFactor(startISO: string, endExclusiveISO: string, todayISO: string) {
+  if (todayISO >= endExclusiveISO) return 1;
+  const elapsed = Math.max(1, daysBetweenISO(startISO, todayISO) + 1);
+  return daysBetweenISO(startISO, endExclusiveISO) / elapsed;
+}
+
+/** Scale counts to a full month at the current pace; rates are left as-is */
+export function projectMetrics(m: PersonMetrics, factor: number): PersonMetrics {
+  return {
+    occurred_booked: Math.round(m.occurred_booked * factor),
+    shows_booked: Math.round(m.shows_booked * factor),
+    shows_taken: Math.round(m.shows_taken * factor),
+    ss2_moves: Math.round(m.ss2_moves * factor),
+  };
+}
+
+/** Metric value, or null for a rate with nothing to divide by. Rates are 0–100. */
+function metricValue(m: PersonMetrics, metric: CommissionMetric) {
+  if (metric === "shows_booked") return m.shows_booked;
+  if (metric === "ss2_moves") return m.ss2_moves;
+  if (metric === "show_rate") return m.occurred_booked ? (m.shows_booked / m.occurred_booked) * 100 : null;
+  return m.shows_taken ? (m.ss2_moves / m.shows_taken) * 100 : null;
+}
+
+/**
+ * Threshold for a rule in this month. Weekly count targets are scaled by the
+ * month's length in weeks; a metric with no target key starts from zero.
+ */
+function ruleThreshold(rule: CommissionRule, weeklyTargets: Record<string, number>, weeks: number) {
+  if (rule.threshold !== null && rule.threshold !== undefined) return Number(rule.threshold);
+
+  const meta = COMMISSION_METRICS.find((x) => x.value === rule.metric);
+  if (!meta?.targetKey) return 0;
+
+  const weekly = weeklyTargets[meta.targetKey];
+  if (weekly === undefined) return null;
+  return meta.rate ? weekly : Math.round(weekly * weeks);
+}
+
+function fmtMetric(v: number, rate: boolean) {
+  return rate ? `${Math.round(v)}%` : String(v);
+}
+
+/** Apply active rules to one person's metrics */
+export function evaluateRules(
+  rules: CommissionRule[],
+  m: PersonMetrics,
+  weeklyTargets: Record<string, number>,
+  weeks: number
+) {
+  const lines: StatementLine[] = [];
+
+  rules
+    .filter((r) => r.active)
+    .forEach((r) => {
+      const rate = !!COMMISSION_METRICS.find((x) => x.value === r.metric)?.rate;
+      const label = metricLabel(r.metric);
+      const value = metricValue(m, r.metric);
+      const threshold = ruleThreshold(r, weeklyTargets, weeks);
+      const amount = Number(r.amount) || 0;
+
+      if (threshold === null) {
+        lines.push({ rule_id: r.id, name: r.name, detail: `No ${label.toLowerCase()} target set`, amount: 0 });
+        return;
+      }
+      if (value === null) {
+        lines.push({ rule_id: r.id, name: r.name, detail: `No ${label.toLowerCase()} yet`, amount: 0 });
+        return;
+      }
+
+      if (r.kind === "per_unit") {
+        const units = Math.max(0, Math.floor(value - threshold));
+        lines.push({
+          rule_id: r.id,
+          name: r.name,
+          detail: `${label} ${fmtMetric(value, rate)} vs ${fmtMetric(threshold, rate)} → ${units} × $${amount}`,
+          amount: units * amount,
+        });
+        return;
+      }
+
+      const met = value >= threshold;
+      lines.push({
+        rule_id: r.id,
+        name: r.name,
+        detail: `${label} ${fmtMetric(value, rate)} ${met ? "≥" : "<"} ${fmtMetric(threshold, rate)}`,
+        amount: met ? amount : 0,
+      });
+    });
+
+  return { lines, total: lines.reduce((t, l) => t + l.amount, 0) };
+}
+
+export async function fetchCommissionRules(): Promise<CommissionRule[]> {
+  const res = await supabase
+    .from("commission_rules")
+    .select(COMMISSION_RULE_SELECT)
+    .order("sort_order", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (res.error) throw new Error(res.error.message);
+  return (res.data ?? []) as CommissionRule[];
+}
+
+/** Active team targets (kpi_targets, setter bucket) keyed by kpi_key */
+export async function fetchWeeklyTargets() {
+  const res = await supabase
+    .from("kpi_targets")
+    .select("kpi_key, target_weekly")
+    .eq("active", true)
+    .eq("role", "setter");
+
+  if (res.error) throw new Error(res.error.message);
+
+  const out: Record<string, number> = {};
+  ((res.data ?? []) as { kpi_key: string; target_weekly: number | null }[]).forEach((r) => {
+    const v = Number(r.target_weekly);
+    if (r.kpi_key && Number.isFinite(v)) out[r.kpi_key] = v;
+  });
+  return out;
+}
+
+/** Non-discarded meetings in [startUtc, endUtc) */
+export async function fetchCommissionMeetings(startUtc: string, endUtc: string) {
+  const res = await supabase
+    .from("meetings")
+    .select("booked_by_id, attended_by_id, outcome")
+    .is("discarded_at", null)
+    .gte("meeting_at", startUtc)
+    .lt("meeting_at", endUtc);
+
+  if (res.error) throw new Error(res.error.message);
+  return (res.data ?? []) as CommissionMeeting[];
+}
@@ -0,0 +1,76 @@
+/**
+ * Deals: what a converted lead is worth. Revenue is counted when a deal
+ * settles (settlement_date); unsettled deals are contracted, not revenue.
+ */
+
+export type DealRow = {
+  id: string;
+  meeting_id: string | null;
+  lead_id: string | null;
+  setter_id: string | null;
+  closer_id: string | null;
+  contract_value: number;
+  commission_amount: number | null;
+  settlement_date: string | null; // YYYY-MM-DD
+  created_by: string | null;
+  created_at: string;
+};
+
+export const DEAL_SELECT =
+  "id, meeting_id, lead_id, setter_id, closer_id, contract_value, commission_amount, settlement_date, created_by, created_at";
+
+// app_settings key: show the revenue column on the hub leaderboard
+export const LEADERBOARD_REVENUE_KEY = "leaderboard_show_revenue";
+
+export function fmtMoney(v: number | null | undefined) {
+  if (v === null || v === undefined || Number.isNaN(v)) return "—";
+  return new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD", maximumFractionDigits: 0 }).format(v);
+}
+
+/** "$12,500.50" / "12500.5" → 12500.5; blank → null; anything else → NaN */
+export function parseMoney(input: string) {
+  const v = input.replace(/[$,\s]/g, "");
+  if (!v) return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? Math.round(n * 100) / 100 : NaN;
+}
+
+export type PersonRevenue = {
+  setter_total: number;
+  setter_deals: number;
+  closer_total: number;
+  closer_deals: number;
+  // each deal once per person, even when they both set and closed it
+  total: number;
+  deals: number;
+};
+
+/** Contract value of settled deals per setter / closer */
+export function revenueByPerson(deals: DealRow[]) {
+  const out: Record<string, PersonRevenue> = {};
+  const get = (id: string) =>
+    (out[id] ??= { setter_total: 0, setter_deals: 0, closer_total: 0, closer_deals: 0, total: 0, deals: 0 });
+
+  deals.forEach((d) => {
+    const value = Number(d.contract_value) || 0;
+
+    if (d.setter_id) {
+      const r = get(d.setter_id);
+      r.setter_total += value;
+      r.setter_deals += 1;
+    }
+    if (d.closer_id) {
+      const r = get(d.closer_id);
+      r.closer_total += value;
+      r.closer_deals += 1;
+    }
+
+    new Set([d.setter_id, d.closer_id].filter((x): x is string => !!x)).forEach((id) => {
+      const r = get(id);
+      r.total += value;
+      r.deals += 1;
+    });
+  });
+
+  return out;
+}
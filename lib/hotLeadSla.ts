@@ -0,0 +1,126 @@
+/**
+ * Hot lead SLAs: a lead should be contacted within `contact_hours` of its
+ * meeting and never sit idle longer than `idle_days`. Idle time runs from the
+ * last follow-up activity, or the meeting itself if nothing has happened yet.
+ * Won / lost leads are closed and never breach.
+ */
+
+import { supabase } from "@/lib/supabaseClient";
+import { cursorFromRow, keysetFilter, keysetOrder, type MeetingCursor } from "@/lib/meetingCursor";
+
+// Rows per request when reading every live hot lead
+const SLA_BATCH = 500;
+
+export const HOT_LEAD_SLA_KEY = "hot_lead_sla";
+
+export type HotLeadSla = { contact_hours: number; idle_days: number };
+export const DEFAULT_HOT_LEAD_SLA: HotLeadSla = { contact_hours: 24, idle_days: 5 };
+
+export function parseHotLeadSla(v: unknown): HotLeadSla {
+  const o = (v ?? {}) as Partial<HotLeadSla>;
+  const hours = Number(o.contact_hours);
+  const days = Number(o.idle_days);
+  return {
+    contact_hours: Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_HOT_LEAD_SLA.contact_hours,
+    idle_days: Number.isFinite(days) && days > 0 ? days : DEFAULT_HOT_LEAD_SLA.idle_days,
+  };
+}
+
+export async function fetchHotLeadSla() {
+  const res = await supabase.from("app_settings").select("value").eq("key", HOT_LEAD_SLA_KEY).maybeSingle();
+  if (res.error) throw new Error(res.error.message);
+  return parseHotLeadSla(res.data?.value);
+}
+
+export type SlaMeeting = {
+  meeting_at: string;
+  hot_stage: string;
+  last_activity_at: string | null;
+  contacted_at: string | null;
+};
+
+export const SLA_SELECT = "meeting_at, hot_stage, last_activity_at, contacted_at";
+
+export type SlaStatus = {
+  notContacted: boolean; // past the contact window with no follow-up yet
+  hoursSinceMeeting: number;
+  idle: boolean;
+  idleDays: number;
+  breached: boolean;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function slaStatus(m: SlaMeeting, sla: HotLeadSla, now = new Date()): SlaStatus {
+  const closed = m.hot_stage === "won" || m.hot_stage === "lost";
+  const meetingMs = Date.parse(m.meeting_at);
+  const hoursSinceMeeting = Math.max(0, (now.getTime() - meetingMs) / HOUR_MS);
+
+  const lastMs = Math.max(meetingMs, m.last_activity_at ? Date.parse(m.last_activity_at) : 0);
+  const idleDays = Math.max(0, Math.floor((now.getTime() - lastMs) / (24 * HOUR_MS)));
+
+  const notContacted = !closed && !m.contacted_at && hoursSinceMeeting > sla.contact_hours;
+  const idle = !closed && idleDays > sla.idle_days;
+
+  return { notContacted, hoursSinceMeeting, idle, idleDays, breached: notContacted || idle };
+}
+
+/** "3d ago" / "5h ago" / "just now" */
+export function fmtAgo(iso: string | null, now = new Date()) {
+  if (!iso) return "never";
+  const h = Math.floor((now.getTime() - Date.parse(iso)) / HOUR_MS);
+  if (h < 1) return "just now";
+  if (h < 24) return `${h}h ago`;
+  return `${Math.floor(h / 24)}d ago`;
+}
+
+export type AtRiskLead = SlaMeeting & {
+  id: string;
+  meeting_name: string | null;
+  attended_by_id: string;
+  lead: { owner_id: string | null } | null;
+  sla: SlaStatus;
+};
+
+/**
+ * Live hot leads currently breaching an SLA. Owner is the lead's owner,
+ * falling back to the person who took the meeting. Reads every live hot lead
+ * a batch at a time (keyset, oldest first), so none drop off the end. Pass
+ * `userId` to keep to the meetings that person booked or took.
+ */
+export async function fetchAtRiskHotLeads(minScore: number, sla: HotLeadSla, userId?: string | null) {
+  type Row = Omit<AtRiskLead, "sla"> & MeetingCursor;
+
+  const now = new Date();
+  const rows: Row[] = [];
+  let after: MeetingCursor | null = null;
+
+  for (;;) {
+    let q = supabase
+      .from("meetings")
+      .select(`id, meeting_name, attended_by_id, lead_score, ${SLA_SELECT}, lead:leads(owner_id)`)
+      .gte("lead_score", minScore)
+      .neq("outcome", "rescheduled")
+      .not("hot_stage", "in", "(won,lost)")
+      .is("discarded_at", null)
+      .lt("meeting_at", now.toISOString());
+
+    if (userId) q = q.or(`booked_by_id.eq.${userId},attended_by_id.eq.${userId}`);
+    if (after) q = q.or(keysetFilter("oldest", after));
+    keysetOrder("oldest").forEach((o) => (q = q.order(o.column, { ascending: o.ascending })));
+
+    const res = await q.limit(SLA_BATCH);
+    if (res.error) throw new Error(res.error.message);
+
+    const page = (res.data ?? []) as unknown as Row[];
+    rows.push(...page);
+    if (page.length < SLA_BATCH) break;
+    after = cursorFromRow(page[page.length - 1]);
+  }
+
+  return rows.map((m) => ({ ...m, sla: slaStatus(m, sla, now) })).filter((m) => m.sla.breached);
+}
+
+export function atRiskOwnerId(m: AtRiskLead) {
+  return m.lead?.owner_id ?? m.attended_by_id;
+}
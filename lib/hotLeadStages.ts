@@ -0,0 +1,32 @@
+/**
+ * Hot lead board columns (meetings.hot_stage). hot_stage_at is when the lead
+ * entered its current column; the DB stamps it on every move.
+ */
+
+import { sortTasks, type HotLeadTask } from "@/lib/hotLeadTasks";
+
+export type HotStage = "new" | "contacted" | "ss2_booked" | "negotiating" | "won" | "lost";
+
+export const HOT_STAGES: { value: HotStage; label: string; headerClass: string }[] = [
+  { value: "new", label: "New", headerClass: "bg-gray-100 text-black/70" },
+  { value: "contacted", label: "Contacted", headerClass: "bg-blue-50 text-blue-800" },
+  { value: "ss2_booked", label: "SS2 booked", headerClass: "bg-purple-50 text-purple-800" },
+  { value: "negotiating", label: "Negotiating", headerClass: "bg-amber-50 text-amber-800" },
+  { value: "won", label: "Won", headerClass: "bg-green-50 text-green-800" },
+  { value: "lost", label: "Lost", headerClass: "bg-red-50 text-red-700" },
+];
+
+export function hotStageLabel(s?: string | null) {
+  return HOT_STAGES.find((x) => x.value === s)?.label ?? "New";
+}
+
+/** Whole days since the lead entered its column */
+export function daysInStage(sinceIso: string, now = new Date()) {
+  return Math.max(0, Math.floor((now.getTime() - Date.parse(sinceIso)) / (24 * 60 * 60 * 1000)));
+}
+
+/** The open task due soonest, if any */
+export function nextTask(tasks: HotLeadTask[] | undefined) {
+  const first = sortTasks(tasks ?? [])[0];
+  return first && !first.done_at ? first : null;
+}
@@ -0,0 +1,74 @@
+/**
+ * Follow-up tasks on hot leads. A task is overdue when it isn't done and its
+ * due date (Melbourne) is before today.
+ */
+
+import { supabase } from "@/lib/supabaseClient";
+
+export type HotLeadTask = {
+  id: string;
+  meeting_id: string;
+  title: string;
+  due_date: string; // YYYY-MM-DD
+  assignee_id: string | null;
+  done_at: string | null;
+  done_by: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+export const HOT_LEAD_TASK_SELECT =
+  "id, meeting_id, title, due_date, assignee_id, done_at, done_by, created_by, created_at";
+
+export const TASK_TITLE_MAX = 200;
+
+export function isOverdue(t: HotLeadTask, todayISO: string) {
+  return !t.done_at && t.due_date < todayISO;
+}
+
+/** Open tasks first (earliest due), then done tasks newest first */
+export function sortTasks(tasks: HotLeadTask[]) {
+  return [...tasks].sort((a, b) => {
+    if (!a.done_at !== !b.done_at) return a.done_at ? 1 : -1;
+    if (!a.done_at) return a.due_date.localeCompare(b.due_date);
+    return (b.done_at ?? "").localeCompare(a.done_at ?? "");
+  });
+}
+
+export type OverdueTask = HotLeadTask & {
+  meeting: { meeting_name: string | null; discarded_at: string | null };
+};
+
+/**
+ * Overdue tasks on live (non-discarded) meetings. `assigneeId` narrows to
+ * one person; null returns everything the caller can read.
+ */
+export async function fetchOverdueTasks(todayISO: string, assigneeId: string | null) {
+  let q = supabase
+    .from("hot_lead_tasks")
+    .select(`${HOT_LEAD_TASK_SELECT}, meeting:meetings!inner(meeting_name, discarded_at)`)
+    .is("done_at", null)
+    .lt("due_date", todayISO)
+    .is("meeting.discarded_at", null)
+    .order("due_date", { ascending: true });
+
+  if (assigneeId) q = q.eq("assignee_id", assigneeId);
+
+  const res = await q;
+  if (res.error) throw new Error(res.error.message);
+  return (res.data ?? []) as unknown as OverdueTask[];
+}
+
+/** Badge count: my overdue tasks on live meetings */
+export async function countOverdueTasks(todayISO: string, assigneeId: string) {
+  const res = await supabase
+    .from("hot_lead_tasks")
+    .select("id, meeting:meetings!inner(discarded_at)", { count: "exact", head: true })
+    .eq("assignee_id", assigneeId)
+    .is("done_at", null)
+    .lt("due_date", todayISO)
+    .is("meeting.discarded_at", null);
+
+  if (res.error) throw new Error(res.error.message);
+  return res.count ?? 0;
+}
@@ -0,0 +1,329 @@
+/**
+ * Daily KPIs: one submission per person per day (kpi_daily_submissions) with
+ * a value per admin-defined field (kpi_daily_values → kpi_fields). Values are
+ * stored as text; reporting sums the numeric ones through the
+ * kpi_daily_numbers view, so any active number field can be aggregated.
+ * Formula fields aren't stored at all; they're worked out from the other
+ * fields and meeting metrics wherever they're shown (lib/kpiFormula.ts).
+ * A field can be limited to some profiles.role values (kpi_field_roles);
+ * people outside those roles neither see it nor count towards its totals.
+ * Submissions go draft → submitted → approved → locked (lib/kpiReview.ts);
+ * drafts aren't reported.
+ */
+
+import { supabase } from "@/lib/supabaseClient";
+import { fetchCommissionMeetings, metricsByPerson, type PersonMetrics } from "@/lib/commissions";
+import { computeFormulas, formulaInputs } from "@/lib/kpiFormula";
+import { checkKpiValue, formatDuration, toKpiInput } from "@/lib/kpiValidation";
+
+export type KpiInputType =
+  | "number"
+  | "integer"
+  | "currency"
+  | "percentage"
+  | "duration"
+  | "yes_no"
+  | "select"
+  | "text"
+  | "formula";
+export type KpiFormat = "number" | "percent";
+
+export type KpiField = {
+  id: string;
+  key: string;
+  label: string | null;
+  active: boolean;
+  sort_order: number | null;
+  input_type: KpiInputType | null;
+  formula: string | null;
+  format: KpiFormat | null;
+  required: boolean | null;
+  min_value: number | null;
+  max_value: number | null;
+  help_text: string | null;
+  options: string[] | null; // choices for "select"
+  roles: KpiFieldRole[] | null; // none = every role
+};
+
+export type KpiFieldRole = { role: string; sort_order: number };
+
+export const KPI_FIELD_SELECT =
+  "id, key, label, active, sort_order, input_type, formula, format, required, min_value, max_value, help_text, options, roles:kpi_field_roles(role, sort_order)";
+
+export function normKpiRole(r?: string | null) {
+  return (r ?? "").trim().toLowerCase();
+}
+
+/** profiles.role values in use, i.e. the roles a field can be assigned to */
+export async function fetchKpiRoles() {
+  const res = await supabase.from("profiles").select("role");
+  if (res.error) throw new Error(res.error.message);
+  const roles = ((res.data ?? []) as { role: string | null }[]).map((p) => normKpiRole(p.role)).filter(Boolean);
+  return [...new Set(roles)].sort();
+}
+
+export function fieldAppliesTo(f: Pick<KpiField, "roles">, role?: string | null) {
+  const roles = f.roles ?? [];
+  return roles.length === 0 || roles.some((r) => r.role === normKpiRole(role));
+}
+
+/** One role's form: its fields in that role's order (falling back to the field's own) */
+export function fieldsForRole(fields: KpiField[], role?: string | null) {
+  const r = normKpiRole(role);
+  const orderOf = (f: KpiField) => f.roles?.find((x) => x.role === r)?.sort_order ?? f.sort_order ?? 100;
+  return fields
+    .filter((f) => fieldAppliesTo(f, r))
+    .sort((a, b) => orderOf(a) - orderOf(b) || kpiLabel(a).localeCompare(kpiLabel(b)));
+}
+
+export type KpiStatus = "draft" | "submitted" | "approved" | "locked";
+
+export type KpiSubmission = {
+  id: string;
+  user_id: string;
+  entry_date: string; // YYYY-MM-DD
+  notes: string | null;
+  status: KpiStatus;
+  submitted_at: string | null;
+  reviewed_at: string | null;
+  review_comment: string | null; // why a manager returned it
+  locked_at: string | null;
+};
+
+export const KPI_SUBMISSION_SELECT =
+  "id, user_id, entry_date, notes, status, submitted_at, reviewed_at, review_comment, locked_at";
+
+/** The field the leaderboards showed before KPIs were configurable */
+export const DEFAULT_KPI_KEY = "appointments_booked";
+
+export function kpiLabel(f?: Pick<KpiField, "key" | "label"> | null) {
+  return f ? f.label || f.key : "KPI";
+}
+
+/** Anything that can be totalled or reported on (yes / no counts the yes days) */
+export function isNumericField(f: Pick<KpiField, "input_type">) {
+  return f.input_type !== "text" && f.input_type !== "select";
+}
+
+export function isFormulaField(f: Pick<KpiField, "input_type">) {
+  return f.input_type === "formula";
+}
+
+/** A reported number in the field's unit ("12.5%", "$1,200", "1:30"); "—" when there's no value */
+export function formatKpiValue(
+  f: Pick<KpiField, "format" | "input_type"> | null | undefined,
+  v: number | null | undefined
+) {
+  if (v == null || !Number.isFinite(v)) return "—";
+  const rounded = Math.round(v * 10) / 10;
+  if (f?.format === "percent" || f?.input_type === "percentage") return `${rounded}%`;
+  if (f?.input_type === "currency") return `$${Math.round(v).toLocaleString()}`;
+  if (f?.input_type === "duration") return formatDuration(v);
+  return String(rounded);
+}
+
+/** A stored value_text as people read it ("Yes", "1:30", "$1,200"…) */
+export function formatStoredKpiValue(f: Pick<KpiField, "format" | "input_type"> | null | undefined, text: string | null) {
+  const t = (text ?? "").trim();
+  if (t === "") return "—";
+  if (f?.input_type === "yes_no") return t === "1" ? "Yes" : "No";
+  if (f?.input_type === "text" || f?.input_type === "select") return t;
+  return formatKpiValue(f, Number(t));
+}
+
+export async function fetchKpiFields(activeOnly = true): Promise<KpiField[]> {
+  let q = supabase
+    .from("kpi_fields")
+    .select(KPI_FIELD_SELECT)
+    .order("sort_order", { ascending: true })
+    .order("label", { ascending: true });
+
+  if (activeOnly) q = q.eq("active", true);
+
+  const res = await q;
+  if (res.error) throw new Error(res.error.message);
+  return (res.data ?? []) as KpiField[];
+}
+
+/** Preferred reporting key: appointments_booked if it's live, else the first number field */
+export function defaultReportKey(fields: KpiField[]) {
+  const numeric = fields.filter((f) => f.active && isNumericField(f));
+  return numeric.find((f) => f.key === DEFAULT_KPI_KEY)?.key ?? numeric[0]?.key ?? DEFAULT_KPI_KEY;
+}
+
+/** One person's submission for a day plus its values keyed by field id, as the form shows them */
+export async function loadKpiDay(userId: string, dateISO: string) {
+  const subRes = await supabase
+    .from("kpi_daily_submissions")
+    .select(KPI_SUBMISSION_SELECT)
+    .eq("user_id", userId)
+    .eq("entry_date", dateISO)
+    .maybeSingle();
+
+  if (subRes.error) throw new Error(subRes.error.message);
+
+  const submission = (subRes.data ?? null) as KpiSubmission | null;
+  const values: Record<string, string> = {};
+  if (!submission) return { submission, values };
+
+  const valRes = await supabase
+    .from("kpi_daily_values")
+    .select("field_id, value_text, field:kpi_fields(input_type)")
+    .eq("submission_id", submission.id);
+
+  if (valRes.error) throw new Error(valRes.error.message);
+
+  type ValueRow = { field_id: string; value_text: string | null; field: Pick<KpiField, "input_type"> | null };
+  ((valRes.data ?? []) as unknown as ValueRow[]).forEach((v) => {
+    values[v.field_id] = toKpiInput(v.field ?? { input_type: null }, v.value_text ?? "");
+  });
+
+  return { submission, values };
+}
+
+/**
+ * Save the signed-in person's day through /api/kpi-day, which re-checks every
+ * value against the field rules (required ones only on submit) and the
+ * lifecycle before storing it. `values` is keyed by field id; the error
+ * carries the first problem.
+ */
+export async function saveKpiDay(
+  dateISO: string,
+  values: Record<string, string>,
+  action: "draft" | "submit",
+  notes?: string | null
+) {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+
+  const res = await fetch("/api/kpi-day", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ entry_date: dateISO, values, action, ...(notes !== undefined ? { notes } : {}) }),
+  });
+
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json?.error || "Failed to save KPIs.");
+  return json.submission as KpiSubmission;
+}
+
+/** Submitted (not just drafted) for the day */
+export async function hasKpiSubmission(userId: string, dateISO: string) {
+  const res = await supabase
+    .from("kpi_daily_submissions")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("entry_date", dateISO)
+    .neq("status", "draft")
+    .maybeSingle();
+
+  if (res.error) throw new Error(res.error.message);
+  return !!res.data;
+}
+
+/** Entered numbers keyed by field key (in stored units), for evaluating formulas */
+export function numericValuesByKey(fields: KpiField[], valuesByFieldId: Record<string, string>) {
+  const out: Record<string, number> = {};
+  fields.forEach((f) => {
+    if (isFormulaField(f) || !isNumericField(f)) return;
+    const res = checkKpiValue({ ...f, required: false }, valuesByFieldId[f.id] ?? "");
+    const v = "value" in res && res.value !== "" ? Number(res.value) : NaN;
+    if (Number.isFinite(v)) out[f.key] = v;
+  });
+  return out;
+}
+
+/** Meeting metrics per person over [startUtc, endUtc), as formula inputs */
+export async function fetchMeetingMetrics(startUtc: string, endUtc: string) {
+  return metricsByPerson(await fetchCommissionMeetings(startUtc, endUtc));
+}
+
+export type KpiRange = {
+  startISO: string; // Melbourne date, inclusive
+  endExclusiveISO: string;
+  startUtc: string; // the same window as UTC instants, for meetings
+  endUtc: string;
+};
+
+function addVars(into: Record<string, number>, from: Record<string, number> | PersonMetrics | undefined) {
+  Object.entries(from ?? {}).forEach(([k, v]) => (into[k] = (into[k] ?? 0) + v));
+}
+
+/** Ids of the people a field applies to; null when it's for everyone */
+async function applicableUserIds(f: KpiField | undefined) {
+  if (!f || (f.roles ?? []).length === 0) return null;
+
+  const res = await supabase.from("profiles").select("id, role");
+  if (res.error) throw new Error(res.error.message);
+  return ((res.data ?? []) as { id: string; role: string | null }[])
+    .filter((p) => fieldAppliesTo(f, p.role))
+    .map((p) => p.id);
+}
+
+/**
+ * One KPI field per person over a range, plus the team figure. Number fields
+ * are summed; a formula is evaluated on the summed inputs (so a rate is
+ * total shows ÷ total meetings, not an average of daily rates). People with
+ * no value (e.g. a rate with nothing to divide by) are left out of byUser,
+ * and a role-limited field only counts the people in those roles
+ * (`applicable`; null = everyone). `days` is how many person-days had a
+ * value logged, for averages that skip days nothing was entered.
+ * `userIds` narrows the people; omit for everyone the caller can read.
+ */
+export async function fetchKpiTotals(fields: KpiField[], fieldKey: string, range: KpiRange, userIds?: string[]) {
+  const { fieldKeys, metrics } = formulaInputs(fields, fieldKey);
+  const inputs: Record<string, Record<string, number>> = {};
+  const loggedDays: Record<string, Set<string>> = {};
+
+  const applicable = await applicableUserIds(fields.find((f) => f.key === fieldKey));
+  const counts = (uid: string) => (!userIds || userIds.includes(uid)) && (!applicable || applicable.includes(uid));
+
+  if (fieldKeys.length > 0) {
+    let q = supabase
+      .from("kpi_daily_numbers")
+      .select("user_id, entry_date, field_key, value")
+      .in("field_key", fieldKeys)
+      .gte("entry_date", range.startISO)
+      .lt("entry_date", range.endExclusiveISO);
+
+    if (userIds) q = q.in("user_id", userIds);
+
+    const res = await q;
+    if (res.error) throw new Error(res.error.message);
+
+    ((res.data ?? []) as { user_id: string; entry_date: string; field_key: string; value: number | string | null }[]).forEach((r) => {
+      const v = Number(r.value);
+      if (!r.user_id || !Number.isFinite(v) || !counts(r.user_id)) return;
+      const row = (inputs[r.user_id] ??= {});
+      row[r.field_key] = (row[r.field_key] ?? 0) + v;
+      (loggedDays[r.user_id] ??= new Set()).add(r.entry_date);
+    });
+  }
+
+  if (metrics.length > 0) {
+    const byPerson = await fetchMeetingMetrics(range.startUtc, range.endUtc);
+    Object.entries(byPerson).forEach(([uid, m]) => {
+      if (!counts(uid)) return;
+      addVars((inputs[uid] ??= {}), m);
+    });
+  }
+
+  const valueOf = (vars: Record<string, number>) =>
+    fieldKey in vars ? vars[fieldKey] : computeFormulas(fields, vars)[fieldKey] ?? null;
+
+  const byUser: Record<string, number> = {};
+  const daysByUser: Record<string, number> = {};
+  const team: Record<string, number> = {};
+  Object.entries(inputs).forEach(([uid, vars]) => {
+    addVars(team, vars);
+    const v = valueOf(vars);
+    if (v != null) byUser[uid] = v;
+    daysByUser[uid] = loggedDays[uid]?.size ?? 0;
+  });
+
+  const days = Object.values(daysByUser).reduce((a, b) => a + b, 0);
+  return { byUser, total: valueOf(team) ?? 0, days, daysByUser, applicable };
+}
@@ -0,0 +1,300 @@
+/**
+ * Formula KPI fields. A formula is plain arithmetic (+ - * / and brackets)
+ * over other field keys and the meeting metrics below, e.g.
+ * `appointments_booked * show_rate / 100`. Formulas are parsed here rather
+ * than eval'd; dividing by zero gives no value instead of Infinity.
+ */
+
+/** Meeting-derived names a formula can use; counted the same way as commissions */
+export const MEETING_METRICS: { key: string; label: string }[] = [
+  { key: "occurred_booked", label: "Meetings booked that happened (show or no-show)" },
+  { key: "shows_booked", label: "Shows booked" },
+  { key: "shows_taken", label: "Shows taken" },
+  { key: "ss2_moves", label: "SS2 moves (taken)" },
+];
+
+const METRIC_KEYS = new Set(MEETING_METRICS.map((m) => m.key));
+
+export function isMeetingMetric(key: string) {
+  return METRIC_KEYS.has(key);
+}
+
+export type FormulaNode =
+  | { kind: "num"; value: number }
+  | { kind: "ref"; key: string }
+  | { kind: "neg"; arg: FormulaNode }
+  | { kind: "bin"; op: "+" | "-" | "*" | "/"; left: FormulaNode; right: FormulaNode };
+
+type Token = { type: "num"; value: number } | { type: "ref"; key: string } | { type: "op"; op: string };
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < src.length) {
+    const c = src[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+
+    const num = /^\d+(\.\d+)?/.exec(src.slice(i));
+    if (num) {
+      tokens.push({ type: "num", value: Number(num[0]) });
+      i += num[0].length;
+      continue;
+    }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(src.slice(i));
+    if (ident) {
+      tokens.push({ type: "ref", key: ident[0].toLowerCase() });
+      i += ident[0].length;
+      continue;
+    }
+
+    if ("+-*/()".includes(c)) {
+      tokens.push({ type: "op", op: c });
+      i++;
+      continue;
+    }
+
+    throw new Error(`Unexpected "${c}" in formula.`);
+  }
+
+  return tokens;
+}
+
+/** Throws with a readable message when the formula isn't valid arithmetic */
+export function parseFormula(src: string): FormulaNode {
+  const tokens = tokenize(src);
+  if (tokens.length === 0) throw new Error("Formula is empty.");
+
+  let pos = 0;
+  const peekOp = () => {
+    const t = tokens[pos];
+    return t?.type === "op" ? t.op : null;
+  };
+
+  function expr(): FormulaNode {
+    let node = term();
+    while (peekOp() === "+" || peekOp() === "-") {
+      const op = peekOp() as "+" | "-";
+      pos++;
+      node = { kind: "bin", op, left: node, right: term() };
+    }
+    return node;
+  }
+
+  function term(): FormulaNode {
+    let node = factor();
+    while (peekOp() === "*" || peekOp() === "/") {
+      const op = peekOp() as "*" | "/";
+      pos++;
+      node = { kind: "bin", op, left: node, right: factor() };
+    }
+    return node;
+  }
+
+  function factor(): FormulaNode {
+    const t = tokens[pos];
+    if (!t) throw new Error("Formula ends too early.");
+    pos++;
+
+    if (t.type === "num") return { kind: "num", value: t.value };
+    if (t.type === "ref") return { kind: "ref", key: t.key };
+    if (t.op === "-") return { kind: "neg", arg: factor() };
+    if (t.op === "(") {
+      const inner = expr();
+      if (peekOp() !== ")") throw new Error("Missing closing bracket.");
+      pos++;
+      return inner;
+    }
+    throw new Error(`Unexpected "${t.op}" in formula.`);
+  }
+
+  const root = expr();
+  if (pos < tokens.length) throw new Error("Unexpected text after the end of the formula.");
+  return root;
+}
+
+/** Every name the formula reads, once each */
+export function formulaRefs(node: FormulaNode, out = new Set<string>()) {
+  if (node.kind === "ref") out.add(node.key);
+  else if (node.kind === "neg") formulaRefs(node.arg, out);
+  else if (node.kind === "bin") {
+    formulaRefs(node.left, out);
+    formulaRefs(node.right, out);
+  }
+  return out;
+}
+
+type Lookup = (key: string) => number | null | undefined;
+
+function evalNode(node: FormulaNode, lookup: Lookup): number | null {
+  if (node.kind === "num") return node.value;
+  if (node.kind === "ref") {
+    const v = lookup(node.key);
+    return v === null ? null : Number.isFinite(v) ? (v as number) : 0;
+  }
+  if (node.kind === "neg") {
+    const v = evalNode(node.arg, lookup);
+    return v == null ? null : -v;
+  }
+
+  const a = evalNode(node.left, lookup);
+  const b = evalNode(node.right, lookup);
+  if (a == null || b == null) return null;
+  if (node.op === "+") return a + b;
+  if (node.op === "-") return a - b;
+  if (node.op === "*") return a * b;
+  return b === 0 ? null : a / b;
+}
+
+/** Missing names count as 0; a divide by zero (or any unknown part) gives null */
+export function evalFormula(node: FormulaNode, vars: Record<string, number | null | undefined>) {
+  return evalNode(node, (key) => vars[key]);
+}
+
+export type FormulaFieldLike = { key: string; input_type: string | null; formula?: string | null };
+
+function isFormula(f: FormulaFieldLike) {
+  return f.input_type === "formula";
+}
+
+/**
+ * Checks a whole field set: each formula parses, only reads numeric / formula
+ * fields or meeting metrics, and no formula depends on itself. Returns the
+ * first problem, or null when everything is fine.
+ */
+export function validateFormulas(fields: FormulaFieldLike[]): string | null {
+  const byKey = new Map(fields.map((f) => [f.key, f]));
+  const refs = new Map<string, string[]>();
+
+  for (const f of fields) {
+    if (isMeetingMetric(f.key)) return `"${f.key}" is a meeting metric name; pick another key.`;
+    if (!isFormula(f)) continue;
+
+    let node: FormulaNode;
+    try {
+      node = parseFormula(f.formula ?? "");
+    } catch (e: unknown) {
+      return `${f.key}: ${e instanceof Error ? e.message : "invalid formula"}`;
+    }
+
+    const keys = [...formulaRefs(node)];
+    for (const k of keys) {
+      if (isMeetingMetric(k)) continue;
+      const target = byKey.get(k);
+      if (!target) return `${f.key}: unknown name "${k}".`;
+      if (target.input_type === "text" || target.input_type === "select") {
+        return `${f.key}: "${k}" isn't a number field and can't be used in a formula.`;
+      }
+    }
+    refs.set(f.key, keys.filter((k) => !isMeetingMetric(k)));
+  }
+
+  // Depth-first walk over formula → formula references; a grey node seen
+  // again means a cycle.
+  const state = new Map<string, "grey" | "done">();
+  const path: string[] = [];
+
+  function visit(key: string): string | null {
+    if (state.get(key) === "done") return null;
+    if (state.get(key) === "grey") {
+      const cycle = [...path.slice(path.indexOf(key)), key];
+      return `Formulas reference each other in a loop: ${cycle.join(" → ")}.`;
+    }
+
+    state.set(key, "grey");
+    path.push(key);
+    for (const k of refs.get(key) ?? []) {
+      const err = visit(k);
+      if (err) return err;
+    }
+    path.pop();
+    state.set(key, "done");
+    return null;
+  }
+
+  for (const key of refs.keys()) {
+    const err = visit(key);
+    if (err) return err;
+  }
+  return null;
+}
+
+/**
+ * Every formula field's value given the inputs in `vars` (field keys and
+ * meeting metrics). A key already in `vars` wins over its formula, which lets
+ * callers pin some formula fields (e.g. a target typed in by hand).
+ */
+export function computeFormulas(fields: FormulaFieldLike[], vars: Record<string, number | null | undefined>) {
+  const byKey = new Map(fields.filter(isFormula).map((f) => [f.key, f]));
+  const out: Record<string, number | null> = {};
+  const resolving = new Set<string>();
+
+  function resolve(key: string): number | null | undefined {
+    if (key in vars) return vars[key];
+    if (key in out) return out[key];
+    const f = byKey.get(key);
+    if (!f || resolving.has(key)) return f ? null : undefined;
+
+    resolving.add(key);
+    let v: number | null = null;
+    try {
+      v = evalNode(parseFormula(f.formula ?? ""), resolve);
+    } catch {
+      v = null;
+    }
+    resolving.delete(key);
+    out[key] = v;
+    return v;
+  }
+
+  byKey.forEach((_f, key) => resolve(key));
+  return out;
+}
+
+/** True when the formula reads meeting metrics directly */
+export function formulaUsesMetrics(f: FormulaFieldLike) {
+  if (!isFormula(f)) return false;
+  try {
+    return [...formulaRefs(parseFormula(f.formula ?? ""))].some(isMeetingMetric);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The stored inputs and meeting metrics a field ultimately reads, following
+ * formulas through other formulas.
+ */
+export function formulaInputs(fields: FormulaFieldLike[], key: string) {
+  const byKey = new Map(fields.map((f) => [f.key, f]));
+  const fieldKeys = new Set<string>();
+  const metrics = new Set<string>();
+  const seen = new Set<string>();
+
+  function walk(k: string) {
+    if (seen.has(k)) return;
+    seen.add(k);
+
+    if (isMeetingMetric(k)) {
+      metrics.add(k);
+      return;
+    }
+    const f = byKey.get(k);
+    if (!f || !isFormula(f)) {
+      fieldKeys.add(k);
+      return;
+    }
+    try {
+      formulaRefs(parseFormula(f.formula ?? "")).forEach(walk);
+    } catch {
+      // an invalid formula has no inputs; it evaluates to no value
+    }
+  }
+
+  walk(key);
+  return { fieldKeys: [...fieldKeys], metrics: [...metrics] };
+}
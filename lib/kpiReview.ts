@@ -0,0 +1,203 @@
+/**
+ * KPI submission lifecycle. People save drafts and submit; managers approve
+ * or return (back to draft, with a comment). Approved entries lock once
+ * they're older than the cut-off. Past the cut-off, or once approved, the
+ * owner needs an admin unlock to edit; /api/kpi-day enforces this and uses
+ * the unlock up. A returned day gets its own cut-off, counted from the return.
+ */
+
+import { supabase } from "@/lib/supabaseClient";
+import { KPI_FIELD_SELECT, KPI_SUBMISSION_SELECT, type KpiField, type KpiStatus, type KpiSubmission } from "@/lib/kpi";
+
+export const KPI_STATUSES: { value: KpiStatus; label: string; badgeClass: string }[] = [
+  { value: "draft", label: "Draft", badgeClass: "bg-gray-50 border-gray-200 text-black/70" },
+  { value: "submitted", label: "Submitted", badgeClass: "bg-blue-50 border-blue-200 text-blue-700" },
+  { value: "approved", label: "Approved", badgeClass: "bg-green-50 border-green-200 text-green-700" },
+  { value: "locked", label: "Locked", badgeClass: "bg-amber-50 border-amber-200 text-amber-700" },
+];
+
+export function kpiStatusLabel(s?: string | null) {
+  return KPI_STATUSES.find((x) => x.value === s)?.label ?? "Not started";
+}
+
+export function kpiStatusClass(s?: string | null) {
+  return KPI_STATUSES.find((x) => x.value === s)?.badgeClass ?? "bg-white border-gray-200 text-black/50";
+}
+
+export const KPI_CUTOFF_KEY = "kpi_edit_cutoff";
+export const DEFAULT_KPI_CUTOFF_DAYS = 3;
+
+export function parseKpiCutoff(v: unknown) {
+  const days = Number((v as { days?: unknown } | null)?.days);
+  return Number.isInteger(days) && days >= 0 ? days : DEFAULT_KPI_CUTOFF_DAYS;
+}
+
+export async function fetchKpiCutoff() {
+  const res = await supabase.from("app_settings").select("value").eq("key", KPI_CUTOFF_KEY).maybeSingle();
+  if (res.error) throw new Error(res.error.message);
+  return parseKpiCutoff(res.data?.value);
+}
+
+function melbourneDateISO(d: Date) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Australia/Melbourne",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(d);
+}
+
+/** Entry day is more than `cutoffDays` before today (both Melbourne dates) */
+export function isPastCutoff(entryDateISO: string, todayISO: string, cutoffDays: number) {
+  const days = (Date.parse(`${todayISO}T00:00:00Z`) - Date.parse(`${entryDateISO}T00:00:00Z`)) / 86_400_000;
+  return days > cutoffDays;
+}
+
+/**
+ * Why the owner can't edit the day right now, or null when they can. An
+ * open unlock lifts every block. A day a manager returned can be fixed until
+ * the cut-off has passed since it was returned.
+ */
+export function kpiEditBlock(
+  sub: Pick<KpiSubmission, "status" | "reviewed_at"> | null,
+  entryDateISO: string,
+  todayISO: string,
+  cutoffDays: number,
+  unlocked: boolean
+) {
+  if (unlocked) return null;
+  if (sub?.status === "locked") return "Locked. An admin has to unlock this day before it can change.";
+  if (sub?.status === "approved") return "Approved. An admin has to unlock this day before it can change.";
+  const returnedOn = sub?.status === "draft" && sub.reviewed_at ? melbourneDateISO(new Date(sub.reviewed_at)) : null;
+  if (returnedOn && !isPastCutoff(returnedOn, todayISO, cutoffDays)) return null;
+  if (isPastCutoff(entryDateISO, todayISO, cutoffDays)) {
+    return `Past the ${cutoffDays}-day cut-off. An admin has to unlock this day before it can change.`;
+  }
+  return null;
+}
+
+export type KpiUnlock = {
+  id: string;
+  user_id: string;
+  entry_date: string;
+  reason: string;
+  unlocked_by: string | null;
+  created_at: string;
+  expires_at: string;
+  used_at: string | null;
+};
+
+export const KPI_UNLOCK_SELECT = "id, user_id, entry_date, reason, unlocked_by, created_at, expires_at, used_at";
+
+export function isOpenUnlock(u: Pick<KpiUnlock, "used_at" | "expires_at">, now = new Date()) {
+  return !u.used_at && Date.parse(u.expires_at) > now.getTime();
+}
+
+/** The unlock a save for this day would use, if any */
+export async function fetchOpenUnlock(userId: string, dateISO: string) {
+  const res = await supabase
+    .from("kpi_unlocks")
+    .select(KPI_UNLOCK_SELECT)
+    .eq("user_id", userId)
+    .eq("entry_date", dateISO)
+    .is("used_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (res.error) throw new Error(res.error.message);
+  return (res.data ?? null) as KpiUnlock | null;
+}
+
+export async function unlockKpiDay(userId: string, dateISO: string, reason: string) {
+  const { data } = await supabase.auth.getSession();
+  const { error } = await supabase.from("kpi_unlocks").insert({
+    user_id: userId,
+    entry_date: dateISO,
+    reason: reason.trim(),
+    unlocked_by: data.session?.user.id,
+  });
+  if (error) throw new Error(error.message);
+}
+
+export async function fetchRecentUnlocks(limit = 20) {
+  const res = await supabase
+    .from("kpi_unlocks")
+    .select(KPI_UNLOCK_SELECT)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (res.error) throw new Error(res.error.message);
+  return (res.data ?? []) as KpiUnlock[];
+}
+
+export async function lockDueKpiSubmissions() {
+  const { error } = await supabase.rpc("lock_due_kpi_submissions");
+  if (error) throw new Error(error.message);
+}
+
+/** Status per entry date for one person, for history lists */
+export async function fetchKpiStatuses(userId: string, fromISO: string, toISO: string) {
+  const res = await supabase
+    .from("kpi_daily_submissions")
+    .select("entry_date, status")
+    .eq("user_id", userId)
+    .gte("entry_date", fromISO)
+    .lte("entry_date", toISO);
+
+  if (res.error) throw new Error(res.error.message);
+  const out: Record<string, KpiStatus> = {};
+  ((res.data ?? []) as { entry_date: string; status: KpiStatus }[]).forEach((r) => (out[r.entry_date] = r.status));
+  return out;
+}
+
+export type ReviewItem = KpiSubmission & {
+  values: { field: KpiField; value_text: string | null }[];
+};
+
+/** Entries waiting for a manager, oldest day first, with their values */
+export async function fetchReviewQueue(): Promise<ReviewItem[]> {
+  const subRes = await supabase
+    .from("kpi_daily_submissions")
+    .select(KPI_SUBMISSION_SELECT)
+    .eq("status", "submitted")
+    .order("entry_date", { ascending: true })
+    .limit(200);
+
+  if (subRes.error) throw new Error(subRes.error.message);
+  const subs = (subRes.data ?? []) as KpiSubmission[];
+  if (subs.length === 0) return [];
+
+  const valRes = await supabase
+    .from("kpi_daily_values")
+    .select(`submission_id, value_text, field:kpi_fields(${KPI_FIELD_SELECT})`)
+    .in(
+      "submission_id",
+      subs.map((s) => s.id)
+    );
+
+  if (valRes.error) throw new Error(valRes.error.message);
+
+  type ValueRow = { submission_id: string; value_text: string | null; field: KpiField | null };
+  const bySub: Record<string, ReviewItem["values"]> = {};
+  ((valRes.data ?? []) as unknown as ValueRow[]).forEach((v) => {
+    if (!v.field) return;
+    (bySub[v.submission_id] ??= []).push({ field: v.field, value_text: v.value_text });
+  });
+
+  return subs.map((s) => ({
+    ...s,
+    values: (bySub[s.id] ?? []).sort((a, b) => (a.field.sort_order ?? 100) - (b.field.sort_order ?? 100)),
+  }));
+}
+
+/** Approve, or return to draft with a comment (required when returning) */
+export async function reviewKpiSubmission(id: string, approve: boolean, comment?: string) {
+  const { error } = await supabase.rpc("review_kpi_submission", {
+    p_id: id,
+    p_approve: approve,
+    p_comment: comment?.trim() || null,
+  });
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,145 @@
+/**
+ * KPI field types and entry rules. The same checks run in the entry form and
+ * in /api/kpi-day before anything is stored, so keep this file free of
+ * browser-only code.
+ *
+ * Stored values (kpi_daily_values.value_text) are normalised so the numeric
+ * types all read as plain numbers in kpi_daily_numbers: currency without the
+ * $ or commas, durations in minutes, yes / no as 1 / 0.
+ */
+
+import type { KpiField, KpiInputType } from "@/lib/kpi";
+
+export const KPI_INPUT_TYPES: { value: KpiInputType; label: string }[] = [
+  { value: "number", label: "Number" },
+  { value: "integer", label: "Whole number" },
+  { value: "currency", label: "Currency ($)" },
+  { value: "percentage", label: "Percentage" },
+  { value: "duration", label: "Duration (h:mm)" },
+  { value: "yes_no", label: "Yes / no" },
+  { value: "select", label: "Pick one" },
+  { value: "text", label: "Text" },
+  { value: "formula", label: "Formula" },
+];
+
+/** Types that take min / max (in the stored unit: minutes for durations) */
+export const RANGED_TYPES = new Set<KpiInputType>(["number", "integer", "currency", "percentage", "duration"]);
+
+export type KpiRuleField = Pick<
+  KpiField,
+  "key" | "label" | "input_type" | "required" | "min_value" | "max_value" | "options"
+>;
+
+const DECIMAL_RE = /^-?\d+(\.\d+)?$/;
+
+/** "90", "1:30", "1h 30m", "1.5h" → minutes; null when it isn't a duration */
+export function parseDuration(raw: string): number | null {
+  const s = raw.trim().toLowerCase();
+  if (/^\d+$/.test(s)) return Number(s);
+
+  const hm = /^(\d+):([0-5]\d)$/.exec(s);
+  if (hm) return Number(hm[1]) * 60 + Number(hm[2]);
+
+  const words = /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/.exec(s);
+  if (words && (words[1] || words[2])) return Math.round(Number(words[1] ?? 0) * 60) + Number(words[2] ?? 0);
+
+  return null;
+}
+
+/** Minutes → "1:30" */
+export function formatDuration(minutes: number) {
+  const m = Math.round(minutes);
+  const sign = m < 0 ? "-" : "";
+  const abs = Math.abs(m);
+  return `${sign}${Math.floor(abs / 60)}:${String(abs % 60).padStart(2, "0")}`;
+}
+
+/** What the form shows for a stored value (durations read back as h:mm) */
+export function toKpiInput(f: Pick<KpiField, "input_type">, stored: string) {
+  if (f.input_type === "duration" && /^-?\d+$/.test(stored.trim())) return formatDuration(Number(stored));
+  return stored;
+}
+
+function label(f: KpiRuleField) {
+  return f.label || f.key;
+}
+
+function fmtBound(f: KpiRuleField, v: number) {
+  if (f.input_type === "duration") return formatDuration(v);
+  if (f.input_type === "currency") return `$${v}`;
+  if (f.input_type === "percentage") return `${v}%`;
+  return String(v);
+}
+
+/** "Between 1 and 10" / "At least 0" / "" for the form */
+export function rangeHint(f: KpiRuleField) {
+  if (!RANGED_TYPES.has(f.input_type ?? "number")) return "";
+  const { min_value: min, max_value: max } = f;
+  if (min != null && max != null) return `Between ${fmtBound(f, min)} and ${fmtBound(f, max)}`;
+  if (min != null) return `At least ${fmtBound(f, min)}`;
+  if (max != null) return `At most ${fmtBound(f, max)}`;
+  return "";
+}
+
+/**
+ * Checks one entered value against its field's type and rules. Returns the
+ * value to store, or an error for the form.
+ */
+export function checkKpiValue(f: KpiRuleField, raw: string): { value: string } | { error: string } {
+  const type = f.input_type ?? "number";
+  const s = (raw ?? "").trim();
+
+  if (type === "formula") return { value: "" };
+
+  if (s === "") {
+    return f.required ? { error: `"${label(f)}" is required.` } : { value: "" };
+  }
+
+  if (type === "text") return { value: s };
+
+  if (type === "select") {
+    const options = f.options ?? [];
+    return options.includes(s) ? { value: s } : { error: `"${label(f)}" must be one of: ${options.join(", ")}.` };
+  }
+
+  if (type === "yes_no") {
+    if (["1", "yes", "y", "true"].includes(s.toLowerCase())) return { value: "1" };
+    if (["0", "no", "n", "false"].includes(s.toLowerCase())) return { value: "0" };
+    return { error: `"${label(f)}" must be yes or no.` };
+  }
+
+  let n: number | null = null;
+  if (type === "duration") {
+    n = parseDuration(s);
+    if (n == null) return { error: `"${label(f)}" must be a duration like 1:30 or 90 (minutes).` };
+  } else {
+    let cleaned = s;
+    if (type === "currency") cleaned = s.replace(/^\$/, "").replace(/,/g, "");
+    if (type === "percentage") cleaned = s.replace(/%$/, "").trim();
+    if (!DECIMAL_RE.test(cleaned)) return { error: `"${label(f)}" must be a number.` };
+    n = Number(cleaned);
+    if (type === "integer" && !Number.isInteger(n)) return { error: `"${label(f)}" must be a whole number.` };
+  }
+
+  // Percentages are 0–100 unless the field sets its own range
+  const min = f.min_value ?? (type === "percentage" ? 0 : null);
+  const max = f.max_value ?? (type === "percentage" ? 100 : null);
+  if (min != null && n < min) return { error: `"${label(f)}" must be at least ${fmtBound(f, min)}.` };
+  if (max != null && n > max) return { error: `"${label(f)}" must be at most ${fmtBound(f, max)}.` };
+
+  return { value: String(type === "currency" ? Math.round(n * 100) / 100 : n) };
+}
+
+/** Every field's value checked and normalised; `errors` is keyed by field id */
+export function checkKpiValues(fields: (KpiRuleField & { id: string })[], values: Record<string, string>) {
+  const normalised: Record<string, string> = {};
+  const errors: Record<string, string> = {};
+
+  fields.forEach((f) => {
+    const res = checkKpiValue(f, values[f.id] ?? "");
+    if ("error" in res) errors[f.id] = res.error;
+    else normalised[f.id] = res.value;
+  });
+
+  return { values: normalised, errors };
+}
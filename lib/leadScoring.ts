@@ -0,0 +1,76 @@
+/**
+ * Rule-based lead scoring. Rules add (or take away) points; the DB maps
+ * points to the 1–3 lead_score through admin bands and keeps the matched
+ * rules on the meeting so the score can be explained. A score picked by hand
+ * is stored with score_manual = true.
+ */
+
+import { supabase } from "@/lib/supabaseClient";
+
+export type ScoringAttribute = "showed" | "outcome" | "source" | "budget_bracket" | "days_since_min" | "days_since_max";
+
+export const SCORING_ATTRIBUTES: { value: ScoringAttribute; label: string }[] = [
+  { value: "showed", label: "Showed up" },
+  { value: "outcome", label: "Outcome is" },
+  { value: "source", label: "Source is" },
+  { value: "budget_bracket", label: "Budget bracket is" },
+  { value: "days_since_min", label: "Days since meeting ≥" },
+  { value: "days_since_max", label: "Days since meeting ≤" },
+];
+
+export const BUDGET_BRACKETS: { value: string; label: string }[] = [
+  { value: "under_10k", label: "Under $10k" },
+  { value: "10k_25k", label: "$10k–$25k" },
+  { value: "25k_50k", label: "$25k–$50k" },
+  { value: "50k_plus", label: "$50k+" },
+];
+
+export function budgetLabel(v?: string | null) {
+  return BUDGET_BRACKETS.find((b) => b.value === v)?.label ?? "—";
+}
+
+export type ScoringRule = {
+  id: string;
+  label: string;
+  attribute: ScoringAttribute;
+  match_value: string | null;
+  points: number;
+  active: boolean;
+  sort_order: number;
+};
+
+export const SCORING_RULE_SELECT = "id, label, attribute, match_value, points, active, sort_order";
+
+export type ScoreReason = { label: string; points: number };
+
+// app_settings keys
+export const SCORE_BANDS_KEY = "lead_score_bands"; // { warm, hot } minimum points for 2 and 3
+export const HOT_MIN_SCORE_KEY = "hot_lead_min_score"; // lead_score at or above this is "hot"
+
+export const DEFAULT_HOT_MIN_SCORE = 3;
+
+export type ScoreBands = { warm: number; hot: number };
+export const DEFAULT_SCORE_BANDS: ScoreBands = { warm: 2, hot: 4 };
+
+export async function fetchHotMinScore() {
+  const res = await supabase.from("app_settings").select("value").eq("key", HOT_MIN_SCORE_KEY).maybeSingle();
+  const v = Number(res.data?.value);
+  return !res.error && Number.isInteger(v) && v >= 1 && v <= 3 ? v : DEFAULT_HOT_MIN_SCORE;
+}
+
+/** "+2 Showed up, −1 No-show = 1 pt" */
+export function explainScore(reasons: ScoreReason[] | null | undefined, points: number | null | undefined) {
+  const list = reasons ?? [];
+  if (list.length === 0) return "No scoring rules matched";
+  const parts = list.map((r) => `${r.points >= 0 ? "+" : "−"}${Math.abs(r.points)} ${r.label}`);
+  return `${parts.join(", ")} = ${points ?? 0} pt${Math.abs(points ?? 0) === 1 ? "" : "s"}`;
+}
+
+/**
+ * Recompute drifted scores (after rule edits; "days since" rules age daily).
+ * Admins refresh every meeting, anyone else just their own.
+ */
+export async function rescoreMeetings() {
+  const { error } = await supabase.rpc("refresh_meeting_scores");
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,95 @@
+/**
+ * Lead sources + per-source attribution.
+ *
+ * Sources are admin-managed (`lead_sources`); each meeting stores the
+ * source it was booked from and a free-text campaign.
+ */
+
+import { isMoved, isShow, isShowRateEligible } from "@/lib/meetingOutcome";
+
+export type LeadSource = {
+  id: string;
+  name: string;
+  active: boolean;
+  sort_order: number;
+};
+
+export const LEAD_SOURCE_SELECT = "id, name, active, sort_order";
+
+/** Meetings with no source (booked before sources existed) */
+export const UNATTRIBUTED = "unattributed";
+
+export type AttributionMeeting = {
+  source_id: string | null;
+  campaign: string | null;
+  outcome: string | null;
+  rescheduled_from_id: string | null;
+};
+
+export type AttributionRow = {
+  key: string; // source id, or UNATTRIBUTED
+  label: string;
+  booked: number;
+  occurred: number;
+  shows: number;
+  moved: number;
+  campaigns: Omit<AttributionRow, "key" | "campaigns">[];
+};
+
+export function cleanCampaign(c?: string | null) {
+  const v = (c ?? "").trim().replace(/\s+/g, " ");
+  return v || null;
+}
+
+/**
+ * Booked counts first attempts only (a reschedule follow-up is the same
+ * booking); occurred/shows/moved count every attempt with a recorded outcome.
+ * Rows come back in the admin's source order, unattributed last.
+ */
+export function attributeBySource(meetings: AttributionMeeting[], sources: LeadSource[]): AttributionRow[] {
+  type Tally = Omit<AttributionRow, "key" | "campaigns">;
+  const blank = (label: string): Tally => ({ label, booked: 0, occurred: 0, shows: 0, moved: 0 });
+
+  const add = (t: Tally, m: AttributionMeeting) => {
+    if (!m.rescheduled_from_id) t.booked += 1;
+    if (isShowRateEligible(m.outcome)) t.occurred += 1;
+    if (isShow(m.outcome)) t.shows += 1;
+    if (isMoved(m.outcome)) t.moved += 1;
+  };
+
+  const bySource = new Map<string, { total: Tally; campaigns: Map<string, Tally> }>();
+  const labelFor = (key: string) =>
+    key === UNATTRIBUTED ? "Unattributed" : sources.find((s) => s.id === key)?.name ?? "Unknown source";
+
+  meetings.forEach((m) => {
+    const key = m.source_id ?? UNATTRIBUTED;
+    let entry = bySource.get(key);
+    if (!entry) {
+      entry = { total: blank(labelFor(key)), campaigns: new Map() };
+      bySource.set(key, entry);
+    }
+    add(entry.total, m);
+
+    const campaign = cleanCampaign(m.campaign) ?? "(no campaign)";
+    let c = entry.campaigns.get(campaign.toLowerCase());
+    if (!c) {
+      c = blank(campaign);
+      entry.campaigns.set(campaign.toLowerCase(), c);
+    }
+    add(c, m);
+  });
+
+  const order = (key: string) => {
+    if (key === UNATTRIBUTED) return Number.MAX_SAFE_INTEGER;
+    const i = sources.findIndex((s) => s.id === key);
+    return i === -1 ? Number.MAX_SAFE_INTEGER - 1 : i;
+  };
+
+  return Array.from(bySource.entries())
+    .sort((a, b) => order(a[0]) - order(b[0]))
+    .map(([key, e]) => ({
+      key,
+      ...e.total,
+      campaigns: Array.from(e.campaigns.values()).sort((a, b) => b.booked - a.booked || a.label.localeCompare(b.label)),
+    }));
+}
@@ -0,0 +1,81 @@
+/**
+ * Leads (the person behind one or more meetings) + duplicate detection.
+ * Phone/email are matched on the same normalised forms the DB stores in
+ * leads.phone_norm / leads.email_norm.
+ */
+
+import { supabase } from "@/lib/supabaseClient";
+
+export type LeadRow = {
+  id: string;
+  full_name: string;
+  phone: string | null;
+  email: string | null;
+  source: string | null;
+  owner_id: string | null;
+  budget_bracket: string | null; // lib/leadScoring BUDGET_BRACKETS
+  created_at: string;
+};
+
+export const LEAD_SELECT = "id, full_name, phone, email, source, owner_id, budget_bracket, created_at";
+
+export type LeadDuplicate = LeadRow & { matched_on: ("phone" | "email")[] };
+
+/** Mirrors public.normalize_phone: digits only, +61 folded to a leading 0 */
+export function normalizePhone(p?: string | null) {
+  const d = (p ?? "").replace(/\D/g, "");
+  const folded = d.startsWith("61") && d.length === 11 ? `0${d.slice(2)}` : d;
+  return folded || null;
+}
+
+export function normalizeEmail(e?: string | null) {
+  const v = (e ?? "").trim().toLowerCase();
+  return v || null;
+}
+
+/** Existing leads sharing the phone or email (ignoring `excludeId`, e.g. the lead being edited) */
+export async function findLeadDuplicates(
+  phone: string | null | undefined,
+  email: string | null | undefined,
+  excludeId?: string
+): Promise<LeadDuplicate[]> {
+  const phoneNorm = normalizePhone(phone);
+  const emailNorm = normalizeEmail(email);
+
+  const ors: string[] = [];
+  if (phoneNorm) ors.push(`phone_norm.eq.${phoneNorm}`);
+  if (emailNorm) ors.push(`email_norm.eq."${emailNorm.replace(/"/g, "")}"`);
+  if (ors.length === 0) return [];
+
+  let q = supabase
+    .from("leads")
+    .select(`${LEAD_SELECT}, phone_norm, email_norm`)
+    .or(ors.join(","))
+    .limit(10);
+
+  if (excludeId) q = q.neq("id", excludeId);
+
+  const res = await q;
+  if (res.error) throw new Error(res.error.message);
+
+  return (res.data ?? []).map((r: LeadRow & { phone_norm: string | null; email_norm: string | null }) => {
+    const matched_on: ("phone" | "email")[] = [];
+    if (phoneNorm && r.phone_norm === phoneNorm) matched_on.push("phone");
+    if (emailNorm && r.email_norm === emailNorm) matched_on.push("email");
+    return {
+      id: r.id,
+      full_name: r.full_name,
+      phone: r.phone,
+      email: r.email,
+      source: r.source,
+      owner_id: r.owner_id,
+      budget_bracket: r.budget_bracket,
+      created_at: r.created_at,
+      matched_on,
+    };
+  });
+}
+
+export function describeDuplicate(d: LeadDuplicate) {
+  return `${d.full_name} (same ${d.matched_on.join(" + ")})`;
+}
@@ -0,0 +1,42 @@
+/**
+ * Lost-reason codes: why a meeting that showed did not move to SS2.
+ * The DB requires one whenever a meeting becomes "showed" and clears it for
+ * any other outcome (see stamp_meeting_lost_reason).
+ */
+
+import type { MeetingOutcome } from "@/lib/meetingOutcome";
+
+export type LostReason = {
+  id: string;
+  label: string;
+  active: boolean;
+  sort_order: number;
+};
+
+export const LOST_REASON_SELECT = "id, label, active, sort_order";
+
+export const LOST_NOTE_MAX = 500;
+
+export function needsLostReason(o?: MeetingOutcome | string | null) {
+  return o === "showed";
+}
+
+export function cleanLostNote(note?: string | null) {
+  const v = (note ?? "").trim().slice(0, LOST_NOTE_MAX);
+  return v || null;
+}
+
+/** Count per reason id, in the admin's order; reasons nobody used are dropped */
+export function tallyLostReasons(
+  rows: { lost_reason_id: string | null }[],
+  reasons: LostReason[]
+): { id: string; label: string; count: number }[] {
+  const counts: Record<string, number> = {};
+  rows.forEach((r) => {
+    if (r.lost_reason_id) counts[r.lost_reason_id] = (counts[r.lost_reason_id] ?? 0) + 1;
+  });
+
+  return reasons
+    .filter((r) => counts[r.id])
+    .map((r) => ({ id: r.id, label: r.label, count: counts[r.id] }));
+}
@@ -0,0 +1,37 @@
+/**
+ * Bulk meeting edits (RPC `bulk_update_meetings`).
+ * Only these fields can be changed in bulk; a discard_reason also discards.
+ * Marking "showed" needs a lost_reason_id (shared by the whole selection).
+ */
+
+import type { MeetingOutcome } from "@/lib/meetingOutcome";
+
+export type BulkPatch = {
+  outcome?: MeetingOutcome;
+  booked_by_id?: string;
+  attended_by_id?: string;
+  lead_score?: number;
+  lost_reason_id?: string;
+  lost_note?: string | null;
+  discard_reason?: string;
+};
+
+export type BulkResult = {
+  meeting_id: string;
+  ok: boolean;
+  error_message: string | null;
+};
+
+/** One line for the page message, listing each failed row by name */
+export function summarizeBulk(results: BulkResult[], nameById: Record<string, string | null | undefined>) {
+  const failed = results.filter((r) => !r.ok);
+  const done = results.length - failed.length;
+
+  if (failed.length === 0) return `Updated ${done} meeting${done === 1 ? "" : "s"} ✅`;
+
+  const details = failed
+    .map((r) => `${nameById[r.meeting_id] || "Unnamed meeting"}: ${r.error_message ?? "failed"}`)
+    .join(" • ");
+
+  return `Updated ${done} of ${results.length}. Failed — ${details}`;
+}
@@ -0,0 +1,46 @@
+/**
+ * Keyset (cursor) pagination for meeting lists.
+ *
+ * Rows are ordered by meeting_at with id as the tie-breaker (and lead_score
+ * first for the "score" sort), so a page boundary never skips or repeats a
+ * row even when many meetings share a timestamp.
+ */
+
+import type { MeetingSort } from "@/lib/meetingFilters";
+
+export const PAGE_SIZE = 50;
+
+export type MeetingCursor = {
+  meeting_at: string;
+  id: string;
+  lead_score: number;
+};
+
+export function cursorFromRow(row: MeetingCursor): MeetingCursor {
+  return { meeting_at: row.meeting_at, id: row.id, lead_score: row.lead_score };
+}
+
+/** Columns to pass to .order(), in priority order */
+export function keysetOrder(sort: MeetingSort): { column: string; ascending: boolean }[] {
+  const ascending = sort === "oldest";
+  const base = [
+    { column: "meeting_at", ascending },
+    { column: "id", ascending },
+  ];
+  return sort === "score" ? [{ column: "lead_score", ascending: false }, ...base] : base;
+}
+
+/** PostgREST `or` filter selecting rows strictly after the cursor */
+export function keysetFilter(sort: MeetingSort, c: MeetingCursor) {
+  const op = sort === "oldest" ? "gt" : "lt";
+  const at = `"${c.meeting_at}"`;
+
+  const byTime = `meeting_at.${op}.${at},and(meeting_at.eq.${at},id.${op}.${c.id})`;
+  if (sort !== "score") return byTime;
+
+  return [
+    `lead_score.lt.${c.lead_score}`,
+    `and(lead_score.eq.${c.lead_score},meeting_at.lt.${at})`,
+    `and(lead_score.eq.${c.lead_score},meeting_at.eq.${at},id.lt.${c.id})`,
+  ].join(",");
+}
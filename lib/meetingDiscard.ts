@@ -0,0 +1,12 @@
+/**
+ * Discard reasons. A reason is required (the DB trigger rejects blanks);
+ * these are quick picks, anything else can be typed.
+ */
+export const DISCARD_REASONS = ["Duplicate entry", "Booked in error", "Test meeting", "Lead asked to be removed"];
+
+/** Longest reason we accept from the free-text box */
+export const DISCARD_REASON_MAX = 200;
+
+export function cleanDiscardReason(reason: string) {
+  return reason.trim().slice(0, DISCARD_REASON_MAX);
+}
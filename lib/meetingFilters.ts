@@ -0,0 +1,85 @@
+/**
+ * Meetings list filters <-> query string.
+ *
+ * Defaults are left out of the URL so a plain /meetings link stays clean;
+ * unknown or malformed params fall back to the default.
+ */
+
+import { MEETING_OUTCOMES, type MeetingOutcome } from "@/lib/meetingOutcome";
+
+export type PersonMode = "either" | "booked_by" | "taken_by";
+export type RangePreset = "week" | "month" | "all";
+export type MeetingSort = "newest" | "oldest" | "score";
+
+export type MeetingFilters = {
+  range: RangePreset;
+  personId: string; // "" = all
+  personMode: PersonMode;
+  search: string;
+  outcome: MeetingOutcome | ""; // "" = any
+  score: number | null; // null = any
+  sort: MeetingSort;
+};
+
+export const DEFAULT_FILTERS: MeetingFilters = {
+  range: "week",
+  personId: "",
+  personMode: "either",
+  search: "",
+  outcome: "",
+  score: null,
+  sort: "newest",
+};
+
+export const SORT_OPTIONS: { value: MeetingSort; label: string }[] = [
+  { value: "newest", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "score", label: "Highest score" },
+];
+
+const RANGES: RangePreset[] = ["week", "month", "all"];
+const PERSON_MODES: PersonMode[] = ["either", "booked_by", "taken_by"];
+
+// person ids go into a PostgREST filter, so anything that isn't a uuid is dropped
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function pick<T extends string, F extends string>(value: string | null, allowed: readonly T[], fallback: F): T | F {
+  return value && (allowed as readonly string[]).includes(value) ? (value as T) : fallback;
+}
+
+export function parseMeetingFilters(params: URLSearchParams): MeetingFilters {
+  const score = Number(params.get("score"));
+  const person = params.get("person") ?? "";
+
+  return {
+    range: pick(params.get("range"), RANGES, DEFAULT_FILTERS.range),
+    personId: UUID_RE.test(person) ? person : "",
+    personMode: pick(params.get("mode"), PERSON_MODES, DEFAULT_FILTERS.personMode),
+    search: params.get("q") ?? "",
+    outcome: pick(
+      params.get("outcome"),
+      MEETING_OUTCOMES.map((o) => o.value),
+      ""
+    ),
+    score: [1, 2, 3].includes(score) ? score : null,
+    sort: pick(
+      params.get("sort"),
+      SORT_OPTIONS.map((o) => o.value),
+      DEFAULT_FILTERS.sort
+    ),
+  };
+}
+
+export function serializeMeetingFilters(f: MeetingFilters) {
+  const params = new URLSearchParams();
+
+  if (f.range !== DEFAULT_FILTERS.range) params.set("range", f.range);
+  if (f.personId) params.set("person", f.personId);
+  if (f.personId && f.personMode !== DEFAULT_FILTERS.personMode) params.set("mode", f.personMode);
+  if (f.search.trim()) params.set("q", f.search.trim());
+  if (f.outcome) params.set("outcome", f.outcome);
+  if (f.score != null) params.set("score", String(f.score));
+  if (f.sort !== DEFAULT_FILTERS.sort) params.set("sort", f.sort);
+
+  return params.toString();
+}
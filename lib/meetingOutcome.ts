@@ -0,0 +1,55 @@
+/**
+ * Meeting outcome lifecycle.
+ *
+ * `meetings.outcome` is the source of truth. The legacy `showed_up` /
+ * `moved_to_ss2` booleans are kept in sync by a DB trigger so older reads
+ * keep working, but rates should always be computed from the outcome.
+ */
+
+export type MeetingOutcome =
+  | "scheduled"
+  | "showed"
+  | "no_show"
+  | "rescheduled"
+  | "cancelled"
+  | "moved_to_ss2";
+
+export const MEETING_OUTCOMES: { value: MeetingOutcome; label: string }[] = [
+  { value: "scheduled", label: "Scheduled" },
+  { value: "showed", label: "Showed" },
+  { value: "no_show", label: "No-show" },
+  { value: "rescheduled", label: "Rescheduled" },
+  { value: "cancelled", label: "Cancelled" },
+  { value: "moved_to_ss2", label: "Moved to SS2" },
+];
+
+export function outcomeLabel(o?: string | null) {
+  return MEETING_OUTCOMES.find((x) => x.value === o)?.label ?? "Scheduled";
+}
+
+/** Lead turned up (moving to SS2 implies they showed). */
+export function isShow(o?: string | null) {
+  return o === "showed" || o === "moved_to_ss2";
+}
+
+export function isMoved(o?: string | null) {
+  return o === "moved_to_ss2";
+}
+
+/**
+ * Counts in the show-rate denominator: the meeting was meant to happen and
+ * we know whether the lead turned up. Pending (scheduled), rescheduled and
+ * cancelled meetings are left out.
+ */
+export function isShowRateEligible(o?: string | null) {
+  return o === "showed" || o === "moved_to_ss2" || o === "no_show";
+}
+
+/** Tailwind classes for a light-theme outcome pill. */
+export function outcomeBadgeClass(o?: string | null) {
+  if (o === "moved_to_ss2") return "bg-blue-50 border-blue-200 text-blue-700";
+  if (o === "showed") return "bg-green-50 border-green-200 text-green-700";
+  if (o === "no_show") return "bg-red-50 border-red-200 text-red-700";
+  if (o === "rescheduled" || o === "cancelled") return "bg-amber-50 border-amber-200 text-amber-700";
+  return "bg-gray-50 border-gray-200 text-black/70";
+}
@@ -0,0 +1,14 @@
+import { supabase } from "@/lib/supabaseClient";
+
+/**
+ * Reschedule a meeting: marks it rescheduled and creates the linked
+ * follow-up at `meetingAtIso` in one transaction. Returns the follow-up id.
+ */
+export async function rescheduleMeetingAt(meetingId: string, meetingAtIso: string) {
+  const { data, error } = await supabase.rpc("reschedule_meeting", {
+    p_id: meetingId,
+    p_meeting_at: meetingAtIso,
+  });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
@@ -0,0 +1,97 @@
+/**
+ * Sales pipeline stages (admin-defined, ordered) and the time a meeting or
+ * lead reached each one. ss1 / ss2 are filled in from meetings.outcome by a
+ * DB trigger; later stages are marked by hand.
+ */
+
+import { supabase } from "@/lib/supabaseClient";
+
+export type PipelineStage = {
+  id: string;
+  key: string;
+  label: string;
+  active: boolean;
+  sort_order: number;
+};
+
+export const PIPELINE_STAGE_SELECT = "id, key, label, active, sort_order";
+
+export type StageProgress = {
+  id: string;
+  stage_id: string;
+  meeting_id: string | null;
+  lead_id: string | null;
+  reached_at: string;
+  recorded_by: string | null;
+};
+
+export const STAGE_PROGRESS_SELECT = "id, stage_id, meeting_id, lead_id, reached_at, recorded_by";
+
+/** Stages whose progress comes from the meeting outcome, not a button */
+export const OUTCOME_STAGE_KEYS = ["ss1", "ss2"];
+
+export async function fetchPipelineStages(): Promise<PipelineStage[]> {
+  const res = await supabase
+    .from("pipeline_stages")
+    .select(PIPELINE_STAGE_SELECT)
+    .order("sort_order", { ascending: true })
+    .order("label", { ascending: true });
+
+  if (res.error) throw new Error(res.error.message);
+  return (res.data ?? []) as PipelineStage[];
+}
+
+/** "Contract signed" → "contract_signed" */
+export function stageKeyFromLabel(label: string) {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/** Earliest time each stage was reached across the given progress rows */
+export function reachedByStage(rows: StageProgress[]) {
+  const out: Record<string, StageProgress> = {};
+  rows.forEach((r) => {
+    const cur = out[r.stage_id];
+    if (!cur || r.reached_at < cur.reached_at) out[r.stage_id] = r;
+  });
+  return out;
+}
+
+export type ConversionRow = {
+  person_id: string | null;
+  is_team: boolean;
+  reached_from: number;
+  reached_to: number;
+};
+
+/**
+ * Deals that reached `fromId` in [startUtc, endUtc) and how many have since
+ * reached `toId` (RPC `pipeline_conversion`). Per-closer rows + one team row.
+ */
+export async function fetchConversion(fromId: string, toId: string, startUtc: string, endUtc: string) {
+  const { data, error } = await supabase.rpc("pipeline_conversion", {
+    p_from: fromId,
+    p_to: toId,
+    p_start: startUtc,
+    p_end: endUtc,
+  });
+
+  if (error) throw new Error(error.message);
+
+  const rows = ((data ?? []) as ConversionRow[]).map((r) => ({
+    ...r,
+    reached_from: Number(r.reached_from) || 0,
+    reached_to: Number(r.reached_to) || 0,
+  }));
+
+  const team = rows.find((r) => r.is_team) ?? null;
+  const byPerson: Record<string, ConversionRow> = {};
+  rows.forEach((r) => {
+    if (!r.is_team && r.person_id) byPerson[r.person_id] = r;
+  });
+
+  return { team, byPerson };
+}
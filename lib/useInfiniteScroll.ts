@@ -0,0 +1,31 @@
+import { useEffect, useRef } from "react";
+
+/**
+ * Calls `onReach` when the returned sentinel element scrolls into view.
+ * Disabled while `enabled` is false (nothing more to load, or a load is running).
+ */
+export function useInfiniteScroll(onReach: () => void, enabled: boolean) {
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  const onReachRef = useRef(onReach);
+
+  useEffect(() => {
+    onReachRef.current = onReach;
+  }, [onReach]);
+
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el || !enabled) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) onReachRef.current();
+      },
+      { rootMargin: "400px 0px" }
+    );
+
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return sentinelRef;
+}
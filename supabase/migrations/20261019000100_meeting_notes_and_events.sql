@@ -0,0 +1,108 @@
+-- Meeting detail: notes thread + change timeline
+
+create table if not exists public.meeting_notes (
+  id uuid primary key default gen_random_uuid(),
+  meeting_id uuid not null references public.meetings(id) on delete cascade,
+  author_id uuid not null default auth.uid() references public.profiles(id),
+  body text not null check (length(trim(body)) > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists meeting_notes_meeting_id_idx
+  on public.meeting_notes (meeting_id, created_at);
+
+-- One row per changed field. Written by trigger only.
+create table if not exists public.meeting_events (
+  id uuid primary key default gen_random_uuid(),
+  meeting_id uuid not null references public.meetings(id) on delete cascade,
+  actor_id uuid default auth.uid() references public.profiles(id),
+  field text not null,
+  old_value text,
+  new_value text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists meeting_events_meeting_id_idx
+  on public.meeting_events (meeting_id, created_at);
+
+create or replace function public.log_meeting_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into meeting_events (meeting_id, field, old_value, new_value)
+    values (new.id, 'created', null, null);
+    return new;
+  end if;
+
+  if new.showed_up is distinct from old.showed_up then
+    insert into meeting_events (meeting_id, field, old_value, new_value)
+    values (new.id, 'showed_up', old.showed_up::text, new.showed_up::text);
+  end if;
+
+  if new.moved_to_ss2 is distinct from old.moved_to_ss2 then
+    insert into meeting_events (meeting_id, field, old_value, new_value)
+    values (new.id, 'moved_to_ss2', old.moved_to_ss2::text, new.moved_to_ss2::text);
+  end if;
+
+  if new.lead_score is distinct from old.lead_score then
+    insert into meeting_events (meeting_id, field, old_value, new_value)
+    values (new.id, 'lead_score', old.lead_score::text, new.lead_score::text);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists meetings_log_events on public.meetings;
+create trigger meetings_log_events
+  after insert or update on public.meetings
+  for each row execute function public.log_meeting_events();
+
+-- Shared admin check for RLS policies.
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from profiles
+    where id = auth.uid()
+      and (coalesce(is_admin, false) or lower(trim(coalesce(role, ''))) = 'admin')
+  );
+$$;
+
+-- Same visibility as the meeting: admins, or whoever booked or took it.
+create or replace function public.can_see_meeting(p_meeting_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin() or exists (
+    select 1 from meetings m
+    where m.id = p_meeting_id
+      and auth.uid() in (m.booked_by_id, m.attended_by_id)
+  );
+$$;
+
+alter table public.meeting_notes enable row level security;
+alter table public.meeting_events enable row level security;
+
+create policy "meeting_notes read" on public.meeting_notes
+  for select to authenticated using (public.can_see_meeting(meeting_id));
+
+create policy "meeting_notes insert own" on public.meeting_notes
+  for insert to authenticated with check (author_id = auth.uid() and public.can_see_meeting(meeting_id));
+
+create policy "meeting_notes delete own" on public.meeting_notes
+  for delete to authenticated using (author_id = auth.uid());
+
+create policy "meeting_events read" on public.meeting_events
+  for select to authenticated using (public.can_see_meeting(meeting_id));
@@ -0,0 +1,63 @@
+-- Explicit meeting outcome lifecycle.
+-- showed_up / moved_to_ss2 become derived columns kept in sync by trigger.
+
+alter table public.meetings
+  add column if not exists outcome text not null default 'scheduled'
+  check (outcome in ('scheduled', 'showed', 'no_show', 'rescheduled', 'cancelled', 'moved_to_ss2'));
+
+-- Backfill: future meetings are still pending; past ones keep what the booleans said.
+update public.meetings
+set outcome = case
+  when moved_to_ss2 then 'moved_to_ss2'
+  when meeting_at > now() then 'scheduled'
+  when showed_up then 'showed'
+  else 'no_show'
+end;
+
+alter table public.meetings alter column showed_up set default false;
+
+create or replace function public.sync_meeting_outcome_flags()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.showed_up := new.outcome in ('showed', 'moved_to_ss2');
+  new.moved_to_ss2 := new.outcome = 'moved_to_ss2';
+  return new;
+end;
+$$;
+
+drop trigger if exists meetings_sync_outcome_flags on public.meetings;
+create trigger meetings_sync_outcome_flags
+  before insert or update on public.meetings
+  for each row execute function public.sync_meeting_outcome_flags();
+
+create index if not exists meetings_outcome_idx on public.meetings (outcome);
+
+-- Timeline: the flags are derived now, so log the outcome instead of them.
+create or replace function public.log_meeting_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into meeting_events (meeting_id, field, old_value, new_value)
+    values (new.id, 'created', null, null);
+    return new;
+  end if;
+
+  if new.outcome is distinct from old.outcome then
+    insert into meeting_events (meeting_id, field, old_value, new_value)
+    values (new.id, 'outcome', old.outcome, new.outcome);
+  end if;
+
+  if new.lead_score is distinct from old.lead_score then
+    insert into meeting_events (meeting_id, field, old_value, new_value)
+    values (new.id, 'lead_score', old.lead_score::text, new.lead_score::text);
+  end if;
+
+  return new;
+end;
+$$;
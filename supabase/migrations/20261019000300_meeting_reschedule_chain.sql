@@ -0,0 +1,28 @@
+-- Reschedule workflow: a follow-up meeting points at the attempt it replaces.
+
+alter table public.meetings
+  add column if not exists rescheduled_from_id uuid references public.meetings(id) on delete set null;
+
+create index if not exists meetings_rescheduled_from_id_idx
+  on public.meetings (rescheduled_from_id);
+
+-- Team-wide switches that admins flip from the app.
+create table if not exists public.app_settings (
+  key text primary key,
+  value jsonb not null,
+  updated_at timestamptz not null default now(),
+  updated_by uuid default auth.uid() references public.profiles(id)
+);
+
+alter table public.app_settings enable row level security;
+
+create policy "app_settings read" on public.app_settings
+  for select to authenticated using (true);
+
+create policy "app_settings admin write" on public.app_settings
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+-- Default: a follow-up counts for whoever rebooked it, not the first booker.
+insert into public.app_settings (key, value)
+values ('reschedule_credit_original', 'false'::jsonb)
+on conflict (key) do nothing;
@@ -0,0 +1,112 @@
+-- Closer weekly availability (Melbourne wall-clock times) + double-booking guard.
+
+create table if not exists public.closer_availability (
+  id uuid primary key default gen_random_uuid(),
+  closer_id uuid not null references public.profiles(id) on delete cascade,
+  weekday smallint not null check (weekday between 1 and 7), -- ISO: 1 = Mon .. 7 = Sun
+  start_time time not null,
+  end_time time not null,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (end_time > start_time)
+);
+
+create index if not exists closer_availability_closer_idx
+  on public.closer_availability (closer_id, weekday);
+
+alter table public.closer_availability enable row level security;
+
+create policy "closer_availability read" on public.closer_availability
+  for select to authenticated using (true);
+
+create policy "closer_availability write own or admin" on public.closer_availability
+  for all to authenticated
+  using (closer_id = auth.uid() or public.is_admin())
+  with check (closer_id = auth.uid() or public.is_admin());
+
+-- Admin override for booking outside availability or double-booking on purpose
+alter table public.meetings
+  add column if not exists override_reason text,
+  add column if not exists override_by uuid references public.profiles(id);
+
+-- Meetings are one hour; keep in sync with MEETING_MINUTES in lib/closerAvailability.ts.
+-- A meeting has to fit inside one of the closer's windows for that weekday
+-- (when they've published any) and not clash with their other meetings. An
+-- override only covers the write that sets or changes its reason.
+create or replace function public.prevent_double_booking()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  overriding boolean := coalesce(trim(new.override_reason), '') <> ''
+    and (tg_op = 'INSERT' or new.override_reason is distinct from old.override_reason);
+  local_at timestamp := new.meeting_at at time zone 'Australia/Melbourne';
+begin
+  if overriding then
+    if not is_admin() then
+      raise exception 'Only admins can override closer availability.'
+        using errcode = '42501';
+    end if;
+    new.override_by := auth.uid();
+  end if;
+
+  if new.discarded_at is not null or new.outcome in ('cancelled', 'rescheduled') then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE'
+     and new.meeting_at = old.meeting_at
+     and new.attended_by_id = old.attended_by_id
+     and old.discarded_at is null then
+    return new;
+  end if;
+
+  if overriding or new.attended_by_id is null then
+    return new;
+  end if;
+
+  if exists (
+    select 1 from closer_availability a
+    where a.closer_id = new.attended_by_id
+      and a.active
+      and a.weekday = extract(isodow from local_at)
+  ) and not exists (
+    select 1 from closer_availability a
+    where a.closer_id = new.attended_by_id
+      and a.active
+      and a.weekday = extract(isodow from local_at)
+      and a.end_time - a.start_time >= interval '60 minutes'
+      and local_at::time >= a.start_time
+      and local_at::time <= a.end_time - interval '60 minutes'
+  ) then
+    raise exception 'This closer isn''t available at that time.'
+      using errcode = '23P01';
+  end if;
+
+  -- One booking per closer at a time, so two concurrent writes can't both
+  -- pass the clash check; held until the transaction ends.
+  perform pg_advisory_xact_lock(hashtext(new.attended_by_id::text));
+
+  if exists (
+    select 1 from meetings m
+    where m.attended_by_id = new.attended_by_id
+      and m.id <> new.id
+      and m.discarded_at is null
+      and m.outcome not in ('cancelled', 'rescheduled')
+      and m.meeting_at > new.meeting_at - interval '60 minutes'
+      and m.meeting_at < new.meeting_at + interval '60 minutes'
+  ) then
+    raise exception 'This closer already has a meeting within an hour of that time.'
+      using errcode = '23P01';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists meetings_prevent_double_booking on public.meetings;
+create trigger meetings_prevent_double_booking
+  before insert or update on public.meetings
+  for each row execute function public.prevent_double_booking();
@@ -0,0 +1,28 @@
+-- Round-robin closer assignment: per-closer rules + the decision stored on each meeting.
+
+create table if not exists public.closer_assignment_rules (
+  closer_id uuid primary key references public.profiles(id) on delete cascade,
+  enabled boolean not null default true,
+  weight integer not null default 1 check (weight between 1 and 10),
+  daily_cap integer check (daily_cap is null or daily_cap > 0),
+  updated_at timestamptz not null default now(),
+  updated_by uuid default auth.uid() references public.profiles(id)
+);
+
+alter table public.closer_assignment_rules enable row level security;
+
+create policy "closer_assignment_rules read" on public.closer_assignment_rules
+  for select to authenticated using (true);
+
+create policy "closer_assignment_rules admin write" on public.closer_assignment_rules
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+-- How the taker was chosen. Legacy rows stay null.
+alter table public.meetings
+  add column if not exists assignment_method text
+    check (assignment_method in ('round_robin', 'manual')),
+  add column if not exists assignment_detail jsonb;
+
+insert into public.app_settings (key, value)
+values ('round_robin_enabled', 'true'::jsonb)
+on conflict (key) do nothing;
@@ -0,0 +1,93 @@
+-- Discarded bin: who discarded a meeting, why, and admin-only purge.
+
+alter table public.meetings
+  add column if not exists discarded_by uuid references public.profiles(id),
+  add column if not exists discard_reason text;
+
+create index if not exists meetings_discarded_at_idx
+  on public.meetings (discarded_at)
+  where discarded_at is not null;
+
+-- Discarding needs a reason and records the actor; restoring clears both.
+create or replace function public.stamp_meeting_discard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.discarded_at is not null and old.discarded_at is null then
+    if coalesce(trim(new.discard_reason), '') = '' then
+      raise exception 'A reason is required to discard a meeting.'
+        using errcode = '23514';
+    end if;
+    new.discarded_by := auth.uid();
+  elsif new.discarded_at is null and old.discarded_at is not null then
+    new.discarded_by := null;
+    new.discard_reason := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists meetings_stamp_discard on public.meetings;
+create trigger meetings_stamp_discard
+  before update on public.meetings
+  for each row execute function public.stamp_meeting_discard();
+
+create or replace function public.prevent_meeting_purge()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can permanently delete meetings.'
+      using errcode = '42501';
+  end if;
+  if old.discarded_at is null then
+    raise exception 'Discard the meeting before deleting it.'
+      using errcode = '23514';
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists meetings_prevent_purge on public.meetings;
+create trigger meetings_prevent_purge
+  before delete on public.meetings
+  for each row execute function public.prevent_meeting_purge();
+
+-- Timeline: log discard / restore alongside outcome + score changes.
+create or replace function public.log_meeting_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into meeting_events (meeting_id, field, old_value, new_value)
+    values (new.id, 'created', null, null);
+    return new;
+  end if;
+
+  if new.outcome is distinct from old.outcome then
+    insert into meeting_events (meeting_id, field, old_value, new_value)
+    values (new.id, 'outcome', old.outcome, new.outcome);
+  end if;
+
+  if new.lead_score is distinct from old.lead_score then
+    insert into meeting_events (meeting_id, field, old_value, new_value)
+    values (new.id, 'lead_score', old.lead_score::text, new.lead_score::text);
+  end if;
+
+  if new.discarded_at is not null and old.discarded_at is null then
+    insert into meeting_events (meeting_id, field, old_value, new_value)
+    values (new.id, 'discarded', null, new.discard_reason);
+  elsif new.discarded_at is null and old.discarded_at is not null then
+    insert into meeting_events (meeting_id, field, old_value, new_value)
+    values (new.id, 'restored', old.discard_reason, null);
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,46 @@
+-- Bulk edits from the meetings list: one call, one result row per meeting.
+-- Each row runs in its own subtransaction so a failure (RLS, double-booking,
+-- missing discard reason…) is reported without rolling back the others.
+
+create or replace function public.bulk_update_meetings(p_ids uuid[], p_patch jsonb)
+returns table (meeting_id uuid, ok boolean, error_message text)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  mid uuid;
+  n integer;
+begin
+  if p_patch - array['outcome', 'booked_by_id', 'attended_by_id', 'lead_score', 'discard_reason'] <> '{}'::jsonb then
+    raise exception 'Unsupported bulk field.' using errcode = '22023';
+  end if;
+
+  foreach mid in array p_ids loop
+    begin
+      update meetings m set
+        outcome = coalesce(p_patch->>'outcome', m.outcome),
+        booked_by_id = coalesce((p_patch->>'booked_by_id')::uuid, m.booked_by_id),
+        attended_by_id = coalesce((p_patch->>'attended_by_id')::uuid, m.attended_by_id),
+        lead_score = coalesce((p_patch->>'lead_score')::int, m.lead_score),
+        discard_reason = case when p_patch ? 'discard_reason' then p_patch->>'discard_reason' else m.discard_reason end,
+        discarded_at = case when p_patch ? 'discard_reason' then coalesce(m.discarded_at, now()) else m.discarded_at end
+      where m.id = mid;
+
+      get diagnostics n = row_count;
+
+      meeting_id := mid;
+      ok := n > 0;
+      error_message := case when n > 0 then null else 'Not found or not allowed.' end;
+    exception when others then
+      meeting_id := mid;
+      ok := false;
+      error_message := sqlerrm;
+    end;
+
+    return next;
+  end loop;
+end;
+$$;
+
+grant execute on function public.bulk_update_meetings(uuid[], jsonb) to authenticated;
@@ -0,0 +1,15 @@
+-- Named meetings-list filters, stored as the query string the page reads.
+
+create table if not exists public.meeting_filter_presets (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null default auth.uid() references public.profiles(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  query text not null default '',
+  created_at timestamptz not null default now(),
+  unique (owner_id, name)
+);
+
+alter table public.meeting_filter_presets enable row level security;
+
+create policy "meeting_filter_presets own" on public.meeting_filter_presets
+  for all to authenticated using (owner_id = auth.uid()) with check (owner_id = auth.uid());
@@ -0,0 +1,54 @@
+-- Leads: the person behind one or more meetings.
+-- Existing meetings keep their free-text meeting_name and are linked by hand
+-- from the meeting page (names alone are too ambiguous to merge automatically).
+
+-- Digits only, +61 mobile/landline folded to a leading 0.
+create or replace function public.normalize_phone(p text)
+returns text
+language sql
+immutable
+as $$
+  select nullif(
+    case when d like '61%' and length(d) = 11 then '0' || substr(d, 3) else d end,
+    ''
+  )
+  from (select regexp_replace(coalesce(p, ''), '\D', '', 'g') as d) x;
+$$;
+
+create table if not exists public.leads (
+  id uuid primary key default gen_random_uuid(),
+  full_name text not null check (length(trim(full_name)) > 0),
+  phone text,
+  email text,
+  phone_norm text generated always as (public.normalize_phone(phone)) stored,
+  email_norm text generated always as (nullif(lower(trim(coalesce(email, ''))), '')) stored,
+  source text,
+  owner_id uuid default auth.uid() references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists leads_phone_norm_idx on public.leads (phone_norm) where phone_norm is not null;
+create index if not exists leads_email_norm_idx on public.leads (email_norm) where email_norm is not null;
+create index if not exists leads_created_at_idx on public.leads (created_at desc, id desc);
+
+alter table public.leads enable row level security;
+
+create policy "leads read" on public.leads
+  for select to authenticated using (true);
+
+create policy "leads insert" on public.leads
+  for insert to authenticated with check (true);
+
+create policy "leads update owner or admin" on public.leads
+  for update to authenticated
+  using (owner_id = auth.uid() or public.is_admin())
+  with check (owner_id = auth.uid() or public.is_admin());
+
+create policy "leads delete admin" on public.leads
+  for delete to authenticated using (public.is_admin());
+
+alter table public.meetings
+  add column if not exists lead_id uuid references public.leads(id) on delete set null;
+
+create index if not exists meetings_lead_id_idx on public.meetings (lead_id);
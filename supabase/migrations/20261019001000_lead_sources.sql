@@ -0,0 +1,28 @@
+-- Lead sources (ad channels, referral partners) managed by admins, plus the
+-- source + campaign each meeting was booked from. Legacy meetings stay null
+-- and report as "Unattributed".
+
+create table if not exists public.lead_sources (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists lead_sources_name_key on public.lead_sources (lower(trim(name)));
+
+alter table public.lead_sources enable row level security;
+
+create policy "lead_sources read" on public.lead_sources
+  for select to authenticated using (true);
+
+create policy "lead_sources admin write" on public.lead_sources
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+-- Retired sources are deactivated rather than deleted so history keeps its label.
+alter table public.meetings
+  add column if not exists source_id uuid references public.lead_sources(id) on delete restrict,
+  add column if not exists campaign text;
+
+create index if not exists meetings_source_id_idx on public.meetings (source_id, meeting_at);
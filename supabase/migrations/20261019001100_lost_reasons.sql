@@ -0,0 +1,104 @@
+-- Lost-reason codes: why a meeting that showed did not move to SS2.
+-- Admins manage the list; closers must pick one when a meeting becomes
+-- "showed", with an optional note.
+
+create table if not exists public.lost_reasons (
+  id uuid primary key default gen_random_uuid(),
+  label text not null check (length(trim(label)) > 0),
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists lost_reasons_label_key on public.lost_reasons (lower(trim(label)));
+
+alter table public.lost_reasons enable row level security;
+
+create policy "lost_reasons read" on public.lost_reasons
+  for select to authenticated using (true);
+
+create policy "lost_reasons admin write" on public.lost_reasons
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+insert into public.lost_reasons (label, sort_order)
+values ('Price', 0), ('Timing', 1), ('Not qualified', 2), ('Went with a competitor', 3)
+on conflict do nothing;
+
+-- Retired reasons are deactivated rather than deleted so history keeps its label.
+alter table public.meetings
+  add column if not exists lost_reason_id uuid references public.lost_reasons(id) on delete restrict,
+  add column if not exists lost_note text check (lost_note is null or length(lost_note) <= 500);
+
+create index if not exists meetings_lost_reason_id_idx on public.meetings (lost_reason_id) where lost_reason_id is not null;
+
+-- A meeting turning "showed" needs a reason; any other outcome clears it.
+-- Rows already at "showed" before this migration are left alone until they change.
+create or replace function public.stamp_meeting_lost_reason()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.outcome = 'showed' then
+    if new.lost_reason_id is null
+       and (tg_op = 'INSERT' or old.outcome is distinct from 'showed' or old.lost_reason_id is not null) then
+      raise exception 'Pick why the meeting did not move to SS2.'
+        using errcode = '23514';
+    end if;
+  else
+    new.lost_reason_id := null;
+    new.lost_note := null;
+  end if;
+
+  new.lost_note := nullif(trim(new.lost_note), '');
+  return new;
+end;
+$$;
+
+drop trigger if exists meetings_stamp_lost_reason on public.meetings;
+create trigger meetings_stamp_lost_reason
+  before insert or update on public.meetings
+  for each row execute function public.stamp_meeting_lost_reason();
+
+-- Bulk "Showed" carries one reason (+ note) for the whole selection.
+create or replace function public.bulk_update_meetings(p_ids uuid[], p_patch jsonb)
+returns table (meeting_id uuid, ok boolean, error_message text)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  mid uuid;
+  n integer;
+begin
+  if p_patch - array['outcome', 'booked_by_id', 'attended_by_id', 'lead_score', 'discard_reason', 'lost_reason_id', 'lost_note'] <> '{}'::jsonb then
+    raise exception 'Unsupported bulk field.' using errcode = '22023';
+  end if;
+
+  foreach mid in array p_ids loop
+    begin
+      update meetings m set
+        outcome = coalesce(p_patch->>'outcome', m.outcome),
+        booked_by_id = coalesce((p_patch->>'booked_by_id')::uuid, m.booked_by_id),
+        attended_by_id = coalesce((p_patch->>'attended_by_id')::uuid, m.attended_by_id),
+        lead_score = coalesce((p_patch->>'lead_score')::int, m.lead_score),
+        lost_reason_id = case when p_patch ? 'lost_reason_id' then (p_patch->>'lost_reason_id')::uuid else m.lost_reason_id end,
+        lost_note = case when p_patch ? 'lost_note' then p_patch->>'lost_note' else m.lost_note end,
+        discard_reason = case when p_patch ? 'discard_reason' then p_patch->>'discard_reason' else m.discard_reason end,
+        discarded_at = case when p_patch ? 'discard_reason' then coalesce(m.discarded_at, now()) else m.discarded_at end
+      where m.id = mid;
+
+      get diagnostics n = row_count;
+
+      meeting_id := mid;
+      ok := n > 0;
+      error_message := case when n > 0 then null else 'Not found or not allowed.' end;
+    exception when others then
+      meeting_id := mid;
+      ok := false;
+      error_message := sqlerrm;
+    end;
+
+    return next;
+  end loop;
+end;
+$$;
@@ -0,0 +1,175 @@
+-- Sales pipeline beyond SS2: admin-defined stages, and the time each meeting
+-- (or lead, for stages reached outside a meeting) got to them.
+--
+-- A "deal" is the lead when the meeting has one, otherwise the meeting itself,
+-- so a lead that reaches SS3 on its second meeting still converts from its
+-- first meeting's SS1/SS2.
+
+create table if not exists public.pipeline_stages (
+  id uuid primary key default gen_random_uuid(),
+  key text not null unique check (key ~ '^[a-z0-9_]+$'),
+  label text not null check (length(trim(label)) > 0),
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+alter table public.pipeline_stages enable row level security;
+
+create policy "pipeline_stages read" on public.pipeline_stages
+  for select to authenticated using (true);
+
+create policy "pipeline_stages admin write" on public.pipeline_stages
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+-- ss1 / ss2 are filled in from meetings.outcome by the trigger below.
+insert into public.pipeline_stages (key, label, sort_order)
+values
+  ('ss1', 'SS1', 0),
+  ('ss2', 'SS2', 1),
+  ('ss3', 'SS3', 2),
+  ('contract', 'Contract signed', 3),
+  ('settled', 'Settled', 4)
+on conflict (key) do nothing;
+
+create table if not exists public.pipeline_progress (
+  id uuid primary key default gen_random_uuid(),
+  stage_id uuid not null references public.pipeline_stages(id) on delete restrict,
+  meeting_id uuid references public.meetings(id) on delete cascade,
+  lead_id uuid references public.leads(id) on delete cascade,
+  reached_at timestamptz not null default now(),
+  recorded_by uuid default auth.uid() references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (meeting_id is not null or lead_id is not null)
+);
+
+create unique index if not exists pipeline_progress_meeting_stage_key
+  on public.pipeline_progress (meeting_id, stage_id) where meeting_id is not null;
+create unique index if not exists pipeline_progress_lead_stage_key
+  on public.pipeline_progress (lead_id, stage_id) where meeting_id is null;
+create index if not exists pipeline_progress_stage_reached_idx
+  on public.pipeline_progress (stage_id, reached_at);
+create index if not exists pipeline_progress_lead_idx
+  on public.pipeline_progress (lead_id) where lead_id is not null;
+
+alter table public.pipeline_progress enable row level security;
+
+create policy "pipeline_progress read" on public.pipeline_progress
+  for select to authenticated using (true);
+
+create policy "pipeline_progress insert" on public.pipeline_progress
+  for insert to authenticated with check (recorded_by = auth.uid());
+
+create policy "pipeline_progress update own or admin" on public.pipeline_progress
+  for update to authenticated
+  using (recorded_by = auth.uid() or public.is_admin())
+  with check (recorded_by = auth.uid() or public.is_admin());
+
+create policy "pipeline_progress delete own or admin" on public.pipeline_progress
+  for delete to authenticated using (recorded_by = auth.uid() or public.is_admin());
+
+-- Keep ss1 / ss2 in step with the outcome, and progress rows with the meeting's lead.
+create or replace function public.sync_meeting_pipeline()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reached timestamptz := least(new.meeting_at, now());
+begin
+  if tg_op = 'UPDATE' and new.lead_id is distinct from old.lead_id then
+    update pipeline_progress set lead_id = new.lead_id where meeting_id = new.id;
+  end if;
+
+  if new.outcome in ('showed', 'moved_to_ss2') then
+    insert into pipeline_progress (stage_id, meeting_id, lead_id, reached_at, recorded_by)
+    select s.id, new.id, new.lead_id, reached, auth.uid()
+    from pipeline_stages s
+    where s.key = 'ss1'
+    on conflict (meeting_id, stage_id) where meeting_id is not null do nothing;
+  end if;
+
+  if new.outcome = 'moved_to_ss2' then
+    insert into pipeline_progress (stage_id, meeting_id, lead_id, reached_at, recorded_by)
+    select s.id, new.id, new.lead_id, now(), auth.uid()
+    from pipeline_stages s
+    where s.key = 'ss2'
+    on conflict (meeting_id, stage_id) where meeting_id is not null do nothing;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists meetings_sync_pipeline on public.meetings;
+create trigger meetings_sync_pipeline
+  after insert or update of outcome, lead_id on public.meetings
+  for each row execute function public.sync_meeting_pipeline();
+
+-- Backfill from outcomes we already have (SS2 time taken from the outcome log when present).
+insert into public.pipeline_progress (stage_id, meeting_id, lead_id, reached_at, recorded_by)
+select s.id, m.id, m.lead_id, least(m.meeting_at, now()), null
+from public.meetings m
+join public.pipeline_stages s on s.key = 'ss1'
+where m.outcome in ('showed', 'moved_to_ss2')
+on conflict (meeting_id, stage_id) where meeting_id is not null do nothing;
+
+insert into public.pipeline_progress (stage_id, meeting_id, lead_id, reached_at, recorded_by)
+select s.id, m.id, m.lead_id,
+  coalesce(
+    (select max(e.created_at) from public.meeting_events e
+      where e.meeting_id = m.id and e.field = 'outcome' and e.new_value = 'moved_to_ss2'),
+    least(m.meeting_at, now())
+  ),
+  null
+from public.meetings m
+join public.pipeline_stages s on s.key = 'ss2'
+where m.outcome = 'moved_to_ss2'
+on conflict (meeting_id, stage_id) where meeting_id is not null do nothing;
+
+-- Conversion between any two stages: deals that reached p_from inside the
+-- window, and how many of those have reached p_to (at any time). One row per
+-- closer (a deal counts for everyone who took one of its meetings) plus a
+-- team row (is_team) that counts each deal once.
+create or replace function public.pipeline_conversion(
+  p_from uuid,
+  p_to uuid,
+  p_start timestamptz,
+  p_end timestamptz
+)
+returns table (person_id uuid, is_team boolean, reached_from bigint, reached_to bigint)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with deals as (
+    select coalesce(lead_id, meeting_id) as deal, stage_id, min(reached_at) as reached_at
+    from pipeline_progress
+    group by 1, 2
+  ),
+  from_deals as (
+    select deal from deals
+    where stage_id = p_from and reached_at >= p_start and reached_at < p_end
+  ),
+  to_deals as (
+    select deal from deals where stage_id = p_to
+  ),
+  closers as (
+    select distinct coalesce(m.lead_id, m.id) as deal, m.attended_by_id as person_id
+    from meetings m
+    where m.discarded_at is null
+  )
+  select
+    c.person_id,
+    grouping(c.person_id) = 1 as is_team,
+    count(distinct f.deal) as reached_from,
+    count(distinct t.deal) as reached_to
+  from from_deals f
+  left join closers c on c.deal = f.deal
+  left join to_deals t on t.deal = f.deal
+  group by grouping sets ((c.person_id), ());
+$$;
+
+grant execute on function public.pipeline_conversion(uuid, uuid, timestamptz, timestamptz) to authenticated;
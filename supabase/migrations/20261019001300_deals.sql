@@ -0,0 +1,171 @@
+-- Deal value after SS2: contract value, commission-bearing amount and
+-- settlement date, recorded against a meeting or (outside a meeting) a lead.
+-- setter_id / closer_id are copied from the meeting (for lead-level deals,
+-- the lead's latest meeting) so revenue can be credited even for lead-level
+-- deals; only admins can credit anyone else. Values and the settlement date
+-- are the creator's to edit until the deal settles, then admin-only.
+
+create table if not exists public.deals (
+  id uuid primary key default gen_random_uuid(),
+  meeting_id uuid references public.meetings(id) on delete cascade,
+  lead_id uuid references public.leads(id) on delete cascade,
+  setter_id uuid references public.profiles(id) on delete set null,
+  closer_id uuid references public.profiles(id) on delete set null,
+  contract_value numeric(12, 2) not null check (contract_value >= 0),
+  commission_amount numeric(12, 2) check (commission_amount is null or commission_amount >= 0),
+  settlement_date date,
+  created_by uuid default auth.uid() references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (meeting_id is not null or lead_id is not null)
+);
+
+create unique index if not exists deals_meeting_key on public.deals (meeting_id) where meeting_id is not null;
+create index if not exists deals_lead_idx on public.deals (lead_id) where lead_id is not null;
+create index if not exists deals_settlement_date_idx on public.deals (settlement_date);
+
+alter table public.deals enable row level security;
+
+create policy "deals read" on public.deals
+  for select to authenticated using (true);
+
+create policy "deals insert" on public.deals
+  for insert to authenticated with check (created_by = auth.uid());
+
+create policy "deals update involved or admin" on public.deals
+  for update to authenticated
+  using (auth.uid() in (created_by, setter_id, closer_id) or public.is_admin())
+  with check (auth.uid() in (created_by, setter_id, closer_id) or public.is_admin());
+
+create policy "deals delete admin" on public.deals
+  for delete to authenticated using (public.is_admin());
+
+-- Commissions read deals, so who's credited and for how much isn't up to the
+-- client: setter/closer come from the meeting, and money edits are limited.
+create or replace function public.guard_deal()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m record;
+  admin boolean := public.is_admin();
+begin
+  if new.meeting_id is not null then
+    select booked_by_id, attended_by_id, lead_id into m from meetings where id = new.meeting_id;
+    new.setter_id := m.booked_by_id;
+    new.closer_id := m.attended_by_id;
+    new.lead_id := coalesce(m.lead_id, new.lead_id);
+  elsif not admin then
+    if tg_op = 'INSERT' then
+      select booked_by_id, attended_by_id into m from meetings
+      where lead_id = new.lead_id
+      order by meeting_at desc
+      limit 1;
+      new.setter_id := m.booked_by_id;
+      new.closer_id := m.attended_by_id;
+    else
+      new.setter_id := old.setter_id;
+      new.closer_id := old.closer_id;
+    end if;
+  end if;
+
+  -- Only the system (no signed-in user) and admins skip the rest.
+  if admin or auth.uid() is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.created_by := auth.uid();
+    if auth.uid() is distinct from new.setter_id and auth.uid() is distinct from new.closer_id then
+      raise exception 'Only the setter or closer can record this deal.' using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  new.created_by := old.created_by;
+  new.meeting_id := old.meeting_id;
+
+  if (new.contract_value, new.commission_amount, new.settlement_date)
+     is distinct from (old.contract_value, old.commission_amount, old.settlement_date)
+     and (old.created_by is distinct from auth.uid() or old.settlement_date is not null) then
+    raise exception 'Only an admin can change this deal''s value or settlement.' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists deals_guard on public.deals;
+create trigger deals_guard
+  before insert or update on public.deals
+  for each row execute function public.guard_deal();
+
+-- Recording a deal marks the "contract" stage; a settlement date marks "settled".
+create or replace function public.sync_deal_pipeline()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  stage record;
+begin
+  for stage in
+    select s.id, s.key from pipeline_stages s
+    where s.key = 'contract' or (s.key = 'settled' and new.settlement_date is not null)
+  loop
+    if new.meeting_id is not null then
+      insert into pipeline_progress (stage_id, meeting_id, lead_id, reached_at, recorded_by)
+      values (
+        stage.id, new.meeting_id, new.lead_id,
+        case when stage.key = 'settled' then new.settlement_date::timestamptz else now() end,
+        auth.uid()
+      )
+      on conflict (meeting_id, stage_id) where meeting_id is not null do nothing;
+    else
+      insert into pipeline_progress (stage_id, meeting_id, lead_id, reached_at, recorded_by)
+      values (
+        stage.id, null, new.lead_id,
+        case when stage.key = 'settled' then new.settlement_date::timestamptz else now() end,
+        auth.uid()
+      )
+      on conflict (lead_id, stage_id) where meeting_id is null do nothing;
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists deals_sync_pipeline on public.deals;
+create trigger deals_sync_pipeline
+  after insert or update of settlement_date on public.deals
+  for each row execute function public.sync_deal_pipeline();
+
+-- Optional revenue column on the hub leaderboard (team-wide, admin toggle).
+insert into public.app_settings (key, value)
+values ('leaderboard_show_revenue', 'false'::jsonb)
+on conflict (key) do nothing;
+
+-- Linking a meeting to a lead later carries its deal along.
+create or replace function public.sync_meeting_deal_lead()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update deals set lead_id = new.lead_id
+  where meeting_id = new.id and new.lead_id is not null;
+  return new;
+end;
+$$;
+
+drop trigger if exists meetings_sync_deal_lead on public.meetings;
+create trigger meetings_sync_deal_lead
+  after update of lead_id on public.meetings
+  for each row
+  when (old.lead_id is distinct from new.lead_id)
+  execute function public.sync_meeting_deal_lead();
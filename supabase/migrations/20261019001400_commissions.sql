@@ -0,0 +1,48 @@
+-- Commission module: admin-defined rules evaluated per business month
+-- (26th → 25th), plus a locked statement per person for payroll.
+
+create table if not exists public.commission_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  metric text not null check (metric in ('shows_booked', 'ss2_moves', 'show_rate', 'ss2_rate')),
+  kind text not null check (kind in ('per_unit', 'tier')),
+  amount numeric(12, 2) not null check (amount >= 0),
+  -- null = use the team's kpi_targets value for the metric
+  threshold numeric(12, 2),
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+alter table public.commission_rules enable row level security;
+
+create policy "commission_rules read" on public.commission_rules
+  for select to authenticated using (true);
+
+create policy "commission_rules admin write" on public.commission_rules
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+-- A statement row is the locked snapshot; deleting it unlocks the month.
+create table if not exists public.commission_statements (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  period_start date not null,
+  period_end date not null,
+  lines jsonb not null default '[]'::jsonb,
+  total numeric(12, 2) not null default 0,
+  locked_at timestamptz not null default now(),
+  locked_by uuid default auth.uid() references public.profiles(id) on delete set null,
+  check (period_end > period_start),
+  unique (user_id, period_start)
+);
+
+alter table public.commission_statements enable row level security;
+
+create policy "commission_statements read own or admin" on public.commission_statements
+  for select to authenticated using (user_id = auth.uid() or public.is_admin());
+
+create policy "commission_statements admin insert" on public.commission_statements
+  for insert to authenticated with check (public.is_admin());
+
+create policy "commission_statements admin delete" on public.commission_statements
+  for delete to authenticated using (public.is_admin());
@@ -0,0 +1,64 @@
+-- Follow-up tasks on hot leads (meetings with lead_score = 3): a due date,
+-- an assignee and a done state. Overdue = not done and due before today.
+
+create table if not exists public.hot_lead_tasks (
+  id uuid primary key default gen_random_uuid(),
+  meeting_id uuid not null references public.meetings(id) on delete cascade,
+  title text not null check (length(trim(title)) between 1 and 200),
+  due_date date not null,
+  assignee_id uuid references public.profiles(id) on delete set null,
+  done_at timestamptz,
+  done_by uuid references public.profiles(id) on delete set null,
+  created_by uuid default auth.uid() references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists hot_lead_tasks_meeting_idx on public.hot_lead_tasks (meeting_id);
+create index if not exists hot_lead_tasks_open_idx on public.hot_lead_tasks (assignee_id, due_date) where done_at is null;
+
+alter table public.hot_lead_tasks enable row level security;
+
+-- Same visibility as hot leads: admins, or anyone on the meeting / the task
+create policy "hot_lead_tasks read" on public.hot_lead_tasks
+  for select to authenticated using (
+    public.is_admin()
+    or auth.uid() in (assignee_id, created_by)
+    or exists (
+      select 1 from public.meetings m
+      where m.id = meeting_id and auth.uid() in (m.booked_by_id, m.attended_by_id)
+    )
+  );
+
+create policy "hot_lead_tasks insert" on public.hot_lead_tasks
+  for insert to authenticated with check (
+    created_by = auth.uid() and public.can_see_meeting(meeting_id)
+  );
+
+create policy "hot_lead_tasks update" on public.hot_lead_tasks
+  for update to authenticated
+  using (public.is_admin() or auth.uid() in (assignee_id, created_by))
+  with check (public.is_admin() or auth.uid() in (assignee_id, created_by));
+
+create policy "hot_lead_tasks delete" on public.hot_lead_tasks
+  for delete to authenticated using (public.is_admin() or created_by = auth.uid());
+
+-- A reschedule follow-up carries the lead on, so open tasks move with it.
+create or replace function public.move_tasks_to_follow_up()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update hot_lead_tasks set meeting_id = new.id
+  where meeting_id = new.rescheduled_from_id and done_at is null;
+  return new;
+end;
+$$;
+
+drop trigger if exists meetings_move_tasks_to_follow_up on public.meetings;
+create trigger meetings_move_tasks_to_follow_up
+  after insert on public.meetings
+  for each row
+  when (new.rescheduled_from_id is not null)
+  execute function public.move_tasks_to_follow_up();
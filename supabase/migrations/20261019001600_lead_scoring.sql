@@ -0,0 +1,274 @@
+-- Rule-based lead scoring. Admin rules add points from meeting / lead
+-- attributes; points map to the 1–3 lead_score through bands in
+-- app_settings. A hand-picked score is kept as a marked manual override.
+-- "Hot" becomes lead_score >= app_settings.hot_lead_min_score (default 3).
+
+alter table public.leads
+  add column if not exists budget_bracket text
+    check (budget_bracket in ('under_10k', '10k_25k', '25k_50k', '50k_plus'));
+
+create table if not exists public.lead_scoring_rules (
+  id uuid primary key default gen_random_uuid(),
+  label text not null check (length(trim(label)) > 0),
+  attribute text not null
+    check (attribute in ('showed', 'outcome', 'source', 'budget_bracket', 'days_since_min', 'days_since_max')),
+  match_value text,
+  points integer not null check (points between -10 and 10),
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  check (attribute = 'showed' or match_value is not null),
+  check (attribute not in ('days_since_min', 'days_since_max') or match_value ~ '^\d{1,4}$')
+);
+
+alter table public.lead_scoring_rules enable row level security;
+
+create policy "lead_scoring_rules read" on public.lead_scoring_rules
+  for select to authenticated using (true);
+
+create policy "lead_scoring_rules admin write" on public.lead_scoring_rules
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+insert into public.lead_scoring_rules (label, attribute, match_value, points, sort_order)
+select * from (values
+  ('Showed up', 'showed', null, 2, 0),
+  ('Moved to SS2', 'outcome', 'moved_to_ss2', 1, 1),
+  ('Budget $50k+', 'budget_bracket', '50k_plus', 2, 2),
+  ('No-show', 'outcome', 'no_show', -1, 3),
+  ('Gone cold (14+ days)', 'days_since_min', '14', -1, 4)
+) v(label, attribute, match_value, points, sort_order)
+where not exists (select 1 from public.lead_scoring_rules);
+
+insert into public.app_settings (key, value)
+values
+  ('lead_score_bands', '{"warm": 2, "hot": 4}'::jsonb),
+  ('hot_lead_min_score', '3'::jsonb)
+on conflict (key) do nothing;
+
+alter table public.meetings
+  add column if not exists score_manual boolean not null default false,
+  add column if not exists score_points integer,
+  add column if not exists score_reasons jsonb not null default '[]'::jsonb,
+  add column if not exists scored_at timestamptz;
+
+-- Points, matched rules and the banded 1–3 score for one meeting.
+create or replace function public.compute_meeting_score(
+  p_outcome text,
+  p_source_id uuid,
+  p_lead_id uuid,
+  p_meeting_at timestamptz
+)
+returns table (points integer, reasons jsonb, score integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with ctx as (
+    select
+      (select l.budget_bracket from leads l where l.id = p_lead_id) as budget,
+      (now() at time zone 'Australia/Melbourne')::date
+        - (p_meeting_at at time zone 'Australia/Melbourne')::date as days
+  ),
+  hits as (
+    select r.label, r.points, r.sort_order
+    from lead_scoring_rules r, ctx
+    where r.active and case r.attribute
+      when 'showed' then p_outcome in ('showed', 'moved_to_ss2')
+      when 'outcome' then p_outcome = r.match_value
+      when 'source' then p_source_id::text = r.match_value
+      when 'budget_bracket' then ctx.budget = r.match_value
+      when 'days_since_min' then ctx.days >= r.match_value::int
+      when 'days_since_max' then ctx.days <= r.match_value::int
+      else false
+    end
+  ),
+  bands as (
+    select
+      coalesce((s.value->>'warm')::int, 2) as warm,
+      coalesce((s.value->>'hot')::int, 4) as hot
+    from (select (select value from app_settings where key = 'lead_score_bands') as value) s
+  ),
+  total as (
+    select
+      coalesce(sum(h.points), 0)::int as points,
+      coalesce(
+        jsonb_agg(jsonb_build_object('label', h.label, 'points', h.points) order by h.sort_order)
+          filter (where h.label is not null),
+        '[]'::jsonb
+      ) as reasons
+    from hits h
+  )
+  select
+    t.points,
+    t.reasons,
+    case when t.points >= b.hot then 3 when t.points >= b.warm then 2 else 1 end
+  from total t, bands b;
+$$;
+
+revoke execute on function public.compute_meeting_score(text, uuid, uuid, timestamptz) from public, anon, authenticated;
+
+-- Keeps the explanation current and applies the rule score unless the
+-- score was picked by hand. Changing lead_score directly (row edit, bulk
+-- update) marks the override; setting score_manual = false hands it back.
+create or replace function public.apply_meeting_score()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s record;
+begin
+  if tg_op = 'UPDATE'
+    and new.lead_score is distinct from old.lead_score
+    and new.score_manual = old.score_manual
+    and coalesce(current_setting('app.rescoring', true), '') <> 'on' then
+    new.score_manual := true;
+  end if;
+
+  select * into s from compute_meeting_score(new.outcome, new.source_id, new.lead_id, new.meeting_at);
+
+  new.score_points := s.points;
+  new.score_reasons := s.reasons;
+  new.scored_at := now();
+  if not new.score_manual then
+    new.lead_score := s.score;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists meetings_apply_score on public.meetings;
+create trigger meetings_apply_score
+  before insert or update on public.meetings
+  for each row execute function public.apply_meeting_score();
+
+-- Recompute stored scores that have drifted (rule edits, lead budget
+-- changes, "days since meeting" ticking over). Returns rows touched.
+-- Internal: the app goes through refresh_meeting_scores().
+drop function if exists public.rescore_meetings(uuid);
+create or replace function public.rescore_meetings(p_lead_id uuid default null, p_user_id uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  perform set_config('app.rescoring', 'on', true);
+
+  update meetings m
+  set scored_at = now()
+  where m.discarded_at is null
+    and (p_lead_id is null or m.lead_id = p_lead_id)
+    and (p_user_id is null or p_user_id in (m.booked_by_id, m.attended_by_id))
+    and exists (
+      select 1
+      from compute_meeting_score(m.outcome, m.source_id, m.lead_id, m.meeting_at) s
+      where s.points is distinct from m.score_points
+        or s.reasons is distinct from m.score_reasons
+        or (not m.score_manual and s.score is distinct from m.lead_score)
+    );
+
+  get diagnostics n = row_count;
+  perform set_config('app.rescoring', 'off', true);
+  return n;
+end;
+$$;
+
+revoke execute on function public.rescore_meetings(uuid, uuid) from public, anon, authenticated;
+
+-- What the app calls: admins rescore every meeting, anyone else only the
+-- meetings they booked or took.
+create or replace function public.refresh_meeting_scores()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in.' using errcode = '42501';
+  end if;
+
+  if public.is_admin() then
+    return rescore_meetings(null, null);
+  end if;
+
+  return rescore_meetings(null, auth.uid());
+end;
+$$;
+
+revoke execute on function public.refresh_meeting_scores() from public, anon;
+grant execute on function public.refresh_meeting_scores() to authenticated;
+
+create or replace function public.rescore_lead_meetings()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform rescore_meetings(new.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists leads_rescore_meetings on public.leads;
+create trigger leads_rescore_meetings
+  after update of budget_bracket on public.leads
+  for each row
+  when (old.budget_bracket is distinct from new.budget_bracket)
+  execute function public.rescore_lead_meetings();
+
+-- A bulk score change is a hand-picked score too.
+create or replace function public.bulk_update_meetings(p_ids uuid[], p_patch jsonb)
+returns table (meeting_id uuid, ok boolean, error_message text)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  mid uuid;
+  n integer;
+begin
+  if p_patch - array['outcome', 'booked_by_id', 'attended_by_id', 'lead_score', 'discard_reason', 'lost_reason_id', 'lost_note'] <> '{}'::jsonb then
+    raise exception 'Unsupported bulk field.' using errcode = '22023';
+  end if;
+
+  foreach mid in array p_ids loop
+    begin
+      update meetings m set
+        outcome = coalesce(p_patch->>'outcome', m.outcome),
+        booked_by_id = coalesce((p_patch->>'booked_by_id')::uuid, m.booked_by_id),
+        attended_by_id = coalesce((p_patch->>'attended_by_id')::uuid, m.attended_by_id),
+        lead_score = coalesce((p_patch->>'lead_score')::int, m.lead_score),
+        score_manual = m.score_manual or (p_patch ? 'lead_score'),
+        lost_reason_id = case when p_patch ? 'lost_reason_id' then (p_patch->>'lost_reason_id')::uuid else m.lost_reason_id end,
+        lost_note = case when p_patch ? 'lost_note' then p_patch->>'lost_note' else m.lost_note end,
+        discard_reason = case when p_patch ? 'discard_reason' then p_patch->>'discard_reason' else m.discard_reason end,
+        discarded_at = case when p_patch ? 'discard_reason' then coalesce(m.discarded_at, now()) else m.discarded_at end
+      where m.id = mid;
+
+      get diagnostics n = row_count;
+
+      meeting_id := mid;
+      ok := n > 0;
+      error_message := case when n > 0 then null else 'Not found or not allowed.' end;
+    exception when others then
+      meeting_id := mid;
+      ok := false;
+      error_message := sqlerrm;
+    end;
+
+    return next;
+  end loop;
+end;
+$$;
+
+-- Existing scores were all picked by hand; anything above the default 1 is
+-- kept as an override, the rest switch to the rules (the trigger scores them).
+update public.meetings set score_manual = (lead_score <> 1);
@@ -0,0 +1,70 @@
+-- Hot lead board: each hot lead (meeting) sits in one stage column, with the
+-- time it got there for "days in column". Moving to SS2 pulls a new /
+-- contacted lead into ss2_booked; a reschedule follow-up keeps the stage.
+
+alter table public.meetings
+  add column if not exists hot_stage text not null default 'new'
+    check (hot_stage in ('new', 'contacted', 'ss2_booked', 'negotiating', 'won', 'lost')),
+  add column if not exists hot_stage_at timestamptz not null default now();
+
+-- Existing leads: SS2 ones are booked, everything has been there since the meeting.
+update public.meetings
+set hot_stage = case when outcome = 'moved_to_ss2' then 'ss2_booked' else 'new' end,
+    hot_stage_at = least(meeting_at, now());
+
+create or replace function public.stamp_hot_stage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  prev record;
+begin
+  if tg_op = 'INSERT' and new.rescheduled_from_id is not null then
+    select m.hot_stage, m.hot_stage_at into prev from meetings m where m.id = new.rescheduled_from_id;
+    if found then
+      new.hot_stage := prev.hot_stage;
+      new.hot_stage_at := prev.hot_stage_at;
+    end if;
+  end if;
+
+  if new.outcome = 'moved_to_ss2'
+    and (tg_op = 'INSERT' or old.outcome is distinct from 'moved_to_ss2')
+    and new.hot_stage in ('new', 'contacted') then
+    new.hot_stage := 'ss2_booked';
+  end if;
+
+  if tg_op = 'UPDATE' and new.hot_stage is distinct from old.hot_stage then
+    new.hot_stage_at := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists meetings_stamp_hot_stage on public.meetings;
+create trigger meetings_stamp_hot_stage
+  before insert or update on public.meetings
+  for each row execute function public.stamp_hot_stage();
+
+-- Board moves show on the meeting timeline.
+create or replace function public.log_hot_stage_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into meeting_events (meeting_id, field, old_value, new_value)
+  values (new.id, 'hot_stage', old.hot_stage, new.hot_stage);
+  return new;
+end;
+$$;
+
+drop trigger if exists meetings_log_hot_stage on public.meetings;
+create trigger meetings_log_hot_stage
+  after update of hot_stage on public.meetings
+  for each row
+  when (old.hot_stage is distinct from new.hot_stage)
+  execute function public.log_hot_stage_event();
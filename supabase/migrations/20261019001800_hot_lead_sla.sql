@@ -0,0 +1,107 @@
+-- Hot lead aging. Follow-up work on a meeting (notes, tasks added or ticked
+-- off, board moves) stamps last_activity_at; the first of those after the
+-- meeting time is contacted_at. SLAs live in app_settings.hot_lead_sla.
+
+alter table public.meetings
+  add column if not exists last_activity_at timestamptz,
+  add column if not exists contacted_at timestamptz;
+
+insert into public.app_settings (key, value)
+values ('hot_lead_sla', '{"contact_hours": 24, "idle_days": 5}'::jsonb)
+on conflict (key) do nothing;
+
+create or replace function public.touch_meeting_activity(p_meeting_id uuid, p_at timestamptz)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update meetings
+  set last_activity_at = greatest(coalesce(last_activity_at, p_at), p_at),
+      contacted_at = coalesce(contacted_at, case when p_at >= meeting_at then p_at end)
+  where id = p_meeting_id;
+$$;
+
+-- Only the triggers below call this.
+revoke execute on function public.touch_meeting_activity(uuid, timestamptz) from public, anon, authenticated;
+
+create or replace function public.touch_activity_from_note()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform touch_meeting_activity(new.meeting_id, new.created_at);
+  return new;
+end;
+$$;
+
+drop trigger if exists meeting_notes_touch_activity on public.meeting_notes;
+create trigger meeting_notes_touch_activity
+  after insert on public.meeting_notes
+  for each row execute function public.touch_activity_from_note();
+
+create or replace function public.touch_activity_from_task()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or (new.done_at is not null and old.done_at is null) then
+    perform touch_meeting_activity(new.meeting_id, now());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists hot_lead_tasks_touch_activity on public.hot_lead_tasks;
+create trigger hot_lead_tasks_touch_activity
+  after insert or update of done_at on public.hot_lead_tasks
+  for each row execute function public.touch_activity_from_task();
+
+create or replace function public.touch_activity_from_stage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.last_activity_at := now();
+  new.contacted_at := coalesce(new.contacted_at, case when now() >= new.meeting_at then now() end);
+  return new;
+end;
+$$;
+
+drop trigger if exists meetings_touch_activity_on_stage on public.meetings;
+create trigger meetings_touch_activity_on_stage
+  before update of hot_stage on public.meetings
+  for each row
+  when (old.hot_stage is distinct from new.hot_stage)
+  execute function public.touch_activity_from_stage();
+
+-- Backfill from what's already recorded.
+with activity as (
+  select meeting_id, created_at as at from public.meeting_notes
+  union all
+  select meeting_id, created_at from public.hot_lead_tasks
+  union all
+  select meeting_id, done_at from public.hot_lead_tasks where done_at is not null
+  union all
+  select meeting_id, created_at from public.meeting_events where field = 'hot_stage'
+),
+per_meeting as (
+  select
+    a.meeting_id,
+    max(a.at) as last_at,
+    min(a.at) filter (where a.at >= m.meeting_at) as first_after
+  from activity a
+  join public.meetings m on m.id = a.meeting_id
+  group by a.meeting_id
+)
+update public.meetings m
+set last_activity_at = p.last_at,
+    contacted_at = p.first_after
+from per_meeting p
+where p.meeting_id = m.id;
@@ -0,0 +1,52 @@
+-- One daily KPI store. daily_kpis (a fixed appointments_booked column) is
+-- folded into the configurable kpi_daily_submissions / kpi_daily_values
+-- model; reporting reads numeric values for any field through
+-- kpi_daily_numbers.
+
+alter table public.kpi_daily_submissions
+  add column if not exists notes text;
+
+-- The field the old table recorded.
+insert into public.kpi_fields (key, label, active, sort_order, input_type)
+select 'appointments_booked', 'Appointments booked', true, 0, 'number'
+where not exists (select 1 from public.kpi_fields where key = 'appointments_booked');
+
+-- Existing rows: one submission per (user, day), notes kept where the new
+-- store has none.
+insert into public.kpi_daily_submissions (user_id, entry_date, notes)
+select d.user_id, d.entry_date, d.notes
+from public.daily_kpis d
+on conflict (user_id, entry_date) do update
+  set notes = coalesce(public.kpi_daily_submissions.notes, excluded.notes);
+
+-- A value already entered in the new store is kept; daily_kpis only fills
+-- in where it's missing or blank.
+insert into public.kpi_daily_values (submission_id, field_id, value_text)
+select s.id, f.id, d.appointments_booked::text
+from public.daily_kpis d
+join public.kpi_daily_submissions s on s.user_id = d.user_id and s.entry_date = d.entry_date
+join public.kpi_fields f on f.key = 'appointments_booked'
+where d.appointments_booked is not null
+on conflict (submission_id, field_id) do update
+  set value_text = excluded.value_text
+  where trim(coalesce(public.kpi_daily_values.value_text, '')) = '';
+
+-- Kept as a backup of the migrated data; nothing reads or writes it now.
+alter table if exists public.daily_kpis rename to daily_kpis_migrated;
+
+-- Numeric KPI values, one row per (person, day, field). Runs with the
+-- caller's permissions so the tables' RLS still applies.
+create or replace view public.kpi_daily_numbers
+with (security_invoker = true)
+as
+select
+  s.user_id,
+  s.entry_date,
+  f.key as field_key,
+  v.value_text::numeric as value
+from public.kpi_daily_values v
+join public.kpi_daily_submissions s on s.id = v.submission_id
+join public.kpi_fields f on f.id = v.field_id
+where v.value_text ~ '^\s*-?\d+(\.\d+)?\s*$';
+
+grant select on public.kpi_daily_numbers to authenticated;
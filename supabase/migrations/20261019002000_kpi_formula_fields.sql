@@ -0,0 +1,33 @@
+-- Formula KPI fields. A field with input_type 'formula' isn't entered; its
+-- value is worked out from other fields and meeting metrics (see
+-- lib/kpiFormula.ts). `format` says how the result reads: a plain number or
+-- a percent. The targets that used to be hard-coded become formula fields.
+
+alter table public.kpi_fields
+  add column if not exists formula text,
+  add column if not exists format text not null default 'number';
+
+alter table public.kpi_fields drop constraint if exists kpi_fields_input_type_check;
+alter table public.kpi_fields
+  add constraint kpi_fields_input_type_check
+  check (input_type in ('number', 'text', 'formula'));
+
+alter table public.kpi_fields drop constraint if exists kpi_fields_format_check;
+alter table public.kpi_fields
+  add constraint kpi_fields_format_check
+  check (format in ('number', 'percent'));
+
+alter table public.kpi_fields drop constraint if exists kpi_fields_formula_check;
+alter table public.kpi_fields
+  add constraint kpi_fields_formula_check
+  check (input_type is distinct from 'formula' or nullif(trim(formula), '') is not null);
+
+insert into public.kpi_fields (key, label, active, sort_order, input_type, formula, format)
+select v.key, v.label, true, v.sort_order, 'formula', v.formula, v.format
+from (values
+  ('show_rate', 'Show rate (%)', 10, 'shows_booked / occurred_booked * 100', 'percent'),
+  ('ss2_rate', 'SS2 rate (%)', 20, 'ss2_moves / shows_taken * 100', 'percent'),
+  ('shows', 'Shows', 30, 'appointments_booked * show_rate / 100', 'number'),
+  ('moved_to_ss2', 'Moved to SS2', 40, 'shows * ss2_rate / 100', 'number')
+) as v(key, label, sort_order, formula, format)
+where not exists (select 1 from public.kpi_fields f where f.key = v.key);
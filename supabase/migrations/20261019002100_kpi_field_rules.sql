@@ -0,0 +1,35 @@
+-- Richer KPI field types and per-field entry rules. Values are checked in the
+-- form and again by /api/kpi-day (lib/kpiValidation.ts), which is now the only
+-- writer of daily KPI entries.
+
+alter table public.kpi_fields
+  add column if not exists required boolean not null default false,
+  add column if not exists min_value numeric,
+  add column if not exists max_value numeric,
+  add column if not exists help_text text,
+  add column if not exists options jsonb not null default '[]'::jsonb;
+
+alter table public.kpi_fields drop constraint if exists kpi_fields_input_type_check;
+alter table public.kpi_fields
+  add constraint kpi_fields_input_type_check
+  check (input_type in (
+    'number', 'integer', 'currency', 'percentage', 'duration', 'yes_no', 'select', 'text', 'formula'
+  ));
+
+alter table public.kpi_fields drop constraint if exists kpi_fields_range_check;
+alter table public.kpi_fields
+  add constraint kpi_fields_range_check
+  check (min_value is null or max_value is null or min_value <= max_value);
+
+alter table public.kpi_fields drop constraint if exists kpi_fields_options_check;
+alter table public.kpi_fields
+  add constraint kpi_fields_options_check
+  check (
+    jsonb_typeof(options) = 'array'
+    and (input_type is distinct from 'select' or jsonb_array_length(options) > 0)
+  );
+
+-- Entries go through the API route (service role) so the rules can't be
+-- skipped; people keep read access for their history and reports.
+revoke insert, update on public.kpi_daily_submissions from authenticated;
+revoke insert, update on public.kpi_daily_values from authenticated;
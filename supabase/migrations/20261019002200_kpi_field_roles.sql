@@ -0,0 +1,45 @@
+-- Role-specific KPI forms. A field with rows here is only on the form (and
+-- only reported) for those profiles.role values, in that role's sort_order;
+-- a field with no rows applies to everyone, as before.
+
+create table if not exists public.kpi_field_roles (
+  field_id uuid not null references public.kpi_fields(id) on delete cascade,
+  role text not null check (role = lower(trim(role)) and length(role) > 0),
+  sort_order integer not null default 100,
+  primary key (field_id, role)
+);
+
+create index if not exists kpi_field_roles_role_idx on public.kpi_field_roles (role, sort_order);
+
+alter table public.kpi_field_roles enable row level security;
+
+create policy "kpi_field_roles read" on public.kpi_field_roles
+  for select to authenticated using (true);
+
+create policy "kpi_field_roles admin write" on public.kpi_field_roles
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+-- Replace the role assignments of the given fields in one go, so a failed
+-- save can't leave fields with no roles (= on every form).
+-- p_rows: [{ "field_id": uuid, "role": text, "sort_order": int }, …]
+create or replace function public.set_kpi_field_roles(p_field_ids uuid[], p_rows jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can change KPI forms.' using errcode = '42501';
+  end if;
+
+  delete from kpi_field_roles where field_id = any(p_field_ids);
+
+  insert into kpi_field_roles (field_id, role, sort_order)
+  select (r->>'field_id')::uuid, lower(trim(r->>'role')), coalesce((r->>'sort_order')::int, 100)
+  from jsonb_array_elements(coalesce(p_rows, '[]'::jsonb)) r
+  where (r->>'field_id')::uuid = any(p_field_ids);
+end;
+$$;
+
+grant execute on function public.set_kpi_field_roles(uuid[], jsonb) to authenticated;
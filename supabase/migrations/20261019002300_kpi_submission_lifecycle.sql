@@ -0,0 +1,142 @@
+-- KPI submission lifecycle: draft → submitted → approved → locked.
+-- People save drafts and submit; a manager approves a submitted entry or
+-- returns it to draft with a comment. Approved entries lock once they're
+-- older than the cut-off (app_settings.kpi_edit_cutoff). Past the cut-off, or
+-- once approved, the owner can only edit through an admin unlock, which is
+-- kept as a record. Reports only count entries that have been submitted.
+
+alter table public.kpi_daily_submissions
+  add column if not exists status text,
+  add column if not exists submitted_at timestamptz,
+  add column if not exists reviewed_by uuid references public.profiles(id) on delete set null,
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists review_comment text,
+  add column if not exists locked_at timestamptz;
+
+insert into public.app_settings (key, value)
+values ('kpi_edit_cutoff', '{"days": 3}'::jsonb)
+on conflict (key) do nothing;
+
+-- Entries from before the lifecycle were never reviewed: count them as
+-- approved, and locked once they're past the cut-off, so they don't fill the
+-- review queue. New rows get their status from /api/kpi-day, so no default.
+update public.kpi_daily_submissions
+set status = case
+      when entry_date < (now() at time zone 'Australia/Melbourne')::date
+        - coalesce((select (value->>'days')::int from public.app_settings where key = 'kpi_edit_cutoff'), 3)
+      then 'locked'
+      else 'approved'
+    end
+where status is null;
+
+update public.kpi_daily_submissions
+set locked_at = now()
+where status = 'locked' and locked_at is null;
+
+alter table public.kpi_daily_submissions
+  alter column status drop default,
+  alter column status set not null;
+
+alter table public.kpi_daily_submissions drop constraint if exists kpi_daily_submissions_status_check;
+alter table public.kpi_daily_submissions
+  add constraint kpi_daily_submissions_status_check
+  check (status in ('draft', 'submitted', 'approved', 'locked'));
+
+create index if not exists kpi_daily_submissions_status_idx
+  on public.kpi_daily_submissions (status, entry_date)
+  where status = 'submitted';
+
+-- One row per unlock; the save that uses it stamps used_at.
+create table if not exists public.kpi_unlocks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  entry_date date not null,
+  reason text not null check (length(trim(reason)) > 0),
+  unlocked_by uuid default auth.uid() references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '2 days',
+  used_at timestamptz
+);
+
+create index if not exists kpi_unlocks_user_date_idx on public.kpi_unlocks (user_id, entry_date);
+
+alter table public.kpi_unlocks enable row level security;
+
+create policy "kpi_unlocks read" on public.kpi_unlocks
+  for select to authenticated using (user_id = auth.uid() or public.is_admin());
+
+create policy "kpi_unlocks admin insert" on public.kpi_unlocks
+  for insert to authenticated with check (public.is_admin() and unlocked_by = auth.uid());
+
+-- Approve, or return to draft with a comment. Only entries waiting for review.
+create or replace function public.review_kpi_submission(p_id uuid, p_approve boolean, p_comment text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only managers can review KPI entries.' using errcode = '42501';
+  end if;
+
+  if not p_approve and nullif(trim(coalesce(p_comment, '')), '') is null then
+    raise exception 'Add a comment when returning an entry.' using errcode = '23514';
+  end if;
+
+  update kpi_daily_submissions
+  set status = case when p_approve then 'approved' else 'draft' end,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_comment = nullif(trim(coalesce(p_comment, '')), '')
+  where id = p_id and status = 'submitted';
+
+  if not found then
+    raise exception 'That entry is no longer waiting for review.' using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+grant execute on function public.review_kpi_submission(uuid, boolean, text) to authenticated;
+
+-- Approved entries older than the cut-off become locked. Idempotent; called
+-- when the review queue loads and before every save.
+create or replace function public.lock_due_kpi_submissions()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  cutoff_days integer;
+  n integer;
+begin
+  select coalesce((value->>'days')::int, 3) into cutoff_days
+  from app_settings where key = 'kpi_edit_cutoff';
+
+  update kpi_daily_submissions
+  set status = 'locked', locked_at = now()
+  where status = 'approved'
+    and entry_date < (now() at time zone 'Australia/Melbourne')::date - coalesce(cutoff_days, 3);
+
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;
+
+grant execute on function public.lock_due_kpi_submissions() to authenticated;
+
+-- Drafts don't count until they're submitted.
+create or replace view public.kpi_daily_numbers
+with (security_invoker = true)
+as
+select
+  s.user_id,
+  s.entry_date,
+  f.key as field_key,
+  v.value_text::numeric as value
+from public.kpi_daily_values v
+join public.kpi_daily_submissions s on s.id = v.submission_id
+join public.kpi_fields f on f.id = v.field_id
+where v.value_text ~ '^\s*-?\d+(\.\d+)?\s*$'
+  and s.status <> 'draft';
@@ -0,0 +1,50 @@
+-- Reschedule in one transaction: mark the attempt rescheduled and create the
+-- linked follow-up, so a failure can't leave a duplicate or an orphan. The
+-- follow-up is booked by whoever rebooked it; the hub's "credit the original
+-- booker" setting decides whether its result goes back to the first booker.
+
+create or replace function public.reschedule_meeting(p_id uuid, p_meeting_at timestamptz)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m meetings%rowtype;
+  new_id uuid;
+begin
+  select * into m from meetings where id = p_id for update;
+
+  if not found or m.discarded_at is not null then
+    raise exception 'Meeting not found.' using errcode = 'P0002';
+  end if;
+
+  if not (public.is_admin() or auth.uid() in (m.booked_by_id, m.attended_by_id)) then
+    raise exception 'Only the setter, closer or an admin can reschedule this meeting.' using errcode = '42501';
+  end if;
+
+  if m.outcome = 'rescheduled' then
+    raise exception 'This meeting has already been rescheduled.' using errcode = '23514';
+  end if;
+
+  if p_meeting_at is null then
+    raise exception 'Pick a new date/time.' using errcode = '23502';
+  end if;
+
+  update meetings set outcome = 'rescheduled' where id = p_id;
+
+  insert into meetings (
+    meeting_name, meeting_at, booked_by_id, attended_by_id, lead_score, score_manual,
+    outcome, rescheduled_from_id, lead_id, source_id, campaign
+  )
+  values (
+    m.meeting_name, p_meeting_at, coalesce(auth.uid(), m.booked_by_id), m.attended_by_id, m.lead_score,
+    m.score_manual, 'scheduled', m.id, m.lead_id, m.source_id, m.campaign
+  )
+  returning id into new_id;
+
+  return new_id;
+end;
+$$;
+
+grant execute on function public.reschedule_meeting(uuid, timestamptz) to authenticated;